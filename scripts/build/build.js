@@ -24,8 +24,8 @@ let MODULE_VERSION = MODULE_PACKAGE_JSON.version;
 console.log('Making new TMP directory');
 fs.mkdirpSync(BUILD_TMP);
 
-// Fetch a list of the storages
-const STORAGES = fs.readdirSync(STORAGES_PATH);
+// Fetch a list of the storages, shared modules are compiled with the storages importing them
+const STORAGES = fs.readdirSync(STORAGES_PATH).filter(name => config.sharedModules.indexOf(name) === -1);
 
 // Build specific list of storages to build from arguments, if any
 let storagesToBuild = process.argv.slice(2),
@@ -66,6 +66,8 @@ const addStorageToQueue = storageName => {
         // Write tsconfig.json
         const tsConfig = JSON.parse(JSON.stringify(STORAGE_TS_CONFIG));
         tsConfig.files = [STORAGE_SRC_PATH];
+        // shared modules are output next to the storage, so every package is self-contained
+        tsConfig.compilerOptions.outDir = path.resolve(BUILD_DIST_ROOT, storageName);
 
         tsConfigPath = path.resolve(STORAGE_BUILD_DIR, 'tsconfig.json');
 
@@ -84,6 +86,8 @@ const addStorageToQueue = storageName => {
         packageJson.version = MODULE_VERSION;
         packageJson.description = packageJson.description.replace('{{STORAGE}}', storageName);
         packageJson.keywords.push(storageName);
+        packageJson.module = `${storageName}/index.js`;
+        packageJson.typings = `${storageName}/index.d.ts`;
 
         return fs.writeJsonAsync(path.resolve(BUILD_DIST_ROOT, storageName, 'package.json'), packageJson);
       })
@@ -0,0 +1,392 @@
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import 'mocha';
+
+import * as jioImport from 'jio';
+const addStorageStub = sinon.stub(jioImport.jIO, 'addStorage');
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { describeConformance } from '../conformance';
+import * as specs from './index';
+import storageName, {
+  FileSystemStorage, IFileSystemStorageOptions,
+  attachmentMetadata, encodeFileName, toJioError, ignoreNotFound,
+  readJson, readJournal, writeFileAtomic, mkdirp, removeDirectory, readFileRange, indexEntry
+} from './index';
+import { attachmentDigest } from '../local';
+
+let stubs: sinon.SinonStub[] = [];
+
+const directories: string[] = [];
+
+/**
+ * Create an empty directory, removed after the tests
+ */
+const temporaryDirectory = () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'clearroad-filesystem-'));
+  directories.push(directory);
+  return directory;
+};
+
+const readBlobAsText = async (blob: Blob) => {
+  const event = await jioImport.jIO.util.readBlobAsArrayBuffer(blob);
+  return Buffer.from(event.target.result).toString();
+};
+
+const textBlob = (text: string) => new jioImport.Blob([text], {type: 'text/plain'});
+
+const readJsonSync = (file: string) => JSON.parse(fs.readFileSync(file, 'utf8'));
+
+describe(storageName, () => {
+  beforeEach(() => {
+    stubs = [];
+  });
+
+  afterEach(() => {
+    stubs.forEach(stub => stub.restore());
+  });
+
+  after(async () => {
+    for (const directory of directories) {
+      await removeDirectory(directory);
+    }
+  });
+
+  it('should add the storage', () => {
+    expect(addStorageStub.calledWith(storageName, FileSystemStorage)).to.equal(true);
+  });
+
+  describe('attachmentMetadata', () => {
+    const attachment: any = {name: 'name', revision: 2, content_type: 'text/plain', length: 7, digest: 'sha256-digest'};
+
+    it('should not return the name', () => {
+      expect(attachmentMetadata(attachment)).to.deep.equal({revision: 2, content_type: 'text/plain', length: 7, digest: 'sha256-digest'});
+    });
+
+    it('should default the update date to the creation date', () => {
+      expect(attachmentMetadata({...attachment, createdAt: 'date'})).to.include({createdAt: 'date', updatedAt: 'date'});
+    });
+  });
+
+  describe('encodeFileName', () => {
+    it('should encode separators and dots', () => {
+      expect(encodeFileName('a/b\\c')).to.equal('a%2Fb%5Cc');
+      expect(encodeFileName('..')).to.equal('%2E%2E');
+      expect(encodeFileName('report.pdf')).to.equal('report%2Epdf');
+    });
+
+    it('should keep other characters readable', () => {
+      expect(encodeFileName('road-account_1')).to.equal('road-account_1');
+    });
+  });
+
+  describe('toJioError', () => {
+    it('should keep jIO errors', () => {
+      const error = new jioImport.jIO.util.jIOError('error', 404);
+      expect(toJioError(error)).to.equal(error);
+    });
+
+    it('should use 503 when files are busy', () => {
+      expect(toJioError({code: 'EBUSY'}).status_code).to.equal(503);
+      expect(toJioError({code: 'EMFILE'}).status_code).to.equal(503);
+    });
+
+    it('should use 500 otherwise', () => {
+      expect(toJioError({code: 'EACCES', message: 'denied'}).status_code).to.equal(500);
+      expect(toJioError(undefined).message).to.equal('Unknown file system error');
+    });
+  });
+
+  describe('ignoreNotFound', () => {
+    it('should resolve with null for missing files', async () => {
+      expect(await ignoreNotFound(Promise.reject({code: 'ENOENT'}))).to.equal(null);
+    });
+
+    it('should reject other errors', async () => {
+      const error = await ignoreNotFound(Promise.reject({code: 'EACCES'})).catch(err => err);
+      expect(error.code).to.equal('EACCES');
+    });
+  });
+
+  describe('files', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = temporaryDirectory();
+    });
+
+    it('should write a file and leave no temporary file', async () => {
+      const file = path.join(directory, 'file.json');
+      await writeFileAtomic(file, '{"version":1}');
+      await writeFileAtomic(file, '{"version":2}');
+      expect(await readJson(file)).to.deep.equal({version: 2});
+      expect(fs.readdirSync(directory)).to.deep.equal(['file.json']);
+    });
+
+    it('should remove the temporary file if the rename fails', async () => {
+      const file = path.join(directory, 'directory');
+      fs.mkdirSync(file);
+      fs.writeFileSync(path.join(file, 'content'), '');
+      const error = await writeFileAtomic(file, 'data').catch(err => err);
+      expect(error).to.be.an('error');
+      expect(fs.readdirSync(directory)).to.deep.equal(['directory']);
+    });
+
+    it('should read missing files as null', async () => {
+      expect(await readJson(path.join(directory, 'missing.json'))).to.equal(null);
+    });
+
+    it('should create and remove directories', async () => {
+      const nested = path.join(directory, 'a', 'b', 'c');
+      await mkdirp(nested);
+      await mkdirp(nested);
+      fs.writeFileSync(path.join(nested, 'file'), 'data');
+      await removeDirectory(path.join(directory, 'a'));
+      expect(fs.readdirSync(directory)).to.deep.equal([]);
+      await removeDirectory(path.join(directory, 'a'));
+    });
+
+    it('should read a range of a file', async () => {
+      const file = path.join(directory, 'file');
+      fs.writeFileSync(file, 'content');
+      expect((await readFileRange(file, {start: 1, end: 4})).toString()).to.equal('ont');
+      expect((await readFileRange(file, {start: 4, end: Infinity})).toString()).to.equal('ent');
+      expect((await readFileRange(file, {start: 2, end: 2})).length).to.equal(0);
+      const error = await readFileRange(path.join(directory, 'missing'), {start: 0, end: Infinity}).catch(err => err);
+      expect(error.code).to.equal('ENOENT');
+    });
+
+    it('should read the ids of a journal', async () => {
+      const file = path.join(directory, 'journal');
+      expect(await readJournal(file)).to.deep.equal([]);
+      fs.writeFileSync(file, '"1"\n"road/2"\n"1"\n"3');
+      expect(await readJournal(file)).to.deep.equal(['1', 'road/2']);
+    });
+  });
+
+  describe('indexEntry', () => {
+    it('should only keep the indexed fields', () => {
+      expect(indexEntry('id', {portal_type: 'Road Account', grouping_reference: 'report', other: 1})).to.deep.equal({
+        id: 'id',
+        portal_type: 'Road Account',
+        grouping_reference: 'report'
+      });
+      expect(indexEntry('id', {})).to.deep.equal({id: 'id'});
+    });
+  });
+
+  describe('FileSystemStorage', () => {
+    let directory: string;
+    let options: IFileSystemStorageOptions;
+
+    beforeEach(() => {
+      directory = temporaryDirectory();
+      options = {type: 'filesystem', directory};
+    });
+
+    describe('constructor', () => {
+      it('should require a directory', () => {
+        expect(() => new FileSystemStorage({type: 'filesystem'} as any)).to.throw('"directory" must be a non-empty string');
+      });
+
+      it('should create the directories and the index', async () => {
+        const storage = new FileSystemStorage({...options, directory: path.join(directory, 'nested')});
+        await storage.get('id');
+        expect(fs.readdirSync(path.join(directory, 'nested')).sort()).to.deep.equal(['attachments', 'documents', 'documents.index.json']);
+        expect(readJsonSync(path.join(directory, 'nested', 'documents.index.json'))).to.deep.equal([]);
+      });
+
+      it('should use the directory names from options', async () => {
+        const storage = new FileSystemStorage({...options, documentsTableName: 'docs', attachmentsTableName: 'files'});
+        await storage.get('id');
+        expect(fs.readdirSync(directory).sort()).to.deep.equal(['docs', 'docs.index.json', 'files']);
+      });
+
+      it('should reject every call if the directory cannot be created', async () => {
+        const file = path.join(directory, 'file');
+        fs.writeFileSync(file, '');
+        const storage = new FileSystemStorage({...options, directory: file});
+        const error = await storage.get('id').push(() => null, (err: any) => err);
+        expect(error.status_code).to.equal(500);
+      });
+    });
+
+    describe('.put', () => {
+      it('should save the document as a JSON file', async () => {
+        const storage = new FileSystemStorage(options);
+        await storage.put('road/1', {portal_type: 'Road Account'});
+        const document = readJsonSync(path.join(directory, 'documents', 'road%2F1.json'));
+        expect(document).to.include({id: 'road/1'});
+        expect(document.value).to.deep.equal({portal_type: 'Road Account'});
+        expect(document.createdAt).to.be.a('string');
+        expect(document).not.to.have.property('updatedAt');
+      });
+
+      it('should keep the creation date on update', async () => {
+        const storage = new FileSystemStorage(options);
+        await storage.put('id', {version: 1});
+        const {createdAt} = readJsonSync(path.join(directory, 'documents', 'id.json'));
+        await storage.put('id', {version: 2});
+        const document = readJsonSync(path.join(directory, 'documents', 'id.json'));
+        expect(document.createdAt).to.equal(createdAt);
+        expect(document.updatedAt).to.be.a('string');
+      });
+
+      it('should not date the document without timestamps', async () => {
+        const storage = new FileSystemStorage({...options, timestamps: false});
+        await storage.put('id', {});
+        expect(readJsonSync(path.join(directory, 'documents', 'id.json'))).to.deep.equal({id: 'id', value: {}});
+      });
+
+      it('should journal the id, then write the index on close', async () => {
+        const storage = new FileSystemStorage(options);
+        await storage.put('1', {portal_type: 'Road Account', other: 1});
+        await storage.put('2', {grouping_reference: 'report'});
+        await storage.remove('2');
+        expect(fs.readFileSync(path.join(directory, 'documents.index.journal'), 'utf8')).to.equal('"1"\n"2"\n"2"\n');
+        expect(readJsonSync(path.join(directory, 'documents.index.json'))).to.deep.equal([]);
+        await storage.close();
+        expect(readJsonSync(path.join(directory, 'documents.index.json'))).to.deep.equal([{id: '1', portal_type: 'Road Account'}]);
+        expect(fs.existsSync(path.join(directory, 'documents.index.journal'))).to.equal(false);
+      });
+    });
+
+    describe('.putAttachment', () => {
+      it('should save the content as a raw file with its metadata', async () => {
+        const storage = new FileSystemStorage({...options, timestamps: false});
+        await storage.putAttachment('id', 'report.txt', textBlob('content'));
+        const attachments = path.join(directory, 'attachments', 'id');
+        expect(fs.readdirSync(attachments).sort()).to.deep.equal(['report%2Etxt', 'report%2Etxt.json']);
+        expect(fs.readFileSync(path.join(attachments, 'report%2Etxt'), 'utf8')).to.equal('content');
+        expect(readJsonSync(path.join(attachments, 'report%2Etxt.json'))).to.deep.equal({
+          name: 'report.txt',
+          revision: 1,
+          content_type: 'text/plain',
+          length: 7,
+          digest: attachmentDigest(Buffer.from('content'))
+        });
+      });
+
+      it('should only read the range from the file', async () => {
+        const storage = new FileSystemStorage(options);
+        await storage.putAttachment('id', 'name', textBlob('content'));
+        const readFileRangeSpy = sinon.spy(specs, 'readFileRange');
+        stubs.push(readFileRangeSpy as any);
+        expect(await readBlobAsText(await storage.getAttachment('id', 'name', {start: 1, end: 4}))).to.equal('ont');
+        expect(readFileRangeSpy.calledWith(path.join(directory, 'attachments', 'id', 'name'), {start: 1, end: 4})).to.equal(true);
+      });
+
+      it('should remove the files with the attachment', async () => {
+        const storage = new FileSystemStorage(options);
+        await storage.putAttachment('id', 'name', textBlob('content'));
+        await storage.removeAttachment('id', 'name');
+        expect(fs.readdirSync(path.join(directory, 'attachments', 'id'))).to.deep.equal([]);
+      });
+
+      it('should throw an error if the content is missing', async () => {
+        const storage = new FileSystemStorage(options);
+        await storage.putAttachment('id', 'name', textBlob('content'));
+        fs.unlinkSync(path.join(directory, 'attachments', 'id', 'name'));
+        const error = await storage.getAttachment('id', 'name').push(() => null, (err: any) => err);
+        expect(error.status_code).to.equal(404);
+      });
+    });
+
+    describe('.buildQuery', () => {
+      let storage: FileSystemStorage;
+      let readJsonSpy: sinon.SinonSpy;
+
+      const documentsRead = () => readJsonSpy.getCalls().filter(call => call.args[0].indexOf(`${path.join(directory, 'documents')}${path.sep}`) === 0).length;
+
+      beforeEach(async () => {
+        storage = new FileSystemStorage(options);
+        await storage.put('1', {portal_type: 'Road Account', grouping_reference: 'report', name: 'b'});
+        await storage.put('2', {portal_type: 'Road Account', grouping_reference: 'data', name: 'a'});
+        await storage.put('3', {portal_type: 'Road Message', grouping_reference: 'report', name: 'c'});
+        readJsonSpy = sinon.spy(specs, 'readJson');
+        stubs.push(readJsonSpy as any);
+      });
+
+      it('should only read the index for indexed fields', async () => {
+        const results = await storage.buildQuery({
+          query: 'portal_type: "Road Account"',
+          sort_on: [['grouping_reference', 'ascending']],
+          select_list: ['grouping_reference']
+        });
+        expect(results).to.deep.equal([{id: '2', value: {grouping_reference: 'data'}}, {id: '1', value: {grouping_reference: 'report'}}]);
+        expect(documentsRead()).to.equal(0);
+      });
+
+      it('should only read the included documents', async () => {
+        const results = await storage.buildQuery({query: 'grouping_reference: "report"', include_docs: true, limit: [0, 1], sort_on: [['portal_type', 'ascending']]});
+        expect(results).to.deep.equal([{id: '1', doc: {portal_type: 'Road Account', grouping_reference: 'report', name: 'b'}}]);
+        expect(documentsRead()).to.equal(1);
+      });
+
+      it('should read the documents for other fields', async () => {
+        const results = await storage.buildQuery({query: 'name: "a"'});
+        expect(results).to.deep.equal([{id: '2'}]);
+        expect(documentsRead()).to.equal(3);
+      });
+    });
+
+    describe('.reindex', () => {
+      it('should rebuild the index from the documents', async () => {
+        let storage = new FileSystemStorage(options);
+        await storage.put('1', {portal_type: 'Road Account'});
+        await storage.close();
+        fs.writeFileSync(path.join(directory, 'documents', '2.json'), JSON.stringify({id: '2', value: {portal_type: 'Road Message'}}));
+
+        storage = new FileSystemStorage(options);
+        await storage.reindex();
+        const results = await storage.buildQuery({query: 'portal_type: "Road Message"'});
+        expect(results).to.deep.equal([{id: '2'}]);
+      });
+
+      it('should rebuild a missing index when opened', async () => {
+        let storage = new FileSystemStorage(options);
+        await storage.put('1', {portal_type: 'Road Account'});
+        await storage.close();
+        fs.unlinkSync(path.join(directory, 'documents.index.json'));
+
+        storage = new FileSystemStorage(options);
+        expect(await storage.buildQuery({query: 'portal_type: "Road Account"'})).to.deep.equal([{id: '1'}]);
+      });
+
+      it('should read the documents of the journal again when opened', async () => {
+        let storage = new FileSystemStorage(options);
+        await storage.put('1', {portal_type: 'Road Account'});
+        await storage.put('2', {portal_type: 'Road Account'});
+        await storage.close();
+        // the process stopped after journaling these ids, before or after writing their documents
+        fs.writeFileSync(path.join(directory, 'documents', '3.json'), JSON.stringify({id: '3', value: {portal_type: 'Road Message'}}));
+        fs.unlinkSync(path.join(directory, 'documents', '2.json'));
+        fs.writeFileSync(path.join(directory, 'documents.index.journal'), '"2"\n"3"\n"4"\n');
+
+        storage = new FileSystemStorage(options);
+        expect(await storage.buildQuery({query: 'portal_type: "Road%"'})).to.deep.equal([{id: '1'}, {id: '3'}]);
+        expect(readJsonSync(path.join(directory, 'documents.index.json'))).to.have.length(2);
+        expect(fs.existsSync(path.join(directory, 'documents.index.journal'))).to.equal(false);
+      });
+    });
+
+    describe('.close', () => {
+      it('should fail any further call', async () => {
+        const storage = new FileSystemStorage(options);
+        await storage.put('id', {});
+        await storage.close();
+        expect(fs.existsSync(path.join(directory, 'documents', 'id.json'))).to.equal(true);
+        const error = await storage.get('id').push(() => null, (err: any) => err);
+        expect(error.message).to.equal('Filesystem storage is closed');
+        expect(error.status_code).to.equal(503);
+      });
+    });
+  });
+});
+
+describeConformance(storageName, ({timestamps}) => new FileSystemStorage({type: 'filesystem', directory: temporaryDirectory(), timestamps}));
+
+addStorageStub.restore();
@@ -0,0 +1,778 @@
+import {
+  getQueue, promiseToQueue,
+  IJioStorage, IClearRoadOptions, IJioQueryOptions,
+  queryPortalType,
+  queryGroupingReference
+} from '@clearroad/api';
+import { jIO, Blob as JioBlob } from 'jio';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { randomBytes } from 'crypto';
+
+import {
+  IQueryRow, parseQuery, queryKeys, queryFilter, querySort, queryLimit, queryParseDocument
+} from '../query';
+import { IAttachmentRange, attachmentRange, attachmentDigest, convertError } from '../local';
+
+/**
+ * @internal
+ */
+export const defaultDocumentsCollection = 'documents';
+/**
+ * @internal
+ */
+export const defaultAttachmentsCollection = 'attachments';
+/**
+ * Fields kept in the index file, the ones indexed by the other storages
+ * @internal
+ */
+export const indexedKeys = [queryPortalType, queryGroupingReference];
+/**
+ * Writes appended to the index journal before the index file is written again
+ * @internal
+ */
+export const indexJournalLimit = 1000;
+
+const readFile = promisify(fs.readFile);
+const writeFile = promisify(fs.writeFile);
+const appendFile = promisify(fs.appendFile);
+const rename = promisify(fs.rename);
+const unlink = promisify(fs.unlink);
+const readdir = promisify(fs.readdir);
+const mkdir = promisify(fs.mkdir);
+const rmdir = promisify(fs.rmdir);
+const lstat = promisify(fs.lstat);
+
+export interface IFileSystemStorageOptions {
+  type: 'filesystem';
+  /**
+   * Directory where documents and attachments are saved, created if it does not exist.
+   */
+  directory: string;
+  /**
+   * Directory name for all documents, within `directory`.
+   */
+  documentsTableName?: string;
+  /**
+   * Directory name for attachments, within `directory`.
+   */
+  attachmentsTableName?: string;
+  /**
+   * Add created/updatedAt timestamps for every document.
+   * Enabled by default for both
+   */
+  timestamps?: boolean;
+}
+
+export interface IFileSystemAttachmentOptions {
+  /**
+   * First byte to get, `0` by default
+   */
+  start?: number;
+  /**
+   * Byte after the last one to get, the end of the attachment by default
+   */
+  end?: number;
+}
+
+/**
+ * Content of a document file, dates are ISO strings
+ * @internal
+ */
+export interface IFileSystemDocument {
+  id: string;
+  value: any;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Content of the metadata file saved next to an attachment, dates are ISO strings
+ * @internal
+ */
+export interface IFileSystemAttachment {
+  name: string;
+  revision: number;
+  content_type: string;
+  length: number;
+  digest: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Attachment metadata returned by `allAttachments`
+ */
+export interface IFileSystemAttachmentMetadata {
+  revision: number;
+  content_type: string;
+  length: number;
+  /**
+   * Digest of the content, as `sha256-<hex>`
+   */
+  digest: string;
+  /**
+   * ISO date of the first version, only with the `timestamps` option
+   */
+  createdAt?: string;
+  /**
+   * ISO date of the current version, only with the `timestamps` option
+   */
+  updatedAt?: string;
+}
+
+/**
+ * Indexed fields of a document, as saved in the index file
+ * @internal
+ */
+export interface IFileSystemIndexEntry {
+  id: string;
+  [key: string]: any;
+}
+
+interface IFileSystemQueryRow extends IQueryRow {
+  /**
+   * Document, only the indexed fields when read from the index
+   */
+  value: any;
+  fromIndex: boolean;
+}
+
+/**
+ * @internal
+ * @param attachment
+ */
+export const attachmentMetadata = (attachment: IFileSystemAttachment) => {
+  const metadata: IFileSystemAttachmentMetadata = {
+    revision: attachment.revision,
+    content_type: attachment.content_type,
+    length: attachment.length,
+    digest: attachment.digest
+  };
+  if (attachment.createdAt) {
+    metadata.createdAt = attachment.createdAt;
+    metadata.updatedAt = attachment.updatedAt || attachment.createdAt;
+  }
+  return metadata;
+};
+
+/**
+ * File name of an id or an attachment name.
+ * Dots are encoded as well, so names are never `.` or `..` and never end like the metadata and temporary files
+ * @internal
+ * @param name
+ */
+export const encodeFileName = (name: string) => {
+  return encodeURIComponent(name).replace(/[.!'()*~]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+};
+
+const unavailableErrorCodes = ['EBUSY', 'EAGAIN', 'EMFILE', 'ENFILE'];
+
+/**
+ * Convert a file system error to a jIO error, `503` when the files are busy or too many are open, `500` otherwise
+ * @internal
+ * @param error
+ */
+export const toJioError = (error: any) => {
+  return convertError(error, 'Unknown file system error', ({code}) => unavailableErrorCodes.indexOf(code) > -1);
+};
+
+const isNotFound = (error: any) => !!error && error.code === 'ENOENT';
+
+/**
+ * Resolve with `null` instead of rejecting when the file does not exist
+ * @internal
+ * @param promise
+ */
+export const ignoreNotFound = <T>(promise: Promise<T>) => promise.catch((error): T|null => {
+  if (isNotFound(error)) {
+    return null;
+  }
+  throw error;
+});
+
+/**
+ * @internal
+ * @param file
+ */
+export const readJson = async <T>(file: string): Promise<T|null> => {
+  const content = await ignoreNotFound(readFile(file, 'utf8'));
+  return content === null ? null : JSON.parse(content);
+};
+
+const parseJournalLine = (line: string): string|null => {
+  try {
+    return JSON.parse(line);
+  }
+  catch (error) {
+    // the last line is incomplete if the process stopped while appending it
+    return null;
+  }
+};
+
+/**
+ * Ids written in the index journal, one JSON string per line
+ * @internal
+ * @param file
+ */
+export const readJournal = async (file: string) => {
+  const content = await ignoreNotFound(readFile(file, 'utf8'));
+  const ids: string[] = [];
+  (content || '').split('\n').map(parseJournalLine).forEach(id => {
+    if (id !== null && ids.indexOf(id) === -1) {
+      ids.push(id);
+    }
+  });
+  return ids;
+};
+
+/**
+ * Write a temporary file next to the file, then rename it, so the file is either the previous or the new one
+ * @internal
+ * @param file
+ * @param data
+ */
+export const writeFileAtomic = async (file: string, data: string|Buffer) => {
+  const temporary = `${file}.${randomBytes(6).toString('hex')}.tmp`;
+  try {
+    await writeFile(temporary, data);
+    await rename(temporary, file);
+  }
+  catch (error) {
+    await ignoreNotFound(unlink(temporary));
+    throw error;
+  }
+};
+
+/**
+ * Create a directory and its parents
+ * @internal
+ * @param directory
+ */
+export const mkdirp = async (directory: string): Promise<void> => {
+  try {
+    await mkdir(directory);
+  }
+  catch (error) {
+    if (error.code === 'EEXIST') {
+      return;
+    }
+    if (!isNotFound(error)) {
+      throw error;
+    }
+    await mkdirp(path.dirname(directory));
+    await mkdirp(directory);
+  }
+};
+
+/**
+ * Remove a directory with its content, if it exists
+ * @internal
+ * @param directory
+ */
+export const removeDirectory = async (directory: string): Promise<void> => {
+  const files = await ignoreNotFound(readdir(directory));
+  if (files === null) {
+    return;
+  }
+  for (const file of files) {
+    const filePath = path.join(directory, file);
+    const stats = await lstat(filePath);
+    await (stats.isDirectory() ? removeDirectory(filePath) : unlink(filePath));
+  }
+  await ignoreNotFound(rmdir(directory));
+};
+
+/**
+ * Read a range of a file, only the range is read from the disk
+ * @internal
+ * @param file
+ * @param range
+ */
+export const readFileRange = async (file: string, {start, end}: IAttachmentRange) => {
+  if (start === end) {
+    // the end of a read stream is included, it cannot be empty
+    await lstat(file);
+    return Buffer.alloc(0);
+  }
+  return new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    fs.createReadStream(file, end === Infinity ? {start} : {start, end: end - 1})
+      .on('data', (chunk: Buffer) => chunks.push(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(Buffer.concat(chunks)));
+  });
+};
+
+/**
+ * Indexed fields of a document
+ * @internal
+ * @param doc
+ */
+export const indexEntry = (id: string, doc: any) => {
+  const entry: IFileSystemIndexEntry = {id};
+  indexedKeys.forEach(key => {
+    if (doc && doc[key] !== undefined) {
+      entry[key] = doc[key];
+    }
+  });
+  return entry;
+};
+
+const isIndexed = (key: string) => indexedKeys.indexOf(key) > -1;
+
+/**
+ * Queries and sorts only using indexed fields are evaluated on the index
+ * @param options
+ * @param query
+ */
+const isIndexQuery = (options: IJioQueryOptions, query: ReturnType<typeof parseQuery>) => {
+  const keys = (options.sort_on || []).map(([key]) => key);
+  return (query ? queryKeys(query) : []).concat(keys).every(isIndexed);
+};
+
+/**
+ * Documents are read when they are included or values are selected out of the index
+ * @param includeDoc
+ * @param selectList
+ */
+const isDocumentNeeded = (includeDoc: boolean, selectList: string[]) => includeDoc || !selectList.every(isIndexed);
+
+/**
+ * `modification_date` is the creation date like in the SQL storages
+ * @param document
+ */
+const documentRow = (document: IFileSystemDocument): IFileSystemQueryRow => ({
+  id: document.id,
+  value: document.value,
+  fromIndex: false,
+  field: key => key === 'modification_date' ? document.createdAt : document.value[key]
+});
+
+/**
+ * Keep the creation date of the previous version
+ * @param previous
+ * @param now
+ */
+const createdAt = (previous: {createdAt?: string}|null, now: string) => previous && previous.createdAt ? previous.createdAt : now;
+
+const requireOptionDirectory = (options: IFileSystemStorageOptions) => {
+  if (typeof options.directory !== 'string' || !options.directory) {
+    throw new Error('"directory" must be a non-empty string');
+  }
+};
+
+const requireOptionTableNames = (options: IFileSystemStorageOptions) => {
+  if (!options.documentsTableName) {
+    options.documentsTableName = defaultDocumentsCollection;
+  }
+  if (!options.attachmentsTableName) {
+    options.attachmentsTableName = defaultAttachmentsCollection;
+  }
+};
+
+/**
+ * @internal
+ */
+export class FileSystemStorage implements IJioStorage {
+  private _documentsDirectory: string;
+  private _attachmentsDirectory: string;
+  private _indexFile: string;
+  private _journalFile: string;
+  private _journalLength = 0;
+  private _timestamps = true;
+  private _ready: Promise<void>;
+  private _index = new Map<string, IFileSystemIndexEntry>();
+  private _writing: Promise<any> = Promise.resolve();
+  private _pending: Array<Promise<void>> = [];
+  private _closing: Promise<void>;
+
+  /**
+   * Initiate a File System Storage.
+   * @param options Storage options
+   */
+  constructor(options: IFileSystemStorageOptions) {
+    requireOptionDirectory(options);
+    requireOptionTableNames(options);
+    this._documentsDirectory = path.resolve(options.directory, options.documentsTableName!);
+    this._attachmentsDirectory = path.resolve(options.directory, options.attachmentsTableName!);
+    this._indexFile = path.resolve(options.directory, `${options.documentsTableName}.index.json`);
+    this._journalFile = path.resolve(options.directory, `${options.documentsTableName}.index.journal`);
+    if (options.timestamps === false) {
+      this._timestamps = false;
+    }
+    this._ready = this.initDirectory();
+    // failures are reported by every call
+    this._ready.catch(() => {});
+  }
+
+  /**
+   * Create the directories and load the index, rebuilt if its file does not exist.
+   * Documents in the journal may have been written after the index file, or not at all if the process stopped,
+   * so their entries are read again from the documents.
+   * @internal
+   */
+  private async initDirectory() {
+    await mkdirp(this._documentsDirectory);
+    await mkdirp(this._attachmentsDirectory);
+    const entries = await readJson<IFileSystemIndexEntry[]>(this._indexFile);
+    if (!entries) {
+      return this.rebuildIndex();
+    }
+    entries.forEach(entry => this._index.set(entry.id, entry));
+    const ids = await readJournal(this._journalFile);
+    if (ids.length) {
+      for (const id of ids) {
+        await this.reconcileEntry(id);
+      }
+      await this.saveIndex();
+    }
+  }
+
+  /**
+   * Set the index entry of a document from its file, or remove it if the file does not exist
+   * @internal
+   * @param id
+   */
+  private async reconcileEntry(id: string) {
+    const document = await readJson<IFileSystemDocument>(this.documentFile(id));
+    if (document) {
+      this._index.set(id, indexEntry(id, document.value));
+    }
+    else {
+      this._index.delete(id);
+    }
+  }
+
+  /**
+   * Read every document to write the index file again
+   * @internal
+   */
+  private async rebuildIndex() {
+    const index = new Map<string, IFileSystemIndexEntry>();
+    const files = (await readdir(this._documentsDirectory)).filter(file => path.extname(file) === '.json');
+    for (const file of files) {
+      const document = await readJson<IFileSystemDocument>(path.join(this._documentsDirectory, file));
+      if (document) {
+        index.set(document.id, indexEntry(document.id, document.value));
+      }
+    }
+    this._index = index;
+    await this.saveIndex();
+  }
+
+  /**
+   * Run an operation once the directory is ready, unless the storage is closed.
+   * @internal
+   * @param operation
+   */
+  private run<T>(operation: () => Promise<T>) {
+    return getQueue().push(() => {
+      if (this._closing) {
+        throw new jIO.util.jIOError(
+          'Filesystem storage is closed',
+          503
+        );
+      }
+      const promise = this._ready.then(operation).catch(error => {
+        throw toJioError(error);
+      });
+      return promiseToQueue(this.track(promise));
+    });
+  }
+
+  /**
+   * Run an operation modifying files once the previous ones are done, so the index is written in order.
+   * @internal
+   * @param operation
+   */
+  private write<T>(operation: (now: string) => Promise<T>) {
+    return this.run(() => {
+      const promise = this._writing.then(() => operation(new Date().toISOString()));
+      this._writing = promise.catch(() => {});
+      return promise;
+    });
+  }
+
+  /**
+   * Keep track of a running operation until it settles, so `close` can wait for it.
+   * @internal
+   * @param promise
+   */
+  private track<T>(promise: Promise<T>) {
+    const pending = promise.then(() => {}, () => {});
+    this._pending.push(pending);
+    pending.then(() => this._pending.splice(this._pending.indexOf(pending), 1));
+    return promise;
+  }
+
+  /**
+   * @internal
+   */
+  private documentFile(id: string) {
+    return path.join(this._documentsDirectory, `${encodeFileName(id)}.json`);
+  }
+
+  /**
+   * @internal
+   */
+  private attachmentsDirectory(id: string) {
+    return path.join(this._attachmentsDirectory, encodeFileName(id));
+  }
+
+  /**
+   * @internal
+   */
+  private attachmentFile(id: string, name: string) {
+    return path.join(this.attachmentsDirectory(id), encodeFileName(name));
+  }
+
+  /**
+   * @internal
+   */
+  private attachmentMetadataFile(id: string, name: string) {
+    return `${this.attachmentFile(id, name)}.json`;
+  }
+
+  /**
+   * Write the index file, then empty the journal
+   * @internal
+   */
+  private async saveIndex() {
+    const entries: IFileSystemIndexEntry[] = [];
+    this._index.forEach(entry => entries.push(entry));
+    await writeFileAtomic(this._indexFile, JSON.stringify(entries));
+    await ignoreNotFound(unlink(this._journalFile));
+    this._journalLength = 0;
+  }
+
+  /**
+   * Add the id to the journal before its document is written, so its entry is read again if the process stops
+   * @internal
+   * @param id
+   */
+  private journal(id: string) {
+    this._journalLength++;
+    return appendFile(this._journalFile, `${JSON.stringify(id)}\n`);
+  }
+
+  /**
+   * Write the index file once the journal is long enough, instead of on every write
+   * @internal
+   */
+  private async compactIndex() {
+    if (this._journalLength >= indexJournalLimit) {
+      await this.saveIndex();
+    }
+  }
+
+  get(id: string) {
+    return this.run(async () => {
+      const document = await readJson<IFileSystemDocument>(this.documentFile(id));
+      return document ? document.value : null;
+    });
+  }
+
+  put(id: string, data: any) {
+    return this.write(async now => {
+      const file = this.documentFile(id);
+      const previous = await readJson<IFileSystemDocument>(file);
+      const document: IFileSystemDocument = {id, value: data};
+      if (this._timestamps) {
+        // createdAt is kept on update
+        document.createdAt = createdAt(previous, now);
+        if (previous) {
+          document.updatedAt = now;
+        }
+      }
+      await this.journal(id);
+      await writeFileAtomic(file, JSON.stringify(document));
+      this._index.set(id, indexEntry(id, data));
+      await this.compactIndex();
+      return id;
+    });
+  }
+
+  /**
+   * Remove a document and its attachments
+   * @param id
+   */
+  remove(id: string) {
+    return this.write(async () => {
+      await this.journal(id);
+      await ignoreNotFound(unlink(this.documentFile(id)));
+      await removeDirectory(this.attachmentsDirectory(id));
+      this._index.delete(id);
+      await this.compactIndex();
+      return id;
+    });
+  }
+
+  getAttachment(id: string, name: string, options: IFileSystemAttachmentOptions = {}) {
+    const range = attachmentRange(options);
+    return this.run(async () => {
+      const attachment = await readJson<IFileSystemAttachment>(this.attachmentMetadataFile(id, name));
+      const data = attachment ? await ignoreNotFound(readFileRange(this.attachmentFile(id, name), range)) : null;
+      if (attachment && data) {
+        return new JioBlob([data], {type: attachment.content_type});
+      }
+      throw new jIO.util.jIOError(
+        `Cannot find attachment: ${id}`,
+        404
+      );
+    });
+  }
+
+  /**
+   * Save the content of an attachment as a raw file, then its metadata next to it
+   * @param id
+   * @param name
+   * @param blob
+   */
+  putAttachment(id: string, name: string, blob: Blob) {
+    return getQueue()
+      .push(() => {
+        return jIO.util.readBlobAsArrayBuffer(blob);
+      })
+      .push(event => this.write(async now => {
+        const data = Buffer.from(event.target.result);
+        const metadataFile = this.attachmentMetadataFile(id, name);
+        const previous = await readJson<IFileSystemAttachment>(metadataFile);
+        const attachment: IFileSystemAttachment = {
+          name,
+          revision: previous ? previous.revision + 1 : 1,
+          content_type: blob.type || '',
+          length: data.length,
+          digest: attachmentDigest(data)
+        };
+        if (this._timestamps) {
+          attachment.createdAt = createdAt(previous, now);
+          attachment.updatedAt = now;
+        }
+        await mkdirp(this.attachmentsDirectory(id));
+        await writeFileAtomic(this.attachmentFile(id, name), data);
+        await writeFileAtomic(metadataFile, JSON.stringify(attachment));
+      }));
+  }
+
+  removeAttachment(id: string, name: string) {
+    return this.write(async () => {
+      await ignoreNotFound(unlink(this.attachmentMetadataFile(id, name)));
+      await ignoreNotFound(unlink(this.attachmentFile(id, name)));
+      return id;
+    });
+  }
+
+  /**
+   * List the attachments of a document with their metadata, without reading their content
+   * @param id
+   */
+  allAttachments(id: string) {
+    return this.run(async () => {
+      const directory = this.attachmentsDirectory(id);
+      const files = (await ignoreNotFound(readdir(directory)) || []).filter(file => path.extname(file) === '.json');
+      const attachments: {[name: string]: IFileSystemAttachmentMetadata} = {};
+      for (const file of files) {
+        const attachment = await readJson<IFileSystemAttachment>(path.join(directory, file));
+        if (attachment) {
+          attachments[attachment.name] = attachmentMetadata(attachment);
+        }
+      }
+      return attachments;
+    });
+  }
+
+  /**
+   * Queries on other fields than the indexed ones read every document
+   */
+  hasCapacity() {
+    return true;
+  }
+
+  /**
+   * Read every document to write the index file again, after documents were copied into the directory
+   * or if the index file was modified.
+   */
+  reindex() {
+    return this.write(() => this.rebuildIndex());
+  }
+
+  /**
+   * Wait for running operations to finish and write the index file. Any further call to the storage fails.
+   */
+  close() {
+    if (!this._closing) {
+      this._closing = this._ready
+        .catch(() => {})
+        .then(() => Promise.all(this._pending))
+        .then(() => this._journalLength ? this.saveIndex() : undefined)
+        // the journal is kept if the index file cannot be written, and read again when the storage is opened
+        .catch(() => {});
+    }
+    return promiseToQueue(this._closing);
+  }
+
+  /**
+   * Rows of the index, or of the documents when the query or the sort use other fields.
+   * @internal
+   */
+  private async queryRows(options: IJioQueryOptions, query: ReturnType<typeof parseQuery>) {
+    const rows: IFileSystemQueryRow[] = [];
+    if (isIndexQuery(options, query)) {
+      this._index.forEach(entry => rows.push({id: entry.id, value: entry, fromIndex: true, field: key => entry[key]}));
+      return rows;
+    }
+    const ids: string[] = [];
+    this._index.forEach((_entry, id) => ids.push(id));
+    for (const id of ids) {
+      const document = await readJson<IFileSystemDocument>(this.documentFile(id));
+      if (document) {
+        rows.push(documentRow(document));
+      }
+    }
+    return rows;
+  }
+
+  /**
+   * @internal
+   */
+  private async queryDocument(row: IFileSystemQueryRow, includeDoc: boolean, selectList: string[]) {
+    if (!row.fromIndex || !isDocumentNeeded(includeDoc, selectList)) {
+      return queryParseDocument(row.id, row.value, includeDoc, selectList);
+    }
+    const document = await readJson<IFileSystemDocument>(this.documentFile(row.id));
+    return queryParseDocument(row.id, document ? document.value : {}, includeDoc, selectList);
+  }
+
+  /**
+   * Queries, sorts and limits on `portal_type` and `grouping_reference` only read the index file,
+   * documents are then read if they are included or other values are selected
+   * @param options
+   */
+  buildQuery(options: IJioQueryOptions = {query: ''}) {
+    return this.run(async () => {
+      const query = parseQuery(options);
+      const rows = queryLimit(querySort(queryFilter(await this.queryRows(options, query), query), options), options);
+      const selectList = (options.select_list || []).slice();
+      const results: any[] = [];
+      for (const row of rows) {
+        results.push(await this.queryDocument(row, options.include_docs || false, selectList));
+      }
+      return results;
+    });
+  }
+}
+
+export interface IFileSystemOptions extends IClearRoadOptions {
+  localStorage: IFileSystemStorageOptions;
+  /**
+   * Queries are evaluated on the files
+   */
+  useQueryStorage?: false;
+}
+
+const storageName = 'filesystem';
+jIO.addStorage(storageName, FileSystemStorage);
+export default storageName;
@@ -0,0 +1,296 @@
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import 'mocha';
+
+import * as jioImport from 'jio';
+const addStorageStub = sinon.stub(jioImport.jIO, 'addStorage');
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as level from 'level';
+import * as rimraf from 'rimraf';
+
+import { describeConformance } from '../conformance';
+import * as specs from './index';
+import storageName, {
+  LevelDBStorage,
+  attachmentMetadata, escapeKeyPart, encodeKey, keyRange, indexRange, queryScan,
+  indexEntry, indexKeys, fromValue, toJioError, getValue, readKeys
+} from './index';
+
+let stubs: sinon.SinonStub[] = [];
+
+const directories: string[] = [];
+
+/**
+ * Create an empty directory for a database, removed after the tests
+ */
+const temporaryDirectory = () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'clearroad-leveldb-'));
+  directories.push(directory);
+  return directory;
+};
+
+const openDatabase = () => level(temporaryDirectory(), {valueEncoding: 'binary'});
+
+const readBlobAsText = async (blob: Blob) => {
+  const event = await jioImport.jIO.util.readBlobAsArrayBuffer(blob);
+  return Buffer.from(event.target.result).toString();
+};
+
+const textBlob = (text: string) => new jioImport.Blob([text], {type: 'text/plain'});
+
+describe(storageName, () => {
+  beforeEach(() => {
+    stubs = [];
+  });
+
+  afterEach(() => {
+    stubs.forEach(stub => stub.restore());
+  });
+
+  after(() => {
+    directories.forEach(directory => rimraf.sync(directory));
+  });
+
+  it('should add the storage', () => {
+    expect(addStorageStub.calledWith(storageName, LevelDBStorage)).to.equal(true);
+  });
+
+  describe('attachmentMetadata', () => {
+    it('should default the update date to the creation date', () => {
+      const attachment: any = {name: 'name', revision: 1, content_type: 'text/plain', length: 7, digest: 'sha256-digest', createdAt: 'date'};
+      expect(attachmentMetadata(attachment)).to.deep.equal({
+        revision: 1, content_type: 'text/plain', length: 7, digest: 'sha256-digest', createdAt: 'date', updatedAt: 'date'
+      });
+    });
+  });
+
+  describe('keys', () => {
+    it('should escape the separator', () => {
+      expect(escapeKeyPart('a\x00b\x01c')).to.equal('a\x01\x01b\x01\x02c');
+      expect(encodeKey('documents', 'a\x00b')).to.equal('documents\x00a\x01\x01b');
+    });
+
+    it('should keep the order of values', () => {
+      const values = ['', 'a', 'a\x00', 'a\x01', 'a\x02', 'ab', 'b'];
+      const keys = values.map(value => encodeKey('index', value, 'id'));
+      expect(keys.slice().sort()).to.deep.equal(keys);
+    });
+
+    it('should get the range of keys starting with parts', () => {
+      const range = keyRange('attachments', 'id');
+      const inRange = (key: string) => key >= range.gte && key < range.lt;
+      expect(inRange(encodeKey('attachments', 'id', 'name'))).to.equal(true);
+      expect(inRange(encodeKey('attachments', 'id', ''))).to.equal(true);
+      expect(inRange(encodeKey('attachments', 'id'))).to.equal(false);
+      expect(inRange(encodeKey('attachments', 'id2', 'name'))).to.equal(false);
+      expect(inRange(encodeKey('attachments', 'id\x00', 'name'))).to.equal(false);
+    });
+  });
+
+  describe('indexRange', () => {
+    const keys = ['a', 'b', 'bb', 'c'].map(value => encodeKey('index', 'portal_type', value, 'id'));
+    const scan = (operator: string) => {
+      const range = indexRange('index', {key: 'portal_type', operator, value: 'b'});
+      return range ? keys.filter(key => key >= range.gte && key < range.lt).length : null;
+    };
+
+    it('should scan the keys matching the operator', () => {
+      expect(scan('=')).to.equal(1);
+      expect(scan('>=')).to.equal(3);
+      expect(scan('>')).to.equal(2);
+    });
+
+    it('should not scan operators matching missing values', () => {
+      expect(scan('<')).to.equal(null);
+      expect(scan('!=')).to.equal(null);
+    });
+  });
+
+  describe('queryScan', () => {
+    const parse = (query: string) => jioImport.jIO.QueryFactory.create(query);
+
+    it('should scan simple queries on indexed fields', () => {
+      expect(queryScan(parse('portal_type: "Road Account"'))).to.deep.equal({key: 'portal_type', operator: '=', value: 'Road Account'});
+      expect(queryScan(parse('grouping_reference: > "a"'))).to.include({key: 'grouping_reference', operator: '>'});
+    });
+
+    it('should scan a subquery of AND', () => {
+      expect(queryScan(parse('name: "a" AND portal_type: "Road Account"'))).to.include({key: 'portal_type'});
+    });
+
+    it('should not scan other queries', () => {
+      expect(queryScan(parse('name: "a"'))).to.equal(null);
+      expect(queryScan(parse('portal_type: < "b"'))).to.equal(null);
+      expect(queryScan(parse('portal_type: "a" OR portal_type: "b"'))).to.equal(null);
+      expect(queryScan(parse('NOT portal_type: "a"'))).to.equal(null);
+      expect(queryScan(parse('portal_type: "road%"'))).to.equal(null);
+      expect(queryScan(parse('grouping_reference: >= 10'))).to.equal(null);
+    });
+  });
+
+  describe('indexKeys', () => {
+    it('should add a key for each indexed field', () => {
+      const entry = indexEntry('id', {portal_type: 'Road Account', grouping_reference: null, other: 1});
+      expect(entry).to.deep.equal({id: 'id', portal_type: 'Road Account'});
+      expect(indexKeys('index', entry)).to.deep.equal([encodeKey('index', 'portal_type', 'Road Account', 'id')]);
+    });
+  });
+
+  describe('toJioError', () => {
+    it('should use 503 when the database cannot be opened', () => {
+      expect(toJioError({type: 'OpenError', message: 'locked'}).status_code).to.equal(503);
+    });
+
+    it('should use 500 otherwise', () => {
+      expect(toJioError({type: 'WriteError'}).status_code).to.equal(500);
+      expect(toJioError(undefined).message).to.equal('Unknown database error');
+    });
+  });
+
+  describe('LevelDBStorage', () => {
+    let db: any;
+
+    beforeEach(() => {
+      db = openDatabase();
+    });
+
+    describe('constructor', () => {
+      it('should require a location', () => {
+        expect(() => new LevelDBStorage({type: 'leveldb'})).to.throw('"location" must be a non-empty string');
+      });
+
+      it('should open the database at the location', async () => {
+        const storage = new LevelDBStorage({type: 'leveldb', location: temporaryDirectory()});
+        await storage.put('id', {});
+        expect(await storage.get('id')).to.deep.equal({});
+        await storage.close();
+      });
+
+      it('should reject every call if the database cannot be opened', async () => {
+        const location = temporaryDirectory();
+        const storage = new LevelDBStorage({type: 'leveldb', location});
+        await storage.get('id');
+        const locked = new LevelDBStorage({type: 'leveldb', location});
+        const error = await locked.get('id').push(() => null, (err: any) => err);
+        expect(error.status_code).to.equal(503);
+        await storage.close();
+      });
+    });
+
+    describe('.put', () => {
+      it('should save the document under the prefix', async () => {
+        const storage = new LevelDBStorage({type: 'leveldb', db, documentsTableName: 'docs'});
+        await storage.put('id', {portal_type: 'Road Account'});
+        const document = fromValue((await getValue(db, encodeKey('docs', 'id')))!);
+        expect(document).to.include({id: 'id'});
+        expect(document.value).to.deep.equal({portal_type: 'Road Account'});
+        expect(document.createdAt).to.be.a('string');
+      });
+
+      it('should not date the document without timestamps', async () => {
+        const storage = new LevelDBStorage({type: 'leveldb', db, timestamps: false});
+        await storage.put('id', {});
+        expect(fromValue((await getValue(db, encodeKey('documents', 'id')))!)).to.deep.equal({id: 'id', value: {}});
+      });
+
+      it('should replace the index keys', async () => {
+        const storage = new LevelDBStorage({type: 'leveldb', db});
+        await storage.put('id', {portal_type: 'Road Account', grouping_reference: 'report'});
+        await storage.put('id', {portal_type: 'Road Message'});
+        expect(await readKeys(db, keyRange('documents_index'))).to.deep.equal([
+          encodeKey('documents_index', 'portal_type', 'Road Message', 'id')
+        ]);
+        await storage.remove('id');
+        expect(await readKeys(db, keyRange('documents_index'))).to.deep.equal([]);
+      });
+    });
+
+    describe('.putAttachment', () => {
+      it('should save the content and the metadata under separate keys', async () => {
+        const storage = new LevelDBStorage({type: 'leveldb', db, timestamps: false});
+        await storage.putAttachment('id', 'name', textBlob('content'));
+        expect((await getValue(db, encodeKey('attachments_data', 'id', 'name')))!.toString()).to.equal('content');
+        expect(fromValue((await getValue(db, encodeKey('attachments', 'id', 'name')))!)).to.include({name: 'name', revision: 1, length: 7});
+      });
+
+      it('should remove the keys with the document', async () => {
+        const storage = new LevelDBStorage({type: 'leveldb', db});
+        await storage.put('id', {});
+        await storage.putAttachment('id', 'name', textBlob('content'));
+        await storage.remove('id');
+        expect(await readKeys(db, {gte: '', lt: '\xff'})).to.deep.equal([]);
+      });
+
+      it('should get a range of the content', async () => {
+        const storage = new LevelDBStorage({type: 'leveldb', db});
+        await storage.putAttachment('id', 'name', textBlob('content'));
+        expect(await readBlobAsText(await storage.getAttachment('id', 'name', {start: 4}))).to.equal('ent');
+      });
+    });
+
+    describe('.buildQuery', () => {
+      let storage: LevelDBStorage;
+      let readValuesSpy: sinon.SinonSpy;
+
+      const scannedRanges = () => readValuesSpy.getCalls().map(call => call.args[1]);
+
+      beforeEach(async () => {
+        storage = new LevelDBStorage({type: 'leveldb', db});
+        await storage.put('1', {portal_type: 'Road Account', grouping_reference: 'report', name: 'b'});
+        await storage.put('2', {portal_type: 'Road Account', grouping_reference: 'data', name: 'a'});
+        await storage.put('3', {portal_type: 'Road Message', grouping_reference: 'report', name: 'c'});
+        readValuesSpy = sinon.spy(specs, 'readValues');
+        stubs.push(readValuesSpy as any);
+      });
+
+      it('should only scan the index keys of the query', async () => {
+        const getValueSpy = sinon.spy(specs, 'getValue');
+        stubs.push(getValueSpy as any);
+        const results = await storage.buildQuery({
+          query: 'portal_type: "Road Account"',
+          sort_on: [['grouping_reference', 'ascending']],
+          select_list: ['grouping_reference']
+        });
+        expect(results).to.deep.equal([{id: '2', value: {grouping_reference: 'data'}}, {id: '1', value: {grouping_reference: 'report'}}]);
+        expect(scannedRanges()).to.deep.equal([keyRange('documents_index', 'portal_type', 'Road Account')]);
+        expect(getValueSpy.called).to.equal(false);
+      });
+
+      it('should read the scanned documents for other fields', async () => {
+        const results = await storage.buildQuery({query: 'grouping_reference: "report" AND name: "c"', include_docs: true});
+        expect(results).to.deep.equal([{id: '3', doc: {portal_type: 'Road Message', grouping_reference: 'report', name: 'c'}}]);
+        expect(scannedRanges()).to.deep.equal([keyRange('documents_index', 'grouping_reference', 'report')]);
+      });
+
+      it('should stream the documents for other queries', async () => {
+        const results = await storage.buildQuery({query: 'name: "a" OR name: "c"'});
+        expect(results).to.deep.equal([{id: '2'}, {id: '3'}]);
+        expect(scannedRanges()).to.deep.equal([keyRange('documents')]);
+      });
+
+      it('should stop scanning once the limit is reached', async () => {
+        const results = await storage.buildQuery({query: 'portal_type: "Road Account"', limit: [0, 1]});
+        expect(results).to.deep.equal([{id: '1'}]);
+      });
+    });
+
+    describe('.close', () => {
+      it('should close the database', async () => {
+        const storage = new LevelDBStorage({type: 'leveldb', db});
+        await storage.put('id', {});
+        await storage.close();
+        expect(db.isClosed()).to.equal(true);
+        const error = await storage.get('id').push(() => null, (err: any) => err);
+        expect(error.message).to.equal('LevelDB storage is closed');
+        expect(error.status_code).to.equal(503);
+      });
+    });
+  });
+});
+
+describeConformance(storageName, ({timestamps}) => new LevelDBStorage({type: 'leveldb', db: openDatabase(), timestamps}));
+
+addStorageStub.restore();
@@ -0,0 +1,828 @@
+import {
+  getQueue, promiseToQueue,
+  IJioStorage, IClearRoadOptions,
+  IJioQueryOptions, IJioSimpleQuery, IJioComplexQuery,
+  queryPortalType,
+  queryGroupingReference
+} from '@clearroad/api';
+import { jIO, Blob as JioBlob } from 'jio';
+
+import * as level from 'level';
+import { LevelUp } from 'levelup';
+import { Readable } from 'stream';
+
+import {
+  IQueryRow, matchQuery, parseQuery, queryKeys, queryFilter, querySort, queryLimit, queryParseDocument
+} from '../query';
+import { IAttachmentRange, attachmentRange, attachmentDigest, convertError } from '../local';
+
+/**
+ * @internal
+ */
+export const defaultDocumentsCollection = 'documents';
+/**
+ * @internal
+ */
+export const defaultAttachmentsCollection = 'attachments';
+/**
+ * Fields with secondary index keys, the ones indexed by the other storages
+ * @internal
+ */
+export const indexedKeys = [queryPortalType, queryGroupingReference];
+
+/**
+ * Keys are strings, values are buffers: JSON for documents and metadata, raw data for attachments
+ */
+const binary = {keyEncoding: 'utf8', valueEncoding: 'binary'};
+
+export interface ILevelDBStorageOptions {
+  type: 'leveldb';
+  /**
+   * Directory of the database, created if it does not exist. Not used with `db`
+   */
+  location?: string;
+  /**
+   * `levelup` database to use instead of opening `location`, e.g. on RocksDB.
+   * It is closed with the storage
+   */
+  db?: LevelUp;
+  /**
+   * Key prefix for all documents.
+   */
+  documentsTableName?: string;
+  /**
+   * Key prefix for attachments.
+   */
+  attachmentsTableName?: string;
+  /**
+   * Add created/updatedAt timestamps for every document.
+   * Enabled by default for both
+   */
+  timestamps?: boolean;
+}
+
+export interface ILevelDBAttachmentOptions {
+  /**
+   * First byte to get, `0` by default
+   */
+  start?: number;
+  /**
+   * Byte after the last one to get, the end of the attachment by default
+   */
+  end?: number;
+}
+
+/**
+ * Value of a document key, dates are ISO strings
+ * @internal
+ */
+export interface ILevelDBDocument {
+  id: string;
+  value: any;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Value of an attachment metadata key, dates are ISO strings
+ * @internal
+ */
+export interface ILevelDBAttachment {
+  name: string;
+  revision: number;
+  content_type: string;
+  length: number;
+  digest: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Attachment metadata returned by `allAttachments`
+ */
+export interface ILevelDBAttachmentMetadata {
+  revision: number;
+  content_type: string;
+  length: number;
+  /**
+   * Digest of the content, as `sha256-<hex>`
+   */
+  digest: string;
+  /**
+   * ISO date of the first version, only with the `timestamps` option
+   */
+  createdAt?: string;
+  /**
+   * ISO date of the current version, only with the `timestamps` option
+   */
+  updatedAt?: string;
+}
+
+/**
+ * Indexed fields of a document, value of each of its index keys
+ * @internal
+ */
+export interface ILevelDBIndexEntry {
+  id: string;
+  [key: string]: any;
+}
+
+/**
+ * Keys between `gte` included and `lt` excluded
+ * @internal
+ */
+export interface ILevelDBRange {
+  gte: string;
+  lt: string;
+}
+
+/**
+ * Range scan of the index keys of a field
+ * @internal
+ */
+export interface ILevelDBIndexScan {
+  key: string;
+  operator: string;
+  value: string;
+}
+
+/**
+ * @internal
+ */
+export interface ILevelDBPutOperation {
+  type: 'put';
+  key: string;
+  value: Buffer;
+}
+
+/**
+ * @internal
+ */
+export interface ILevelDBDelOperation {
+  type: 'del';
+  key: string;
+}
+
+/**
+ * Operation of a batch, as expected by `db.batch`
+ * @internal
+ */
+export type ILevelDBOperation = ILevelDBPutOperation|ILevelDBDelOperation;
+
+interface ILevelDBQueryRow extends IQueryRow {
+  /**
+   * Document, only the indexed fields when read from the index
+   */
+  value: any;
+  fromIndex: boolean;
+}
+
+const sliceData = (data: Buffer, {start, end}: IAttachmentRange) => data.slice(start, end === Infinity ? data.length : end);
+
+/**
+ * @internal
+ * @param attachment
+ */
+export const attachmentMetadata = (attachment: ILevelDBAttachment) => {
+  const metadata: ILevelDBAttachmentMetadata = {
+    revision: attachment.revision,
+    content_type: attachment.content_type,
+    length: attachment.length,
+    digest: attachment.digest
+  };
+  if (attachment.createdAt) {
+    metadata.createdAt = attachment.createdAt;
+    metadata.updatedAt = attachment.updatedAt || attachment.createdAt;
+  }
+  return metadata;
+};
+
+const separator = '\x00';
+const escape = '\x01';
+
+/**
+ * Escape the separator so parts of a key never contain it.
+ * The order of escaped strings is the order of the strings, so range scans follow the order of values
+ * @internal
+ * @param part
+ */
+export const escapeKeyPart = (part: string) => {
+  return part.replace(/\x01/g, `${escape}\x02`).replace(/\x00/g, `${escape}\x01`);
+};
+
+/**
+ * @internal
+ * @param parts
+ */
+export const encodeKey = (...parts: string[]) => parts.map(escapeKeyPart).join(separator);
+
+/**
+ * Every key starting with the parts, the parts themselves excluded
+ * @internal
+ * @param parts
+ */
+export const keyRange = (...parts: string[]): ILevelDBRange => {
+  const prefix = encodeKey(...parts);
+  return {gte: `${prefix}${separator}`, lt: `${prefix}${escape}`};
+};
+
+/**
+ * Index keys matching an operator, `null` if the operator matches missing values, which have no index key
+ * @internal
+ * @param prefix
+ * @param scan
+ */
+export const indexRange = (prefix: string, {key, operator, value}: ILevelDBIndexScan): ILevelDBRange|null => {
+  const field = keyRange(prefix, key);
+  switch (operator) {
+    case '=': return keyRange(prefix, key, value);
+    case '>=': return {gte: encodeKey(prefix, key, value), lt: field.lt};
+    case '>': return {gte: keyRange(prefix, key, value).lt, lt: field.lt};
+    default: return null;
+  }
+};
+
+const isIndexed = (key: string) => indexedKeys.indexOf(key) > -1;
+
+const scannableOperators = ['=', '>=', '>'];
+const numberRegExp = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Index keys are ordered as strings: `%` wildcards and ranges compared by value to numbers cannot be scanned
+ * @param operator
+ * @param value
+ */
+const isScannableValue = (operator: string, value: string) => {
+  return value.indexOf('%') === -1 && (operator === '=' || !numberRegExp.test(value));
+};
+
+// tslint:disable-next-line:cyclomatic-complexity
+const simpleQueryScan = (query: IJioSimpleQuery, key: string): ILevelDBIndexScan|null => {
+  const field = query.key || key;
+  const operator = query.operator || '=';
+  const value = `${query.value}`;
+  if (!isIndexed(field) || scannableOperators.indexOf(operator) === -1 || !isScannableValue(operator, value)) {
+    return null;
+  }
+  return {key: field, operator, value};
+};
+
+/**
+ * Every subquery of `AND` must match, any of them can be scanned
+ * @param query
+ */
+const complexQueryScan = (query: IJioComplexQuery) => {
+  if (query.operator === 'OR' || query.operator === 'NOT') {
+    return null;
+  }
+  return query.query_list.reduce((scan: ILevelDBIndexScan|null, subquery) => scan || queryScan(subquery, query.key), null);
+};
+
+/**
+ * Find a simple query on an indexed field, which all results must match, to scan its index keys
+ * @internal
+ * @param query
+ * @param key Key of the parent query
+ */
+export const queryScan = (query: IJioSimpleQuery|IJioComplexQuery, key = ''): ILevelDBIndexScan|null => {
+  return query.type === 'complex' ? complexQueryScan(query as IJioComplexQuery) : simpleQueryScan(query as IJioSimpleQuery, key);
+};
+
+/**
+ * Indexed fields of a document, missing values are not indexed
+ * @internal
+ * @param id
+ * @param doc
+ */
+export const indexEntry = (id: string, doc: any) => {
+  const entry: ILevelDBIndexEntry = {id};
+  indexedKeys.forEach(key => {
+    if (doc && doc[key] !== undefined && doc[key] !== null) {
+      entry[key] = doc[key];
+    }
+  });
+  return entry;
+};
+
+/**
+ * One key per indexed field, ordered by value then id
+ * @internal
+ * @param prefix
+ * @param entry
+ */
+export const indexKeys = (prefix: string, entry: ILevelDBIndexEntry) => {
+  return indexedKeys.filter(key => key in entry).map(key => encodeKey(prefix, key, `${entry[key]}`, entry.id));
+};
+
+/**
+ * @internal
+ * @param value
+ */
+export const toValue = (value: any) => Buffer.from(JSON.stringify(value));
+
+/**
+ * @internal
+ * @param buffer
+ */
+export const fromValue = (buffer: Buffer) => JSON.parse(buffer.toString());
+
+/**
+ * Convert a database error to a jIO error, `503` when the database cannot be opened,
+ * e.g. locked by another process, `500` otherwise
+ * @internal
+ * @param error
+ */
+export const toJioError = (error: any) => convertError(error, 'Unknown database error', ({type}) => type === 'OpenError');
+
+const isNotFound = (error: any) => !!error && (error.notFound === true || error.type === 'NotFoundError');
+
+/**
+ * Get the value of a key, `null` if it does not exist
+ * @internal
+ * @param db
+ * @param key
+ */
+export const getValue = (db: LevelUp, key: string): Promise<Buffer|null> => {
+  return db.get(key, binary).catch((error: any) => {
+    if (isNotFound(error)) {
+      return null;
+    }
+    throw error;
+  });
+};
+
+/**
+ * Stream the values of a range of keys, until `onValue` returns `false`
+ * @internal
+ * @param db
+ * @param range
+ * @param onValue
+ */
+export const readValues = (db: LevelUp, range: ILevelDBRange, onValue: (value: Buffer) => boolean|void) => {
+  return new Promise<void>((resolve, reject) => {
+    // level streams are `Readable`, which can be destroyed to stop reading
+    const stream = db.createReadStream({...range, ...binary, keys: false, values: true}) as Readable;
+    stream
+      .on('data', (value: Buffer) => {
+        if (onValue(value) === false) {
+          stream.destroy();
+          resolve();
+        }
+      })
+      .on('error', reject)
+      .on('end', () => resolve());
+  });
+};
+
+/**
+ * @internal
+ * @param db
+ * @param range
+ */
+export const readKeys = (db: LevelUp, range: ILevelDBRange) => {
+  return new Promise<string[]>((resolve, reject) => {
+    const keys: string[] = [];
+    db.createReadStream({...range, ...binary, keys: true, values: false})
+      .on('data', (key: string) => keys.push(key))
+      .on('error', reject)
+      .on('end', () => resolve(keys));
+  });
+};
+
+/**
+ * Number of rows needed before `limit` applies, `Infinity` when rows are sorted afterwards
+ * @param options
+ */
+// tslint:disable-next-line:cyclomatic-complexity
+const queryRowCount = (options: IJioQueryOptions) => {
+  if (!options.limit || (options.sort_on || []).length) {
+    return Infinity;
+  }
+  return (options.limit[0] || 0) + (options.limit[1] || 100);
+};
+
+/**
+ * Documents are read when the query or the sort use other fields than the indexed ones
+ * @param options
+ * @param query
+ */
+const isDocumentQuery = (options: IJioQueryOptions, query: ReturnType<typeof parseQuery>) => {
+  const keys = (options.sort_on || []).map(([key]) => key);
+  return !(query ? queryKeys(query) : []).concat(keys).every(isIndexed);
+};
+
+/**
+ * Documents are read when they are included or values are selected out of the index
+ * @param includeDoc
+ * @param selectList
+ */
+const isDocumentNeeded = (includeDoc: boolean, selectList: string[]) => includeDoc || !selectList.every(isIndexed);
+
+/**
+ * `modification_date` is the creation date like in the SQL storages
+ * @param document
+ */
+const documentRow = (document: ILevelDBDocument): ILevelDBQueryRow => ({
+  id: document.id,
+  value: document.value,
+  fromIndex: false,
+  field: key => key === 'modification_date' ? document.createdAt : document.value[key]
+});
+
+const entryRow = (entry: ILevelDBIndexEntry): ILevelDBQueryRow => ({
+  id: entry.id,
+  value: entry,
+  fromIndex: true,
+  field: key => entry[key]
+});
+
+/**
+ * Keep the creation date of the previous version
+ * @param previous
+ * @param now
+ */
+const createdAt = (previous: {createdAt?: string}|null, now: string) => previous && previous.createdAt ? previous.createdAt : now;
+
+const requireOptionLocation = (options: ILevelDBStorageOptions) => {
+  if (!options.db && (typeof options.location !== 'string' || !options.location)) {
+    throw new Error('"location" must be a non-empty string');
+  }
+};
+
+const requireOptionTableNames = (options: ILevelDBStorageOptions) => {
+  if (!options.documentsTableName) {
+    options.documentsTableName = defaultDocumentsCollection;
+  }
+  if (!options.attachmentsTableName) {
+    options.attachmentsTableName = defaultAttachmentsCollection;
+  }
+};
+
+/**
+ * Open the database at `location`, unless one is given
+ * @internal
+ * @param options
+ */
+export const openDatabase = (options: ILevelDBStorageOptions) => {
+  return new Promise<LevelUp>((resolve, reject) => {
+    if (options.db) {
+      return resolve(options.db);
+    }
+    const db: LevelUp = level(options.location, binary, (err: any) => err ? reject(err) : resolve(db));
+  });
+};
+
+/**
+ * @internal
+ */
+export class LevelDBStorage implements IJioStorage {
+  private _documentsPrefix: string;
+  private _indexPrefix: string;
+  private _attachmentsPrefix: string;
+  private _attachmentsDataPrefix: string;
+  private _timestamps = true;
+  private _dbPromise: Promise<LevelUp>;
+  private _locks = new Map<string, Promise<void>>();
+  private _pending: Array<Promise<void>> = [];
+  private _closing: Promise<void>;
+
+  /**
+   * Initiate a LevelDB Storage.
+   * @param options Storage options
+   */
+  constructor(options: ILevelDBStorageOptions) {
+    requireOptionLocation(options);
+    requireOptionTableNames(options);
+    this._documentsPrefix = options.documentsTableName!;
+    this._indexPrefix = `${options.documentsTableName}_index`;
+    this._attachmentsPrefix = options.attachmentsTableName!;
+    this._attachmentsDataPrefix = `${options.attachmentsTableName}_data`;
+    if (options.timestamps === false) {
+      this._timestamps = false;
+    }
+    this._dbPromise = openDatabase(options);
+    // failures are reported by every call
+    this._dbPromise.catch(() => {});
+  }
+
+  /**
+   * Run an operation once the database is opened, unless the storage is closed.
+   * @internal
+   * @param operation
+   */
+  private run<T>(operation: (db: LevelUp) => Promise<T>) {
+    return getQueue().push(() => {
+      if (this._closing) {
+        throw new jIO.util.jIOError(
+          'LevelDB storage is closed',
+          503
+        );
+      }
+      const promise = this._dbPromise.then(operation).catch(error => {
+        throw toJioError(error);
+      });
+      return promiseToQueue(this.track(promise));
+    });
+  }
+
+  /**
+   * Run an operation modifying a document or its attachments once the previous ones on the same id are done,
+   * so its index keys are replaced in order. Operations on other ids run concurrently.
+   * @internal
+   * @param id
+   * @param operation
+   */
+  private write<T>(id: string, operation: (db: LevelUp, now: string) => Promise<T>) {
+    return this.run(db => {
+      const promise = (this._locks.get(id) || Promise.resolve()).then(() => operation(db, new Date().toISOString()));
+      const done = promise.then(() => {}, () => {});
+      this._locks.set(id, done);
+      done.then(() => {
+        if (this._locks.get(id) === done) {
+          this._locks.delete(id);
+        }
+      });
+      return promise;
+    });
+  }
+
+  /**
+   * Keep track of a running operation until it settles, so `close` can wait for it.
+   * @internal
+   * @param promise
+   */
+  private track<T>(promise: Promise<T>) {
+    const pending = promise.then(() => {}, () => {});
+    this._pending.push(pending);
+    pending.then(() => this._pending.splice(this._pending.indexOf(pending), 1));
+    return promise;
+  }
+
+  /**
+   * @internal
+   */
+  private async getDocument(db: LevelUp, id: string): Promise<ILevelDBDocument|null> {
+    const value = await getValue(db, encodeKey(this._documentsPrefix, id));
+    return value ? fromValue(value) : null;
+  }
+
+  /**
+   * @internal
+   */
+  private async getAttachmentMetadata(db: LevelUp, id: string, name: string): Promise<ILevelDBAttachment|null> {
+    const value = await getValue(db, encodeKey(this._attachmentsPrefix, id, name));
+    return value ? fromValue(value) : null;
+  }
+
+  /**
+   * Remove the index keys of the previous version, then add the ones of the new version
+   * @internal
+   */
+  private indexOperations(id: string, previous: ILevelDBDocument|null, data: any) {
+    const operations: ILevelDBOperation[] = previous ?
+      indexKeys(this._indexPrefix, indexEntry(id, previous.value)).map(key => ({type: 'del' as 'del', key})) : [];
+    if (data) {
+      const entry = indexEntry(id, data);
+      const value = toValue(entry);
+      indexKeys(this._indexPrefix, entry).forEach(key => operations.push({type: 'put', key, value}));
+    }
+    return operations;
+  }
+
+  get(id: string) {
+    return this.run(async db => {
+      const document = await this.getDocument(db, id);
+      return document ? document.value : null;
+    });
+  }
+
+  /**
+   * Save the document and replace its index keys in a single batch
+   * @param id
+   * @param data
+   */
+  put(id: string, data: any) {
+    return this.write(id, async (db, now) => {
+      const previous = await this.getDocument(db, id);
+      const document: ILevelDBDocument = {id, value: data};
+      if (this._timestamps) {
+        // createdAt is kept on update
+        document.createdAt = createdAt(previous, now);
+        if (previous) {
+          document.updatedAt = now;
+        }
+      }
+      const operations = this.indexOperations(id, previous, data);
+      operations.push({type: 'put', key: encodeKey(this._documentsPrefix, id), value: toValue(document)});
+      await db.batch(operations, binary);
+      return id;
+    });
+  }
+
+  /**
+   * Remove a document, its index keys and its attachments in a single batch
+   * @param id
+   */
+  remove(id: string) {
+    return this.write(id, async db => {
+      const previous = await this.getDocument(db, id);
+      const attachmentKeys = (await readKeys(db, keyRange(this._attachmentsPrefix, id)))
+        .concat(await readKeys(db, keyRange(this._attachmentsDataPrefix, id)));
+      const operations = this.indexOperations(id, previous, null);
+      attachmentKeys.forEach(key => operations.push({type: 'del', key}));
+      operations.push({type: 'del', key: encodeKey(this._documentsPrefix, id)});
+      await db.batch(operations, binary);
+      return id;
+    });
+  }
+
+  getAttachment(id: string, name: string, options: ILevelDBAttachmentOptions = {}) {
+    const range = attachmentRange(options);
+    return this.run(async db => {
+      const attachment = await this.getAttachmentMetadata(db, id, name);
+      const data = attachment ? await getValue(db, encodeKey(this._attachmentsDataPrefix, id, name)) : null;
+      if (attachment && data) {
+        return new JioBlob([sliceData(data, range)], {type: attachment.content_type});
+      }
+      throw new jIO.util.jIOError(
+        `Cannot find attachment: ${id}`,
+        404
+      );
+    });
+  }
+
+  /**
+   * Save the content and the metadata of an attachment under separate keys, in a single batch
+   * @param id
+   * @param name
+   * @param blob
+   */
+  putAttachment(id: string, name: string, blob: Blob) {
+    return getQueue()
+      .push(() => {
+        return jIO.util.readBlobAsArrayBuffer(blob);
+      })
+      .push(event => this.write(id, async (db, now) => {
+        const data = Buffer.from(event.target.result);
+        const previous = await this.getAttachmentMetadata(db, id, name);
+        const attachment: ILevelDBAttachment = {
+          name,
+          revision: previous ? previous.revision + 1 : 1,
+          content_type: blob.type || '',
+          length: data.length,
+          digest: attachmentDigest(data)
+        };
+        if (this._timestamps) {
+          attachment.createdAt = createdAt(previous, now);
+          attachment.updatedAt = now;
+        }
+        await db.batch([
+          {type: 'put', key: encodeKey(this._attachmentsDataPrefix, id, name), value: data},
+          {type: 'put', key: encodeKey(this._attachmentsPrefix, id, name), value: toValue(attachment)}
+        ], binary);
+      }));
+  }
+
+  removeAttachment(id: string, name: string) {
+    return this.write(id, async db => {
+      await db.batch([
+        {type: 'del', key: encodeKey(this._attachmentsPrefix, id, name)},
+        {type: 'del', key: encodeKey(this._attachmentsDataPrefix, id, name)}
+      ], binary);
+      return id;
+    });
+  }
+
+  /**
+   * List the attachments of a document with their metadata, without reading their content
+   * @param id
+   */
+  allAttachments(id: string) {
+    return this.run(async db => {
+      const attachments: {[name: string]: ILevelDBAttachmentMetadata} = {};
+      await readValues(db, keyRange(this._attachmentsPrefix, id), value => {
+        const attachment: ILevelDBAttachment = fromValue(value);
+        attachments[attachment.name] = attachmentMetadata(attachment);
+      });
+      return attachments;
+    });
+  }
+
+  /**
+   * Queries on other fields than the indexed ones read every document
+   */
+  hasCapacity() {
+    return true;
+  }
+
+  /**
+   * Wait for running operations to finish, then close the database.
+   * Any further call to the storage fails.
+   */
+  close() {
+    if (!this._closing) {
+      this._closing = this._dbPromise
+        .then(db => Promise.all(this._pending).then(() => db.close()))
+        .catch(() => {})
+        .then(() => {});
+    }
+    return promiseToQueue(this._closing);
+  }
+
+  /**
+   * Scan the index keys of a field, keeping the matching documents,
+   * read only if the query or the sort use other fields.
+   * @internal
+   */
+  private async scanIndex(db: LevelUp, range: ILevelDBRange, options: IJioQueryOptions, query: ReturnType<typeof parseQuery>) {
+    const count = queryRowCount(options);
+    const entries: ILevelDBIndexEntry[] = [];
+    const rows: ILevelDBQueryRow[] = [];
+    const readDocuments = isDocumentQuery(options, query);
+    await readValues(db, range, value => {
+      const entry: ILevelDBIndexEntry = fromValue(value);
+      if (readDocuments) {
+        entries.push(entry);
+      }
+      else if (!query || matchQuery(entryRow(entry).field, query)) {
+        rows.push(entryRow(entry));
+      }
+      return rows.length < count;
+    });
+    for (const entry of entries) {
+      const document = await this.getDocument(db, entry.id);
+      if (document) {
+        rows.push(documentRow(document));
+      }
+    }
+    return readDocuments ? queryFilter(rows, query) : rows;
+  }
+
+  /**
+   * Stream every document, only keeping the matching ones.
+   * @internal
+   */
+  private async scanDocuments(db: LevelUp, options: IJioQueryOptions, query: ReturnType<typeof parseQuery>) {
+    const count = queryRowCount(options);
+    const rows: ILevelDBQueryRow[] = [];
+    await readValues(db, keyRange(this._documentsPrefix), value => {
+      const row = documentRow(fromValue(value));
+      if (!query || matchQuery(row.field, query)) {
+        rows.push(row);
+      }
+      return rows.length < count;
+    });
+    return rows;
+  }
+
+  /**
+   * @internal
+   */
+  private queryRows(db: LevelUp, options: IJioQueryOptions, query: ReturnType<typeof parseQuery>) {
+    const scan = query ? queryScan(query) : null;
+    const range = scan ? indexRange(this._indexPrefix, scan) : null;
+    return range ? this.scanIndex(db, range, options, query) : this.scanDocuments(db, options, query);
+  }
+
+  /**
+   * @internal
+   */
+  private async queryDocument(db: LevelUp, row: ILevelDBQueryRow, includeDoc: boolean, selectList: string[]) {
+    if (!row.fromIndex || !isDocumentNeeded(includeDoc, selectList)) {
+      return queryParseDocument(row.id, row.value, includeDoc, selectList);
+    }
+    const document = await this.getDocument(db, row.id);
+    return queryParseDocument(row.id, document ? document.value : {}, includeDoc, selectList);
+  }
+
+  /**
+   * Queries on `portal_type` and `grouping_reference` scan the range of index keys matching the query,
+   * other queries stream every document. Only the matching documents are kept in memory,
+   * and scans stop once `limit` is reached when results are not sorted
+   * @param options
+   */
+  buildQuery(options: IJioQueryOptions = {query: ''}) {
+    return this.run(async db => {
+      const query = parseQuery(options);
+      const rows = await this.queryRows(db, options, query);
+      const selectList = (options.select_list || []).slice();
+      const results: any[] = [];
+      for (const row of queryLimit(querySort(rows, options), options)) {
+        results.push(await this.queryDocument(db, row, options.include_docs || false, selectList));
+      }
+      return results;
+    });
+  }
+}
+
+export interface ILevelDBOptions extends IClearRoadOptions {
+  localStorage: ILevelDBStorageOptions;
+  /**
+   * Queries are evaluated on the database
+   */
+  useQueryStorage?: false;
+}
+
+const storageName = 'leveldb';
+jIO.addStorage(storageName, LevelDBStorage);
+export default storageName;
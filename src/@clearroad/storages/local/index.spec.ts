@@ -0,0 +1,49 @@
+import { expect } from 'chai';
+import 'mocha';
+
+import * as jioImport from 'jio';
+
+import { attachmentRange, attachmentDigest, convertError } from './index';
+
+describe('local', () => {
+  describe('attachmentRange', () => {
+    it('should default to the whole attachment', () => {
+      expect(attachmentRange({})).to.deep.equal({start: 0, end: Infinity});
+      expect(attachmentRange({start: 2})).to.deep.equal({start: 2, end: Infinity});
+    });
+
+    it('should throw an error for invalid offsets', () => {
+      expect(() => attachmentRange({start: -1})).to.throw('"start" and "end" must be positive integers');
+      expect(() => attachmentRange({end: 1.5})).to.throw('"start" and "end" must be positive integers');
+      expect(() => attachmentRange({start: 4, end: 2})).to.throw('"start" is greater than "end"');
+    });
+  });
+
+  describe('attachmentDigest', () => {
+    it('should hash the data', () => {
+      expect(attachmentDigest(Buffer.from('content'))).to.equal(
+        'sha256-ed7002b439e9ac845f22357d822bac1444730fbdb6016d3ec9432297b9ec9f73'
+      );
+    });
+  });
+
+  describe('convertError', () => {
+    const isUnavailable = (error: any) => error.code === 'BUSY';
+
+    it('should keep jIO errors', () => {
+      const error = new jioImport.jIO.util.jIOError('error', 404);
+      expect(convertError(error, 'Unknown error', isUnavailable)).to.equal(error);
+    });
+
+    it('should use 503 when the storage is unavailable', () => {
+      expect(convertError({code: 'BUSY'}, 'Unknown error', isUnavailable).status_code).to.equal(503);
+    });
+
+    it('should use 500 otherwise', () => {
+      const error = convertError({code: 'FAILED', message: 'failed'}, 'Unknown error', isUnavailable);
+      expect(error.status_code).to.equal(500);
+      expect(error.message).to.equal('failed');
+      expect(convertError(undefined, 'Unknown error', isUnavailable).message).to.equal('Unknown error');
+    });
+  });
+});
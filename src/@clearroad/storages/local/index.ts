@@ -0,0 +1,67 @@
+import { jIO } from 'jio';
+
+import { createHash } from 'crypto';
+
+/**
+ * `start` and `end` options of `getAttachment`
+ */
+export interface IAttachmentRangeOptions {
+  /**
+   * First byte to get, `0` by default
+   */
+  start?: number;
+  /**
+   * Byte after the last one to get, the end of the attachment by default
+   */
+  end?: number;
+}
+
+/**
+ * Byte range of an attachment, `end` is excluded and `Infinity` up to the end of the attachment
+ */
+export interface IAttachmentRange {
+  start: number;
+  end: number;
+}
+
+const isOffset = (value: number) => value === Infinity || (Number.isInteger(value) && value >= 0);
+
+/**
+ * Check the `start` and `end` options of `getAttachment`
+ * @param options
+ */
+export const attachmentRange = ({start = 0, end = Infinity}: IAttachmentRangeOptions): IAttachmentRange => {
+  if (!isOffset(start) || !isOffset(end)) {
+    throw new jIO.util.jIOError(
+      '"start" and "end" must be positive integers',
+      400
+    );
+  }
+  if (start > end) {
+    throw new jIO.util.jIOError(
+      '"start" is greater than "end"',
+      400
+    );
+  }
+  return {start, end};
+};
+
+/**
+ * @param data
+ */
+export const attachmentDigest = (data: Buffer) => `sha256-${createHash('sha256').update(data).digest('hex')}`;
+
+/**
+ * Convert an error to a jIO error, `503` when the storage is temporarily unavailable, `500` otherwise
+ * @param error
+ * @param defaultMessage Message of errors without one
+ * @param isUnavailable
+ */
+// tslint:disable-next-line:cyclomatic-complexity
+export const convertError = (error: any, defaultMessage: string, isUnavailable: (error: any) => boolean) => {
+  if (error instanceof jIO.util.jIOError) {
+    return error;
+  }
+  const {message = defaultMessage} = error || {};
+  return new jIO.util.jIOError(message, !!error && isUnavailable(error) ? 503 : 500);
+};
@@ -7,14 +7,22 @@ import * as jioImport from 'jio';
 const addStorageStub = sinon.stub(jioImport.jIO, 'addStorage');
 
 const mariadb = require('mariadb');
+import { Readable, Writable } from 'stream';
 
+import { describeServerConformance } from '../conformance';
 import * as specs from './index';
+import * as shutdown from '../shutdown';
 import storageName, {
   MariaDBStorage, IMariaDBStorageOptions,
-  defaultDocumentsCollection, defaultAttachmentsCollection,
-  IConnection, IPool, safeTransaction, safeQuery,
-  resultAsJson, valueKey
+  IConnection, IPool, parseQuery, toJioError, safeTransaction, safeQuery,
+  indexedFields, addIndexColumn, indexFields,
+  resultAsJson, dataRange, queryResult
 } from './index';
+import {
+  defaultDocumentsCollection, defaultAttachmentsCollection, defaultAttachmentsHistoryCollection, defaultDocumentsHistoryCollection,
+  valueKey, deletedAtKey, defaultTombstoneRetention, defaultChangesLimit
+} from '../sql';
+import { attachmentDigest } from '../local';
 
 let stubs: sinon.SinonStub[] = [];
 
@@ -33,6 +41,9 @@ class FakePool implements IPool {
   getConnection() {
     return Promise.resolve(new FakeConnection());
   }
+  end() {
+    return Promise.resolve();
+  }
 }
 
 class FakeConnection implements IConnection {
@@ -59,6 +70,20 @@ const options: IMariaDBStorageOptions = {
   host: 'url'
 };
 
+const readStream = (stream: Readable) => new Promise<Buffer>((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  stream.on('data', chunk => chunks.push(chunk as Buffer));
+  stream.on('end', () => resolve(Buffer.concat(chunks)));
+  stream.on('error', reject);
+});
+
+const writeStream = (stream: Writable, chunks: Buffer[]) => new Promise((resolve, reject) => {
+  stream.on('finish', resolve);
+  stream.on('error', reject);
+  chunks.forEach(chunk => stream.write(chunk));
+  stream.end();
+});
+
 const connectionStub = (storage: MariaDBStorage) => {
   const queue = new FakeQueue();
   const connection = new FakeConnection();
@@ -83,6 +108,135 @@ describe(storageName, () => {
     expect(addStorageStub.calledWith(storageName, MariaDBStorage)).to.equal(true);
   });
 
+  describe('parseQuery', () => {
+    it('should parse complex queries', () => {
+      const date = new Date();
+      const query = `portal_type:("Billing Period Message" OR "Road Account Message" OR "Road Event Message" OR "Road Message" OR "Road Report Request") AND grouping_reference:"data" AND modification_date: != "${date.toJSON()}"`;
+      const parsed = jioImport.jIO.QueryFactory.create(query);
+      expect(parseQuery(parsed)).to.deep.equal({
+        text: '(' +
+          '(' +
+            "JSON_UNQUOTE(JSON_EXTRACT(value, '$.portal_type')) = ? " +
+            "OR JSON_UNQUOTE(JSON_EXTRACT(value, '$.portal_type')) = ? " +
+            "OR JSON_UNQUOTE(JSON_EXTRACT(value, '$.portal_type')) = ? " +
+            "OR JSON_UNQUOTE(JSON_EXTRACT(value, '$.portal_type')) = ? " +
+            "OR JSON_UNQUOTE(JSON_EXTRACT(value, '$.portal_type')) = ?" +
+          ') ' +
+          "AND JSON_UNQUOTE(JSON_EXTRACT(value, '$.grouping_reference')) = ? " +
+          'AND createdAt != ?' +
+        ')',
+        values: [
+          'Billing Period Message',
+          'Road Account Message',
+          'Road Event Message',
+          'Road Message',
+          'Road Report Request',
+          'data',
+          date.toJSON()
+        ]
+      });
+    });
+
+    it('should parse simple queries', () => {
+      const query = 'date1: >= 1 AND date2: > 2';
+      const parsed = jioImport.jIO.QueryFactory.create(query);
+      expect(parseQuery(parsed)).to.deep.equal({
+        text: "(JSON_UNQUOTE(JSON_EXTRACT(value, '$.date1')) >= ? AND JSON_UNQUOTE(JSON_EXTRACT(value, '$.date2')) > ?)",
+        values: [1, 2]
+      });
+    });
+
+    it('should only send numbers in ranges', () => {
+      const parsed = jioImport.jIO.QueryFactory.create('mileage: 10 AND title: < "b" AND modification_date: > 2');
+      expect(parseQuery(parsed).values).to.deep.equal(['10', 'b', '2']);
+    });
+
+    it('should not interpolate values', () => {
+      const parsed = jioImport.jIO.QueryFactory.create(`title: "it's"`);
+      expect(parseQuery(parsed)).to.deep.equal({
+        text: "JSON_UNQUOTE(JSON_EXTRACT(value, '$.title')) = ?",
+        values: ["it's"]
+      });
+    });
+
+    it('should escape keys', () => {
+      const parsed: any = {
+        type: 'simple',
+        key: "title' OR '1",
+        value: 'value'
+      };
+      expect(parseQuery(parsed).text).to.equal("JSON_UNQUOTE(JSON_EXTRACT(value, '$.title'' OR ''1')) = ?");
+    });
+
+    it('should use virtual columns of indexed fields', () => {
+      const parsed = jioImport.jIO.QueryFactory.create('state: "done" AND title: "test"');
+      expect(parseQuery(parsed, undefined, ['state'])).to.deep.equal({
+        text: "(value_state = ? AND JSON_UNQUOTE(JSON_EXTRACT(value, '$.title')) = ?)",
+        values: ['done', 'test']
+      });
+    });
+
+    it('should parse wildcard queries', () => {
+      const parsed = jioImport.jIO.QueryFactory.create('title: "%Road_%"');
+      expect(parseQuery(parsed)).to.deep.equal({
+        text: "JSON_UNQUOTE(JSON_EXTRACT(value, '$.title')) LIKE ?",
+        values: ['%Road\\_%']
+      });
+    });
+
+    it('should parse != wildcard queries', () => {
+      const parsed = jioImport.jIO.QueryFactory.create('state: != "%done"');
+      expect(parseQuery(parsed, undefined, ['state'])).to.deep.equal({
+        text: 'value_state NOT LIKE ?',
+        values: ['%done']
+      });
+    });
+
+    it('should parse NOT queries', () => {
+      const parsed = jioImport.jIO.QueryFactory.create('portal_type: "Road Message" AND NOT title: "foo"');
+      expect(parseQuery(parsed)).to.deep.equal({
+        text: "(JSON_UNQUOTE(JSON_EXTRACT(value, '$.portal_type')) = ? " +
+          "AND NOT (JSON_UNQUOTE(JSON_EXTRACT(value, '$.title')) = ?))",
+        values: ['Road Message', 'foo']
+      });
+    });
+
+    it('should reject unknown operators', () => {
+      const parsed: any = {
+        type: 'simple',
+        key: 'title',
+        operator: '= 1; --',
+        value: 'value'
+      };
+      expect(() => parseQuery(parsed)).to.throw('Unsupported query operator: = 1; --');
+    });
+  });
+
+  describe('indexedFields', () => {
+    it('should list unique fields', () => {
+      expect(indexedFields(['state', ['source_reference', 'state'], 'modification_date'])).to.deep.equal([
+        'state', 'source_reference'
+      ]);
+    });
+  });
+
+  describe('addIndexColumn', () => {
+    it('should add a virtual column', () => {
+      expect(addIndexColumn('documents', 'source_reference')).to.equal(
+        'ALTER TABLE documents ADD COLUMN IF NOT EXISTS value_source_reference VARCHAR(255) ' +
+        "AS (JSON_UNQUOTE(JSON_EXTRACT(value, '$.source_reference'))) VIRTUAL"
+      );
+    });
+  });
+
+  describe('indexFields', () => {
+    it('should index virtual columns', () => {
+      expect(indexFields('documents', ['source_reference', 'state'])).to.equal(
+        'ALTER TABLE documents ADD INDEX documents_index_value_source_reference_value_state(value_source_reference, value_state)'
+      );
+    });
+  });
+
   describe('resultAsJson', () => {
     it('should parse the value as object', () => {
       const object = {
@@ -97,6 +251,48 @@ describe(storageName, () => {
     });
   });
 
+  describe('dataRange', () => {
+    it('should select all the data', () => {
+      expect(dataRange({start: 0, end: Infinity})).to.equal('data');
+    });
+
+    it('should select the data from the start', () => {
+      expect(dataRange({start: 2, end: Infinity})).to.equal('SUBSTRING(data, 3) AS data');
+    });
+
+    it('should select the data from the start to the end', () => {
+      expect(dataRange({start: 2, end: 4})).to.equal('SUBSTRING(data, 3, 2) AS data');
+    });
+  });
+
+  describe('toJioError', () => {
+    it('should return a conflict for constraint violations', () => {
+      const error = toJioError({message: 'Duplicate entry', sqlState: '23000'});
+      expect(error.message).to.equal('Duplicate entry');
+      expect(error.status_code).to.equal(409);
+    });
+
+    it('should return unavailable for connection errors', () => {
+      expect(toJioError({sqlState: '08S01'}).status_code).to.equal(503);
+      expect(toJioError({fatal: true}).status_code).to.equal(503);
+      expect(toJioError({code: 'ECONNREFUSED'}).status_code).to.equal(503);
+    });
+
+    it('should return an internal error otherwise', () => {
+      expect(toJioError({sqlState: '42S02'}).status_code).to.equal(500);
+      expect(toJioError(undefined).status_code).to.equal(500);
+    });
+
+    it('should use the default status for unknown errors', () => {
+      expect(toJioError(new Error('timeout'), 503).status_code).to.equal(503);
+    });
+
+    it('should keep jIO errors', () => {
+      const error = new jioImport.jIO.util.jIOError('not found', 404);
+      expect(toJioError(error)).to.equal(error);
+    });
+  });
+
   describe('safeTransaction', () => {
     let connection: IConnection;
     let rollbackStub: sinon.SinonStub;
@@ -116,7 +312,24 @@ describe(storageName, () => {
 
     describe('failure', () => {
       it('should rollback', async () => {
-        await safeTransaction(connection, () => Promise.reject());
+        await safeTransaction(connection, () => Promise.reject()).catch(() => {});
+        expect(rollbackStub.called).to.equal(true);
+      });
+
+      it('should reject with a jIO error', async () => {
+        let error;
+        try {
+          await safeTransaction(connection, () => Promise.reject({message: 'Duplicate entry', sqlState: '23000'}));
+        }
+        catch (err) {
+          error = err;
+        }
+        expect(error.message).to.equal('Duplicate entry');
+        expect(error.status_code).to.equal(409);
+      });
+
+      it('should resolve when ignoring errors', async () => {
+        await safeTransaction(connection, () => Promise.reject(), true);
         expect(rollbackStub.called).to.equal(true);
       });
     });
@@ -140,13 +353,46 @@ describe(storageName, () => {
     });
 
     describe('failure', () => {
-      it('should return the null', async () => {
-        const res = await safeQuery(connection, () => Promise.reject());
+      it('should reject with a jIO error', async () => {
+        let error;
+        try {
+          await safeQuery(connection, () => Promise.reject({message: 'Connection lost', fatal: true}));
+        }
+        catch (err) {
+          error = err;
+        }
+        expect(error.message).to.equal('Connection lost');
+        expect(error.status_code).to.equal(503);
+      });
+
+      it('should release the connection', async () => {
+        const endStub = sinon.stub(connection, 'end').returns(Promise.resolve());
+        stubs.push(endStub);
+        await safeQuery(connection, () => Promise.reject()).catch(() => {});
+        expect(endStub.called).to.equal(true);
+      });
+
+      it('should return null when ignoring errors', async () => {
+        const res = await safeQuery(connection, () => Promise.reject(), true);
         expect(res).to.equal(null);
       });
     });
   });
 
+  describe('queryResult', () => {
+    it('should return the rows', () => {
+      expect(queryResult([{id: 1}])).to.deep.equal({rows: [{id: 1}], rowCount: 1});
+    });
+
+    it('should return the affected rows and the inserted id', () => {
+      expect(queryResult({affectedRows: 2, insertId: 3})).to.deep.equal({rows: [], rowCount: 2, insertId: 3});
+    });
+
+    it('should return an empty result when errors are ignored', () => {
+      expect(queryResult(null)).to.deep.equal({rows: [], rowCount: 0, insertId: undefined});
+    });
+  });
+
   describe('MariaDBStorage', () => {
     beforeEach(() => {
       stubs.push(sinon.stub(specs, 'safeTransaction').callsFake((_conn, transactions) => transactions()));
@@ -208,6 +454,125 @@ describe(storageName, () => {
               expect((storage as any)._timestamps).to.equal(false);
             });
           });
+
+          describe('with "jsonColumn', () => {
+            beforeEach(() => {
+              fakeOptions.jsonColumn = true;
+            });
+
+            it('should use a JSON column', () => {
+              const storage = new MariaDBStorage(fakeOptions);
+              expect((storage as any)._jsonColumn).to.equal(true);
+            });
+          });
+
+          describe('with "attachmentHistory', () => {
+            beforeEach(() => {
+              fakeOptions.attachmentHistory = true;
+            });
+
+            afterEach(() => {
+              delete fakeOptions.attachmentHistory;
+            });
+
+            it('should keep previous versions of attachments', () => {
+              const storage = new MariaDBStorage(fakeOptions);
+              expect((storage as any)._attachmentHistory).to.equal(true);
+              expect((storage as any)._attachmentsHistoryTable).to.equal(defaultAttachmentsHistoryCollection);
+            });
+          });
+
+          describe('with "ignoreErrors', () => {
+            beforeEach(() => {
+              fakeOptions.ignoreErrors = true;
+            });
+
+            afterEach(() => {
+              delete fakeOptions.ignoreErrors;
+            });
+
+            it('should ignore errors', () => {
+              const storage = new MariaDBStorage(fakeOptions);
+              expect((storage as any)._ignoreErrors).to.equal(true);
+            });
+          });
+
+          describe('with "softDelete', () => {
+            beforeEach(() => {
+              fakeOptions.softDelete = true;
+              fakeOptions.tombstoneRetention = 7;
+            });
+
+            afterEach(() => {
+              delete fakeOptions.softDelete;
+              delete fakeOptions.tombstoneRetention;
+            });
+
+            it('should keep tombstones', () => {
+              const storage = new MariaDBStorage(fakeOptions);
+              expect((storage as any)._softDelete).to.equal(true);
+              expect((storage as any)._tombstoneRetention).to.equal(7);
+            });
+          });
+
+          describe('with "changeFeed', () => {
+            beforeEach(() => {
+              fakeOptions.changeFeed = true;
+            });
+
+            afterEach(() => {
+              delete fakeOptions.changeFeed;
+            });
+
+            it('should record changes', () => {
+              const storage = new MariaDBStorage(fakeOptions);
+              expect((storage as any)._changeFeed).to.equal(true);
+              expect((storage as any)._changesTable).to.equal(`${defaultDocumentsCollection}_changes`);
+            });
+          });
+
+          describe('with "history', () => {
+            beforeEach(() => {
+              fakeOptions.history = true;
+            });
+
+            afterEach(() => {
+              delete fakeOptions.history;
+            });
+
+            it('should keep previous versions of documents', () => {
+              const storage = new MariaDBStorage(fakeOptions);
+              expect((storage as any)._history).to.equal(true);
+              expect((storage as any)._documentsHistoryTable).to.equal(defaultDocumentsHistoryCollection);
+            });
+          });
+
+          describe('with "closeOnExit', () => {
+            beforeEach(() => {
+              fakeOptions.closeOnExit = true;
+              stubs.push(sinon.stub(shutdown, 'closeOnExit'));
+            });
+
+            afterEach(() => {
+              delete fakeOptions.closeOnExit;
+            });
+
+            it('should close the storage on exit', () => {
+              const storage = new MariaDBStorage(fakeOptions);
+              expect((shutdown.closeOnExit as sinon.SinonStub).calledWith(storage)).to.equal(true);
+            });
+          });
+
+          describe('with "indexes', () => {
+            beforeEach(() => {
+              fakeOptions.indexes = [['source_reference', 'state']];
+            });
+
+            it('should list the indexed fields', () => {
+              const storage = new MariaDBStorage(fakeOptions);
+              expect((storage as any)._indexedKeys).to.deep.equal(['source_reference', 'state']);
+            });
+          });
         });
       });
     });
@@ -235,10 +600,13 @@ describe(storageName, () => {
 
       it('should find by id', () => {
         storage.get(id);
-        expect(stub.calledWith({
-          namedPlaceholders: true,
-          sql: `SELECT * FROM ${defaultDocumentsCollection} WHERE _id=:id`
-        }, {id})).to.equal(true);
+        expect(stub.calledWith(`SELECT * FROM ${defaultDocumentsCollection} WHERE _id=?`, [id])).to.equal(true);
+      });
+
+      it('should not find tombstones with "softDelete"', () => {
+        (storage as any)._softDelete = true;
+        storage.get(id);
+        expect(stub.calledWith(`SELECT * FROM ${defaultDocumentsCollection} WHERE _id=? AND deletedAt IS NULL`, [id])).to.equal(true);
       });
 
       describe('document found', () => {
@@ -283,74 +651,63 @@ describe(storageName, () => {
         stubs.push(stub);
       });
 
-      describe('document exists', () => {
+      describe('with timestamps', () => {
         beforeEach(() => {
-          const queue = new FakeQueue();
-          queue.push(() => data);
-          stubs.push(sinon.stub(storage, 'get').returns(queue));
-        });
-
-        describe('with timestamps', () => {
-          beforeEach(() => {
-            (storage as any)._timestamps = true;
-          });
-
-          it('should update data', () => {
-            storage.put(id, data);
-            expect(stub.calledWith({
-              namedPlaceholders: true,
-              sql: `UPDATE ${defaultDocumentsCollection} SET value=:data, updatedAt=CURRENT_TIMESTAMP WHERE _id=:id`
-            }, {id, data: JSON.stringify(data)})).to.equal(true);
-          });
+          (storage as any)._timestamps = true;
         });
 
-        describe('without timestamps', () => {
-          beforeEach(() => {
-            (storage as any)._timestamps = false;
-          });
-
-          it('should update data', () => {
-            storage.put(id, data);
-            expect(stub.calledWith({
-              namedPlaceholders: true,
-              sql: `UPDATE ${defaultDocumentsCollection} SET value=:data WHERE _id=:id`
-            }, {id, data: JSON.stringify(data)})).to.equal(true);
-          });
+        it('should upsert data', () => {
+          storage.put(id, data);
+          expect(stub.calledWith(
+            `INSERT INTO ${defaultDocumentsCollection} (_id, value, createdAt, updatedAt) VALUES (?, ?, CURRENT_TIMESTAMP, NULL) ` +
+            'ON DUPLICATE KEY UPDATE value=VALUES(value), createdAt=createdAt, updatedAt=CURRENT_TIMESTAMP',
+            [id, JSON.stringify(data)]
+          )).to.equal(true);
         });
       });
 
-      describe('document does not exist', () => {
+      describe('without timestamps', () => {
         beforeEach(() => {
-          stubs.push(sinon.stub(storage, 'get').returns(new FakeQueue()));
+          (storage as any)._timestamps = false;
         });
 
-        describe('with timestamps', () => {
-          beforeEach(() => {
-            (storage as any)._timestamps = true;
-          });
+        it('should upsert data', () => {
+          storage.put(id, data);
+          expect(stub.calledWith(
+            `INSERT INTO ${defaultDocumentsCollection} (_id, value) VALUES (?, ?) ` +
+            'ON DUPLICATE KEY UPDATE value=VALUES(value)',
+            [id, JSON.stringify(data)]
+          )).to.equal(true);
+        });
 
-          it('should insert data', () => {
-            storage.put(id, data);
-            expect(stub.calledWith(
-              `INSERT INTO ${defaultDocumentsCollection} VALUES (NULL, ?, ?, CURRENT_TIMESTAMP, NULL)`,
-              [id, JSON.stringify(data)]
-            )).to.equal(true);
-          });
+        it('should restore a removed document with "softDelete"', () => {
+          (storage as any)._softDelete = true;
+          storage.put(id, data);
+          expect(stub.calledWith(
+            `INSERT INTO ${defaultDocumentsCollection} (_id, value) VALUES (?, ?) ` +
+            'ON DUPLICATE KEY UPDATE value=VALUES(value), deletedAt=NULL',
+            [id, JSON.stringify(data)]
+          )).to.equal(true);
         });
+      });
 
-        describe('without timestamps', () => {
-          beforeEach(() => {
-            (storage as any)._timestamps = false;
-          });
+      it('should not read the document first', () => {
+        const getStub = sinon.stub(storage, 'get');
+        stubs.push(getStub);
+        storage.put(id, data);
+        expect(getStub.called).to.equal(false);
+      });
 
-          it('should insert data', () => {
-            storage.put(id, data);
-            expect(stub.calledWith(
-              `INSERT INTO ${defaultDocumentsCollection} VALUES (NULL, ?, ?)`,
-              [id, JSON.stringify(data)]
-            )).to.equal(true);
-          });
-        });
+      it('should keep the previous version with "history"', async () => {
+        (storage as any)._history = true;
+        await storage.put(id, data);
+        expect(stub.calledWith(
+          `INSERT INTO ${defaultDocumentsHistoryCollection} (_id, revision, value, operation) ` +
+          `SELECT _id, COALESCE((SELECT MAX(revision) FROM ${defaultDocumentsHistoryCollection} WHERE _id=?), 0) + 1, value, 'update' ` +
+          `FROM ${defaultDocumentsCollection} WHERE _id=?`,
+          [id, id]
+        )).to.equal(true);
+        expect(stub.calledWith(sinon.match(`INSERT INTO ${defaultDocumentsCollection} `), [id, JSON.stringify(data)])).to.equal(true);
       });
     });
 
@@ -369,10 +726,253 @@ describe(storageName, () => {
 
       it('should remove by id', () => {
         storage.remove(id);
-        expect(stub.calledWith({
-          namedPlaceholders: true,
-          sql: `DELETE FROM ${defaultDocumentsCollection} WHERE _id=:id`
-        }, {id})).to.equal(true);
+        expect(stub.calledWith(`DELETE FROM ${defaultDocumentsCollection} WHERE _id=?`, [id])).to.equal(true);
+      });
+
+      it('should remove its attachments', async () => {
+        await storage.remove(id);
+        expect(stub.calledWith(`DELETE FROM ${defaultAttachmentsCollection} WHERE _id=?`, [id])).to.equal(true);
+      });
+
+      it('should remove previous versions of its attachments with "attachmentHistory"', async () => {
+        (storage as any)._attachmentHistory = true;
+        await storage.remove(id);
+        expect(stub.calledWith(`DELETE FROM ${defaultAttachmentsHistoryCollection} WHERE _id=?`, [id])).to.equal(true);
+      });
+
+      it('should keep the removed version with "history"', async () => {
+        (storage as any)._history = true;
+        await storage.remove(id);
+        expect(stub.calledWith(
+          sinon.match(`INSERT INTO ${defaultDocumentsHistoryCollection} `).and(sinon.match("'delete' FROM")), [id, id]
+        )).to.equal(true);
+      });
+
+      describe('with "softDelete"', () => {
+        beforeEach(() => {
+          (storage as any)._softDelete = true;
+        });
+
+        it('should not keep the version of a tombstone with "history"', async () => {
+          (storage as any)._history = true;
+          await storage.remove(id);
+          expect(stub.calledWith(sinon.match(`FROM ${defaultDocumentsCollection} WHERE _id=? AND deletedAt IS NULL`), [id, id])).to.equal(true);
+        });
+
+        it('should keep a tombstone', () => {
+          storage.remove(id);
+          expect(stub.calledWith(`UPDATE ${defaultDocumentsCollection} SET deletedAt=NOW() WHERE _id=? AND deletedAt IS NULL`, [id])).to.equal(true);
+        });
+
+        it('should remove its attachments', async () => {
+          await storage.remove(id);
+          expect(stub.calledWith(`DELETE FROM ${defaultAttachmentsCollection} WHERE _id=?`, [id])).to.equal(true);
+        });
+      });
+    });
+
+    describe('.changesTriggers', () => {
+      let storage: any;
+      let connection: FakeConnection;
+      let stub: sinon.SinonStub;
+      const table = `${defaultDocumentsCollection}_changes`;
+
+      beforeEach(() => {
+        storage = new MariaDBStorage(options);
+        connection = new FakeConnection();
+        stub = sinon.stub(connection, 'query').returns(Promise.resolve());
+        stubs.push(stub);
+      });
+
+      it('should drop the triggers by default', () => {
+        storage.changesTriggers(connection);
+        expect(stub.callCount).to.equal(3);
+        expect(stub.calledWith(`DROP TRIGGER IF EXISTS ${table}_insert`)).to.equal(true);
+      });
+
+      it('should record changes with "changeFeed"', () => {
+        storage._changeFeed = true;
+        storage.changesTriggers(connection);
+        expect(stub.callCount).to.equal(6);
+        expect(stub.calledWith(
+          `CREATE TRIGGER ${table}_update AFTER UPDATE ON ${defaultDocumentsCollection} FOR EACH ROW ` +
+          `INSERT INTO ${table} (_id, type) VALUES (NEW._id, 'update')`
+        )).to.equal(true);
+      });
+
+      it('should record the removal of tombstones with "softDelete"', () => {
+        storage._changeFeed = true;
+        storage._softDelete = true;
+        storage.changesTriggers(connection);
+        expect(stub.calledWith(
+          `CREATE TRIGGER ${table}_update AFTER UPDATE ON ${defaultDocumentsCollection} FOR EACH ROW ` +
+          `INSERT INTO ${table} (_id, type) VALUES (NEW._id, IF(NEW.deletedAt IS NULL, 'update', 'delete'))`
+        )).to.equal(true);
+        expect(stub.calledWith(
+          `CREATE TRIGGER ${table}_delete AFTER DELETE ON ${defaultDocumentsCollection} FOR EACH ROW ` +
+          `INSERT INTO ${table} (_id, type) SELECT OLD._id, 'delete' FROM DUAL WHERE OLD.deletedAt IS NULL`
+        )).to.equal(true);
+      });
+    });
+
+    describe('.changes', () => {
+      let storage: MariaDBStorage;
+      const changedAt = new Date('2019-01-01T00:00:00.000Z');
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new MariaDBStorage(options);
+        const connection = connectionStub(storage);
+
+        stub = sinon.stub(connection, 'query').returns([
+          {seq: 3, _id: 'id', type: 'insert', changedAt},
+          {seq: 4, _id: 'id', type: 'delete', changedAt}
+        ]);
+        stubs.push(stub);
+      });
+
+      it('should list the changes after the cursor', () => {
+        const res: any = storage.changes(2);
+        expect(stub.calledWith(
+          `SELECT seq, _id, type, changedAt AS "changedAt" FROM ${defaultDocumentsCollection}_changes WHERE seq > ? ORDER BY seq LIMIT ?`,
+          [2, defaultChangesLimit]
+        )).to.equal(true);
+        expect(res.result).to.deep.equal({
+          changes: [
+            {seq: 3, id: 'id', type: 'insert', changedAt: '2019-01-01T00:00:00.000Z'},
+            {seq: 4, id: 'id', type: 'delete', changedAt: '2019-01-01T00:00:00.000Z'}
+          ],
+          cursor: 4
+        });
+      });
+
+      it('should keep the cursor without changes', () => {
+        stub.returns([]);
+        const res: any = storage.changes(2, 10);
+        expect(stub.calledWith(sinon.match.string, [2, 10])).to.equal(true);
+        expect(res.result).to.deep.equal({changes: [], cursor: 2});
+      });
+    });
+
+    describe('.allRevisions', () => {
+      let storage: MariaDBStorage;
+      const replacedAt = new Date('2019-01-01T00:00:00.000Z');
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new MariaDBStorage(options);
+        const connection = connectionStub(storage);
+
+        stub = sinon.stub(connection, 'query').returns([
+          {revision: 1, operation: 'update', replacedAt},
+          {revision: 2, operation: 'delete', replacedAt}
+        ]);
+        stubs.push(stub);
+      });
+
+      it('should list previous versions', () => {
+        const res: any = storage.allRevisions('id');
+        expect(stub.calledWith(
+          `SELECT revision, operation, replacedAt AS "replacedAt" FROM ${defaultDocumentsHistoryCollection} WHERE _id=? ORDER BY revision`,
+          ['id']
+        )).to.equal(true);
+        expect(res.result).to.deep.equal([
+          {revision: 1, operation: 'update', replacedAt: '2019-01-01T00:00:00.000Z'},
+          {revision: 2, operation: 'delete', replacedAt: '2019-01-01T00:00:00.000Z'}
+        ]);
+      });
+    });
+
+    describe('.getRevision', () => {
+      let storage: MariaDBStorage;
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new MariaDBStorage(options);
+        const connection = connectionStub(storage);
+
+        stub = sinon.stub(connection, 'query');
+        stubs.push(stub);
+      });
+
+      describe('revision found', () => {
+        beforeEach(() => {
+          stub.returns([{[valueKey]: JSON.stringify({test: 1})}]);
+        });
+
+        it('should return the previous version', () => {
+          const res: any = storage.getRevision('id', 1);
+          expect(stub.calledWith(
+            `SELECT value FROM ${defaultDocumentsHistoryCollection} WHERE _id=? AND revision=?`,
+            ['id', 1]
+          )).to.equal(true);
+          expect(res.result).to.deep.equal({test: 1});
+        });
+      });
+
+      describe('revision not found', () => {
+        beforeEach(() => {
+          stub.returns([]);
+        });
+
+        it('should throw an error', () => {
+          expect(() => storage.getRevision('id', 3)).to.throw('Cannot find revision 3 of document: id');
+        });
+      });
+    });
+
+    describe('.allTombstones', () => {
+      let storage: MariaDBStorage;
+      const deletedAt = new Date('2019-01-01T00:00:00.000Z');
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new MariaDBStorage(options);
+        const connection = connectionStub(storage);
+
+        stub = sinon.stub(connection, 'query').returns([{_id: 'id', [deletedAtKey]: deletedAt}]);
+        stubs.push(stub);
+      });
+
+      it('should list removed documents', () => {
+        const res: any = storage.allTombstones();
+        expect(res.result).to.deep.equal([{id: 'id', deletedAt: '2019-01-01T00:00:00.000Z'}]);
+        expect(stub.calledWith(
+          `SELECT _id, deletedAt AS "deletedAt" FROM ${defaultDocumentsCollection} WHERE deletedAt > ? ORDER BY deletedAt`,
+          [new Date(0)]
+        )).to.equal(true);
+      });
+
+      it('should only list documents removed after "since"', () => {
+        storage.allTombstones('2019-01-01');
+        expect(stub.calledWith(sinon.match.string, [new Date('2019-01-01')])).to.equal(true);
+      });
+    });
+
+    describe('.purgeTombstones', () => {
+      let storage: MariaDBStorage;
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new MariaDBStorage(options);
+        const connection = connectionStub(storage);
+
+        stub = sinon.stub(connection, 'query').returns({affectedRows: 2});
+        stubs.push(stub);
+      });
+
+      it('should remove tombstones older than the retention', () => {
+        const res: any = storage.purgeTombstones();
+        expect(res.result).to.equal(2);
+        expect(stub.calledWith(
+          `DELETE FROM ${defaultDocumentsCollection} WHERE deletedAt < NOW() - INTERVAL ? DAY`,
+          [defaultTombstoneRetention]
+        )).to.equal(true);
+      });
+
+      it('should use the given retention', () => {
+        storage.purgeTombstones(0);
+        expect(stub.calledWith(sinon.match.string, [0])).to.equal(true);
       });
     });
 
@@ -414,6 +1014,54 @@ describe(storageName, () => {
           expect(() => storage.getAttachment(id, name)).to.throw(`Cannot find attachment: ${id}`);
         });
       });
+
+      describe('with "revision"', () => {
+        beforeEach(() => {
+          const connection = connectionStub(storage);
+          stub = sinon.stub(connection, 'query').returns([{}]);
+          stubs.push(stub);
+        });
+
+        it('should get the revision', () => {
+          storage.getAttachment(id, name, {revision: 2});
+          expect(stub.calledWith(
+            `SELECT value, data, content_type FROM ${defaultAttachmentsCollection} WHERE _id=? AND name=? AND revision=?`,
+            [id, name, 2]
+          )).to.equal(true);
+        });
+
+        it('should look into the history', () => {
+          (storage as any)._attachmentHistory = true;
+          storage.getAttachment(id, name, {revision: 2});
+          expect(stub.calledWith(
+            `SELECT value, data, content_type FROM ${defaultAttachmentsCollection} WHERE _id=? AND name=? AND revision=? ` +
+            'UNION ALL SELECT value, data, content_type ' +
+            `FROM ${defaultAttachmentsHistoryCollection} WHERE _id=? AND name=? AND revision=?`,
+            [id, name, 2, id, name, 2]
+          )).to.equal(true);
+        });
+      });
+
+      describe('with "start" and "end"', () => {
+        beforeEach(() => {
+          const connection = connectionStub(storage);
+          stub = sinon.stub(connection, 'query').returns([{}]);
+          stubs.push(stub);
+        });
+
+        it('should only get the range', () => {
+          storage.getAttachment(id, name, {start: 2, end: 4});
+          expect(stub.calledWith(
+            `SELECT value, SUBSTRING(data, 3, 2) AS data, content_type FROM ${defaultAttachmentsCollection} WHERE _id=? AND name=?`,
+            [id, name]
+          )).to.equal(true);
+        });
+
+        it('should throw an error for an invalid range', () => {
+          expect(() => storage.getAttachment(id, name, {start: 4, end: 2})).to.throw('"start" is greater than "end"');
+          expect(stub.called).to.equal(false);
+        });
+      });
     });
 
     describe('.putAttachment', () => {
@@ -421,8 +1069,10 @@ describe(storageName, () => {
       const id = 'id';
       const name = 'name';
       const data: any = {
-        target: {result: {}}
+        type: 'text/plain',
+        target: {result: new ArrayBuffer(4)}
       };
+      const values = [id, name, sinon.match.instanceOf(Buffer), data.type, 4, attachmentDigest(Buffer.alloc(4))];
       let stub: sinon.SinonStub;
 
       beforeEach(async () => {
@@ -432,7 +1082,7 @@ describe(storageName, () => {
 
         stub = sinon.stub(connection, 'query').returns([]);
         stubs.push(stub);
-        stubs.push(sinon.stub(jioImport.jIO.util, 'readBlobAsDataURL').returns(data));
+        stubs.push(sinon.stub(jioImport.jIO.util, 'readBlobAsArrayBuffer').returns(data));
       });
 
       describe('with timestamps', () => {
@@ -440,11 +1090,15 @@ describe(storageName, () => {
           (storage as any)._timestamps = true;
         });
 
-        it('should insert data', async () => {
+        it('should replace data', async () => {
           await storage.putAttachment(id, name, data);
           expect(stub.calledWith(
-            `INSERT INTO ${defaultAttachmentsCollection} VALUES (NULL, ?, ?, ?, CURRENT_TIMESTAMP, NULL)`,
-            [id, name, data.target.result]
+            `INSERT INTO ${defaultAttachmentsCollection} (_id, name, data, content_type, length, digest, createdAt) ` +
+            'VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP) ' +
+            'ON DUPLICATE KEY UPDATE data=VALUES(data), content_type=VALUES(content_type), ' +
+            'length=VALUES(length), digest=VALUES(digest), value=NULL, revision=revision + 1, ' +
+            'createdAt=createdAt, updatedAt=CURRENT_TIMESTAMP',
+            values
           )).to.equal(true);
         });
       });
@@ -454,12 +1108,33 @@ describe(storageName, () => {
           (storage as any)._timestamps = false;
         });
 
-        it('should insert data', async () => {
+        it('should replace data', async () => {
           await storage.putAttachment(id, name, data);
           expect(stub.calledWith(
-            `INSERT INTO ${defaultAttachmentsCollection} VALUES (NULL, ?, ?, ?)`,
-            [id, name, data.target.result]
+            `INSERT INTO ${defaultAttachmentsCollection} (_id, name, data, content_type, length, digest) ` +
+            'VALUES (?, ?, ?, ?, ?, ?) ' +
+            'ON DUPLICATE KEY UPDATE data=VALUES(data), content_type=VALUES(content_type), ' +
+            'length=VALUES(length), digest=VALUES(digest), value=NULL, revision=revision + 1',
+            values
+          )).to.equal(true);
+        });
+      });
+
+      describe('with "attachmentHistory"', () => {
+        beforeEach(() => {
+          (storage as any)._attachmentHistory = true;
+          (storage as any)._timestamps = false;
+        });
+
+        it('should keep the previous version', async () => {
+          await storage.putAttachment(id, name, data);
+          expect(stub.firstCall.calledWith(
+            `INSERT INTO ${defaultAttachmentsHistoryCollection} (_id, name, revision, value, data, content_type, length, digest) ` +
+            'SELECT _id, name, revision, value, data, content_type, length, digest ' +
+            `FROM ${defaultAttachmentsCollection} WHERE _id=? AND name=?`,
+            [id, name]
           )).to.equal(true);
+          expect(stub.secondCall.args[0]).to.match(new RegExp(`^INSERT INTO ${defaultAttachmentsCollection} `));
         });
       });
     });
@@ -480,10 +1155,13 @@ describe(storageName, () => {
 
       it('should remove by id', () => {
         storage.removeAttachment(id, name);
-        expect(stub.calledWith({
-          namedPlaceholders: true,
-          sql: `DELETE FROM ${defaultAttachmentsCollection} WHERE _id=:id AND name=:name`
-        }, {id, name})).to.equal(true);
+        expect(stub.calledWith(`DELETE FROM ${defaultAttachmentsCollection} WHERE _id=? AND name=?`, [id, name])).to.equal(true);
+      });
+
+      it('should remove previous versions with "attachmentHistory"', async () => {
+        (storage as any)._attachmentHistory = true;
+        await storage.removeAttachment(id, name);
+        expect(stub.calledWith(`DELETE FROM ${defaultAttachmentsHistoryCollection} WHERE _id=? AND name=?`, [id, name])).to.equal(true);
       });
     });
 
@@ -491,33 +1169,280 @@ describe(storageName, () => {
       let storage: MariaDBStorage;
       const id = 'id';
       const attachments = [{
-        name: 'attachment 1'
+        name: 'attachment 1',
+        revision: 2,
+        content_type: 'text/plain',
+        length: 4,
+        digest: 'sha256-digest'
       }];
+      let stub: sinon.SinonStub;
 
       beforeEach(() => {
         storage = new MariaDBStorage(options);
         const connection = connectionStub(storage);
 
-        stubs.push(sinon.stub(connection, 'query').returns(attachments));
+        stub = sinon.stub(connection, 'query').returns(attachments);
+        stubs.push(stub);
       });
 
       it('should return a list of attachments', () => {
         const results = storage.allAttachments(id);
         expect((results as any).result).to.deep.equal({
-          [attachments[0].name]: {}
+          [attachments[0].name]: {revision: 2, content_type: 'text/plain', length: 4, digest: 'sha256-digest'}
         });
       });
+
+      it('should not read the content', () => {
+        storage.allAttachments(id);
+        expect(stub.calledWith(
+          `SELECT name, revision, content_type, length, digest, createdAt, updatedAt FROM ${defaultAttachmentsCollection} WHERE _id=?`,
+          [id]
+        )).to.equal(true);
+      });
     });
 
     describe('.hasCapacity', () => {
-      it('should support list', () => {
+      it('should have all capacities', () => {
         const storage = new MariaDBStorage(options);
-        expect(storage.hasCapacity('list')).to.equal(true);
+        expect(storage.hasCapacity()).to.equal(true);
       });
+    });
 
-      it('should not support queries', () => {
-        const storage = new MariaDBStorage(options);
-        expect(storage.hasCapacity('query')).to.equal(false);
+    describe('.migrateAttachments', () => {
+      let storage: MariaDBStorage;
+      let stub: sinon.SinonStub;
+
+      beforeEach(async () => {
+        storage = new MariaDBStorage(options);
+        await (storage as any)._dbPromise;
+        stub = sinon.stub(FakeConnection.prototype, 'query').returns(Promise.resolve([]));
+        stub.onFirstCall().returns(Promise.resolve([{id: 1, value: 'data:text/plain;base64,dGVzdA=='}]));
+        stubs.push(stub);
+      });
+
+      it('should convert data URIs to binary data', async () => {
+        const migrated = await storage.migrateAttachments(1);
+        expect(migrated).to.equal(1);
+        expect(stub.secondCall.args[0]).to.equal(
+          `UPDATE ${defaultAttachmentsCollection} SET data=?, content_type=?, length=?, digest=?, value=NULL ` +
+          'WHERE id=? AND value IS NOT NULL'
+        );
+        expect(stub.secondCall.args[1][0].toString()).to.equal('test');
+        expect(stub.secondCall.args[1].slice(1)).to.deep.equal(['text/plain', 4, attachmentDigest(Buffer.from('test')), 1]);
+      });
+
+      it('should read the next batch', async () => {
+        await storage.migrateAttachments(1);
+        expect(stub.thirdCall.args).to.deep.equal([
+          `SELECT id, value FROM ${defaultAttachmentsCollection} WHERE value IS NOT NULL ORDER BY id LIMIT ?`,
+          [1]
+        ]);
+      });
+
+      it('should migrate previous versions with "attachmentHistory"', async () => {
+        (storage as any)._attachmentHistory = true;
+        await storage.migrateAttachments();
+        expect(stub.calledWith(
+          `SELECT id, value FROM ${defaultAttachmentsHistoryCollection} WHERE value IS NOT NULL ORDER BY id LIMIT ?`,
+          [100]
+        )).to.equal(true);
+      });
+    });
+
+    describe('.purgeOrphanAttachments', () => {
+      let storage: MariaDBStorage;
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new MariaDBStorage(options);
+        const connection = connectionStub(storage);
+
+        stub = sinon.stub(connection, 'query').returns(Promise.resolve({affectedRows: 2}));
+        stubs.push(stub);
+      });
+
+      it('should remove attachments without document', async () => {
+        const purged = await storage.purgeOrphanAttachments();
+        expect(purged).to.equal(2);
+        expect(stub.calledWith(
+          `DELETE FROM ${defaultAttachmentsCollection} WHERE NOT EXISTS ` +
+          `(SELECT 1 FROM ${defaultDocumentsCollection} d WHERE d._id = ${defaultAttachmentsCollection}._id)`,
+          []
+        )).to.equal(true);
+      });
+
+      it('should remove previous versions with "attachmentHistory"', async () => {
+        (storage as any)._attachmentHistory = true;
+        const purged = await storage.purgeOrphanAttachments();
+        expect(purged).to.equal(4);
+        expect(stub.calledWith(
+          `DELETE FROM ${defaultAttachmentsHistoryCollection} WHERE NOT EXISTS ` +
+          `(SELECT 1 FROM ${defaultDocumentsCollection} d WHERE d._id = ${defaultAttachmentsHistoryCollection}._id)`,
+          []
+        )).to.equal(true);
+      });
+    });
+
+    describe('.createAttachmentReadStream', () => {
+      let storage: MariaDBStorage;
+      const id = 'id';
+      const name = 'name';
+      let stub: sinon.SinonStub;
+
+      beforeEach(async () => {
+        storage = new MariaDBStorage(options);
+        await (storage as any)._dbPromise;
+        stub = sinon.stub(FakeConnection.prototype, 'query');
+        stubs.push(stub);
+      });
+
+      it('should read the attachment by chunks', async () => {
+        stub.onFirstCall().returns(Promise.resolve([{revision: 2, value: null, size: 4}]));
+        stub.onSecondCall().returns(Promise.resolve([{chunk: Buffer.from('te')}]));
+        stub.onThirdCall().returns(Promise.resolve([{chunk: Buffer.from('st')}]));
+        const data = await readStream(storage.createAttachmentReadStream(id, name, {chunkSize: 2}));
+        expect(data.toString()).to.equal('test');
+        expect(stub.firstCall.args).to.deep.equal([
+          `SELECT revision, value, LENGTH(data) AS size FROM ${defaultAttachmentsCollection} ` +
+          'WHERE _id=? AND name=? AND revision=COALESCE(?, revision)',
+          [id, name, null]
+        ]);
+        expect(stub.thirdCall.args).to.deep.equal([
+          `SELECT SUBSTRING(data, ?, ?) AS chunk FROM ${defaultAttachmentsCollection} ` +
+          'WHERE _id=? AND name=? AND revision=?',
+          [3, 2, id, name, 2]
+        ]);
+        expect(stub.callCount).to.equal(3);
+      });
+
+      it('should only read the range', async () => {
+        stub.onFirstCall().returns(Promise.resolve([{revision: 2, value: null, size: 4}]));
+        stub.onSecondCall().returns(Promise.resolve([{chunk: Buffer.from('es')}]));
+        const data = await readStream(storage.createAttachmentReadStream(id, name, {start: 1, end: 3}));
+        expect(data.toString()).to.equal('es');
+        expect(stub.secondCall.args[1]).to.deep.equal([2, 2, id, name, 2]);
+        expect(stub.callCount).to.equal(2);
+      });
+
+      it('should look for previous revisions with "attachmentHistory"', async () => {
+        (storage as any)._attachmentHistory = true;
+        stub.returns(Promise.resolve([]));
+        stub.onSecondCall().returns(Promise.resolve([{revision: 1, value: 'data:,test', size: null}]));
+        const data = await readStream(storage.createAttachmentReadStream(id, name, {revision: 1}));
+        expect(data.toString()).to.equal('test');
+        expect(stub.secondCall.args[0]).to.match(new RegExp(`FROM ${defaultAttachmentsHistoryCollection} `));
+      });
+
+      it('should fail if the attachment does not exist', async () => {
+        stub.returns(Promise.resolve([]));
+        try {
+          await readStream(storage.createAttachmentReadStream(id, name));
+          throw new Error('should have failed');
+        }
+        catch (error) {
+          expect(error.status_code).to.equal(404);
+        }
+      });
+
+      it('should fail if the attachment is replaced while reading', async () => {
+        stub.returns(Promise.resolve([]));
+        stub.onFirstCall().returns(Promise.resolve([{revision: 2, value: null, size: 4}]));
+        try {
+          await readStream(storage.createAttachmentReadStream(id, name));
+          throw new Error('should have failed');
+        }
+        catch (error) {
+          expect(error.status_code).to.equal(409);
+        }
+      });
+    });
+
+    describe('.createAttachmentWriteStream', () => {
+      let storage: MariaDBStorage;
+      const id = 'id';
+      const name = 'name';
+      const uploadsTable = `${defaultAttachmentsCollection}_uploads`;
+      let stub: sinon.SinonStub;
+
+      beforeEach(async () => {
+        storage = new MariaDBStorage(options);
+        await (storage as any)._dbPromise;
+        stub = sinon.stub(FakeConnection.prototype, 'query').returns(Promise.resolve({insertId: 3}));
+        stubs.push(stub);
+      });
+
+      it('should append chunks to an upload', async () => {
+        await writeStream(storage.createAttachmentWriteStream(id, name), [Buffer.from('te'), Buffer.from('st')]);
+        expect(stub.firstCall.args[0]).to.equal(`INSERT INTO ${uploadsTable} (data) VALUES ('')`);
+        expect(stub.secondCall.args[0]).to.equal(`UPDATE ${uploadsTable} SET data=CONCAT(data, ?) WHERE id=?`);
+        expect(stub.secondCall.args[1][1]).to.equal(3);
+        expect(stub.thirdCall.args[1][0].toString()).to.equal('st');
+      });
+
+      it('should replace the attachment with the upload', async () => {
+        await writeStream(storage.createAttachmentWriteStream(id, name, {contentType: 'text/plain'}), [Buffer.from('test')]);
+        expect(stub.calledWith(
+          `INSERT INTO ${defaultAttachmentsCollection} (_id, name, data, content_type, length, digest, createdAt) ` +
+          `SELECT ?, ?, data, ?, ?, ?, CURRENT_TIMESTAMP FROM ${uploadsTable} WHERE id=? ` +
+          'ON DUPLICATE KEY UPDATE data=VALUES(data), content_type=VALUES(content_type), ' +
+          'length=VALUES(length), digest=VALUES(digest), value=NULL, revision=revision + 1, ' +
+          'createdAt=createdAt, updatedAt=CURRENT_TIMESTAMP',
+          [id, name, 'text/plain', 4, attachmentDigest(Buffer.from('test')), 3]
+        )).to.equal(true);
+        expect(stub.lastCall.args).to.deep.equal([`DELETE FROM ${uploadsTable} WHERE id=?`, [3]]);
+      });
+
+      it('should keep the previous version with "attachmentHistory"', async () => {
+        (storage as any)._attachmentHistory = true;
+        await writeStream(storage.createAttachmentWriteStream(id, name), [Buffer.from('test')]);
+        expect(stub.thirdCall.args[0]).to.match(new RegExp(`^INSERT INTO ${defaultAttachmentsHistoryCollection} `));
+      });
+    });
+
+    describe('.close', () => {
+      let storage: MariaDBStorage;
+      let endStub: sinon.SinonStub;
+
+      beforeEach(async () => {
+        storage = new MariaDBStorage(options);
+        await (storage as any)._dbPromise;
+        endStub = sinon.stub((storage as any)._pool, 'end').returns(Promise.resolve());
+        stubs.push(endStub);
+      });
+
+      it('should end the pool', async () => {
+        await storage.close();
+        expect(endStub.calledOnce).to.equal(true);
+      });
+
+      it('should wait for running queries', async () => {
+        let resolveQuery;
+        (storage as any).track(new Promise(resolve => resolveQuery = resolve));
+        const closing = storage.close();
+        await Promise.resolve();
+        expect(endStub.called).to.equal(false);
+        resolveQuery();
+        await closing;
+        expect(endStub.calledOnce).to.equal(true);
+      });
+
+      it('should only end the pool once', async () => {
+        await storage.close();
+        await storage.close();
+        expect(endStub.calledOnce).to.equal(true);
+      });
+
+      it('should reject further calls', async () => {
+        await storage.close();
+        let error;
+        try {
+          await storage.get('id');
+        }
+        catch (err) {
+          error = err;
+        }
+        expect(error.message).to.equal('MariaDB storage is closed');
+        expect(error.status_code).to.equal(503);
       });
     });
 
@@ -542,10 +1467,58 @@ describe(storageName, () => {
         stubs.push(stub);
 
         params = {
-          query: 'portal_type: "File"'
+          query: ''
         };
       });
 
+      describe('with "query"', () => {
+        beforeEach(() => {
+          params.query = 'portal_type: "File"';
+        });
+
+        it('should set WHERE clause', () => {
+          storage.buildQuery(params);
+          expect(stub.calledWith(
+            `SELECT * FROM ${defaultDocumentsCollection} WHERE JSON_UNQUOTE(JSON_EXTRACT(value, '$.portal_type')) = ?`,
+            ['File']
+          )).to.equal(true);
+        });
+      });
+
+      describe('with "softDelete"', () => {
+        beforeEach(() => {
+          (storage as any)._softDelete = true;
+        });
+
+        it('should not list tombstones', () => {
+          storage.buildQuery(params);
+          expect(stub.calledWith(`SELECT * FROM ${defaultDocumentsCollection} WHERE deletedAt IS NULL`, [])).to.equal(true);
+        });
+
+        it('should add the condition to the query', () => {
+          params.query = 'portal_type: "File"';
+          storage.buildQuery(params);
+          expect(stub.calledWith(
+            `SELECT * FROM ${defaultDocumentsCollection} WHERE deletedAt IS NULL ` +
+            "AND (JSON_UNQUOTE(JSON_EXTRACT(value, '$.portal_type')) = ?)",
+            ['File']
+          )).to.equal(true);
+        });
+      });
+
+      describe('with "sort_on"', () => {
+        beforeEach(() => {
+          params.sort_on = [['title', 'ascending']];
+        });
+
+        it('should set ORDER BY clause', () => {
+          storage.buildQuery(params);
+          expect(stub.calledWith(
+            `SELECT * FROM ${defaultDocumentsCollection} ORDER BY JSON_UNQUOTE(JSON_EXTRACT(value, '$.title')) ASC`, []
+          )).to.equal(true);
+        });
+      });
+
       describe('with "limit"', () => {
         beforeEach(() => {
           params.limit = [0, 10];
@@ -553,9 +1526,7 @@ describe(storageName, () => {
 
         it('should set limit', () => {
           storage.buildQuery(params);
-          expect(stub.calledWith({
-            sql: `SELECT * FROM ${defaultDocumentsCollection} LIMIT ${params.limit![1]} OFFSET ${params.limit![0]}`
-          })).to.equal(true);
+          expect(stub.calledWith(`SELECT * FROM ${defaultDocumentsCollection} ORDER BY id LIMIT 10 OFFSET 0`, [])).to.equal(true);
         });
       });
 
@@ -596,4 +1567,8 @@ describe(storageName, () => {
   });
 });
 
+describeServerConformance(storageName, 'CONFORMANCE_MARIADB_URL', ({host, port, user, password, database}, {timestamps}) => {
+  return new MariaDBStorage({type: 'mariadb', host, port, user, password, database, timestamps});
+});
+
 addStorageStub.restore();
@@ -1,29 +1,20 @@
 /* tslint:disable:no-console */
 import {
   getQueue, promiseToQueue,
-  IJioStorage, IQueue, IClearRoadOptions,
-  IJioQueryOptions
+  IClearRoadOptions,
+  IJioSimpleQuery, IJioComplexQuery
 } from '@clearroad/api';
 import { jIO } from 'jio';
 
-const mariadb = require('mariadb');
+import {
+  SqlStorage, ISqlDialect, SqlParam, ISqlStorageOptions, ISqlQuery, ISqlResult, ISqlDocument,
+  ISqlAttachmentOptions, ISqlAttachmentReadStreamOptions, ISqlAttachmentWriteStreamOptions,
+  ISqlRevision, ISqlTombstone, ISqlChange, ISqlChanges, ISqlAttachmentMetadata,
+  idKey, valueKey, dataKey, contentTypeKey, lengthKey, digestKey, createdAtKey, updatedAtKey, deletedAtKey
+} from '../sql';
+import { IAttachmentRange } from '../local';
 
-/**
- * @internal
- */
-export const idKey = '_id';
-/**
- * @internal
- */
-export const valueKey = 'value';
-/**
- * @internal
- */
-export const createdAtKey = 'createdAt';
-/**
- * @internal
- */
-export const updatedAtKey = 'updatedAt';
+const mariadb = require('mariadb');
 
 /**
  * @internal
@@ -42,18 +33,10 @@ export interface IConnection {
  */
 export interface IPool {
   getConnection: () => Promise<IConnection>;
+  end: () => Promise<void>;
 }
 
-/**
- * @internal
- */
-export const defaultDocumentsCollection = 'documents';
-/**
- * @internal
- */
-export const defaultAttachmentsCollection = 'attachments';
-
-export interface IMariaDBStorageOptions {
+export interface IMariaDBStorageOptions extends ISqlStorageOptions {
   type: 'mariadb';
   /**
    * IP address or DNS of the database server.
@@ -76,37 +59,143 @@ export interface IMariaDBStorageOptions {
    */
   database: string;
   /**
-   * Table name for all documents.
+   * Store documents in a `JSON` column instead of `TEXT`.
+   * Requires MariaDB 10.2.7+ or MySQL 5.7.8+. Disabled by default
    */
-  documentsTableName?: string;
-  /**
-   * Table name for attachments.
-   */
-  attachmentsTableName?: string;
-  /**
-   * Add created/updatedAt timestamps for every document.
-   * Enabled by default for both
-   */
-  timestamps?: boolean;
+  jsonColumn?: boolean;
 }
 
-interface IMariaDBDocument {
-  [idKey]: string;
-  [valueKey]: string;
-}
+export type IMariaDBAttachmentOptions = ISqlAttachmentOptions;
+export type IMariaDBAttachmentReadStreamOptions = ISqlAttachmentReadStreamOptions;
+export type IMariaDBAttachmentWriteStreamOptions = ISqlAttachmentWriteStreamOptions;
+export type IMariaDBRevision = ISqlRevision;
+export type IMariaDBTombstone = ISqlTombstone;
+export type IMariaDBChange = ISqlChange;
+export type IMariaDBChanges = ISqlChanges;
+export type IMariaDBAttachmentMetadata = ISqlAttachmentMetadata;
+
+type MariaDBChangeType = 'insert'|'update'|'delete';
+
+const changeTypes: MariaDBChangeType[] = ['insert', 'update', 'delete'];
+
+const simpleOperators = ['=', '!=', '<', '<=', '>', '>='];
+const complexOperators = ['AND', 'OR', 'NOT'];
+/**
+ * `%` wildcards in jIO are `LIKE` matches
+ */
+const likeOperators = {
+  '=': 'LIKE',
+  '!=': 'NOT LIKE'
+};
+
+const escapeString = (value: any) => `${value}`.replace(/\\/g, '\\\\').replace(/'/g, "''");
+
+// `_` and `\` have a special meaning in LIKE patterns, but not in jIO
+const escapeLike = (value: string) => value.replace(/[\\_]/g, '\\$&');
+
+const isWildcard = (value: any) => typeof value === 'string' && value.indexOf('%') !== -1;
+
+const indexFieldName = (key: string) => key.replace(/\W/g, '_');
+
+/**
+ * Virtual column extracting an indexed document field
+ * @internal
+ * @param key
+ */
+export const indexColumnName = (key: string) => `${valueKey}_${indexFieldName(key)}`;
+
+const jsonField = (key: string) => `JSON_UNQUOTE(JSON_EXTRACT(${valueKey}, '$.${escapeString(key)}'))`;
 
-interface IMariaDBAttachment {
-  [idKey]: string;
-  name: string;
+const keyToDBField = (key: string, indexedKeys: string[] = []) => {
+  if (key === 'modification_date') {
+    return createdAtKey;
+  }
+  // indexed fields are queried through their virtual column so MariaDB can use the index
+  return indexedKeys.indexOf(key) === -1 ? jsonField(key) : indexColumnName(key);
+};
+
+const queryOperator = (operator: string, operators: string[]) => {
+  if (operators.indexOf(operator) === -1) {
+    throw new jIO.util.jIOError(
+      `Unsupported query operator: ${operator}`,
+      400
+    );
+  }
+  return operator;
+};
+
+interface IQueryContext {
+  param: SqlParam;
+  indexedKeys: string[];
 }
 
+const rangeOperators = ['<', '<=', '>', '>='];
+const numberRegExp = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Comparing a field with `<`, `<=`, `>` or `>=` to a number sends it as a number, so MariaDB compares the field by value
+ * @param key
+ * @param operator
+ * @param value
+ */
+const comparedValue = (key: string, operator: string, value: any) => {
+  if (key === 'modification_date' || rangeOperators.indexOf(operator) === -1 || !numberRegExp.test(`${value}`)) {
+    return value;
+  }
+  return Number(value);
+};
+
+const parseSimpleQuery = (query: IJioSimpleQuery, key = '', context: IQueryContext) => {
+  const operator = queryOperator(query.operator || '=', simpleOperators);
+  const field = keyToDBField(key, context.indexedKeys);
+  if (isWildcard(query.value) && likeOperators[operator]) {
+    return `${field} ${likeOperators[operator]} ${context.param(escapeLike(query.value))}`;
+  }
+  return `${field} ${operator} ${context.param(comparedValue(key, operator, query.value))}`;
+};
+
+const parseComplexQuery = (query: IJioComplexQuery, context: IQueryContext) => {
+  const operator = queryOperator(query.operator, complexOperators);
+  if (operator === 'NOT') {
+    // jIO only negates the first query of the list
+    return `NOT (${compileQuery(query.query_list[0], query.key, context)})`;
+  }
+  return `(${query.query_list.map(subquery => compileQuery(subquery, query.key, context)).join(` ${operator} `)})`;
+};
+
+const compileQuery = (parsed: IJioSimpleQuery|IJioComplexQuery, key: string|undefined, context: IQueryContext): string => {
+  if (parsed.type === 'complex') {
+    return parseComplexQuery(parsed as IJioComplexQuery, context);
+  }
+  else {
+    return parseSimpleQuery(parsed as IJioSimpleQuery, parsed.key || key, context);
+  }
+};
+
+/**
+ * Compile a jIO query to a parameterized SQL condition.
+ * @internal
+ * @param parsed
+ * @param key
+ * @param indexedKeys
+ */
+export const parseQuery = (parsed: IJioSimpleQuery|IJioComplexQuery, key?: string, indexedKeys: string[] = []): ISqlQuery => {
+  const values: any[] = [];
+  const param = (value: any) => {
+    values.push(value);
+    return '?';
+  };
+  const text = compileQuery(parsed, key, {param, indexedKeys});
+  return {text, values};
+};
+
 const createDatabase = (databaseName: string) => `CREATE DATABASE IF NOT EXISTS \`${databaseName}\``;
 
-const createDocumentsTable = (tableName: string, timestamps: boolean) => {
+const createDocumentsTable = (tableName: string, timestamps: boolean, jsonColumn: boolean) => {
   return `CREATE TABLE IF NOT EXISTS ${tableName} (
     id INT NOT NULL AUTO_INCREMENT PRIMARY KEY,
     ${idKey} VARCHAR(255) NOT NULL,
-    ${valueKey} TEXT${timestamps ? `, ${createdAtKey} TIMESTAMP, ${updatedAtKey} TIMESTAMP` : ''}
+    ${valueKey} ${jsonColumn ? 'JSON' : 'TEXT'}${timestamps ? `, ${createdAtKey} TIMESTAMP, ${updatedAtKey} TIMESTAMP` : ''}
   )`;
 };
 
@@ -115,7 +204,23 @@ const createAttachmentsTable = (tableName: string, timestamps: boolean) => {
     id INT NOT NULL AUTO_INCREMENT PRIMARY KEY,
     ${idKey} VARCHAR(255) NOT NULL,
     name VARCHAR(255) NOT NULL,
-    ${valueKey} TEXT${timestamps ? `, ${createdAtKey} TIMESTAMP, ${updatedAtKey} TIMESTAMP` : ''}
+    ${valueKey} TEXT,
+    ${dataKey} LONGBLOB,
+    ${contentTypeKey} VARCHAR(255),
+    ${lengthKey} INT,
+    ${digestKey} VARCHAR(255)${timestamps ? `, ${createdAtKey} TIMESTAMP, ${updatedAtKey} TIMESTAMP` : ''}
+  )`;
+};
+
+/**
+ * Attachments written with a stream are appended to an upload, then copied to the attachments table once complete
+ * @param tableName
+ */
+const createUploadsTable = (tableName: string) => {
+  return `CREATE TABLE IF NOT EXISTS ${tableName} (
+    id INT NOT NULL AUTO_INCREMENT PRIMARY KEY,
+    ${dataKey} LONGBLOB NOT NULL,
+    startedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP
   )`;
 };
 
@@ -125,94 +230,343 @@ const indexTable = (tableName: string, fields: string[]) => {
   return `ALTER TABLE ${tableName} ADD INDEX ${indexName(tableName, fields)}(${fields.join(', ')})`;
 };
 
+/**
+ * Keep only the latest row of each document, so the unique index can be created on older tables
+ * @param tableName
+ */
+const removeDuplicates = (tableName: string, keys: string[]) => {
+  return `DELETE a FROM ${tableName} a JOIN ${tableName} b ON ${keys.map(key => `a.${key} = b.${key}`).join(' AND ')} AND a.id < b.id`;
+};
+
+const uniqueIndexTable = (tableName: string, keys: string[]) => {
+  return `ALTER TABLE ${tableName} ADD UNIQUE INDEX ${tableName}_unique_${keys.join('_')}(${keys.join(', ')})`;
+};
+
+/**
+ * Attachments are numbered from 1 and incremented every time they are replaced
+ * @param tableName
+ */
+const addRevisionColumn = (tableName: string) => {
+  return `ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS revision INT NOT NULL DEFAULT 1`;
+};
+
+/**
+ * Attachments are saved as binary data, the former data URI column is kept until they are migrated
+ * @param tableName
+ */
+const addBinaryColumns = (tableName: string) => {
+  return `ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS ${dataKey} LONGBLOB, ADD COLUMN IF NOT EXISTS ${contentTypeKey} VARCHAR(255)`;
+};
+
+/**
+ * Size and digest of attachments, so they can be compared without reading their content
+ * @param tableName
+ */
+const addMetadataColumns = (tableName: string) => {
+  return `ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS ${lengthKey} INT, ADD COLUMN IF NOT EXISTS ${digestKey} VARCHAR(255)`;
+};
+
+/**
+ * Removed documents are kept as tombstones with their removal date when `softDelete` is enabled.
+ * `DATETIME` is used as MariaDB may update the first `TIMESTAMP` column of a row by itself
+ * @param tableName
+ */
+const addDeletedAtColumn = (tableName: string) => {
+  return `ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS ${deletedAtKey} DATETIME NULL`;
+};
+
+/**
+ * Changes of documents are numbered by an auto-incremented sequence, so they can be read in order from a cursor
+ * @param tableName
+ */
+const createChangesTable = (tableName: string) => {
+  return `CREATE TABLE IF NOT EXISTS ${tableName} (
+    seq BIGINT NOT NULL AUTO_INCREMENT PRIMARY KEY,
+    ${idKey} VARCHAR(255) NOT NULL,
+    type VARCHAR(6) NOT NULL,
+    changedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`;
+};
+
+/**
+ * Row recorded for each type of change.
+ * With `softDelete`, documents are removed by setting their removal date and tombstones are purged silently
+ * @param softDelete
+ */
+const changeRows = (softDelete: boolean): {[type in MariaDBChangeType]: string} => ({
+  insert: `VALUES (NEW.${idKey}, 'insert')`,
+  update: softDelete ?
+    `VALUES (NEW.${idKey}, IF(NEW.${deletedAtKey} IS NULL, 'update', 'delete'))` :
+    `VALUES (NEW.${idKey}, 'update')`,
+  delete: softDelete ?
+    `SELECT OLD.${idKey}, 'delete' FROM DUAL WHERE OLD.${deletedAtKey} IS NULL` :
+    `VALUES (OLD.${idKey}, 'delete')`
+});
+
+const dropChangesTrigger = (tableName: string, type: MariaDBChangeType) => `DROP TRIGGER IF EXISTS ${tableName}_${type}`;
+
+/**
+ * Record the changes of documents from triggers, so writes made outside of the storage are listed as well
+ * @param tableName
+ * @param documentsTable
+ * @param type
+ * @param softDelete
+ */
+const createChangesTrigger = (tableName: string, documentsTable: string, type: MariaDBChangeType, softDelete: boolean) => {
+  return `CREATE TRIGGER ${tableName}_${type} AFTER ${type.toUpperCase()} ON ${documentsTable} FOR EACH ROW ` +
+    `INSERT INTO ${tableName} (${idKey}, type) ${changeRows(softDelete)[type]}`;
+};
+
+const createAttachmentsHistoryTable = (tableName: string, timestamps: boolean) => {
+  return `CREATE TABLE IF NOT EXISTS ${tableName} (
+    id INT NOT NULL AUTO_INCREMENT PRIMARY KEY,
+    ${idKey} VARCHAR(255) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    revision INT NOT NULL,
+    ${valueKey} TEXT,
+    ${dataKey} LONGBLOB,
+    ${contentTypeKey} VARCHAR(255),
+    ${lengthKey} INT,
+    ${digestKey} VARCHAR(255)${timestamps ? `, ${createdAtKey} TIMESTAMP NULL, ${updatedAtKey} TIMESTAMP NULL` : ''}
+  )`;
+};
+
+const createDocumentsHistoryTable = (tableName: string, jsonColumn: boolean) => {
+  return `CREATE TABLE IF NOT EXISTS ${tableName} (
+    id INT NOT NULL AUTO_INCREMENT PRIMARY KEY,
+    ${idKey} VARCHAR(255) NOT NULL,
+    revision INT NOT NULL,
+    ${valueKey} ${jsonColumn ? 'JSON' : 'TEXT'},
+    operation VARCHAR(6) NOT NULL,
+    replacedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`;
+};
+
+const indexKeys = (index: string|string[]) => typeof index === 'string' ? [index] : index;
+
+/**
+ * List the document fields used in indexes
+ * @internal
+ * @param indexes
+ */
+export const indexedFields = (indexes: Array<string|string[]>) => {
+  return indexes.reduce((keys: string[], index) => {
+    return keys.concat(indexKeys(index).filter(key => key !== 'modification_date' && keys.indexOf(key) === -1));
+  }, []);
+};
+
+/**
+ * @internal
+ * @param tableName
+ * @param key
+ */
+export const addIndexColumn = (tableName: string, key: string) => {
+  return `ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS ${indexColumnName(key)} VARCHAR(255) AS (${jsonField(key)}) VIRTUAL`;
+};
+
+/**
+ * @internal
+ * @param tableName
+ * @param index
+ */
+export const indexFields = (tableName: string, index: string|string[]) => {
+  return indexTable(tableName, indexKeys(index).map(key => keyToDBField(key, [key])));
+};
+
+/**
+ * @internal
+ */
+export const resultAsJson = (doc: ISqlDocument) => JSON.parse(doc[valueKey] || '{}');
+
+/**
+ * Select only a range of the binary data, positions start at `1` in SQL
+ * @internal
+ * @param range
+ */
+export const dataRange = ({start, end}: IAttachmentRange) => {
+  if (end !== Infinity) {
+    return `SUBSTRING(${dataKey}, ${start + 1}, ${end - start}) AS ${dataKey}`;
+  }
+  return start ? `SUBSTRING(${dataKey}, ${start + 1}) AS ${dataKey}` : dataKey;
+};
+
+/**
+ * Documents are upserted on their id, columns are listed as the table also has a removal date with `softDelete`
+ * @param table
+ * @param id
+ * @param value
+ * @param timestamps
+ * @param softDelete
+ */
+const upsertDocument = (table: string, id: string, value: string, timestamps: boolean, softDelete: boolean) => {
+  let upsert = `INSERT INTO ${table} (${idKey}, ${valueKey}) VALUES (${id}, ${value}) ` +
+    `ON DUPLICATE KEY UPDATE ${valueKey}=VALUES(${valueKey})`;
+  if (timestamps) {
+    // createdAt is assigned to itself, otherwise MariaDB updates the first TIMESTAMP column of the row
+    upsert = `INSERT INTO ${table} (${idKey}, ${valueKey}, ${createdAtKey}, ${updatedAtKey}) ` +
+      `VALUES (${id}, ${value}, CURRENT_TIMESTAMP, NULL) ` +
+      `ON DUPLICATE KEY UPDATE ${valueKey}=VALUES(${valueKey}), ${createdAtKey}=${createdAtKey}, ${updatedAtKey}=CURRENT_TIMESTAMP`;
+  }
+  if (softDelete) {
+    // saving a removed document brings it back
+    upsert += `, ${deletedAtKey}=NULL`;
+  }
+  return upsert;
+};
+
+/**
+ * Attachments are upserted on their id and name
+ * @param table
+ * @param values
+ * @param from
+ * @param timestamps
+ */
+const upsertAttachment = (table: string, values: string[], from: string|undefined, timestamps: boolean) => {
+  // the data URI of an attachment saved by a previous version is cleared
+  let update = `${dataKey}=VALUES(${dataKey}), ${contentTypeKey}=VALUES(${contentTypeKey}), ` +
+    `${lengthKey}=VALUES(${lengthKey}), ${digestKey}=VALUES(${digestKey}), ${valueKey}=NULL, revision=revision + 1`;
+  let columns = `${idKey}, name, ${dataKey}, ${contentTypeKey}, ${lengthKey}, ${digestKey}`;
+  if (timestamps) {
+    // createdAt is assigned to itself, otherwise MariaDB updates the first TIMESTAMP column of the row
+    update += `, ${createdAtKey}=${createdAtKey}, ${updatedAtKey}=CURRENT_TIMESTAMP`;
+    columns += `, ${createdAtKey}`;
+    values = [...values, 'CURRENT_TIMESTAMP'];
+  }
+  const source = from ? `SELECT ${values.join(', ')} FROM ${from}` : `VALUES (${values.join(', ')})`;
+  return `INSERT INTO ${table} (${columns}) ${source} ON DUPLICATE KEY UPDATE ${update}`;
+};
+
 /**
  * @internal
+ * @param indexedKeys Document fields queried through their virtual column
  */
-export const resultAsJson = (doc: IMariaDBDocument) => JSON.parse(doc[valueKey] || '{}');
+export const mariaDBDialect = (indexedKeys: string[]): ISqlDialect => ({
+  placeholder: () => '?',
+  now: 'NOW()',
+  daysAgo: days => `NOW() - INTERVAL ${days} DAY`,
+  condition: (parsed, param) => compileQuery(parsed, undefined, {param, indexedKeys}),
+  sortField: key => keyToDBField(key, indexedKeys),
+  limit: (count, offset) => ` LIMIT ${count}${offset ? ` OFFSET ${offset}` : ''}`,
+  resultAsJson: document => resultAsJson(document),
+  upsertDocument,
+  upsertAttachment,
+  dataRange: range => dataRange(range),
+  dataLength: `LENGTH(${dataKey})`,
+  dataSubstring: (from, length) => `SUBSTRING(${dataKey}, ${from}, ${length})`,
+  createUpload: table => `INSERT INTO ${table} (${dataKey}) VALUES ('')`,
+  appendChunk: (table, chunk, id) => `UPDATE ${table} SET ${dataKey}=CONCAT(${dataKey}, ${chunk}) WHERE id=${id}`,
+  uploadSource: (table, id) => `${table} WHERE id=${id}`
+});
+
+const networkErrorCodes = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EPIPE'];
+
+const isConnectionError = ({sqlState, code, fatal}) => {
+  return /^08/.test(sqlState) || fatal === true || networkErrorCodes.indexOf(code) !== -1;
+};
+
+/**
+ * `409` for integrity constraint violations, `503` when the connection is lost
+ * or cannot be established, `500` otherwise.
+ * @param error
+ * @param defaultStatus
+ */
+const errorStatus = (error: any, defaultStatus: number) => {
+  if (/^23/.test(error.sqlState)) {
+    return 409;
+  }
+  if (isConnectionError(error)) {
+    return 503;
+  }
+  return defaultStatus;
+};
+
+/**
+ * Convert a database error to a jIO error with a meaningful status code
+ * @internal
+ * @param error
+ * @param defaultStatus Status code for unknown errors
+ */
+export const toJioError = (error: any, defaultStatus = 500) => {
+  if (error instanceof jIO.util.jIOError) {
+    return error;
+  }
+  const {message = 'Unknown database error'} = error || {};
+  return new jIO.util.jIOError(message, errorStatus(error || {}, defaultStatus));
+};
 
 /**
  * Execute queries within a transaction
  * @internal
  * @param connection
  * @param transactions
+ * @param ignoreErrors Log errors instead of rejecting
  */
-export const safeTransaction = async (connection: IConnection, transactions: () => Promise<any>) => {
+export const safeTransaction = async (connection: IConnection, transactions: () => Promise<any>, ignoreErrors = false) => {
   try {
     await connection.beginTransaction();
     await transactions();
     await connection.commit();
   }
   catch (error) {
+    await connection.rollback().catch(() => {});
+    if (!ignoreErrors) {
+      throw toJioError(error);
+    }
     console.error(error);
-    await connection.rollback();
   }
-  return connection.end();
+  finally {
+    await connection.end();
+  }
 };
 
 /**
  * @internal
+ * @param connection
+ * @param query
+ * @param ignoreErrors Log errors and return `null` instead of rejecting
  */
-export const safeQuery = async <T>(connection: IConnection, query: () => Promise<T>) => {
+export const safeQuery = async <T>(connection: IConnection, query: () => Promise<T>, ignoreErrors = false) => {
   try {
-    const results = await query();
-    await connection.end();
-    return results;
+    return await query();
   }
   catch (error) {
+    if (!ignoreErrors) {
+      throw toJioError(error);
+    }
     console.error(error);
   }
-  return null;
-};
-
-const requireOptionHost = (options: IMariaDBStorageOptions) => {
-  if (typeof options.host !== 'string' || !options.host) {
-    throw new Error('"host" must be a non-empty string');
-  }
-};
-
-const requireOptionDatabase = (options: IMariaDBStorageOptions) => {
-  if (typeof options.database !== 'string' || !options.database) {
-    throw new Error('"database" must be a non-empty string');
+  finally {
+    await connection.end();
   }
+  return null;
 };
 
-const requireOptionTableNames = (options: IMariaDBStorageOptions) => {
-  if (!options.documentsTableName) {
-    options.documentsTableName = defaultDocumentsCollection;
-  }
-  if (!options.attachmentsTableName) {
-    options.attachmentsTableName = defaultAttachmentsCollection;
+/**
+ * Rows are returned as an array, changes as an object with the number of affected rows,
+ * and nothing when errors are ignored
+ * @internal
+ * @param result
+ */
+export const queryResult = <T>(result: any): ISqlResult<T> => {
+  if (Array.isArray(result)) {
+    return {rows: result, rowCount: result.length};
   }
+  const {affectedRows = 0, insertId} = result || {} as any;
+  return {rows: [], rowCount: affectedRows, insertId};
 };
 
-const queryLimit = (options: IJioQueryOptions) => {
-  return options.limit ? `LIMIT ${options.limit[1] || 100} OFFSET ${options.limit[0] || 0}` : '';
-};
-
-const queryParseDocument = (document: IMariaDBDocument, includeDoc: boolean, selectList: string[]) => {
-  const value: any = {
-    id: document[idKey]
-  };
-  const doc = resultAsJson(document);
-  if (includeDoc) {
-    value.doc = doc;
-  }
-  else if (selectList.length) {
-    value.value = {};
-    selectList.forEach(key => value.value[key] = doc[key]);
+const requireOptionHost = (options: IMariaDBStorageOptions) => {
+  if (typeof options.host !== 'string' || !options.host) {
+    throw new Error('"host" must be a non-empty string');
   }
-  return value;
 };
 
 /**
  * @internal
  */
-export class MariaDBStorage implements IJioStorage {
-  private _dbPromise: IQueue<IPool>;
-  private _pool: IPool;
-  private _documentsTable: string;
-  private _attachmentsTable: string;
-  private _timestamps = true;
+export class MariaDBStorage extends SqlStorage<IPool> {
+  private _jsonColumn: boolean;
+  private _indexedKeys: string[];
 
   /**
    * Initiate a MariaDB Storage.
@@ -220,16 +574,19 @@ export class MariaDBStorage implements IJioStorage {
    */
   constructor(options: IMariaDBStorageOptions) {
     requireOptionHost(options);
-    requireOptionDatabase(options);
-    requireOptionTableNames(options);
-    this._documentsTable = options.documentsTableName!;
-    this._attachmentsTable = options.attachmentsTableName!;
-    if (options.timestamps === false) {
-      this._timestamps = false;
-    }
+    super(options, 'MariaDB');
+    this._jsonColumn = options.jsonColumn === true;
+    this._indexedKeys = indexedFields(this._indexes);
     this._dbPromise = this.initDb(options);
   }
 
+  /**
+   * @internal
+   */
+  protected dialect() {
+    return mariaDBDialect(this._indexedKeys);
+  }
+
   /**
    * @internal
    */
@@ -242,7 +599,7 @@ export class MariaDBStorage implements IJioStorage {
       .push((connection: IConnection) => {
         return promiseToQueue(safeTransaction(connection, () => {
           return connection.query(createDatabase(database));
-        }));
+        }, this._ignoreErrors));
       })
       .push(() => {
         options.database = database;
@@ -257,22 +614,58 @@ export class MariaDBStorage implements IJioStorage {
       .push(connection => {
         return safeTransaction(connection, () => {
           return Promise.all([
-            connection.query(createDocumentsTable(this._documentsTable, this._timestamps)),
-            connection.query(createAttachmentsTable(this._attachmentsTable, this._timestamps))
+            connection.query(createDocumentsTable(this._documentsTable, this._timestamps, this._jsonColumn)),
+            connection.query(createAttachmentsTable(this._attachmentsTable, this._timestamps)),
+            connection.query(createUploadsTable(this._uploadsTable)),
+            ...(this._changeFeed ? [connection.query(createChangesTable(this._changesTable))] : []),
+            ...(this._history ? [
+              connection.query(createDocumentsHistoryTable(this._documentsHistoryTable, this._jsonColumn))
+            ] : []),
+            ...(this._attachmentHistory ? [
+              connection.query(createAttachmentsHistoryTable(this._attachmentsHistoryTable, this._timestamps))
+            ] : [])
           ]);
-        });
+        }, this._ignoreErrors);
       })
       .push(() => promiseToQueue(pool.getConnection()))
       .push(connection => {
         return safeTransaction(connection, () => {
           return Promise.all([
-            // create indexes on id keys
-            connection.query(indexTable(this._documentsTable, [idKey])).catch(() => {}),
+            // documents are upserted on their id, attachments on their id and name,
+            // queries run in order so duplicates are removed first
+            connection.query(removeDuplicates(this._documentsTable, [idKey])).catch(() => {}),
+            connection.query(uniqueIndexTable(this._documentsTable, [idKey])).catch(() => {}),
+            connection.query(removeDuplicates(this._attachmentsTable, [idKey, 'name'])).catch(() => {}),
+            connection.query(uniqueIndexTable(this._attachmentsTable, [idKey, 'name'])).catch(() => {}),
+            connection.query(addRevisionColumn(this._attachmentsTable)).catch(() => {}),
+            connection.query(addBinaryColumns(this._attachmentsTable)).catch(() => {}),
+            connection.query(addMetadataColumns(this._attachmentsTable)).catch(() => {}),
+            // tombstones are listed and purged by removal date
+            ...(this._softDelete ? [
+              connection.query(addDeletedAtColumn(this._documentsTable)).catch(() => {}),
+              connection.query(indexTable(this._documentsTable, [deletedAtKey])).catch(() => {})
+            ] : []),
+            ...(this._history ? [
+              connection.query(uniqueIndexTable(this._documentsHistoryTable, [idKey, 'revision'])).catch(() => {})
+            ] : []),
+            ...(this._attachmentHistory ? [
+              connection.query(uniqueIndexTable(this._attachmentsHistoryTable, [idKey, 'name', 'revision'])).catch(() => {}),
+              connection.query(addBinaryColumns(this._attachmentsHistoryTable)).catch(() => {}),
+              connection.query(addMetadataColumns(this._attachmentsHistoryTable)).catch(() => {})
+            ] : []),
+            // create index on id key for attachments
             connection.query(indexTable(this._attachmentsTable, [idKey])).catch(() => {}),
-            // create index on id key + name for attachments
-            connection.query(indexTable(this._attachmentsTable, [idKey, 'name'])).catch(() => {})
+            // additional indexes from options, queries run in order so virtual columns exist before indexing them
+            ...this._indexedKeys.map(key => {
+              return connection.query(addIndexColumn(this._documentsTable, key)).catch(() => {});
+            }),
+            ...this._indexes.map(index => {
+              return connection.query(indexFields(this._documentsTable, index)).catch(() => {});
+            }),
+            // the triggers are created last, so removing duplicates is not recorded
+            ...this.changesTriggers(connection)
           ]);
-        });
+        }, this._ignoreErrors);
       })
       .push(() => this._pool = pool);
   }
@@ -282,147 +675,70 @@ export class MariaDBStorage implements IJioStorage {
    * @internal
    */
   private connection() {
-    return getQueue()
-      .push(() => this._pool ? this._pool : this._dbPromise)
-      .push(pool => promiseToQueue(pool.getConnection()));
+    return this.pool().push(pool => promiseToQueue(pool.getConnection().catch(error => {
+      throw toJioError(error, 503);
+    })));
   }
 
   /**
    * Execute a query
    * @internal
-   * @param sql
-   * @param values
+   * @param query
    */
-  private executeQuery<T>(sql: any, values?: any) {
+  protected executeQuery<T>(query: ISqlQuery) {
     return this.connection().push(connection => {
-      return promiseToQueue(safeQuery<T>(connection, () => {
-        return connection.query(sql, values);
-      }));
-    });
+      return promiseToQueue(this.track(safeQuery(connection, () => {
+        return connection.query(query.text, query.values);
+      }, this._ignoreErrors)));
+    }).push(result => queryResult<T>(result));
   }
 
-  get(id: string) {
-    return this.executeQuery<IMariaDBDocument[]>({
-      namedPlaceholders: true,
-      sql: `SELECT * FROM ${this._documentsTable} WHERE ${idKey}=:id`
-    }, {id}).push(results => {
-      return results && results.length ? resultAsJson(results[0]) : null;
-    });
-  }
-
-  put(id: string, data: any) {
-    return this.get(id)
-      .push(document => {
-        if (!document) {
-          let insert = `INSERT INTO ${this._documentsTable} VALUES (NULL, ?, ?)`;
-          if (this._timestamps) {
-            insert = `INSERT INTO ${this._documentsTable} VALUES (NULL, ?, ?, CURRENT_TIMESTAMP, NULL)`;
-          }
-          return this.executeQuery(insert, [id, JSON.stringify(data)]);
-        }
-
-        let update = `UPDATE ${this._documentsTable} SET ${valueKey}=:data WHERE ${idKey}=:id`;
-        if (this._timestamps) {
-          update = `UPDATE ${this._documentsTable} SET ${valueKey}=:data, ${updatedAtKey}=CURRENT_TIMESTAMP WHERE ${idKey}=:id`;
-        }
-        return this.executeQuery({
-          namedPlaceholders: true,
-          sql: update
-        }, {id, data: JSON.stringify(data)});
-      })
-      .push(() => {
-        return id;
-      });
-  }
-
-  remove(id: string) {
-    return this.executeQuery({
-      namedPlaceholders: true,
-      sql: `DELETE FROM ${this._documentsTable} WHERE ${idKey}=:id`
-    }, {id}).push(() => {
-      return id;
-    });
-  }
-
-  getAttachment(id: string, name: string) {
-    return this.executeQuery<IMariaDBDocument[]>({
-      namedPlaceholders: true,
-      sql: `SELECT * FROM ${this._attachmentsTable} WHERE ${idKey}=:id AND name=:name`
-    }, {id, name}).push(results => {
-      if (results && results.length) {
-        return jIO.util.dataURItoBlob(results[0][valueKey]);
-      }
-      throw new jIO.util.jIOError(
-        `Cannot find attachment: ${id}`,
-        404
-      );
-    });
-  }
-
-  putAttachment(id: string, name: string, blob: Blob) {
-    return getQueue()
-      .push(() => {
-        return jIO.util.readBlobAsDataURL(blob);
-      })
-      .push(data => {
-        let insert = `INSERT INTO ${this._attachmentsTable} VALUES (NULL, ?, ?, ?)`;
-        if (this._timestamps) {
-          insert = `INSERT INTO ${this._attachmentsTable} VALUES (NULL, ?, ?, ?, CURRENT_TIMESTAMP, NULL)`;
+  /**
+   * Execute several queries, in order, within a single transaction.
+   * @internal
+   * @param queries
+   */
+  protected executeTransaction(queries: ISqlQuery[]) {
+    let rowCount = 0;
+    return this.connection().push(connection => {
+      return promiseToQueue(this.track(safeTransaction(connection, async () => {
+        for (const query of queries) {
+          rowCount += queryResult(await connection.query(query.text, query.values)).rowCount;
         }
-        return this.executeQuery(insert, [id, name, data.target.result]);
-      });
-  }
-
-  removeAttachment(id: string, name: string) {
-    return this.executeQuery({
-      namedPlaceholders: true,
-      sql: `DELETE FROM ${this._attachmentsTable} WHERE ${idKey}=:id AND name=:name`
-    }, {id, name}).push(() => {
-      return id;
-    });
-  }
-
-  allAttachments(id: string) {
-    return this.executeQuery<IMariaDBAttachment[]>({
-      namedPlaceholders: true,
-      sql: `SELECT * FROM ${this._attachmentsTable} WHERE ${idKey}=:id`
-    }, {id}).push(documents => {
-      const attachments = {};
-      if (documents && documents.length) {
-        documents.forEach(document => {
-          attachments[document.name] = {};
-        });
-      }
-      return attachments;
-    });
+      }, this._ignoreErrors)));
+    }).push(() => rowCount);
   }
 
   /**
-   * MariaDB can not search on json objects, therefore we can only list the documents
-   * @param name The name of the capacity
+   * Create the triggers recording changes with `changeFeed`, or drop them without it
+   * @internal
+   * @param connection
    */
-  hasCapacity(name: string) {
-    return name === 'list' || name === 'include' ||
-      name === 'select' || name === 'limit';
+  private changesTriggers(connection: IConnection) {
+    // dropping requires the TRIGGER privilege, which is only needed with "changeFeed"
+    const queries = changeTypes.map(type => connection.query(dropChangesTrigger(this._changesTable, type)).catch(() => {}));
+    if (!this._changeFeed) {
+      return queries;
+    }
+    return queries.concat(changeTypes.map(type => {
+      return connection.query(createChangesTrigger(this._changesTable, this._documentsTable, type, this._softDelete));
+    }));
   }
 
-  buildQuery(options: IJioQueryOptions = {query: ''}) {
-    const limit = queryLimit(options);
-    const selectList = (options.select_list || []).slice();
-    const sql = `SELECT * FROM ${this._documentsTable} ${limit}`;
-
-    return this.executeQuery<IMariaDBDocument[]>({sql}).push(documents => (documents || []).map(document => {
-      return queryParseDocument(document, options.include_docs || false, selectList);
-    }));
+  /**
+   * @internal
+   */
+  protected endPool(pool: IPool) {
+    return pool.end();
   }
 }
 
 export interface IMariaDBOptions extends IClearRoadOptions {
   localStorage: IMariaDBStorageOptions;
   /**
-   * MariaDB does NOT support JSON queries
+   * MariaDB supports JSON queries
    */
-  useQueryStorage: true;
+  useQueryStorage?: false;
 }
 
 const storageName = 'mariadb';
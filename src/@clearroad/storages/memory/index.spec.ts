@@ -0,0 +1,342 @@
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import 'mocha';
+
+import * as jioImport from 'jio';
+const addStorageStub = sinon.stub(jioImport.jIO, 'addStorage');
+
+import { describeConformance } from '../conformance';
+import storageName, {
+  MemoryStorage, IMemoryStorageOptions, IMemoryDocumentRow,
+  defaultDocumentsCollection, defaultAttachmentsCollection, defaultAttachmentsHistoryCollection,
+  defaultDocumentsHistoryCollection, defaultTombstoneRetention,
+  attachmentToBlob, attachmentMetadata
+} from './index';
+import { attachmentDigest } from '../local';
+
+let stubs: sinon.SinonStub[] = [];
+
+const options: IMemoryStorageOptions = {
+  type: 'memorydb'
+};
+
+const readBlobAsText = async (blob: Blob) => {
+  const event = await jioImport.jIO.util.readBlobAsArrayBuffer(blob);
+  return Buffer.from(event.target.result).toString();
+};
+
+const textBlob = (text: string) => new jioImport.Blob([text], {type: 'text/plain'});
+
+const dayInMilliseconds = 24 * 60 * 60 * 1000;
+
+describe(storageName, () => {
+  beforeEach(() => {
+    stubs = [];
+  });
+
+  afterEach(() => {
+    stubs.forEach(stub => stub.restore());
+  });
+
+  it('should add the storage', () => {
+    expect(addStorageStub.calledWith(storageName, MemoryStorage)).to.equal(true);
+  });
+
+  describe('attachmentToBlob', () => {
+    const attachment: any = {data: Buffer.from('content').toString('base64'), content_type: 'text/plain'};
+
+    it('should decode the data', async () => {
+      const blob = attachmentToBlob(attachment, {start: 0, end: Infinity});
+      expect(blob.type).to.equal('text/plain');
+      expect(await readBlobAsText(blob)).to.equal('content');
+    });
+
+    it('should only keep the range', async () => {
+      expect(await readBlobAsText(attachmentToBlob(attachment, {start: 1, end: 3}))).to.equal('on');
+    });
+  });
+
+  describe('attachmentMetadata', () => {
+    const attachment: any = {revision: 2, content_type: 'text/plain', length: 7, digest: 'sha256-digest'};
+
+    it('should only return the dates with timestamps', () => {
+      expect(attachmentMetadata(attachment)).to.deep.equal({revision: 2, content_type: 'text/plain', length: 7, digest: 'sha256-digest'});
+    });
+
+    it('should default the update date to the creation date', () => {
+      expect(attachmentMetadata({...attachment, createdAt: 'date'})).to.include({createdAt: 'date', updatedAt: 'date'});
+    });
+  });
+
+  describe('MemoryStorage', () => {
+    describe('constructor', () => {
+      it('should use default tables names', async () => {
+        const storage = new MemoryStorage({...options});
+        expect(Object.keys(await storage.snapshot())).to.deep.equal([
+          defaultDocumentsCollection, defaultAttachmentsCollection, defaultAttachmentsHistoryCollection,
+          defaultDocumentsHistoryCollection, `${defaultDocumentsCollection}_changes`
+        ]);
+      });
+
+      it('should use the tables names from options', async () => {
+        const storage = new MemoryStorage({
+          ...options,
+          documentsTableName: 'docs',
+          attachmentsTableName: 'files',
+          attachmentsHistoryTableName: 'files_history',
+          documentsHistoryTableName: 'docs_history'
+        });
+        expect(Object.keys(await storage.snapshot())).to.deep.equal(['docs', 'files', 'files_history', 'docs_history', 'docs_changes']);
+      });
+    });
+
+    describe('timestamps', () => {
+      it('should date the documents', async () => {
+        const storage = new MemoryStorage({...options});
+        await storage.put('id', {version: 1});
+        const [created] = (await storage.snapshot())[defaultDocumentsCollection] as IMemoryDocumentRow[];
+        expect(created.createdAt).to.be.a('string');
+        expect(created).not.to.have.property('updatedAt');
+        await storage.put('id', {version: 2});
+        const [updated] = (await storage.snapshot())[defaultDocumentsCollection] as IMemoryDocumentRow[];
+        expect(updated.createdAt).to.equal(created.createdAt);
+        expect(updated.updatedAt).to.be.a('string');
+      });
+
+      it('should not date the documents', async () => {
+        const storage = new MemoryStorage({...options, timestamps: false});
+        await storage.put('id', {});
+        expect((await storage.snapshot())[defaultDocumentsCollection]).to.deep.equal([{id: 'id', value: '{}'}]);
+      });
+    });
+
+    describe('attachmentHistory', () => {
+      let storage: MemoryStorage;
+
+      beforeEach(async () => {
+        storage = new MemoryStorage({...options, attachmentHistory: true});
+        await storage.put('id', {});
+        await storage.putAttachment('id', 'name', textBlob('first'));
+        await storage.putAttachment('id', 'name', textBlob('second'));
+      });
+
+      it('should get a previous revision', async () => {
+        expect(await readBlobAsText(await storage.getAttachment('id', 'name', {revision: 1}))).to.equal('first');
+        expect(await readBlobAsText(await storage.getAttachment('id', 'name', {revision: 2}))).to.equal('second');
+      });
+
+      it('should throw an error if the revision does not exist', async () => {
+        const error = await storage.getAttachment('id', 'name', {revision: 3}).push(() => null, (err: any) => err);
+        expect(error.status_code).to.equal(404);
+      });
+
+      it('should remove the previous versions with the attachment', async () => {
+        await storage.removeAttachment('id', 'name');
+        expect((await storage.snapshot())[defaultAttachmentsHistoryCollection]).to.deep.equal([]);
+      });
+
+      it('should not keep previous versions without the option', async () => {
+        storage = new MemoryStorage({...options});
+        await storage.putAttachment('id', 'name', textBlob('first'));
+        await storage.putAttachment('id', 'name', textBlob('second'));
+        expect((await storage.snapshot())[defaultAttachmentsHistoryCollection]).to.deep.equal([]);
+        const error = await storage.getAttachment('id', 'name', {revision: 1}).push(() => null, (err: any) => err);
+        expect(error.status_code).to.equal(404);
+      });
+    });
+
+    describe('.purgeOrphanAttachments', () => {
+      it('should remove the attachments of missing documents', async () => {
+        const storage = new MemoryStorage({...options, attachmentHistory: true});
+        await storage.put('id', {});
+        await storage.putAttachment('id', 'name', textBlob('kept'));
+        await storage.putAttachment('orphan', 'name', textBlob('first'));
+        await storage.putAttachment('orphan', 'name', textBlob('second'));
+        expect(await storage.purgeOrphanAttachments()).to.equal(2);
+        expect(Object.keys(await storage.allAttachments('id'))).to.deep.equal(['name']);
+        expect(await storage.allAttachments('orphan')).to.deep.equal({});
+      });
+    });
+
+    describe('history', () => {
+      let storage: MemoryStorage;
+
+      beforeEach(async () => {
+        storage = new MemoryStorage({...options, history: true});
+        await storage.put('id', {version: 1});
+        await storage.put('id', {version: 2});
+        await storage.remove('id');
+      });
+
+      it('should list the previous versions', async () => {
+        const revisions = await storage.allRevisions('id');
+        expect(revisions.map(({revision, operation}) => ({revision, operation}))).to.deep.equal([
+          {revision: 1, operation: 'update'},
+          {revision: 2, operation: 'delete'}
+        ]);
+        expect(await storage.allRevisions('other')).to.deep.equal([]);
+      });
+
+      it('should get a previous version', async () => {
+        expect(await storage.getRevision('id', 1)).to.deep.equal({version: 1});
+        expect(await storage.getRevision('id', 2)).to.deep.equal({version: 2});
+      });
+
+      it('should throw an error if the revision does not exist', async () => {
+        const error = await storage.getRevision('id', 3).push(() => null, (err: any) => err);
+        expect(error.message).to.equal('Cannot find revision 3 of document: id');
+        expect(error.status_code).to.equal(404);
+      });
+
+      it('should not archive tombstones again', async () => {
+        storage = new MemoryStorage({...options, history: true, softDelete: true});
+        await storage.put('id', {version: 1});
+        await storage.remove('id');
+        await storage.remove('id');
+        await storage.put('id', {version: 2});
+        expect((await storage.allRevisions('id')).map(({operation}) => operation)).to.deep.equal(['delete']);
+      });
+    });
+
+    describe('softDelete', () => {
+      let storage: MemoryStorage;
+
+      beforeEach(async () => {
+        storage = new MemoryStorage({...options, softDelete: true});
+        await storage.put('id', {});
+        await storage.putAttachment('id', 'name', textBlob('content'));
+        await storage.remove('id');
+      });
+
+      it('should hide the tombstones', async () => {
+        expect(await storage.get('id')).to.equal(null);
+        expect(await storage.buildQuery()).to.deep.equal([]);
+        expect(await storage.allAttachments('id')).to.deep.equal({});
+      });
+
+      it('should list the tombstones', async () => {
+        const tombstones = await storage.allTombstones();
+        expect(tombstones.map(({id}) => id)).to.deep.equal(['id']);
+        expect(await storage.allTombstones(new Date(Date.now() + dayInMilliseconds))).to.deep.equal([]);
+      });
+
+      it('should bring back a document', async () => {
+        await storage.put('id', {version: 2});
+        expect(await storage.get('id')).to.deep.equal({version: 2});
+        expect(await storage.allTombstones()).to.deep.equal([]);
+      });
+
+      it('should keep the tombstones for the retention', async () => {
+        expect(await storage.purgeTombstones()).to.equal(0);
+        expect(await storage.allTombstones()).to.have.length(1);
+      });
+
+      it('should purge the tombstones', async () => {
+        stubs.push(sinon.stub(Date, 'now').returns(new Date().getTime() + (defaultTombstoneRetention + 1) * dayInMilliseconds));
+        expect(await storage.purgeTombstones()).to.equal(1);
+        expect(await storage.allTombstones()).to.deep.equal([]);
+      });
+
+      it('should purge all tombstones', async () => {
+        stubs.push(sinon.stub(Date, 'now').returns(new Date().getTime() + 1));
+        expect(await storage.purgeTombstones(0)).to.equal(1);
+      });
+    });
+
+    describe('.changes', () => {
+      it('should record the changes', async () => {
+        const storage = new MemoryStorage({...options, changeFeed: true});
+        await storage.put('id', {version: 1});
+        await storage.put('id', {version: 2});
+        await storage.remove('id');
+        await storage.remove('id');
+        const {changes, cursor} = await storage.changes();
+        expect(changes.map(({seq, id, type}) => ({seq, id, type}))).to.deep.equal([
+          {seq: 1, id: 'id', type: 'insert'},
+          {seq: 2, id: 'id', type: 'update'},
+          {seq: 3, id: 'id', type: 'delete'}
+        ]);
+        expect(cursor).to.equal(3);
+      });
+
+      it('should resume after the cursor', async () => {
+        const storage = new MemoryStorage({...options, changeFeed: true});
+        await storage.put('1', {});
+        await storage.put('2', {});
+        await storage.put('3', {});
+        const first = await storage.changes(0, 2);
+        expect(first.changes.map(({id}) => id)).to.deep.equal(['1', '2']);
+        const next = await storage.changes(first.cursor);
+        expect(next.changes.map(({id}) => id)).to.deep.equal(['3']);
+        expect((await storage.changes(next.cursor)).cursor).to.equal(next.cursor);
+      });
+
+      it('should not record changes without the option', async () => {
+        const storage = new MemoryStorage({...options});
+        await storage.put('id', {});
+        expect(await storage.changes()).to.deep.equal({changes: [], cursor: 0});
+      });
+    });
+
+    describe('.snapshot', () => {
+      it('should copy the tables', async () => {
+        const storage = new MemoryStorage({...options, timestamps: false});
+        await storage.put('id', {version: 1});
+        await storage.putAttachment('id', 'name', textBlob('content'));
+        const snapshot = await storage.snapshot();
+        expect(snapshot[defaultDocumentsCollection]).to.deep.equal([{id: 'id', value: '{"version":1}'}]);
+        expect(snapshot[defaultAttachmentsCollection]).to.deep.equal([{
+          id: 'id',
+          name: 'name',
+          revision: 1,
+          data: Buffer.from('content').toString('base64'),
+          content_type: 'text/plain',
+          length: 7,
+          digest: attachmentDigest(Buffer.from('content'))
+        }]);
+        (snapshot[defaultDocumentsCollection][0] as IMemoryDocumentRow).value = '{}';
+        expect(await storage.get('id')).to.deep.equal({version: 1});
+      });
+    });
+
+    describe('.restore', () => {
+      it('should replace the tables', async () => {
+        const storage = new MemoryStorage({...options, changeFeed: true});
+        await storage.put('id', {version: 1});
+        await storage.putAttachment('id', 'name', textBlob('content'));
+        const snapshot = JSON.parse(JSON.stringify(await storage.snapshot()));
+        await storage.put('id', {version: 2});
+        await storage.put('other', {});
+        await storage.removeAttachment('id', 'name');
+
+        await storage.restore(snapshot);
+        expect(await storage.get('id')).to.deep.equal({version: 1});
+        expect(await storage.get('other')).to.equal(null);
+        expect(await readBlobAsText(await storage.getAttachment('id', 'name'))).to.equal('content');
+        await storage.put('other', {});
+        expect((await storage.changes(1)).changes.map(({seq}) => seq)).to.deep.equal([2]);
+      });
+
+      it('should restore missing tables empty', async () => {
+        const storage = new MemoryStorage({...options});
+        await storage.put('id', {});
+        await storage.restore({});
+        expect(await storage.buildQuery()).to.deep.equal([]);
+      });
+    });
+
+    describe('.close', () => {
+      it('should fail any further call', async () => {
+        const storage = new MemoryStorage({...options});
+        await storage.close();
+        const error = await storage.get('id').push(() => null, (err: any) => err);
+        expect(error.message).to.equal('Memory storage is closed');
+        expect(error.status_code).to.equal(503);
+      });
+    });
+  });
+});
+
+describeConformance(storageName, ({timestamps}) => new MemoryStorage({...options, timestamps}));
+
+addStorageStub.restore();
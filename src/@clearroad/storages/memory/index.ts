@@ -0,0 +1,757 @@
+import {
+  getQueue,
+  IJioStorage, IClearRoadOptions, IJioQueryOptions
+} from '@clearroad/api';
+import { jIO, Blob as JioBlob } from 'jio';
+
+import {
+  IQueryRow, compareValues, parseQuery, queryFilter, querySort, queryLimit, queryParseDocument
+} from '../query';
+import { IAttachmentRange, attachmentRange, attachmentDigest } from '../local';
+
+/**
+ * @internal
+ */
+export const defaultDocumentsCollection = 'documents';
+/**
+ * @internal
+ */
+export const defaultAttachmentsCollection = 'attachments';
+/**
+ * @internal
+ */
+export const defaultAttachmentsHistoryCollection = 'attachments_history';
+/**
+ * @internal
+ */
+export const defaultDocumentsHistoryCollection = 'documents_history';
+/**
+ * @internal
+ */
+export const defaultTombstoneRetention = 30;
+/**
+ * @internal
+ */
+export const defaultChangesLimit = 100;
+
+const dayInMilliseconds = 24 * 60 * 60 * 1000;
+
+export interface IMemoryStorageOptions {
+  type: 'memorydb';
+  /**
+   * Table name for all documents, used as key in snapshots.
+   */
+  documentsTableName?: string;
+  /**
+   * Table name for attachments, used as key in snapshots.
+   */
+  attachmentsTableName?: string;
+  /**
+   * Keep previous versions of attachments when they are replaced.
+   * Disabled by default
+   */
+  attachmentHistory?: boolean;
+  /**
+   * Table name for previous versions of attachments, used as key in snapshots.
+   */
+  attachmentsHistoryTableName?: string;
+  /**
+   * Keep previous versions of documents when they are replaced or removed, listed by `allRevisions`.
+   * Disabled by default
+   */
+  history?: boolean;
+  /**
+   * Table name for previous versions of documents, used as key in snapshots.
+   */
+  documentsHistoryTableName?: string;
+  /**
+   * Add created/updatedAt timestamps for every document.
+   * Enabled by default for both
+   */
+  timestamps?: boolean;
+  /**
+   * Keep removed documents as tombstones, hidden from `get` and `buildQuery` and listed by `allTombstones`.
+   * Disabled by default
+   */
+  softDelete?: boolean;
+  /**
+   * Number of days tombstones are kept before `purgeTombstones` removes them.
+   * 30 by default
+   */
+  tombstoneRetention?: number;
+  /**
+   * Record inserts, updates and deletes of documents, listed by `changes`.
+   * Disabled by default
+   */
+  changeFeed?: boolean;
+}
+
+export interface IMemoryAttachmentOptions {
+  /**
+   * Revision of the attachment to get, the current version is returned by default.
+   * Previous revisions are only kept with the `attachmentHistory` option
+   */
+  revision?: number;
+  /**
+   * First byte to get, `0` by default
+   */
+  start?: number;
+  /**
+   * Byte after the last one to get, the end of the attachment by default
+   */
+  end?: number;
+}
+
+/**
+ * Document saved in the documents table, dates are ISO strings
+ */
+export interface IMemoryDocumentRow {
+  id: string;
+  /**
+   * Document as JSON, so it is copied like in a database
+   */
+  value: string;
+  createdAt?: string;
+  updatedAt?: string;
+  deletedAt?: string;
+}
+
+/**
+ * Attachment saved in the attachments tables, dates are ISO strings
+ */
+export interface IMemoryAttachmentRow {
+  id: string;
+  name: string;
+  revision: number;
+  /**
+   * Content encoded in base64
+   */
+  data: string;
+  content_type: string;
+  length: number;
+  digest: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+type MemoryDocumentOperation = 'update'|'delete';
+
+/**
+ * Previous version of a document saved in the documents history table
+ */
+export interface IMemoryDocumentVersionRow {
+  id: string;
+  revision: number;
+  value: string;
+  operation: MemoryDocumentOperation;
+  replacedAt: string;
+}
+
+/**
+ * Previous version of a document kept with the `history` option, returned by `allRevisions`
+ */
+export interface IMemoryRevision {
+  revision: number;
+  /**
+   * Operation which replaced this version
+   */
+  operation: MemoryDocumentOperation;
+  /**
+   * ISO date when this version was replaced
+   */
+  replacedAt: string;
+}
+
+/**
+ * Document removed with the `softDelete` option, returned by `allTombstones`
+ */
+export interface IMemoryTombstone {
+  id: string;
+  /**
+   * ISO date of the removal
+   */
+  deletedAt: string;
+}
+
+type MemoryChangeType = 'insert'|'update'|'delete';
+
+/**
+ * Change of a document recorded with the `changeFeed` option
+ */
+export interface IMemoryChange {
+  /**
+   * Sequence number of the change, pass it to `changes` to resume after it
+   */
+  seq: number;
+  id: string;
+  type: MemoryChangeType;
+  /**
+   * ISO date of the change
+   */
+  changedAt: string;
+}
+
+export interface IMemoryChanges {
+  changes: IMemoryChange[];
+  /**
+   * Sequence number of the last change, to pass to the next call
+   */
+  cursor: number;
+}
+
+/**
+ * Attachment metadata returned by `allAttachments`
+ */
+export interface IMemoryAttachmentMetadata {
+  revision: number;
+  content_type: string;
+  length: number;
+  /**
+   * Digest of the content, as `sha256-<hex>`
+   */
+  digest: string;
+  /**
+   * ISO date of the first version, only with the `timestamps` option
+   */
+  createdAt?: string;
+  /**
+   * ISO date of the current version, only with the `timestamps` option
+   */
+  updatedAt?: string;
+}
+
+/**
+ * Rows of every table by table name, as returned by `snapshot`.
+ * Tables missing from a snapshot are restored empty.
+ */
+export interface IMemorySnapshot {
+  [tableName: string]: Array<IMemoryDocumentRow|IMemoryAttachmentRow|IMemoryDocumentVersionRow|IMemoryChange>;
+}
+
+/**
+ * @internal
+ * @param attachment
+ * @param range
+ */
+export const attachmentToBlob = (attachment: IMemoryAttachmentRow, {start, end}: IAttachmentRange): Blob => {
+  const data = Buffer.from(attachment.data, 'base64');
+  return new JioBlob([data.slice(start, end === Infinity ? data.length : end)], {type: attachment.content_type});
+};
+
+/**
+ * @internal
+ * @param attachment
+ */
+export const attachmentMetadata = (attachment: IMemoryAttachmentRow) => {
+  const metadata: IMemoryAttachmentMetadata = {
+    revision: attachment.revision,
+    content_type: attachment.content_type,
+    length: attachment.length,
+    digest: attachment.digest
+  };
+  if (attachment.createdAt) {
+    metadata.createdAt = attachment.createdAt;
+    metadata.updatedAt = attachment.updatedAt || attachment.createdAt;
+  }
+  return metadata;
+};
+
+interface IMemoryQueryRow extends IQueryRow {
+  value: any;
+}
+
+/**
+ * Row evaluated by queries, `modification_date` is the creation date like in the SQL storages
+ * @param document
+ */
+const queryRow = (document: IMemoryDocumentRow): IMemoryQueryRow => {
+  const value = JSON.parse(document.value);
+  return {id: document.id, value, field: key => key === 'modification_date' ? document.createdAt : value[key]};
+};
+
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const requireOptionHistoryTableNames = (options: IMemoryStorageOptions) => {
+  if (!options.attachmentsHistoryTableName) {
+    options.attachmentsHistoryTableName = defaultAttachmentsHistoryCollection;
+  }
+  if (!options.documentsHistoryTableName) {
+    options.documentsHistoryTableName = defaultDocumentsHistoryCollection;
+  }
+};
+
+const requireOptionTableNames = (options: IMemoryStorageOptions) => {
+  if (!options.documentsTableName) {
+    options.documentsTableName = defaultDocumentsCollection;
+  }
+  if (!options.attachmentsTableName) {
+    options.attachmentsTableName = defaultAttachmentsCollection;
+  }
+  requireOptionHistoryTableNames(options);
+};
+
+/**
+ * @internal
+ */
+export class MemoryStorage implements IJioStorage {
+  private _documentsTable: string;
+  private _attachmentsTable: string;
+  private _attachmentsHistoryTable: string;
+  private _documentsHistoryTable: string;
+  private _changesTable: string;
+  private _attachmentHistory = false;
+  private _history = false;
+  private _timestamps = true;
+  private _softDelete = false;
+  private _tombstoneRetention = defaultTombstoneRetention;
+  private _changeFeed = false;
+  private _closed = false;
+  private _documents = new Map<string, IMemoryDocumentRow>();
+  private _attachments = new Map<string, Map<string, IMemoryAttachmentRow>>();
+  private _attachmentsHistory: IMemoryAttachmentRow[] = [];
+  private _documentsHistory: IMemoryDocumentVersionRow[] = [];
+  private _changes: IMemoryChange[] = [];
+  private _seq = 0;
+
+  /**
+   * Initiate a Memory Storage.
+   * @param options Storage options
+   */
+  // tslint:disable-next-line:cyclomatic-complexity
+  constructor(options: IMemoryStorageOptions) {
+    requireOptionTableNames(options);
+    this._documentsTable = options.documentsTableName!;
+    this._attachmentsTable = options.attachmentsTableName!;
+    this._attachmentsHistoryTable = options.attachmentsHistoryTableName!;
+    this._documentsHistoryTable = options.documentsHistoryTableName!;
+    this._changesTable = `${this._documentsTable}_changes`;
+    if (options.attachmentHistory === true) {
+      this._attachmentHistory = true;
+    }
+    if (options.history === true) {
+      this._history = true;
+    }
+    if (options.timestamps === false) {
+      this._timestamps = false;
+    }
+    if (options.softDelete === true) {
+      this._softDelete = true;
+    }
+    if (options.tombstoneRetention !== undefined) {
+      this._tombstoneRetention = options.tombstoneRetention;
+    }
+    if (options.changeFeed === true) {
+      this._changeFeed = true;
+    }
+  }
+
+  /**
+   * Run an operation on the tables, once the calls made before are done.
+   * @internal
+   * @param operation
+   */
+  private run<T>(operation: (now: string) => T) {
+    return getQueue().push(() => {
+      if (this._closed) {
+        throw new jIO.util.jIOError(
+          'Memory storage is closed',
+          503
+        );
+      }
+      return operation(new Date().toISOString());
+    });
+  }
+
+  /**
+   * Tombstones are only hidden with `softDelete`, as in the SQL storages
+   * @internal
+   */
+  private isLive(document: IMemoryDocumentRow) {
+    return !this._softDelete || !document.deletedAt;
+  }
+
+  /**
+   * @internal
+   */
+  private liveDocuments() {
+    const documents: IMemoryDocumentRow[] = [];
+    this._documents.forEach(document => {
+      if (this.isLive(document)) {
+        documents.push(document);
+      }
+    });
+    return documents;
+  }
+
+  /**
+   * Record a change with `changeFeed`
+   * @internal
+   */
+  private record(id: string, type: MemoryChangeType, now: string) {
+    if (this._changeFeed) {
+      this._changes.push({seq: ++this._seq, id, type, changedAt: now});
+    }
+  }
+
+  /**
+   * Copy the current version of a document before it is replaced or removed with `history`, numbered after its previous versions.
+   * Tombstones are not archived again
+   * @internal
+   */
+  private archiveDocument(document: IMemoryDocumentRow, operation: MemoryDocumentOperation, now: string) {
+    if (!this._history || !this.isLive(document)) {
+      return;
+    }
+    const revision = this._documentsHistory
+      .filter(version => version.id === document.id)
+      .reduce((max, version) => Math.max(max, version.revision), 0) + 1;
+    this._documentsHistory.push({id: document.id, revision, value: document.value, operation, replacedAt: now});
+  }
+
+  /**
+   * Remove the attachments of a document with their previous versions
+   * @internal
+   */
+  private removeAttachments(id: string) {
+    this._attachments.delete(id);
+    this._attachmentsHistory = this._attachmentsHistory.filter(attachment => attachment.id !== id);
+  }
+
+  get(id: string) {
+    return this.run(() => {
+      const document = this._documents.get(id);
+      return document && this.isLive(document) ? JSON.parse(document.value) : null;
+    });
+  }
+
+  put(id: string, data: any) {
+    return this.run(now => {
+      const document = this._documents.get(id);
+      const value = JSON.stringify(data);
+      if (!document) {
+        this._documents.set(id, this._timestamps ? {id, value, createdAt: now} : {id, value});
+        this.record(id, 'insert', now);
+        return id;
+      }
+      // saving a removed document brings it back
+      this.archiveDocument(document, 'update', now);
+      document.value = value;
+      delete document.deletedAt;
+      if (this._timestamps) {
+        document.updatedAt = now;
+      }
+      this.record(id, 'update', now);
+      return id;
+    });
+  }
+
+  /**
+   * Remove a document, its attachments and their previous versions.
+   * With `softDelete`, the document is kept as a tombstone
+   * @param id
+   */
+  remove(id: string) {
+    return this.run(now => {
+      const document = this._documents.get(id);
+      if (!document || !this.isLive(document)) {
+        return id;
+      }
+      this.archiveDocument(document, 'delete', now);
+      if (this._softDelete) {
+        document.deletedAt = now;
+      }
+      else {
+        this._documents.delete(id);
+      }
+      this.removeAttachments(id);
+      this.record(id, 'delete', now);
+      return id;
+    });
+  }
+
+  getAttachment(id: string, name: string, options: IMemoryAttachmentOptions = {}) {
+    const range = attachmentRange(options);
+    return this.run(() => {
+      const attachment = this.findAttachment(id, name, options.revision);
+      if (attachment) {
+        return attachmentToBlob(attachment, range);
+      }
+      throw new jIO.util.jIOError(
+        `Cannot find attachment: ${id}`,
+        404
+      );
+    });
+  }
+
+  /**
+   * @internal
+   */
+  private attachmentsOf(id: string) {
+    return this._attachments.get(id) || new Map<string, IMemoryAttachmentRow>();
+  }
+
+  /**
+   * Find the current version of an attachment, or a given revision
+   * @internal
+   */
+  // tslint:disable-next-line:cyclomatic-complexity
+  private findAttachment(id: string, name: string, revision?: number) {
+    const current = this.attachmentsOf(id).get(name);
+    if (revision === undefined || (current && current.revision === revision)) {
+      return current;
+    }
+    if (!this._attachmentHistory) {
+      return undefined;
+    }
+    return this._attachmentsHistory.find(attachment => attachment.id === id && attachment.name === name && attachment.revision === revision);
+  }
+
+  /**
+   * Save a new version of an attachment, the previous one is kept with `attachmentHistory`
+   * @internal
+   */
+  // tslint:disable-next-line:cyclomatic-complexity
+  private saveAttachment(attachment: IMemoryAttachmentRow, now: string) {
+    const attachments = this.attachmentsOf(attachment.id);
+    const previous = attachments.get(attachment.name);
+    if (previous) {
+      attachment.revision = previous.revision + 1;
+      if (this._attachmentHistory) {
+        this._attachmentsHistory.push(previous);
+      }
+    }
+    if (this._timestamps) {
+      attachment.createdAt = previous && previous.createdAt ? previous.createdAt : now;
+      attachment.updatedAt = now;
+    }
+    this._attachments.set(attachment.id, attachments.set(attachment.name, attachment));
+  }
+
+  putAttachment(id: string, name: string, blob: Blob) {
+    return getQueue()
+      .push(() => {
+        return jIO.util.readBlobAsArrayBuffer(blob);
+      })
+      .push(event => this.run(now => {
+        const data = Buffer.from(event.target.result);
+        this.saveAttachment({
+          id, name,
+          revision: 1,
+          data: data.toString('base64'),
+          content_type: blob.type || '',
+          length: data.length,
+          digest: attachmentDigest(data)
+        }, now);
+      }));
+  }
+
+  removeAttachment(id: string, name: string) {
+    return this.run(() => {
+      const attachments = this._attachments.get(id);
+      if (attachments) {
+        attachments.delete(name);
+      }
+      this._attachmentsHistory = this._attachmentsHistory.filter(attachment => attachment.id !== id || attachment.name !== name);
+      return id;
+    });
+  }
+
+  /**
+   * List the attachments of a document with their metadata, without reading their content
+   * @param id
+   */
+  allAttachments(id: string) {
+    return this.run(() => {
+      const attachments: {[name: string]: IMemoryAttachmentMetadata} = {};
+      this.attachmentsOf(id).forEach(attachment => {
+        attachments[attachment.name] = attachmentMetadata(attachment);
+      });
+      return attachments;
+    });
+  }
+
+  /**
+   * Queries are evaluated in memory on every field
+   */
+  hasCapacity() {
+    return true;
+  }
+
+  /**
+   * Remove the attachments of documents which do not exist, with their previous versions.
+   * Resolves with the number of removed attachments, previous versions included.
+   */
+  purgeOrphanAttachments() {
+    return this.run(() => {
+      let purged = 0;
+      this._attachments.forEach((attachments, id) => {
+        if (!this._documents.has(id)) {
+          purged += attachments.size;
+          this._attachments.delete(id);
+        }
+      });
+      const history = this._attachmentsHistory.filter(attachment => this._documents.has(attachment.id));
+      purged += this._attachmentsHistory.length - history.length;
+      this._attachmentsHistory = history;
+      return purged;
+    });
+  }
+
+  /**
+   * List the previous versions of a document kept with `history`, oldest first
+   * @param id
+   */
+  allRevisions(id: string) {
+    return this.run(() => {
+      return this._documentsHistory
+        .filter(version => version.id === id)
+        .sort((a, b) => a.revision - b.revision)
+        .map((version): IMemoryRevision => ({
+          revision: version.revision,
+          operation: version.operation,
+          replacedAt: version.replacedAt
+        }));
+    });
+  }
+
+  /**
+   * Get a previous version of a document kept with `history`
+   * @param id
+   * @param revision Revision returned by `allRevisions`
+   */
+  getRevision(id: string, revision: number) {
+    return this.run(() => {
+      const version = this._documentsHistory.find(document => document.id === id && document.revision === revision);
+      if (version) {
+        return JSON.parse(version.value);
+      }
+      throw new jIO.util.jIOError(
+        `Cannot find revision ${revision} of document: ${id}`,
+        404
+      );
+    });
+  }
+
+  /**
+   * List the documents removed with `softDelete`, oldest first
+   * @param since Only list documents removed after this date
+   */
+  allTombstones(since?: Date|string) {
+    const after = (since ? new Date(since) : new Date(0)).toISOString();
+    return this.run(() => {
+      const tombstones: IMemoryTombstone[] = [];
+      this._documents.forEach(document => {
+        if (document.deletedAt && document.deletedAt > after) {
+          tombstones.push({id: document.id, deletedAt: document.deletedAt});
+        }
+      });
+      return tombstones.sort((a, b) => compareValues(a.deletedAt, b.deletedAt));
+    });
+  }
+
+  /**
+   * Remove the tombstones older than the `tombstoneRetention` option.
+   * Resolves with the number of removed tombstones.
+   * @param retention Number of days to keep tombstones, overrides the `tombstoneRetention` option
+   */
+  purgeTombstones(retention = this._tombstoneRetention) {
+    return this.run(() => {
+      const before = new Date(Date.now() - retention * dayInMilliseconds).toISOString();
+      let purged = 0;
+      this._documents.forEach(document => {
+        if (document.deletedAt && document.deletedAt < before) {
+          this._documents.delete(document.id);
+          purged++;
+        }
+      });
+      return purged;
+    });
+  }
+
+  /**
+   * List the changes of documents recorded with `changeFeed`, oldest first.
+   * Resolves with the changes and the cursor to pass to the next call
+   * @param since Cursor returned by a previous call, all recorded changes by default
+   * @param limit Maximum number of changes
+   */
+  changes(since = 0, limit = defaultChangesLimit) {
+    return this.run((): IMemoryChanges => {
+      const changes = this._changes.filter(change => change.seq > since).slice(0, limit).map(change => copy(change));
+      return {changes, cursor: changes.length ? changes[changes.length - 1].seq : since};
+    });
+  }
+
+  /**
+   * Copy every table, to restore them later or to save them as JSON
+   */
+  snapshot() {
+    return this.run((): IMemorySnapshot => {
+      const attachments: IMemoryAttachmentRow[] = [];
+      this._attachments.forEach(rows => rows.forEach(attachment => attachments.push(attachment)));
+      const documents: IMemoryDocumentRow[] = [];
+      this._documents.forEach(document => documents.push(document));
+      return copy({
+        [this._documentsTable]: documents,
+        [this._attachmentsTable]: attachments,
+        [this._attachmentsHistoryTable]: this._attachmentsHistory,
+        [this._documentsHistoryTable]: this._documentsHistory,
+        [this._changesTable]: this._changes
+      });
+    });
+  }
+
+  /**
+   * Replace every table with the ones of a snapshot.
+   * The snapshot is copied, so it can be restored again
+   * @param snapshot Tables returned by `snapshot`, or parsed from JSON
+   */
+  restore(snapshot: IMemorySnapshot) {
+    return this.run(() => {
+      const tables = copy(snapshot);
+      const table = <T>(name: string) => (tables[name] || []) as any as T[];
+      this._documents = new Map<string, IMemoryDocumentRow>();
+      table<IMemoryDocumentRow>(this._documentsTable).forEach(document => this._documents.set(document.id, document));
+      this._attachments = new Map<string, Map<string, IMemoryAttachmentRow>>();
+      table<IMemoryAttachmentRow>(this._attachmentsTable).forEach(attachment => {
+        this._attachments.set(attachment.id, (this._attachments.get(attachment.id) || new Map()).set(attachment.name, attachment));
+      });
+      this._attachmentsHistory = table<IMemoryAttachmentRow>(this._attachmentsHistoryTable);
+      this._documentsHistory = table<IMemoryDocumentVersionRow>(this._documentsHistoryTable);
+      this._changes = table<IMemoryChange>(this._changesTable);
+      // sequence numbers are never reused
+      this._seq = this._changes.reduce((max, change) => Math.max(max, change.seq), 0);
+    });
+  }
+
+  /**
+   * Fail any further call to the storage.
+   */
+  close() {
+    return getQueue().push(() => {
+      this._closed = true;
+    });
+  }
+
+  buildQuery(options: IJioQueryOptions = {query: ''}) {
+    return this.run(() => {
+      const rows = queryFilter(this.liveDocuments().map(queryRow), parseQuery(options));
+      const selectList = (options.select_list || []).slice();
+      return queryLimit(querySort(rows, options), options).map(row => {
+        return queryParseDocument(row.id, row.value, options.include_docs || false, selectList);
+      });
+    });
+  }
+}
+
+export interface IMemoryOptions extends IClearRoadOptions {
+  localStorage: IMemoryStorageOptions;
+  /**
+   * Queries are evaluated in memory
+   */
+  useQueryStorage?: false;
+}
+
+// jIO already provides a "memory" storage
+const storageName = 'memorydb';
+jIO.addStorage(storageName, MemoryStorage);
+export default storageName;
@@ -8,11 +8,19 @@ const addStorageStub = sinon.stub(jioImport.jIO, 'addStorage');
 
 import * as mongodb from 'mongodb';
 
+import { describeServerConformance } from '../conformance';
 import * as specs from './index';
+import * as shutdown from '../shutdown';
 import storageName, {
-  MongoDBStorage, parseQuery, IMongoDBStorageOptions,
-  idKey, valueKey, updatedAtKey, createdAtKey
+  MongoDBStorage, parseQuery, wildcardToRegExp, indexFields, uniqueIndex, IMongoDBStorageOptions,
+  idKey, valueKey, updatedAtKey, createdAtKey, defaultAttachmentsHistoryCollection, defaultDocumentsHistoryCollection, dataKey, contentTypeKey,
+  dataURIToBinary, attachmentToBlob, migrateAttachmentsCollection, fileKey, uploadFile, downloadFile, defaultGridFSThreshold,
+  lengthKey, digestKey, attachmentMetadata, fileRange, orphanAttachmentsPipeline,
+  deletedAtKey, defaultTombstoneRetention, defaultChangesLimit, changesCounterId
 } from './index';
+import { attachmentDigest } from '../local';
+
+import { EventEmitter } from 'events';
 
 let stubs: sinon.SinonStub[] = [];
 
@@ -31,6 +39,9 @@ class FakeMongoClient {
   db() {
     return new FakeDb();
   }
+  close() {
+    return Promise.resolve();
+  }
 }
 
 class FakeDb {
@@ -41,11 +52,44 @@ class FakeDb {
 
 class FakeCollection {
   createIndex() {}
+  indexExists() {
+    return Promise.resolve(true);
+  }
+  aggregate() {
+    return {toArray: () => Promise.resolve([])};
+  }
+  dropIndex() {
+    return Promise.resolve();
+  }
+  deleteMany() {}
   findOne() {}
-  find() {}
+  find() {
+    return {toArray: () => Promise.resolve([])};
+  }
   insertOne() {}
   updateOne() {}
-  deleteOne() {}
+  updateMany() {}
+  findOneAndUpdate() {}
+  findOneAndDelete() {}
+}
+
+class FakeUploadStream extends EventEmitter {
+  id = 'fileId';
+  end() {
+    this.emit('finish');
+  }
+}
+
+class FakeBucket {
+  openUploadStream() {
+    return new FakeUploadStream();
+  }
+  openDownloadStream() {
+    return new EventEmitter();
+  }
+  delete() {
+    return Promise.resolve();
+  }
 }
 
 const options: IMongoDBStorageOptions = {
@@ -59,6 +103,7 @@ describe(storageName, () => {
     stubs = [];
     stubs.push(sinon.stub(console, 'error'));
     stubs.push(sinon.stub(mongodb.MongoClient, 'connect').returns(new FakeMongoClient()));
+    stubs.push(sinon.stub(mongodb, 'GridFSBucket').returns(new FakeBucket()));
   });
 
   afterEach(() => {
@@ -92,7 +137,7 @@ describe(storageName, () => {
         }, {
           'doc.grouping_reference': {$eq: 'data'}
         }, {
-          [createdAtKey]: {$ne: date}
+          [createdAtKey]: {$ne: date, $exists: true}
         }]
       });
     });
@@ -102,13 +147,341 @@ describe(storageName, () => {
       const parsed = jioImport.jIO.QueryFactory.create(query);
       expect(parseQuery(parsed)).to.deep.equal({
         $and: [
-          {'doc.date1': {$gte: '1'}},
-          {'doc.date2': {$gt: '2'}},
-          {'doc.date3': {$lt: '3'}},
-          {'doc.date4': {$lte: '4'}}
+          {'doc.date1': {$gte: 1}},
+          {'doc.date2': {$gt: 2}},
+          {'doc.date3': {$lt: 3}},
+          {'doc.date4': {$lte: 4}}
         ]
       });
     });
+
+    it('should only query numbers in ranges', () => {
+      const parsed = jioImport.jIO.QueryFactory.create('mileage: 10 AND title: < "b"');
+      expect(parseQuery(parsed)).to.deep.equal({
+        $and: [
+          {'doc.mileage': {$in: ['10', 10]}},
+          {'doc.title': {$lt: 'b'}}
+        ]
+      });
+    });
+
+    it('should query numbers and booleans with their JSON type', () => {
+      const parsed = jioImport.jIO.QueryFactory.create('mileage: != 50 AND paid: true');
+      expect(parseQuery(parsed)).to.deep.equal({
+        $and: [
+          {'doc.mileage': {$nin: ['50', 50], $exists: true}},
+          {'doc.paid': {$in: ['true', true]}}
+        ]
+      });
+    });
+
+    it('should parse wildcard queries', () => {
+      const parsed = jioImport.jIO.QueryFactory.create('title: "%Road%" AND description: != "%test"');
+      expect(parseQuery(parsed)).to.deep.equal({
+        $and: [
+          {'doc.title': {$regex: /^.*Road.*$/i}},
+          {'doc.description': {$not: /^.*test$/i, $exists: true}}
+        ]
+      });
+    });
+
+    it('should parse NOT queries', () => {
+      const parsed: any = {
+        type: 'complex',
+        operator: 'NOT',
+        query_list: [{
+          type: 'simple',
+          key: 'title',
+          value: 'test'
+        }]
+      };
+      expect(parseQuery(parsed)).to.deep.equal({
+        $nor: [
+          {'doc.title': {$eq: 'test'}}
+        ]
+      });
+    });
+
+    it('should reject unknown operators', () => {
+      const parsed: any = {
+        type: 'simple',
+        key: 'title',
+        operator: 'LIKE',
+        value: 'test'
+      };
+      expect(() => parseQuery(parsed)).to.throw('Unsupported query operator: LIKE');
+    });
+  });
+
+  describe('wildcardToRegExp', () => {
+    it('should replace wildcards', () => {
+      expect(wildcardToRegExp('%Road%').source).to.equal('^.*Road.*$');
+    });
+
+    it('should escape regexp characters', () => {
+      expect(wildcardToRegExp('a.b*%').source).to.equal('^a\\.b\\*.*$');
+    });
+
+    it('should be case-insensitive', () => {
+      expect(wildcardToRegExp('road%').test('Road Message')).to.equal(true);
+    });
+  });
+
+  describe('indexFields', () => {
+    it('should index a single field', () => {
+      expect(indexFields('state')).to.deep.equal({'doc.state': 1});
+    });
+
+    it('should index multiple fields', () => {
+      expect(indexFields(['source_reference', 'state'])).to.deep.equal({
+        'doc.source_reference': 1,
+        'doc.state': 1
+      });
+    });
+  });
+
+  describe('uniqueIndex', () => {
+    let collection: any;
+    let createStub: sinon.SinonStub;
+
+    beforeEach(() => {
+      collection = new FakeCollection();
+      createStub = sinon.stub(collection, 'createIndex');
+    });
+
+    describe('index exists', () => {
+      it('should not create the index', async () => {
+        await uniqueIndex(collection);
+        expect(createStub.called).to.equal(false);
+      });
+    });
+
+    describe('index does not exist', () => {
+      let deleteStub: sinon.SinonStub;
+      let dropStub: sinon.SinonStub;
+
+      beforeEach(() => {
+        sinon.stub(collection, 'indexExists').returns(Promise.resolve(false));
+        sinon.stub(collection, 'aggregate').returns({
+          toArray: () => Promise.resolve([{_id: 'id', ids: [1, 2, 3], count: 3}])
+        });
+        deleteStub = sinon.stub(collection, 'deleteMany');
+        dropStub = sinon.stub(collection, 'dropIndex').callsFake(() => Promise.reject());
+      });
+
+      it('should throw an error when there are duplicates', async () => {
+        collection.collectionName = 'Documents';
+        let error;
+        try {
+          await uniqueIndex(collection);
+        }
+        catch (err) {
+          error = err;
+        }
+        expect(error.message).to.equal(
+          `Collection "Documents" has 1 duplicate ${idKey} values, enable "removeDuplicates" to keep only the latest document of each`
+        );
+        expect(error.status_code).to.equal(409);
+        expect(deleteStub.called).to.equal(false);
+        expect(createStub.called).to.equal(false);
+      });
+
+      it('should keep the latest document of each id with "removeDuplicates"', async () => {
+        await uniqueIndex(collection, [idKey], true);
+        expect(deleteStub.calledWith({_id: {$in: [1, 2]}})).to.equal(true);
+      });
+
+      it('should replace the former index', async () => {
+        await uniqueIndex(collection, [idKey], true);
+        expect(dropStub.calledWith(`${idKey}_1`)).to.equal(true);
+        expect(createStub.calledWith({[idKey]: 1}, {unique: true, name: `${idKey}_unique`})).to.equal(true);
+      });
+
+      it('should replace a former compound index', async () => {
+        await uniqueIndex(collection, [idKey, 'name'], true);
+        expect(dropStub.calledWith(`${idKey}_1_name_1`)).to.equal(true);
+        expect(createStub.calledWith({[idKey]: 1, name: 1}, {unique: true, name: `${idKey}_name_unique`})).to.equal(true);
+      });
+    });
+  });
+
+  describe('dataURIToBinary', () => {
+    it('should decode base64 data URIs', () => {
+      const binary = dataURIToBinary('data:text/plain;base64,dGVzdA==');
+      expect(binary.contentType).to.equal('text/plain');
+      expect(binary.data.toString()).to.equal('test');
+    });
+
+    it('should decode url encoded data URIs', () => {
+      const binary = dataURIToBinary('data:text/plain,a%20test');
+      expect(binary.contentType).to.equal('text/plain');
+      expect(binary.data.toString()).to.equal('a test');
+    });
+
+    it('should keep invalid data URIs as is', () => {
+      const binary = dataURIToBinary('test');
+      expect(binary.contentType).to.equal('');
+      expect(binary.data.toString()).to.equal('test');
+    });
+  });
+
+  describe('attachmentToBlob', () => {
+    it('should create a blob from binary data', () => {
+      const blob = attachmentToBlob({[dataKey]: {buffer: Buffer.from('test')}, [contentTypeKey]: 'text/plain'} as any);
+      expect(blob.type).to.equal('text/plain');
+      expect(blob.size).to.equal(4);
+    });
+
+    it('should decode attachments which have not been migrated', () => {
+      const dataURItoBlobStub = sinon.stub(jioImport.jIO.util, 'dataURItoBlob').returns('blob');
+      stubs.push(dataURItoBlobStub);
+      expect(attachmentToBlob({[valueKey]: 'data:,test'} as any)).to.equal('blob');
+      expect(dataURItoBlobStub.calledWith('data:,test')).to.equal(true);
+    });
+
+    it('should only keep the range of binary data', () => {
+      const blob = attachmentToBlob({[dataKey]: {buffer: Buffer.from('test')}} as any, {start: 1, end: 10});
+      expect(blob.size).to.equal(3);
+    });
+
+    it('should only keep the range of attachments which have not been migrated', () => {
+      const slice = sinon.stub().returns('range');
+      stubs.push(sinon.stub(jioImport.jIO.util, 'dataURItoBlob').returns({size: 4, slice}));
+      expect(attachmentToBlob({[valueKey]: 'data:,test'} as any, {start: 1, end: 10})).to.equal('range');
+      expect(slice.calledWith(1, 4)).to.equal(true);
+    });
+  });
+
+  describe('fileRange', () => {
+    it('should limit the range to the file length', () => {
+      expect(fileRange({start: 2, end: Infinity}, 10)).to.deep.equal({start: 2, end: 10});
+      expect(fileRange({start: 20, end: 30}, 10)).to.deep.equal({start: 10, end: 10});
+    });
+
+    it('should read the whole file without range', () => {
+      expect(fileRange({start: 0, end: Infinity}, 10)).to.equal(undefined);
+    });
+
+    it('should read the whole file if its length is unknown', () => {
+      expect(fileRange({start: 2, end: 5})).to.equal(undefined);
+    });
+  });
+
+  describe('attachmentMetadata', () => {
+    const attachment: any = {
+      name: 'name',
+      revision: 2,
+      [contentTypeKey]: 'text/plain',
+      [lengthKey]: 4,
+      [digestKey]: 'sha256-digest'
+    };
+
+    it('should return the metadata', () => {
+      expect(attachmentMetadata(attachment)).to.deep.equal({
+        revision: 2,
+        content_type: 'text/plain',
+        length: 4,
+        digest: 'sha256-digest'
+      });
+    });
+
+    it('should return null for attachments saved by previous versions', () => {
+      const metadata = attachmentMetadata({name: 'name', revision: 1} as any);
+      expect(metadata.length).to.equal(null);
+      expect(metadata.digest).to.equal(null);
+    });
+
+    it('should return the timestamps', () => {
+      const createdAt = new Date('2018-01-01T00:00:00.000Z');
+      const updatedAt = new Date('2018-01-02T00:00:00.000Z');
+      const metadata = attachmentMetadata({...attachment, createdAt, updatedAt});
+      expect(metadata.createdAt).to.equal('2018-01-01T00:00:00.000Z');
+      expect(metadata.updatedAt).to.equal('2018-01-02T00:00:00.000Z');
+    });
+  });
+
+  describe('migrateAttachmentsCollection', () => {
+    let collection: any;
+    let findStub: sinon.SinonStub;
+    let updateStub: sinon.SinonStub;
+
+    beforeEach(() => {
+      collection = new FakeCollection();
+      findStub = sinon.stub(collection, 'find');
+      findStub.onFirstCall().returns({
+        toArray: () => Promise.resolve([{_id: 'objectId', [valueKey]: 'data:text/plain;base64,dGVzdA=='}])
+      });
+      findStub.returns({toArray: () => Promise.resolve([])});
+      updateStub = sinon.stub(collection, 'updateOne').returns(Promise.resolve());
+    });
+
+    it('should convert data URIs to binary data', async () => {
+      const migrated = await migrateAttachmentsCollection(collection, 1);
+      expect(migrated).to.equal(1);
+      expect(updateStub.calledWith({_id: 'objectId', [valueKey]: {$exists: true}}, {
+        $set: {
+          [dataKey]: sinon.match.instanceOf(Buffer),
+          [contentTypeKey]: 'text/plain',
+          [lengthKey]: 4,
+          [digestKey]: attachmentDigest(Buffer.from('test'))
+        },
+        $unset: {[valueKey]: ''}
+      })).to.equal(true);
+    });
+
+    it('should read the next batch', async () => {
+      await migrateAttachmentsCollection(collection, 1);
+      expect(findStub.secondCall.calledWith({[valueKey]: {$exists: true}}, {
+        projection: {[valueKey]: 1},
+        limit: 1
+      })).to.equal(true);
+    });
+  });
+
+  describe('uploadFile', () => {
+    it('should resolve the file id', async () => {
+      const bucket: any = new FakeBucket();
+      const stub = sinon.stub(bucket, 'openUploadStream').callThrough();
+      const fileId = await uploadFile(bucket, 'name', Buffer.from('test'), {[idKey]: 'id'});
+      expect(fileId).to.equal('fileId');
+      expect(stub.calledWith('name', {metadata: {[idKey]: 'id'}})).to.equal(true);
+    });
+
+    it('should reject on failure', async () => {
+      const bucket: any = new FakeBucket();
+      const stream = new FakeUploadStream();
+      stream.end = () => stream.emit('error', new Error('error'));
+      sinon.stub(bucket, 'openUploadStream').returns(stream);
+      let error;
+      try {
+        await uploadFile(bucket, 'name', Buffer.from('test'), {});
+      }
+      catch (err) {
+        error = err;
+      }
+      expect(error.message).to.equal('error');
+    });
+  });
+
+  describe('downloadFile', () => {
+    it('should resolve the file content', async () => {
+      const bucket: any = new FakeBucket();
+      const stream = new EventEmitter();
+      sinon.stub(bucket, 'openDownloadStream').returns(stream);
+      const download = downloadFile(bucket, 'fileId' as any);
+      stream.emit('data', Buffer.from('te'));
+      stream.emit('data', Buffer.from('st'));
+      stream.emit('end');
+      const data = await download;
+      expect(data.toString()).to.equal('test');
+    });
+
+    it('should only read the range', () => {
+      const bucket: any = new FakeBucket();
+      const stub = sinon.stub(bucket, 'openDownloadStream').callThrough();
+      downloadFile(bucket, 'fileId' as any, {start: 1, end: 3});
+      expect(stub.calledWith('fileId', {start: 1, end: 3})).to.equal(true);
+    });
   });
 
   describe('MongoDBStorage', () => {
@@ -173,6 +546,115 @@ describe(storageName, () => {
               expect((storage as any)._timestamps).to.equal(false);
             });
           });
+
+          describe('with "attachmentHistory', () => {
+            beforeEach(() => {
+              fakeOptions.attachmentHistory = true;
+            });
+
+            afterEach(() => {
+              delete fakeOptions.attachmentHistory;
+            });
+
+            it('should keep previous versions of attachments', () => {
+              const storage = new MongoDBStorage(fakeOptions);
+              expect((storage as any)._attachmentHistory).to.equal(true);
+              expect(fakeOptions.attachmentsHistoryCollectionName).to.equal(defaultAttachmentsHistoryCollection);
+            });
+          });
+
+          describe('with "gridFS', () => {
+            beforeEach(() => {
+              fakeOptions.gridFS = true;
+            });
+
+            afterEach(() => {
+              delete fakeOptions.gridFS;
+              delete fakeOptions.gridFSThreshold;
+            });
+
+            it('should store large attachments in GridFS', () => {
+              const storage = new MongoDBStorage(fakeOptions);
+              expect((storage as any)._gridFS).to.equal(true);
+              expect((storage as any)._gridFSThreshold).to.equal(defaultGridFSThreshold);
+            });
+
+            it('should set the threshold', () => {
+              fakeOptions.gridFSThreshold = 1024;
+              const storage = new MongoDBStorage(fakeOptions);
+              expect((storage as any)._gridFSThreshold).to.equal(1024);
+            });
+          });
+
+          describe('with "softDelete', () => {
+            beforeEach(() => {
+              fakeOptions.softDelete = true;
+            });
+
+            afterEach(() => {
+              delete fakeOptions.softDelete;
+              delete fakeOptions.tombstoneRetention;
+            });
+
+            it('should keep tombstones', () => {
+              const storage = new MongoDBStorage(fakeOptions);
+              expect((storage as any)._softDelete).to.equal(true);
+              expect((storage as any)._tombstoneRetention).to.equal(defaultTombstoneRetention);
+            });
+
+            it('should set the retention', () => {
+              fakeOptions.tombstoneRetention = 7;
+              const storage = new MongoDBStorage(fakeOptions);
+              expect((storage as any)._tombstoneRetention).to.equal(7);
+            });
+          });
+
+          describe('with "changeFeed', () => {
+            beforeEach(() => {
+              fakeOptions.changeFeed = true;
+            });
+
+            afterEach(() => {
+              delete fakeOptions.changeFeed;
+            });
+
+            it('should record changes', () => {
+              const storage = new MongoDBStorage(fakeOptions);
+              expect((storage as any)._changeFeed).to.equal(true);
+            });
+          });
+
+          describe('with "history', () => {
+            beforeEach(() => {
+              fakeOptions.history = true;
+            });
+
+            afterEach(() => {
+              delete fakeOptions.history;
+            });
+
+            it('should keep previous versions of documents', () => {
+              const storage = new MongoDBStorage(fakeOptions);
+              expect((storage as any)._history).to.equal(true);
+              expect(fakeOptions.documentsHistoryCollectionName).to.equal(defaultDocumentsHistoryCollection);
+            });
+          });
+
+          describe('with "closeOnExit', () => {
+            beforeEach(() => {
+              fakeOptions.closeOnExit = true;
+              stubs.push(sinon.stub(shutdown, 'closeOnExit'));
+            });
+
+            afterEach(() => {
+              delete fakeOptions.closeOnExit;
+            });
+
+            it('should close the storage on exit', () => {
+              const storage = new MongoDBStorage(fakeOptions);
+              expect((shutdown.closeOnExit as sinon.SinonStub).calledWith(storage)).to.equal(true);
+            });
+          });
         });
       });
     });
@@ -189,6 +671,46 @@ describe(storageName, () => {
         await storage._dbPromise;
         expect(storage._attachmentsCollection instanceof FakeCollection).to.equal(true);
       });
+
+      it('should set the revision of former attachments', async () => {
+        const stub = sinon.stub(FakeCollection.prototype, 'updateMany');
+        stubs.push(stub);
+        const storage: any = new MongoDBStorage(options);
+        await storage._dbPromise;
+        expect(stub.calledWith({revision: {$exists: false}}, {$set: {revision: 1}})).to.equal(true);
+      });
+
+      it('should create additional indexes', async () => {
+        const stub = sinon.stub(FakeCollection.prototype, 'createIndex');
+        stubs.push(stub);
+        const storage: any = new MongoDBStorage({...options, indexes: ['state']});
+        await storage._dbPromise;
+        expect(stub.calledWith({'doc.state': 1})).to.equal(true);
+      });
+
+      it('should index the removal date with "softDelete"', async () => {
+        const stub = sinon.stub(FakeCollection.prototype, 'createIndex');
+        stubs.push(stub);
+        const storage: any = new MongoDBStorage({...options, softDelete: true});
+        await storage._dbPromise;
+        expect(stub.calledWith({[deletedAtKey]: 1})).to.equal(true);
+      });
+
+      it('should index the sequence of changes with "changeFeed"', async () => {
+        const stub = sinon.stub(FakeCollection.prototype, 'createIndex');
+        stubs.push(stub);
+        const storage: any = new MongoDBStorage({...options, changeFeed: true});
+        await storage._dbPromise;
+        expect(stub.calledWith({seq: 1}, {unique: true, sparse: true})).to.equal(true);
+      });
+
+      it('should index the revisions of documents with "history"', async () => {
+        const stub = sinon.stub(FakeCollection.prototype, 'createIndex');
+        stubs.push(stub);
+        const storage: any = new MongoDBStorage({...options, history: true});
+        await storage._dbPromise;
+        expect(stub.calledWith({[idKey]: 1, revision: 1}, {unique: true})).to.equal(true);
+      });
     });
 
     describe('.get', () => {
@@ -209,145 +731,451 @@ describe(storageName, () => {
         expect(stub.calledWith({[idKey]: id})).to.equal(true);
       });
 
+      it('should not find tombstones with "softDelete"', () => {
+        const stub = sinon.stub((storage as any)._documentsCollection, 'findOne').returns(new FakeQueue());
+        stubs.push(stub);
+        (storage as any)._softDelete = true;
+        storage.get(id);
+        expect(stub.calledWith({[idKey]: id, [deletedAtKey]: null})).to.equal(true);
+      });
+
       describe('document found', () => {
         const document = {
           [valueKey]: 1
         };
 
-        beforeEach(() => {
-          const queue = new FakeQueue();
-          queue.push(() => document);
-          stubs.push(sinon.stub((storage as any)._documentsCollection, 'findOne').returns(queue));
-        });
+        beforeEach(() => {
+          const queue = new FakeQueue();
+          queue.push(() => document);
+          stubs.push(sinon.stub((storage as any)._documentsCollection, 'findOne').returns(queue));
+        });
+
+        it('should return the document', () => {
+          const res: any = storage.get(id);
+          expect(res.result).to.deep.equal(document[valueKey]);
+        });
+      });
+
+      describe('document not found', () => {
+        beforeEach(() => {
+          const queue = new FakeQueue();
+          queue.push(() => null);
+          stubs.push(sinon.stub((storage as any)._documentsCollection, 'findOne').returns(queue));
+        });
+
+        it('should return the document', () => {
+          const res: any = storage.get(id);
+          expect(res.result).to.equal(null);
+        });
+      });
+    });
+
+    describe('.put', () => {
+      let storage: MongoDBStorage;
+      const id = 'id';
+      const data = {test: 1};
+      let updateStub: sinon.SinonStub;
+
+      beforeEach(async () => {
+        storage = new MongoDBStorage(options);
+        await (storage as any)._dbPromise;
+        stubs.push(sinon.stub((storage as any), 'db').returns(new FakeQueue()));
+
+        (storage as any)._documentsCollection = new FakeCollection();
+        updateStub = sinon.stub((storage as any)._documentsCollection, 'findOneAndUpdate').returns(new FakeQueue());
+        stubs.push(updateStub);
+      });
+
+      describe('with timestamps', () => {
+        beforeEach(() => {
+          (storage as any)._timestamps = true;
+        });
+
+        it('should upsert data', () => {
+          storage.put(id, data);
+          expect(updateStub.calledWith({
+            [idKey]: id
+          }, {
+            $set: {[valueKey]: data, [updatedAtKey]: now},
+            $setOnInsert: {[createdAtKey]: now}
+          }, {
+            upsert: true,
+            returnOriginal: true,
+            projection: {[idKey]: 1}
+          })).to.equal(true);
+        });
+      });
+
+      describe('without timestamps', () => {
+        beforeEach(() => {
+          (storage as any)._timestamps = false;
+        });
+
+        it('should upsert data', () => {
+          storage.put(id, data);
+          expect(updateStub.calledWith({
+            [idKey]: id
+          }, {
+            $set: {[valueKey]: data}
+          }, {
+            upsert: true,
+            returnOriginal: true,
+            projection: {[idKey]: 1}
+          })).to.equal(true);
+        });
+      });
+
+      it('should not read the document first', () => {
+        const getStub = sinon.stub(storage, 'get');
+        stubs.push(getStub);
+        storage.put(id, data);
+        expect(getStub.called).to.equal(false);
+      });
+
+      it('should restore a removed document with "softDelete"', () => {
+        (storage as any)._timestamps = false;
+        (storage as any)._softDelete = true;
+        storage.put(id, data);
+        expect(updateStub.calledWith({
+          [idKey]: id
+        }, {
+          $set: {[valueKey]: data},
+          $unset: {[deletedAtKey]: ''}
+        }, {
+          upsert: true,
+          returnOriginal: true,
+          projection: {[idKey]: 1}
+        })).to.equal(true);
+      });
+
+      it('should return the whole previous version with "history"', () => {
+        (storage as any)._timestamps = false;
+        (storage as any)._history = true;
+        storage.put(id, data);
+        expect(updateStub.calledWith({
+          [idKey]: id
+        }, {
+          $set: {[valueKey]: data}
+        }, {
+          upsert: true,
+          returnOriginal: true
+        })).to.equal(true);
+      });
+    });
+
+    describe('.saveDocument', () => {
+      let storage: MongoDBStorage;
+      const id = 'id';
+      const previous = {[idKey]: id, [valueKey]: {test: 1}};
+      let updateStub: sinon.SinonStub;
+      let archiveStub: sinon.SinonStub;
+      let recordStub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new MongoDBStorage(options);
+        (storage as any)._documentsCollection = new FakeCollection();
+        (storage as any)._changeFeed = true;
+        updateStub = sinon.stub((storage as any)._documentsCollection, 'findOneAndUpdate').returns(Promise.resolve({value: previous}));
+        stubs.push(updateStub);
+        archiveStub = sinon.stub((storage as any), 'archiveDocument').returns(Promise.resolve());
+        stubs.push(archiveStub);
+        recordStub = sinon.stub((storage as any), 'recordChange').returns(Promise.resolve());
+        stubs.push(recordStub);
+      });
+
+      it('should archive the previous version', async () => {
+        await (storage as any).saveDocument(id, {});
+        expect(archiveStub.calledWith(previous, 'update')).to.equal(true);
+      });
+
+      it('should record an update with "changeFeed"', async () => {
+        await (storage as any).saveDocument(id, {});
+        expect(recordStub.calledWith(id, 'update')).to.equal(true);
+      });
+
+      it('should record an insert of a document which did not exist', async () => {
+        updateStub.returns(Promise.resolve({value: null}));
+        await (storage as any).saveDocument(id, {});
+        expect(recordStub.calledWith(id, 'insert')).to.equal(true);
+      });
+
+      it('should not record the change without "changeFeed"', async () => {
+        (storage as any)._changeFeed = false;
+        await (storage as any).saveDocument(id, {});
+        expect(recordStub.called).to.equal(false);
+      });
+    });
+
+    describe('.remove', () => {
+      let storage: MongoDBStorage;
+      const id = 'id';
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new MongoDBStorage(options);
+        stubs.push(sinon.stub((storage as any), 'db').returns(new FakeQueue()));
+
+        (storage as any)._documentsCollection = new FakeCollection();
+        stub = sinon.stub((storage as any)._documentsCollection, 'findOneAndDelete').returns(Promise.resolve({value: {[idKey]: id}}));
+        stubs.push(stub);
+      });
+
+      it('should remove by id', () => {
+        storage.remove(id);
+        expect(stub.calledWith({[idKey]: id}, {projection: {[idKey]: 1}})).to.equal(true);
+      });
+
+      it('should remove its attachments', async () => {
+        const deleteStub = sinon.stub((storage as any), 'deleteAttachments').returns(Promise.resolve());
+        stubs.push(deleteStub);
+        await storage.remove(id);
+        expect(deleteStub.calledWith({[idKey]: id})).to.equal(true);
+      });
+
+      describe('with "softDelete"', () => {
+        let updateStub: sinon.SinonStub;
+
+        beforeEach(() => {
+          (storage as any)._softDelete = true;
+          updateStub = sinon.stub((storage as any)._documentsCollection, 'findOneAndUpdate').returns(Promise.resolve({value: {[idKey]: id}}));
+          stubs.push(updateStub);
+          stubs.push(sinon.stub((storage as any), 'deleteAttachments').returns(Promise.resolve()));
+        });
+
+        it('should keep a tombstone', async () => {
+          await storage.remove(id);
+          expect(stub.called).to.equal(false);
+          expect(updateStub.calledWith(
+            {[idKey]: id, [deletedAtKey]: null},
+            {$set: {[deletedAtKey]: now}},
+            {projection: {[idKey]: 1}}
+          )).to.equal(true);
+        });
+
+        it('should remove its attachments', async () => {
+          await storage.remove(id);
+          expect((storage as any).deleteAttachments.calledWith({[idKey]: id})).to.equal(true);
+        });
+      });
+    });
+
+    describe('.deleteDocument', () => {
+      let storage: MongoDBStorage;
+      const id = 'id';
+      let deleteStub: sinon.SinonStub;
+      let archiveStub: sinon.SinonStub;
+      let recordStub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new MongoDBStorage(options);
+        (storage as any)._documentsCollection = new FakeCollection();
+        (storage as any)._changeFeed = true;
+        deleteStub = sinon.stub((storage as any)._documentsCollection, 'findOneAndDelete').returns(Promise.resolve({value: {[idKey]: id}}));
+        stubs.push(deleteStub);
+        archiveStub = sinon.stub((storage as any), 'archiveDocument').returns(Promise.resolve());
+        stubs.push(archiveStub);
+        recordStub = sinon.stub((storage as any), 'recordChange').returns(Promise.resolve());
+        stubs.push(recordStub);
+      });
+
+      it('should archive the removed version', async () => {
+        await (storage as any).deleteDocument(id);
+        expect(archiveStub.calledWith({[idKey]: id}, 'delete')).to.equal(true);
+      });
+
+      it('should return the whole removed version with "history"', async () => {
+        (storage as any)._history = true;
+        await (storage as any).deleteDocument(id);
+        expect(deleteStub.calledWith({[idKey]: id}, {})).to.equal(true);
+      });
+
+      it('should record the removal with "changeFeed"', async () => {
+        await (storage as any).deleteDocument(id);
+        expect(recordStub.calledWith(id, 'delete')).to.equal(true);
+      });
+
+      it('should not record the removal of a document which does not exist', async () => {
+        deleteStub.returns(Promise.resolve({value: null}));
+        await (storage as any).deleteDocument(id);
+        expect(archiveStub.called).to.equal(false);
+        expect(recordStub.called).to.equal(false);
+      });
+
+      it('should not record the removal without "changeFeed"', async () => {
+        (storage as any)._changeFeed = false;
+        await (storage as any).deleteDocument(id);
+        expect(recordStub.called).to.equal(false);
+      });
+    });
+
+    describe('.archiveDocument', () => {
+      let storage: MongoDBStorage;
+      const previous = {[idKey]: 'id', [valueKey]: {test: 1}};
+      let findStub: sinon.SinonStub;
+      let insertStub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new MongoDBStorage(options);
+        (storage as any)._history = true;
+        (storage as any)._documentsHistoryCollection = new FakeCollection();
+        findStub = sinon.stub((storage as any)._documentsHistoryCollection, 'findOne').returns(Promise.resolve({revision: 2}));
+        stubs.push(findStub);
+        insertStub = sinon.stub((storage as any)._documentsHistoryCollection, 'insertOne').returns(Promise.resolve());
+        stubs.push(insertStub);
+      });
+
+      it('should insert the next revision', async () => {
+        await (storage as any).archiveDocument(previous, 'update');
+        expect(findStub.calledWith({[idKey]: 'id'}, {sort: {revision: -1}, projection: {revision: 1}})).to.equal(true);
+        expect(insertStub.calledWith({
+          [idKey]: 'id', revision: 3, [valueKey]: {test: 1}, operation: 'update', replacedAt: now
+        })).to.equal(true);
+      });
 
-        it('should return the document', () => {
-          const res: any = storage.get(id);
-          expect(res.result).to.deep.equal(document[valueKey]);
-        });
+      it('should start at the first revision', async () => {
+        findStub.returns(Promise.resolve(null));
+        await (storage as any).archiveDocument(previous, 'delete');
+        expect(insertStub.calledWith(sinon.match({revision: 1, operation: 'delete'}))).to.equal(true);
       });
 
-      describe('document not found', () => {
-        beforeEach(() => {
-          const queue = new FakeQueue();
-          queue.push(() => null);
-          stubs.push(sinon.stub((storage as any)._documentsCollection, 'findOne').returns(queue));
-        });
+      it('should not archive tombstones', async () => {
+        await (storage as any).archiveDocument({...previous, [deletedAtKey]: now}, 'update');
+        expect(insertStub.called).to.equal(false);
+      });
 
-        it('should return the document', () => {
-          const res: any = storage.get(id);
-          expect(res.result).to.equal(null);
-        });
+      it('should not archive without "history"', async () => {
+        (storage as any)._history = false;
+        await (storage as any).archiveDocument(previous, 'update');
+        expect(insertStub.called).to.equal(false);
       });
     });
 
-    describe('.put', () => {
+    describe('.recordChange', () => {
       let storage: MongoDBStorage;
-      const id = 'id';
-      const data = {test: 1};
-      let updateStub: sinon.SinonStub;
+      let counterStub: sinon.SinonStub;
       let insertStub: sinon.SinonStub;
 
-      beforeEach(async () => {
+      beforeEach(() => {
         storage = new MongoDBStorage(options);
-        await (storage as any)._dbPromise;
-        stubs.push(sinon.stub((storage as any), 'db').returns(new FakeQueue()));
-
-        (storage as any)._documentsCollection = new FakeCollection();
-        updateStub = sinon.stub((storage as any)._documentsCollection, 'updateOne').returns(new FakeQueue());
-        stubs.push(updateStub);
-        insertStub = sinon.stub((storage as any)._documentsCollection, 'insertOne').returns(new FakeQueue());
+        (storage as any)._changesCollection = new FakeCollection();
+        counterStub = sinon.stub((storage as any)._changesCollection, 'findOneAndUpdate').returns(Promise.resolve({value: {lastSeq: 5}}));
+        stubs.push(counterStub);
+        insertStub = sinon.stub((storage as any)._changesCollection, 'insertOne').returns(Promise.resolve());
         stubs.push(insertStub);
       });
 
-      describe('document exists', () => {
-        beforeEach(() => {
-          stubs.push(sinon.stub(storage, 'get').returns({}));
-        });
+      it('should increment the sequence', async () => {
+        await (storage as any).recordChange('id', 'insert');
+        expect(counterStub.calledWith({_id: changesCounterId}, {$inc: {lastSeq: 1}}, {upsert: true, returnOriginal: false})).to.equal(true);
+      });
 
-        describe('with timestamps', () => {
-          beforeEach(() => {
-            (storage as any)._timestamps = true;
-          });
+      it('should insert the change', async () => {
+        await (storage as any).recordChange('id', 'insert');
+        expect(insertStub.calledWith({seq: 5, [idKey]: 'id', type: 'insert', changedAt: now})).to.equal(true);
+      });
+    });
 
-          it('should update data', () => {
-            storage.put(id, data);
-            expect(updateStub.calledWith({
-              [idKey]: id
-            }, {
-              $set: {[valueKey]: data, [updatedAtKey]: now}
-            })).to.equal(true);
-          });
-        });
+    describe('.changes', () => {
+      let storage: MongoDBStorage;
+      const changedAt = new Date('2019-01-01T00:00:00.000Z');
+      let findStub: sinon.SinonStub;
 
-        describe('without timestamps', () => {
-          beforeEach(() => {
-            (storage as any)._timestamps = false;
-          });
+      beforeEach(() => {
+        storage = new MongoDBStorage(options);
+        stubs.push(sinon.stub((storage as any), 'db').returns(new FakeQueue()));
 
-          it('should update data', () => {
-            storage.put(id, data);
-            expect(updateStub.calledWith({
-              [idKey]: id
-            }, {
-              $set: {[valueKey]: data}
-            })).to.equal(true);
-          });
+        (storage as any)._changesCollection = new FakeCollection();
+        findStub = sinon.stub((storage as any)._changesCollection, 'find').returns({
+          toArray: () => Promise.resolve([
+            {seq: 3, [idKey]: 'id', type: 'insert', changedAt},
+            {seq: 4, [idKey]: 'id', type: 'delete', changedAt}
+          ])
         });
+        stubs.push(findStub);
       });
 
-      describe('document does not exist', () => {
-        beforeEach(() => {
-          stubs.push(sinon.stub(storage, 'get').returns(null));
+      it('should list the changes after the cursor', async () => {
+        const result = await storage.changes(2);
+        expect(findStub.calledWith({seq: {$gt: 2}}, {sort: {seq: 1}, limit: defaultChangesLimit})).to.equal(true);
+        expect(result).to.deep.equal({
+          changes: [
+            {seq: 3, id: 'id', type: 'insert', changedAt: '2019-01-01T00:00:00.000Z'},
+            {seq: 4, id: 'id', type: 'delete', changedAt: '2019-01-01T00:00:00.000Z'}
+          ],
+          cursor: 4
         });
+      });
 
-        describe('with timestamps', () => {
-          beforeEach(() => {
-            (storage as any)._timestamps = true;
-          });
+      it('should keep the cursor without changes', async () => {
+        findStub.returns({toArray: () => Promise.resolve([])});
+        const result = await storage.changes(2, 10);
+        expect(findStub.calledWith({seq: {$gt: 2}}, {sort: {seq: 1}, limit: 10})).to.equal(true);
+        expect(result).to.deep.equal({changes: [], cursor: 2});
+      });
+    });
 
-          it('should insert data', () => {
-            storage.put(id, data);
-            expect(insertStub.calledWith({
-              [idKey]: id,
-              [valueKey]: data,
-              [createdAtKey]: now
-            })).to.equal(true);
-          });
-        });
+    describe('.allRevisions', () => {
+      let storage: MongoDBStorage;
+      const replacedAt = new Date('2019-01-01T00:00:00.000Z');
+      let findStub: sinon.SinonStub;
 
-        describe('without timestamps', () => {
-          beforeEach(() => {
-            (storage as any)._timestamps = false;
-          });
+      beforeEach(() => {
+        storage = new MongoDBStorage(options);
+        stubs.push(sinon.stub((storage as any), 'db').returns(new FakeQueue()));
 
-          it('should insert data', () => {
-            storage.put(id, data);
-            expect(insertStub.calledWith({
-              [idKey]: id,
-              [valueKey]: data
-            })).to.equal(true);
-          });
+        (storage as any)._documentsHistoryCollection = new FakeCollection();
+        findStub = sinon.stub((storage as any)._documentsHistoryCollection, 'find').returns({
+          toArray: () => Promise.resolve([
+            {revision: 1, operation: 'update', replacedAt},
+            {revision: 2, operation: 'delete', replacedAt}
+          ])
         });
+        stubs.push(findStub);
+      });
+
+      it('should list previous versions', async () => {
+        const revisions = await storage.allRevisions('id');
+        expect(findStub.calledWith({[idKey]: 'id'}, {
+          projection: {revision: 1, operation: 1, replacedAt: 1},
+          sort: {revision: 1}
+        })).to.equal(true);
+        expect(revisions).to.deep.equal([
+          {revision: 1, operation: 'update', replacedAt: '2019-01-01T00:00:00.000Z'},
+          {revision: 2, operation: 'delete', replacedAt: '2019-01-01T00:00:00.000Z'}
+        ]);
       });
     });
 
-    describe('.remove', () => {
+    describe('.getRevision', () => {
       let storage: MongoDBStorage;
-      const id = 'id';
-      let stub: sinon.SinonStub;
+      let findStub: sinon.SinonStub;
 
       beforeEach(() => {
         storage = new MongoDBStorage(options);
         stubs.push(sinon.stub((storage as any), 'db').returns(new FakeQueue()));
 
-        (storage as any)._documentsCollection = new FakeCollection();
-        stub = sinon.stub((storage as any)._documentsCollection, 'deleteOne').returns(new FakeQueue());
-        stubs.push(stub);
+        (storage as any)._documentsHistoryCollection = new FakeCollection();
+        findStub = sinon.stub((storage as any)._documentsHistoryCollection, 'findOne').returns(Promise.resolve({[valueKey]: {test: 1}}));
+        stubs.push(findStub);
       });
 
-      it('should remove by id', () => {
-        storage.remove(id);
-        expect(stub.calledWith({[idKey]: id})).to.equal(true);
+      it('should return the previous version', async () => {
+        const value = await storage.getRevision('id', 1);
+        expect(findStub.calledWith({[idKey]: 'id', revision: 1})).to.equal(true);
+        expect(value).to.deep.equal({test: 1});
+      });
+
+      it('should fail if the revision does not exist', async () => {
+        findStub.returns(Promise.resolve(null));
+        let error;
+        try {
+          await storage.getRevision('id', 3);
+        }
+        catch (err) {
+          error = err;
+        }
+        expect(error.message).to.equal('Cannot find revision 3 of document: id');
+        expect(error.status_code).to.equal(404);
       });
     });
 
@@ -387,6 +1215,90 @@ describe(storageName, () => {
           expect(() => storage.getAttachment(id, name)).to.throw(`Cannot find attachment: ${id}`);
         });
       });
+
+      describe('with "start" and "end"', () => {
+        let findStub: sinon.SinonStub;
+
+        beforeEach(() => {
+          findStub = sinon.stub((storage as any)._attachmentsCollection, 'findOne').returns({
+            [dataKey]: {buffer: Buffer.from('test')}
+          });
+          stubs.push(findStub);
+        });
+
+        it('should return the range', () => {
+          const result: any = storage.getAttachment(id, name, {start: 1, end: 3});
+          expect(result.result.size).to.equal(2);
+        });
+
+        it('should throw on an invalid range without querying', () => {
+          expect(() => storage.getAttachment(id, name, {start: 3, end: 1})).to.throw('"start" is greater than "end"');
+          expect(findStub.called).to.equal(false);
+        });
+      });
+
+      describe('with "revision"', () => {
+        let historyStub: sinon.SinonStub;
+
+        beforeEach(() => {
+          stubs.push(sinon.stub((storage as any)._attachmentsCollection, 'findOne').returns(Promise.resolve(null)));
+          (storage as any)._attachmentsHistoryCollection = new FakeCollection();
+          historyStub = sinon.stub((storage as any)._attachmentsHistoryCollection, 'findOne').returns(Promise.resolve({
+            [valueKey]: {}
+          }));
+          stubs.push(historyStub);
+        });
+
+        it('should look into the history', async () => {
+          (storage as any)._attachmentHistory = true;
+          await (storage as any).findAttachment(id, name, 2);
+          expect(historyStub.calledWith({[idKey]: id, name, revision: 2})).to.equal(true);
+        });
+
+        it('should not look into the history by default', async () => {
+          await (storage as any).findAttachment(id, name, 2);
+          expect(historyStub.called).to.equal(false);
+        });
+      });
+
+      describe('saved in GridFS', () => {
+        let downloadStub: sinon.SinonStub;
+
+        beforeEach(async () => {
+          storage = new MongoDBStorage(options);
+          await (storage as any)._dbPromise;
+          stubs.push(sinon.stub((storage as any)._attachmentsCollection, 'findOne').returns(Promise.resolve({
+            [fileKey]: 'fileId',
+            [contentTypeKey]: 'text/plain'
+          })));
+          downloadStub = sinon.stub(specs, 'downloadFile').returns(Promise.resolve(Buffer.from('test')));
+          stubs.push(downloadStub);
+        });
+
+        it('should read the file', async () => {
+          const blob = await storage.getAttachment(id, name);
+          expect(downloadStub.calledWith((storage as any)._attachmentsBucket, 'fileId')).to.equal(true);
+          expect(blob.type).to.equal('text/plain');
+          expect(blob.size).to.equal(4);
+        });
+
+        it('should only download the range', async () => {
+          (storage as any)._attachmentsCollection.findOne.returns(Promise.resolve({
+            [fileKey]: 'fileId',
+            [lengthKey]: 4
+          }));
+          downloadStub.returns(Promise.resolve(Buffer.from('es')));
+          const blob = await storage.getAttachment(id, name, {start: 1, end: 3});
+          expect(downloadStub.calledWith((storage as any)._attachmentsBucket, 'fileId', {start: 1, end: 3})).to.equal(true);
+          expect(blob.size).to.equal(2);
+        });
+
+        it('should download files without length entirely', async () => {
+          const blob = await storage.getAttachment(id, name, {start: 1, end: 3});
+          expect(downloadStub.calledWith((storage as any)._attachmentsBucket, 'fileId', undefined)).to.equal(true);
+          expect(blob.size).to.equal(2);
+        });
+      });
     });
 
     describe('.putAttachment', () => {
@@ -400,33 +1312,126 @@ describe(storageName, () => {
         stubs.push(sinon.stub((storage as any), 'db').returns(new FakeQueue()));
 
         (storage as any)._attachmentsCollection = new FakeCollection();
-        stub = sinon.stub((storage as any)._attachmentsCollection, 'insertOne').returns(new FakeQueue());
+        stub = sinon.stub((storage as any)._attachmentsCollection, 'updateOne').returns(new FakeQueue());
         stubs.push(stub);
-        stubs.push(sinon.stub(jioImport.jIO.util, 'readBlobAsDataURL').returns({
-          target: {result: {}}
+        stubs.push(sinon.stub(jioImport.jIO.util, 'readBlobAsArrayBuffer').returns({
+          target: {result: new ArrayBuffer(4)}
         }));
       });
 
-      it('should insert data with timestamps', () => {
+      it('should upsert data with timestamps', () => {
         (storage as any)._timestamps = true;
         storage.putAttachment(id, '', data);
         expect(stub.calledWith({
           [idKey]: id,
-          name: '',
-          [valueKey]: {},
-          [createdAtKey]: now
+          name: ''
+        }, {
+          $set: {
+            [dataKey]: sinon.match.instanceOf(Buffer),
+            [contentTypeKey]: data.type,
+            [lengthKey]: 4,
+            [digestKey]: attachmentDigest(Buffer.alloc(4)),
+            [updatedAtKey]: now
+          },
+          $unset: {[valueKey]: '', [fileKey]: ''},
+          $inc: {revision: 1},
+          $setOnInsert: {[createdAtKey]: now}
+        }, {
+          upsert: true
         })).to.equal(true);
       });
 
-      it('should insert data without timestamps', () => {
+      it('should upsert data without timestamps', () => {
         (storage as any)._timestamps = false;
         storage.putAttachment(id, '', data);
         expect(stub.calledWith({
           [idKey]: id,
-          name: '',
-          [valueKey]: {}
+          name: ''
+        }, {
+          $set: {
+            [dataKey]: sinon.match.instanceOf(Buffer),
+            [contentTypeKey]: data.type,
+            [lengthKey]: 4,
+            [digestKey]: attachmentDigest(Buffer.alloc(4))
+          },
+          $unset: {[valueKey]: '', [fileKey]: ''},
+          $inc: {revision: 1}
+        }, {
+          upsert: true
         })).to.equal(true);
       });
+
+      describe('with "attachmentHistory"', () => {
+        let insertStub: sinon.SinonStub;
+
+        beforeEach(() => {
+          (storage as any)._attachmentHistory = true;
+          (storage as any)._attachmentsHistoryCollection = new FakeCollection();
+          insertStub = sinon.stub((storage as any)._attachmentsHistoryCollection, 'insertOne');
+          stubs.push(insertStub);
+          stubs.push(sinon.stub((storage as any)._attachmentsCollection, 'findOneAndUpdate').returns(Promise.resolve({
+            value: {_id: 'objectId', [idKey]: id, name: '', revision: 1, [valueKey]: 'previous'}
+          })));
+        });
+
+        it('should keep the previous version', async () => {
+          await (storage as any).replaceAttachment(id, '', {});
+          expect(insertStub.calledWith({[idKey]: id, name: '', revision: 1, [valueKey]: 'previous'})).to.equal(true);
+        });
+      });
+
+      describe('with "gridFS"', () => {
+        let uploadStub: sinon.SinonStub;
+
+        beforeEach(() => {
+          (storage as any)._gridFS = true;
+          (storage as any)._gridFSThreshold = 2;
+          (storage as any)._attachmentsBucket = new FakeBucket();
+          uploadStub = sinon.stub(specs, 'uploadFile').returns(Promise.resolve('fileId'));
+          stubs.push(uploadStub);
+        });
+
+        it('should save large attachments in GridFS', async () => {
+          const content = await (storage as any).attachmentContent(id, 'name', Buffer.from('test'));
+          expect(content).to.deep.equal({[fileKey]: 'fileId', [lengthKey]: 4, [digestKey]: attachmentDigest(Buffer.from('test'))});
+          expect(uploadStub.calledWith(
+            (storage as any)._attachmentsBucket, 'name', sinon.match.instanceOf(Buffer), {[idKey]: id, name: 'name'}
+          )).to.equal(true);
+        });
+
+        it('should save small attachments in the collection', () => {
+          const content = (storage as any).attachmentContent(id, 'name', Buffer.from('t'));
+          expect(content[dataKey].toString()).to.equal('t');
+          expect(uploadStub.called).to.equal(false);
+        });
+
+        describe('replacing an attachment', () => {
+          let findStub: sinon.SinonStub;
+          let deleteStub: sinon.SinonStub;
+
+          beforeEach(() => {
+            findStub = sinon.stub((storage as any)._attachmentsCollection, 'findOneAndUpdate').returns(Promise.resolve({
+              value: {_id: 'objectId', [fileKey]: 'previousFileId'}
+            }));
+            stubs.push(findStub);
+            deleteStub = sinon.stub((storage as any)._attachmentsBucket, 'delete').returns(Promise.resolve());
+          });
+
+          it('should only get the previous file', async () => {
+            await (storage as any).replaceAttachment(id, '', {});
+            expect(findStub.calledWith({[idKey]: id, name: ''}, {}, {
+              upsert: true,
+              returnOriginal: true,
+              projection: {[fileKey]: 1}
+            })).to.equal(true);
+          });
+
+          it('should remove the previous file', async () => {
+            await (storage as any).replaceAttachment(id, '', {});
+            expect(deleteStub.calledWith('previousFileId')).to.equal(true);
+          });
+        });
+      });
     });
 
     describe('.removeAttachment', () => {
@@ -440,38 +1445,169 @@ describe(storageName, () => {
         stubs.push(sinon.stub((storage as any), 'db').returns(new FakeQueue()));
 
         (storage as any)._attachmentsCollection = new FakeCollection();
-        stub = sinon.stub((storage as any)._attachmentsCollection, 'deleteOne').returns(new FakeQueue());
+        stub = sinon.stub((storage as any)._attachmentsCollection, 'deleteMany').returns(Promise.resolve());
         stubs.push(stub);
       });
 
-      it('should remove by id', () => {
-        storage.removeAttachment(id, name);
+      it('should remove by id', async () => {
+        await (storage as any).deleteAttachments({[idKey]: id, name});
         expect(stub.calledWith({[idKey]: id, name})).to.equal(true);
       });
+
+      it('should remove previous versions with "attachmentHistory"', async () => {
+        (storage as any)._attachmentHistory = true;
+        (storage as any)._attachmentsHistoryCollection = new FakeCollection();
+        const historyStub = sinon.stub((storage as any)._attachmentsHistoryCollection, 'deleteMany');
+        stubs.push(historyStub);
+        await (storage as any).deleteAttachments({[idKey]: id, name});
+        expect(historyStub.calledWith({[idKey]: id, name})).to.equal(true);
+      });
+
+      it('should remove GridFS files', async () => {
+        (storage as any)._attachmentsBucket = new FakeBucket();
+        const deleteStub = sinon.stub((storage as any)._attachmentsBucket, 'delete').returns(Promise.resolve());
+        stubs.push(sinon.stub((storage as any)._attachmentsCollection, 'find').returns({
+          toArray: () => Promise.resolve([{[fileKey]: 'fileId'}])
+        }));
+        await (storage as any).deleteAttachments({[idKey]: id, name});
+        expect(deleteStub.calledWith('fileId')).to.equal(true);
+      });
     });
 
-    describe('.allAttachments', () => {
+    describe('.purgeOrphanAttachments', () => {
       let storage: MongoDBStorage;
-      const id = 'id';
-      const attachments = [{
-        name: 'attachment 1'
-      }];
+      let aggregateStub: sinon.SinonStub;
+      let deleteStub: sinon.SinonStub;
 
       beforeEach(() => {
         storage = new MongoDBStorage(options);
         stubs.push(sinon.stub((storage as any), 'db').returns(new FakeQueue()));
 
+        (storage as any)._documentsCollection = {collectionName: 'documents'};
         (storage as any)._attachmentsCollection = new FakeCollection();
+        (storage as any)._attachmentsHistoryCollection = new FakeCollection();
+        aggregateStub = sinon.stub((storage as any)._attachmentsCollection, 'aggregate').returns({
+          toArray: () => Promise.resolve([{_id: 'id1', count: 2}, {_id: 'id2', count: 1}])
+        });
+        stubs.push(aggregateStub);
+        deleteStub = sinon.stub((storage as any), 'deleteAttachments').returns(Promise.resolve());
+        stubs.push(deleteStub);
+      });
+
+      it('should remove attachments without document', async () => {
+        const purged = await (storage as any).deleteOrphanAttachments();
+        expect(purged).to.equal(3);
+        expect(aggregateStub.calledWith(orphanAttachmentsPipeline('documents'))).to.equal(true);
+        expect(deleteStub.calledWith({[idKey]: {$in: ['id1', 'id2']}})).to.equal(true);
+      });
+
+      it('should remove previous versions with "attachmentHistory"', async () => {
+        (storage as any)._attachmentHistory = true;
+        stubs.push(sinon.stub((storage as any)._attachmentsHistoryCollection, 'aggregate').returns({
+          toArray: () => Promise.resolve([{_id: 'id3', count: 4}])
+        }));
+        const purged = await (storage as any).deleteOrphanAttachments();
+        expect(purged).to.equal(7);
+        expect(deleteStub.calledWith({[idKey]: {$in: ['id1', 'id2', 'id3']}})).to.equal(true);
+      });
+
+      it('should not remove anything without orphans', async () => {
+        aggregateStub.returns({toArray: () => Promise.resolve([])});
+        const purged = await (storage as any).deleteOrphanAttachments();
+        expect(purged).to.equal(0);
+        expect(deleteStub.called).to.equal(false);
+      });
+    });
+
+    describe('.allTombstones', () => {
+      let storage: MongoDBStorage;
+      let findStub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new MongoDBStorage(options);
+        stubs.push(sinon.stub((storage as any), 'db').returns(new FakeQueue()));
+
+        (storage as any)._documentsCollection = new FakeCollection();
+        findStub = sinon.stub((storage as any)._documentsCollection, 'find').returns({
+          toArray: () => Promise.resolve([{[idKey]: 'id', [deletedAtKey]: new Date('2019-01-01T00:00:00.000Z')}])
+        });
+        stubs.push(findStub);
+      });
+
+      it('should list the removed documents', async () => {
+        const tombstones = await storage.allTombstones();
+        expect(findStub.calledWith({[deletedAtKey]: {$gt: new Date(0)}}, {
+          projection: {[idKey]: 1, [deletedAtKey]: 1},
+          sort: {[deletedAtKey]: 1}
+        })).to.equal(true);
+        expect(tombstones).to.deep.equal([{id: 'id', deletedAt: '2019-01-01T00:00:00.000Z'}]);
+      });
+
+      it('should only list the documents removed since a date', async () => {
+        await storage.allTombstones('2019-01-01T00:00:00.000Z');
+        expect(findStub.calledWith({[deletedAtKey]: {$gt: new Date('2019-01-01T00:00:00.000Z')}})).to.equal(true);
+      });
+    });
+
+    describe('.purgeTombstones', () => {
+      let storage: MongoDBStorage;
+      let deleteStub: sinon.SinonStub;
 
-        stubs.push(sinon.stub((storage as any)._attachmentsCollection, 'find').returns(attachments));
+      beforeEach(() => {
+        storage = new MongoDBStorage(options);
+        stubs.push(sinon.stub((storage as any), 'db').returns(new FakeQueue()));
+
+        (storage as any)._documentsCollection = new FakeCollection();
+        deleteStub = sinon.stub((storage as any)._documentsCollection, 'deleteMany').returns(Promise.resolve({deletedCount: 3}));
+        stubs.push(deleteStub);
+      });
+
+      it('should remove the tombstones older than the retention', async () => {
+        const purged = await storage.purgeTombstones();
+        expect(purged).to.equal(3);
+        const cutoff = new Date(now.getTime() - defaultTombstoneRetention * 24 * 60 * 60 * 1000);
+        expect(deleteStub.calledWith({[deletedAtKey]: {$lt: cutoff}})).to.equal(true);
+      });
+
+      it('should override the retention', async () => {
+        await storage.purgeTombstones(0);
+        expect(deleteStub.calledWith({[deletedAtKey]: {$lt: now}})).to.equal(true);
+      });
+    });
+
+    describe('.allAttachments', () => {
+      let storage: MongoDBStorage;
+      const id = 'id';
+      const attachments = [{
+        name: 'attachment 1',
+        revision: 2,
+        [contentTypeKey]: 'text/plain',
+        [lengthKey]: 4,
+        [digestKey]: 'sha256-digest'
+      }];
+      let stub: sinon.SinonStub;
+
+      beforeEach(async () => {
+        storage = new MongoDBStorage(options);
+        await (storage as any)._dbPromise;
+
+        stub = sinon.stub((storage as any)._attachmentsCollection, 'find').returns({
+          toArray: () => Promise.resolve(attachments)
+        });
+        stubs.push(stub);
       });
 
-      it('should return a list of attachments', () => {
-        const results = storage.allAttachments(id);
-        expect((results as any).result).to.deep.equal({
-          [attachments[0].name]: {}
+      it('should return a list of attachments', async () => {
+        const results = await storage.allAttachments(id);
+        expect(results).to.deep.equal({
+          [attachments[0].name]: {revision: 2, content_type: 'text/plain', length: 4, digest: 'sha256-digest'}
         });
       });
+
+      it('should not read the content', async () => {
+        await storage.allAttachments(id);
+        expect(stub.calledWith({[idKey]: id}, {projection: {[valueKey]: 0, [dataKey]: 0}})).to.equal(true);
+      });
     });
 
     describe('.hasCapacity', () => {
@@ -481,6 +1617,78 @@ describe(storageName, () => {
       });
     });
 
+    describe('.migrateAttachments', () => {
+      let storage: MongoDBStorage;
+      let stub: sinon.SinonStub;
+
+      beforeEach(async () => {
+        storage = new MongoDBStorage(options);
+        await (storage as any)._dbPromise;
+        stub = sinon.stub(specs, 'migrateAttachmentsCollection').returns(Promise.resolve(2));
+        stubs.push(stub);
+      });
+
+      it('should migrate attachments', async () => {
+        const migrated = await storage.migrateAttachments();
+        expect(migrated).to.equal(2);
+        expect(stub.calledWith((storage as any)._attachmentsCollection, 100)).to.equal(true);
+      });
+
+      it('should migrate previous versions with "attachmentHistory"', async () => {
+        (storage as any)._attachmentHistory = true;
+        const migrated = await storage.migrateAttachments(10);
+        expect(migrated).to.equal(4);
+        expect(stub.calledWith((storage as any)._attachmentsHistoryCollection, 10)).to.equal(true);
+      });
+    });
+
+    describe('.close', () => {
+      let storage: MongoDBStorage;
+      let closeStub: sinon.SinonStub;
+
+      beforeEach(async () => {
+        storage = new MongoDBStorage(options);
+        await (storage as any)._dbPromise;
+        closeStub = sinon.stub((storage as any)._client, 'close').returns(Promise.resolve());
+        stubs.push(closeStub);
+      });
+
+      it('should close the client', async () => {
+        await storage.close();
+        expect(closeStub.calledOnce).to.equal(true);
+      });
+
+      it('should wait for running queries', async () => {
+        let resolveQuery;
+        (storage as any).track(new Promise(resolve => resolveQuery = resolve));
+        const closing = storage.close();
+        await Promise.resolve();
+        expect(closeStub.called).to.equal(false);
+        resolveQuery();
+        await closing;
+        expect(closeStub.calledOnce).to.equal(true);
+      });
+
+      it('should only close the client once', async () => {
+        await storage.close();
+        await storage.close();
+        expect(closeStub.calledOnce).to.equal(true);
+      });
+
+      it('should reject further calls', async () => {
+        await storage.close();
+        let error;
+        try {
+          await storage.get('id');
+        }
+        catch (err) {
+          error = err;
+        }
+        expect(error.message).to.equal('MongoDB storage is closed');
+        expect(error.status_code).to.equal(503);
+      });
+    });
+
     describe('.buildQuery', () => {
       let storage: MongoDBStorage;
       let params: IJioQueryOptions;
@@ -521,6 +1729,12 @@ describe(storageName, () => {
           storage.buildQuery(params);
           expect(findStub.calledWith({})).to.equal(true);
         });
+
+        it('should hide tombstones with "softDelete"', () => {
+          (storage as any)._softDelete = true;
+          storage.buildQuery(params);
+          expect(findStub.calledWith({[deletedAtKey]: null})).to.equal(true);
+        });
       });
 
       describe('with "limit"', () => {
@@ -590,4 +1804,8 @@ describe(storageName, () => {
   });
 });
 
+describeServerConformance(storageName, 'CONFORMANCE_MONGODB_URL', ({url, database}, {timestamps}) => {
+  return new MongoDBStorage({type: 'mongodb', url, database, timestamps});
+});
+
 addStorageStub.restore();
@@ -4,9 +4,12 @@ import {
   IJioQueryOptions, IJioSimpleQuery, IJioComplexQuery,
   queryPortalType, queryGroupingReference
 } from '@clearroad/api';
-import { jIO } from 'jio';
+import { jIO, Blob as JioBlob } from 'jio';
 
-import { MongoClient, Db, Collection, FindOneOptions, Cursor, MongoClientOptions } from 'mongodb';
+import { MongoClient, Db, Collection, FindOneOptions, MongoClientOptions, Binary, ObjectId, GridFSBucket, FilterQuery } from 'mongodb';
+
+import { IAttachmentRange, attachmentRange, attachmentDigest } from '../local';
+import { closeOnExit } from '../shutdown';
 
 /**
  * _id is used internally by MongoDB
@@ -17,6 +20,26 @@ export const idKey = '__id';
  * @internal
  */
 export const valueKey = 'doc';
+/**
+ * @internal
+ */
+export const dataKey = 'data';
+/**
+ * @internal
+ */
+export const contentTypeKey = 'content_type';
+/**
+ * @internal
+ */
+export const fileKey = 'file';
+/**
+ * @internal
+ */
+export const lengthKey = 'length';
+/**
+ * @internal
+ */
+export const digestKey = 'digest';
 /**
  * @internal
  */
@@ -25,52 +48,122 @@ export const createdAtKey = 'createdAt';
  * @internal
  */
 export const updatedAtKey = 'updatedAt';
+/**
+ * @internal
+ */
+export const deletedAtKey = 'deletedAt';
 
 const keyToDBField = (key: string) => key === 'modification_date' ? createdAtKey : `${valueKey}.${key}`;
-const valueToDBValue = (key: string, value: any) => key === 'modification_date' ? new Date(value) : value;
-
-/* tslint:disable:cyclomatic-complexity */
-const queryOperator = (operator: string) => {
-  switch (operator) {
-    case '!=':
-      return '$ne';
-    case '<':
-      return '$lt';
-    case '<=':
-      return '$lte';
-    case '>':
-      return '$gt';
-    case '>=':
-      return '$gte';
-    default:
-      return '$eq';
-  }
-};
-/* tslint:enable:cyclomatic-complexity */
+const rangeOperators = ['$lt', '$lte', '$gt', '$gte'];
+const numberRegExp = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Comparing a field with `<`, `<=`, `>` or `>=` to a number queries the number, MongoDB only comparing values of the same type
+ * @param key
+ * @param operator
+ * @param value
+ */
+const valueToDBValue = (key: string, operator: string, value: any) => {
+  if (key === 'modification_date') {
+    return new Date(value);
+  }
+  return rangeOperators.indexOf(operator) !== -1 && numberRegExp.test(`${value}`) ? Number(value) : value;
+};
+
+const simpleOperators = {
+  '=': '$eq',
+  '!=': '$ne',
+  '<': '$lt',
+  '<=': '$lte',
+  '>': '$gt',
+  '>=': '$gte'
+};
+/**
+ * `%` wildcards in jIO are case-insensitive `LIKE` matches
+ */
+const likeOperators = {
+  $eq: '$regex',
+  $ne: '$not'
+};
+const complexOperators = {
+  AND: '$and',
+  OR: '$or',
+  NOT: '$nor'
+};
+
+const queryOperator = (operator: string, operators: {[operator: string]: string}) => {
+  if (!operators.hasOwnProperty(operator)) {
+    throw new jIO.util.jIOError(
+      `Unsupported query operator: ${operator}`,
+      400
+    );
+  }
+  return operators[operator];
+};
+
+const isWildcard = (value: any) => typeof value === 'string' && value.indexOf('%') !== -1;
+
+/**
+ * @internal
+ * @param value
+ */
+export const wildcardToRegExp = (value: string) => {
+  const escaped = value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/%/g, '.*')}$`, 'i');
+};
+
+const booleanValues = ['true', 'false'];
+
+/**
+ * Values which can be numbers or booleans are queried as strings and with their JSON type,
+ * so they match like in the storages comparing fields as text
+ * @param key
+ * @param value
+ */
+// tslint:disable-next-line:cyclomatic-complexity
+const equalityValues = (key: string, value: any) => {
+  const text = `${value}`;
+  if (key === 'modification_date' || (!numberRegExp.test(text) && booleanValues.indexOf(text) === -1)) {
+    return null;
+  }
+  return [text, numberRegExp.test(text) ? Number(text) : text === 'true'];
+};
+
+const equalityOperators = {
+  $eq: '$in',
+  $ne: '$nin'
+};
+
+// tslint:disable-next-line:cyclomatic-complexity
+const queryCondition = (key: string, operator: string, value: any): any => {
+  if (isWildcard(value) && likeOperators[operator]) {
+    return {[likeOperators[operator]]: wildcardToRegExp(value)};
+  }
+  const values = equalityOperators[operator] ? equalityValues(key, value) : null;
+  if (values) {
+    return {[equalityOperators[operator]]: values};
+  }
+  return {[operator]: valueToDBValue(key, operator, value)};
+};
 
 const parseSimpleQuery = (query: IJioSimpleQuery, key = '') => {
+  const operator = queryOperator(query.operator || '=', simpleOperators);
+  const condition = queryCondition(key, operator, query.value);
+  if (operator === '$ne') {
+    // MongoDB matches missing fields with `$ne`, `$nin` and `$not`, which never match in the other storages
+    condition.$exists = true;
+  }
   return {
-    [keyToDBField(key)]: {
-      [queryOperator(query.operator || '=')]: valueToDBValue(key, query.value)
-    }
+    [keyToDBField(key)]: condition
   };
 };
 
 const parseComplexQuery = (query: IJioComplexQuery) => {
-  let operator = '';
-  switch (query.operator) {
-    case 'AND':
-      operator = '$and';
-      break;
-    case 'OR':
-      operator = '$or';
-      break;
-    case 'NOT': // TODO: not tested
-      operator = '$not';
-      break;
-  }
+  const operator = queryOperator(query.operator, complexOperators);
+  // jIO only negates the first query of the list
+  const queryList = query.operator === 'NOT' ? query.query_list.slice(0, 1) : query.query_list;
   return {
-    [operator]: query.query_list.map(subquery => parseQuery(subquery, query.key))
+    [operator]: queryList.map(subquery => parseQuery(subquery, query.key))
   };
 };
 
@@ -90,6 +183,34 @@ export const parseQuery = (parsed: IJioSimpleQuery|IJioComplexQuery, key?: strin
 
 const defaultDocumentCollection = 'Documents';
 const defaultAttachmentsCollection = 'Attachments';
+/**
+ * @internal
+ */
+export const defaultAttachmentsHistoryCollection = 'AttachmentsHistory';
+/**
+ * @internal
+ */
+export const defaultDocumentsHistoryCollection = 'DocumentsHistory';
+const defaultAttachmentsBucket = 'AttachmentsFiles';
+/**
+ * Stay below the 16 MB document limit of MongoDB, including the other fields
+ * @internal
+ */
+export const defaultGridFSThreshold = 15 * 1024 * 1024;
+/**
+ * @internal
+ */
+export const defaultTombstoneRetention = 30;
+const dayInMilliseconds = 24 * 60 * 60 * 1000;
+/**
+ * @internal
+ */
+export const defaultChangesLimit = 100;
+/**
+ * The sequence of changes is incremented in a document of the changes collection
+ * @internal
+ */
+export const changesCounterId = 'counter';
 
 export interface IMongoDBStorageOptions {
   type: 'mongodb';
@@ -113,11 +234,192 @@ export interface IMongoDBStorageOptions {
    * Collection name for attachments.
    */
   attachmentsCollectionName?: string;
+  /**
+   * Keep previous versions of attachments when they are replaced.
+   * Disabled by default
+   */
+  attachmentHistory?: boolean;
+  /**
+   * Collection name for previous versions of attachments.
+   */
+  attachmentsHistoryCollectionName?: string;
+  /**
+   * Keep previous versions of documents when they are replaced or removed, listed by `allRevisions`.
+   * Disabled by default
+   */
+  history?: boolean;
+  /**
+   * Collection name for previous versions of documents.
+   */
+  documentsHistoryCollectionName?: string;
+  /**
+   * Store large attachments in GridFS instead of the attachments collection.
+   * Disabled by default
+   */
+  gridFS?: boolean;
+  /**
+   * Size in bytes above which attachments are stored in GridFS.
+   * Default is 15 MB
+   */
+  gridFSThreshold?: number;
+  /**
+   * GridFS bucket name for large attachments.
+   */
+  attachmentsBucketName?: string;
   /**
    * Add created/updatedAt timestamps for every document.
    * Enabled by default for both
    */
   timestamps?: boolean;
+  /**
+   * Additional indexes on document fields.
+   * Use a field name for a single index, or a list of field names for a compound index.
+   */
+  indexes?: Array<string|string[]>;
+  /**
+   * Keep removed documents as tombstones, hidden from `get` and `buildQuery` and listed by `allTombstones`.
+   * Disabled by default
+   */
+  softDelete?: boolean;
+  /**
+   * Number of days tombstones are kept before `purgeTombstones` removes them.
+   * 30 by default
+   */
+  tombstoneRetention?: number;
+  /**
+   * Record inserts, updates and deletes of documents, listed by `changes`.
+   * Disabled by default
+   */
+  changeFeed?: boolean;
+  /**
+   * Close the storage when the process receives SIGINT or SIGTERM.
+   * Disabled by default
+   */
+  closeOnExit?: boolean;
+  /**
+   * Remove documents and attachments saved several times by previous versions, keeping the latest one,
+   * when the unique indexes are created. Otherwise the storage fails to start until they are removed.
+   * Disabled by default
+   */
+  removeDuplicates?: boolean;
+}
+
+export interface IMongoDBAttachmentOptions {
+  /**
+   * Revision of the attachment to get, the current version is returned by default.
+   * Previous revisions are only kept with the `attachmentHistory` option
+   */
+  revision?: number;
+  /**
+   * First byte to get, `0` by default
+   */
+  start?: number;
+  /**
+   * Byte after the last one to get, the end of the attachment by default
+   */
+  end?: number;
+}
+
+interface IMongoDBAttachment {
+  _id: ObjectId;
+  [idKey]: string;
+  name: string;
+  revision: number;
+  /**
+   * Data URI saved by previous versions, until it is migrated
+   */
+  [valueKey]?: string;
+  [dataKey]?: Binary;
+  /**
+   * GridFS file of an attachment too large for a document
+   */
+  [fileKey]?: ObjectId;
+  [contentTypeKey]?: string;
+  [lengthKey]?: number;
+  [digestKey]?: string;
+  [createdAtKey]?: Date;
+  [updatedAtKey]?: Date;
+}
+
+type MongoDBDocumentOperation = 'update'|'delete';
+
+/**
+ * Previous version of a document kept with the `history` option, returned by `allRevisions`
+ */
+export interface IMongoDBRevision {
+  revision: number;
+  /**
+   * Operation which replaced this version
+   */
+  operation: MongoDBDocumentOperation;
+  /**
+   * ISO date when this version was replaced
+   */
+  replacedAt: string;
+}
+
+/**
+ * Document removed with the `softDelete` option, returned by `allTombstones`
+ */
+export interface IMongoDBTombstone {
+  id: string;
+  /**
+   * ISO date of the removal
+   */
+  deletedAt: string;
+}
+
+type MongoDBChangeType = 'insert'|'update'|'delete';
+
+/**
+ * Change of a document recorded with the `changeFeed` option
+ */
+export interface IMongoDBChange {
+  /**
+   * Sequence number of the change, pass it to `changes` to resume after it
+   */
+  seq: number;
+  id: string;
+  type: MongoDBChangeType;
+  /**
+   * ISO date of the change
+   */
+  changedAt: string;
+}
+
+/**
+ * Changes returned by `changes`
+ */
+export interface IMongoDBChanges {
+  changes: IMongoDBChange[];
+  /**
+   * Sequence number of the last change, to pass to the next call
+   */
+  cursor: number;
+}
+
+/**
+ * Attachment metadata returned by `allAttachments`
+ */
+export interface IMongoDBAttachmentMetadata {
+  revision: number;
+  content_type: string;
+  /**
+   * Size in bytes
+   */
+  length: number|null;
+  /**
+   * Digest of the content, as `sha256-<hex>`
+   */
+  digest: string|null;
+  /**
+   * ISO date of the first version, only with the `timestamps` option
+   */
+  createdAt?: string;
+  /**
+   * ISO date of the current version, only with the `timestamps` option
+   */
+  updatedAt?: string;
 }
 
 /**
@@ -125,6 +427,224 @@ export interface IMongoDBStorageOptions {
  */
 export const now = () => new Date();
 
+/**
+ * @internal
+ */
+export interface IBinaryAttachment {
+  contentType: string;
+  data: Buffer;
+}
+
+const dataURIPattern = /^data:([^,]*?)(;base64)?,([\s\S]*)$/;
+
+/**
+ * Decode an attachment saved as a data URI by previous versions
+ * @internal
+ * @param uri
+ */
+export const dataURIToBinary = (uri: string): IBinaryAttachment => {
+  const match = dataURIPattern.exec(uri);
+  if (!match) {
+    return {contentType: '', data: Buffer.from(uri)};
+  }
+  return {
+    contentType: match[1],
+    data: match[2] ? Buffer.from(match[3], 'base64') : Buffer.from(decodeURIComponent(match[3]))
+  };
+};
+
+/**
+ * Attachments which have not been migrated yet are still data URIs
+ * @internal
+ * @param attachment
+ */
+export const attachmentToBlob = (attachment: IMongoDBAttachment, range?: IAttachmentRange): Blob => {
+  if (!attachment[dataKey]) {
+    const blob: Blob = jIO.util.dataURItoBlob(attachment[valueKey]);
+    return isPartial(range) ? blob.slice(range!.start, Math.min(range!.end, blob.size)) : blob;
+  }
+  return new JioBlob([sliceData(attachment[dataKey]!.buffer, range)], {type: attachment[contentTypeKey] || ''});
+};
+
+const isPartial = (range?: IAttachmentRange) => !!range && (range.start > 0 || range.end !== Infinity);
+
+const sliceData = (data: Buffer, range?: IAttachmentRange) => {
+  return isPartial(range) ? data.slice(range!.start, Math.min(range!.end, data.length)) : data;
+};
+
+// tombstones are not archived with `history`, their value was archived when they were removed
+const isLiveDocument = (document: any) => !!document && !document[deletedAtKey];
+
+// attachments saved by previous versions have no size and digest
+const orNull = <T>(value?: T) => value === undefined ? null : value;
+
+/**
+ * @internal
+ * @param attachment
+ */
+export const attachmentMetadata = (attachment: IMongoDBAttachment) => {
+  const metadata: IMongoDBAttachmentMetadata = {
+    revision: attachment.revision,
+    content_type: attachment[contentTypeKey] || '',
+    length: orNull(attachment[lengthKey]),
+    digest: orNull(attachment[digestKey])
+  };
+  if (attachment[createdAtKey]) {
+    metadata.createdAt = attachment[createdAtKey]!.toISOString();
+    metadata.updatedAt = (attachment[updatedAtKey] || attachment[createdAtKey]!).toISOString();
+  }
+  return metadata;
+};
+
+/**
+ * Save data as a GridFS file.
+ * Resolves with the id of the file.
+ * @internal
+ * @param bucket
+ * @param filename
+ * @param data
+ * @param metadata
+ */
+export const uploadFile = (bucket: GridFSBucket, filename: string, data: Buffer, metadata: any) => {
+  return new Promise<ObjectId>((resolve, reject) => {
+    const stream = bucket.openUploadStream(filename, {metadata});
+    stream.on('error', reject);
+    stream.on('finish', () => resolve(stream.id as ObjectId));
+    stream.end(data);
+  });
+};
+
+/**
+ * Read a GridFS file, or only a range of it.
+ * @internal
+ * @param bucket
+ * @param fileId
+ * @param range
+ */
+export const downloadFile = (bucket: GridFSBucket, fileId: ObjectId, range?: IAttachmentRange) => {
+  return new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const stream = bucket.openDownloadStream(fileId, range);
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    stream.on('error', reject);
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+};
+
+/**
+ * GridFS rejects ranges past the end of the file, so they are limited to its length.
+ * Files saved before their length was recorded are read entirely
+ * @internal
+ * @param range
+ * @param length
+ */
+export const fileRange = (range: IAttachmentRange, length?: number): IAttachmentRange|undefined => {
+  if (length === undefined || !isPartial(range)) {
+    return undefined;
+  }
+  return {start: Math.min(range.start, length), end: Math.min(range.end, length)};
+};
+
+/**
+ * Fields to remove from an attachment, so it is only saved in one place
+ * @param content
+ */
+const attachmentUnset = (content: any) => {
+  return [valueKey, dataKey, fileKey]
+    .filter(key => !(key in content))
+    .reduce((prev, key) => ({...prev, [key]: ''}), {});
+};
+
+/**
+ * Document ids of attachments without document, with their number of attachments.
+ * Attachments are grouped by document first so each document is only looked up once.
+ * @internal
+ * @param documentsCollection Name of the documents collection
+ */
+export const orphanAttachmentsPipeline = (documentsCollection: string) => [
+  {$group: {_id: `$${idKey}`, count: {$sum: 1}}},
+  {$lookup: {from: documentsCollection, localField: '_id', foreignField: idKey, as: 'documents'}},
+  {$match: {documents: {$size: 0}}},
+  {$project: {count: 1}}
+];
+
+/**
+ * Convert attachments saved as data URIs by previous versions to binary data, one batch at a time.
+ * Resolves with the number of converted attachments.
+ * @internal
+ * @param collection
+ * @param batchSize
+ */
+export const migrateAttachmentsCollection = async (collection: Collection, batchSize: number) => {
+  let migrated = 0;
+  let documents: IMongoDBAttachment[] = [];
+  do {
+    documents = await collection.find({[valueKey]: {$exists: true}}, {
+      projection: {[valueKey]: 1},
+      limit: batchSize
+    }).toArray();
+    for (const document of documents) {
+      const {contentType, data} = dataURIToBinary(document[valueKey]!);
+      // the attachment may have been replaced in the meantime
+      await collection.updateOne({_id: document._id, [valueKey]: {$exists: true}}, {
+        $set: {[dataKey]: data, [contentTypeKey]: contentType, [lengthKey]: data.length, [digestKey]: attachmentDigest(data)},
+        $unset: {[valueKey]: ''}
+      });
+    }
+    migrated += documents.length;
+  } while (documents.length === batchSize);
+  return migrated;
+};
+
+/**
+ * @internal
+ * @param index
+ */
+export const indexFields = (index: string|string[]) => {
+  const keys = typeof index === 'string' ? [index] : index;
+  return keys.reduce((prev, key) => {
+    prev[keyToDBField(key)] = 1;
+    return prev;
+  }, {});
+};
+
+/**
+ * Make keys unique so they can be upserted, documents on their id and attachments on their id and name.
+ * Collections created by previous versions may contain several documents with the same keys:
+ * only the latest one is kept with `removeDuplicates`, and the former non-unique index is replaced.
+ * @internal
+ * @param collection
+ * @param keys
+ * @param removeDuplicates
+ */
+// tslint:disable-next-line:cyclomatic-complexity
+export const uniqueIndex = async (collection: Collection, keys = [idKey], removeDuplicates = false) => {
+  const name = `${keys.join('_')}_unique`;
+  if (await collection.indexExists(name)) {
+    return name;
+  }
+  const group = keys.reduce((prev, key) => ({...prev, [key]: `$${key}`}), {});
+  const duplicates = await collection.aggregate([
+    {$sort: {_id: 1}},
+    {$group: {_id: group, ids: {$push: '$_id'}, count: {$sum: 1}}},
+    {$match: {count: {$gt: 1}}}
+  ]).toArray();
+  if (duplicates.length && !removeDuplicates) {
+    throw new jIO.util.jIOError(
+      `Collection "${collection.collectionName}" has ${duplicates.length} duplicate ${keys.join(' and ')} values, ` +
+      'enable "removeDuplicates" to keep only the latest document of each',
+      409
+    );
+  }
+  const ids = duplicates.reduce((prev, duplicate) => prev.concat(duplicate.ids.slice(0, -1)), []);
+  if (ids.length) {
+    await collection.deleteMany({_id: {$in: ids}});
+  }
+  await collection.dropIndex(keys.map(key => `${key}_1`).join('_')).catch(() => {});
+  const fields = keys.reduce((prev, key) => ({...prev, [key]: 1}), {});
+  return collection.createIndex(fields, {unique: true, name});
+};
+
 const requireOptionUrl = (options: IMongoDBStorageOptions) => {
   if (typeof options.url !== 'string' || !options.url) {
     throw new Error('"url" must be a non-empty string');
@@ -137,6 +657,15 @@ const requireOptionDatabase = (options: IMongoDBStorageOptions) => {
   }
 };
 
+const requireOptionHistoryCollectionNames = (options: IMongoDBStorageOptions) => {
+  if (!options.attachmentsHistoryCollectionName) {
+    options.attachmentsHistoryCollectionName = defaultAttachmentsHistoryCollection;
+  }
+  if (!options.documentsHistoryCollectionName) {
+    options.documentsHistoryCollectionName = defaultDocumentsHistoryCollection;
+  }
+};
+
 const requireOptionCollectionNames = (options: IMongoDBStorageOptions) => {
   if (!options.documentsCollectionName) {
     options.documentsCollectionName = defaultDocumentCollection;
@@ -144,6 +673,7 @@ const requireOptionCollectionNames = (options: IMongoDBStorageOptions) => {
   if (!options.attachmentsCollectionName) {
     options.attachmentsCollectionName = defaultAttachmentsCollection;
   }
+  requireOptionHistoryCollectionNames(options);
 };
 
 const queryParseQuery = (options: IJioQueryOptions) => {
@@ -203,15 +733,30 @@ const queryParseDocument = (document: any, includeDoc: boolean, selectList: stri
  */
 export class MongoDBStorage implements IJioStorage {
   private _dbPromise: IQueue<Db>;
+  private _client: MongoClient;
   private _db: Db;
   private _documentsCollection: Collection;
   private _attachmentsCollection: Collection;
+  private _attachmentsHistoryCollection: Collection;
+  private _documentsHistoryCollection: Collection;
+  private _changesCollection: Collection;
+  private _attachmentsBucket: GridFSBucket;
+  private _attachmentHistory = false;
+  private _history = false;
+  private _gridFS = false;
+  private _gridFSThreshold = defaultGridFSThreshold;
   private _timestamps = true;
+  private _softDelete = false;
+  private _tombstoneRetention = defaultTombstoneRetention;
+  private _changeFeed = false;
+  private _pending: Array<Promise<void>> = [];
+  private _closing: IQueue<void>;
 
   /**
    * Initiate a MongoDB Storage.
    * @param options Storage options
    */
+  // tslint:disable-next-line:cyclomatic-complexity
   constructor(options: IMongoDBStorageOptions) {
     requireOptionUrl(options);
     requireOptionDatabase(options);
@@ -219,7 +764,31 @@ export class MongoDBStorage implements IJioStorage {
     if (options.timestamps === false) {
       this._timestamps = false;
     }
+    if (options.attachmentHistory === true) {
+      this._attachmentHistory = true;
+    }
+    if (options.history === true) {
+      this._history = true;
+    }
+    if (options.gridFS === true) {
+      this._gridFS = true;
+    }
+    if (typeof options.gridFSThreshold === 'number') {
+      this._gridFSThreshold = options.gridFSThreshold;
+    }
+    if (options.softDelete === true) {
+      this._softDelete = true;
+    }
+    if (options.tombstoneRetention !== undefined) {
+      this._tombstoneRetention = options.tombstoneRetention;
+    }
+    if (options.changeFeed === true) {
+      this._changeFeed = true;
+    }
     this._dbPromise = this.initDb(options);
+    if (options.closeOnExit) {
+      closeOnExit(this);
+    }
   }
 
   /**
@@ -231,33 +800,80 @@ export class MongoDBStorage implements IJioStorage {
         return promiseToQueue(MongoClient.connect(options.url, options.clientOptions));
       })
       .push(client => {
+        this._client = client;
         this._db = client.db(options.database);
         this._documentsCollection = this._db.collection(options.documentsCollectionName!);
         this._attachmentsCollection = this._db.collection(options.attachmentsCollectionName!);
-        return Promise.all([
-          this._documentsCollection.createIndex({
-            [idKey]: 1
-          }),
+        this._attachmentsHistoryCollection = this._db.collection(options.attachmentsHistoryCollectionName!);
+        this._documentsHistoryCollection = this._db.collection(options.documentsHistoryCollectionName!);
+        this._changesCollection = this._db.collection(`${options.documentsCollectionName}Changes`);
+        // attachments saved in GridFS are still read when the option is disabled
+        this._attachmentsBucket = new GridFSBucket(this._db, {
+          bucketName: options.attachmentsBucketName || defaultAttachmentsBucket
+        });
+        return Promise.all<any>([
+          uniqueIndex(this._documentsCollection, [idKey], options.removeDuplicates),
           // indexes the most common fields when doing a query
           this._documentsCollection.createIndex({
             [`${valueKey}.${queryPortalType}`]: 1,
             [`${valueKey}.${queryGroupingReference}`]: 1
           }),
           // no need to create index for [idKey] only since MongoDB handles it as well from compound index
-          this._attachmentsCollection.createIndex({
-            [idKey]: 1,
-            name: 1
-          })
+          uniqueIndex(this._attachmentsCollection, [idKey, 'name'], options.removeDuplicates),
+          // attachments saved by previous versions are the first revision
+          this._attachmentsCollection.updateMany({revision: {$exists: false}}, {$set: {revision: 1}}),
+          ...(this._attachmentHistory ? [
+            this._attachmentsHistoryCollection.createIndex({
+              [idKey]: 1,
+              name: 1,
+              revision: 1
+            }, {unique: true})
+          ] : []),
+          ...this.documentsHistoryIndexes(),
+          ...this.tombstoneIndexes(),
+          ...this.changesIndexes(),
+          // additional indexes from options
+          ...(options.indexes || []).map(index => this._documentsCollection.createIndex(indexFields(index)))
         ]);
       })
       .push(() => this._db);
   }
 
+  /**
+   * Previous versions of documents are numbered by document with `history`
+   * @internal
+   */
+  private documentsHistoryIndexes() {
+    return this._history ? [this._documentsHistoryCollection.createIndex({[idKey]: 1, revision: 1}, {unique: true})] : [];
+  }
+
+  /**
+   * Index the removal date of tombstones with `softDelete`
+   * @internal
+   */
+  private tombstoneIndexes() {
+    return this._softDelete ? [this._documentsCollection.createIndex({[deletedAtKey]: 1})] : [];
+  }
+
+  /**
+   * Changes are read by sequence number with `changeFeed`, the counter document has none
+   * @internal
+   */
+  private changesIndexes() {
+    return this._changeFeed ? [this._changesCollection.createIndex({seq: 1}, {unique: true, sparse: true})] : [];
+  }
+
   /**
    * @internal
    */
   private db() {
     return getQueue().push(() => {
+      if (this._closing) {
+        throw new jIO.util.jIOError(
+          'MongoDB storage is closed',
+          503
+        );
+      }
       if (!this._db) {
         return this._dbPromise;
       }
@@ -265,12 +881,25 @@ export class MongoDBStorage implements IJioStorage {
     });
   }
 
+  /**
+   * Keep track of a running query until it settles, so `close` can wait for it.
+   * @internal
+   * @param promise
+   */
+  private track<T>(promise: Promise<T>) {
+    const pending = Promise.resolve(promise).then(() => {}, () => {});
+    this._pending.push(pending);
+    pending.then(() => this._pending.splice(this._pending.indexOf(pending), 1));
+    return promise;
+  }
+
   get(id: string) {
     return this.db()
       .push(() => {
-        return promiseToQueue(this._documentsCollection.findOne({
-          [idKey]: id
-        }));
+        return promiseToQueue(this.track(this._documentsCollection.findOne({
+          [idKey]: id,
+          ...this.liveFilter()
+        })));
       })
       .push(document => {
         return document ? document[valueKey] : null;
@@ -280,54 +909,143 @@ export class MongoDBStorage implements IJioStorage {
   put(id: string, data: any) {
     return this.db()
       .push(() => {
-        return this.get(id);
-      })
-      .push((document: any): IQueue<any> => {
-        const update = {[valueKey]: data};
-
-        if (!document) {
-          if (this._timestamps) {
-            update[createdAtKey] = now();
-          }
-          return promiseToQueue(this._documentsCollection.insertOne({
-            [idKey]: id,
-            ...update
-          }));
-        }
-
+        const update: any = {
+          $set: {[valueKey]: data}
+        };
         if (this._timestamps) {
-          update[updatedAtKey] = now();
+          update.$set[updatedAtKey] = now();
+          update.$setOnInsert = {[createdAtKey]: now()};
         }
-        return promiseToQueue(this._documentsCollection.updateOne({
-          [idKey]: id
-        }, {
-          $set: update
-        }));
+        if (this._softDelete) {
+          // saving a removed document brings it back
+          update.$unset = {[deletedAtKey]: ''};
+        }
+        return promiseToQueue(this.track(this.saveDocument(id, update)));
       })
       .push(() => id);
   }
 
+  /**
+   * Upsert a document, then archive its previous version with `history` and record the change with `changeFeed`
+   * @internal
+   */
+  private async saveDocument(id: string, update: any) {
+    // the previous version is returned by the same atomic operation
+    const result = await this._documentsCollection.findOneAndUpdate({
+      [idKey]: id
+    }, update, {
+      upsert: true,
+      returnOriginal: true,
+      ...(this._history ? {} : {projection: {[idKey]: 1}})
+    });
+    await this.archiveDocument(result.value, 'update');
+    if (this._changeFeed) {
+      await this.recordChange(id, result.value ? 'update' : 'insert');
+    }
+  }
+
+  /**
+   * Remove a document, then its attachments with their previous versions and GridFS files.
+   * With `softDelete`, the document is kept as a tombstone
+   * @param id
+   */
   remove(id: string) {
     return this.db()
       .push(() => {
-        return promiseToQueue(this._documentsCollection.deleteOne({
-          [idKey]: id
-        }));
+        return promiseToQueue(this.track(this.deleteDocument(id).then(() => this.deleteAttachments({[idKey]: id}))));
       })
       .push(() => id);
   }
 
-  getAttachment(id: string, name: string) {
+  /**
+   * Remove a document, or keep it as a tombstone with `softDelete`,
+   * then archive its removed version with `history` and record its removal with `changeFeed`
+   * @internal
+   */
+  private async deleteDocument(id: string) {
+    const removed = await this.removeDocument(id);
+    // removing a document which does not exist is not a change
+    if (removed) {
+      await this.archiveDocument(removed, 'delete');
+      if (this._changeFeed) {
+        await this.recordChange(id, 'delete');
+      }
+    }
+  }
+
+  /**
+   * Remove a document, or keep it as a tombstone with `softDelete`.
+   * Resolves with the removed version, or `null` if the document does not exist
+   * @internal
+   */
+  private async removeDocument(id: string) {
+    // the removed version is returned by the same atomic operation
+    const options = this._history ? {} : {projection: {[idKey]: 1}};
+    const result = this._softDelete ?
+      await this._documentsCollection.findOneAndUpdate({[idKey]: id, [deletedAtKey]: null}, {$set: {[deletedAtKey]: now()}}, options) :
+      await this._documentsCollection.findOneAndDelete({[idKey]: id}, options);
+    return result.value;
+  }
+
+  /**
+   * Copy a replaced or removed version of a document to the history collection with `history`, numbered after its previous versions
+   * @internal
+   */
+  private async archiveDocument(previous: any, operation: MongoDBDocumentOperation) {
+    if (!this._history || !isLiveDocument(previous)) {
+      return;
+    }
+    const last = await this._documentsHistoryCollection.findOne({
+      [idKey]: previous[idKey]
+    }, {
+      sort: {revision: -1},
+      projection: {revision: 1}
+    });
+    await this._documentsHistoryCollection.insertOne({
+      [idKey]: previous[idKey],
+      revision: last ? last.revision + 1 : 1,
+      [valueKey]: previous[valueKey],
+      operation,
+      replacedAt: now()
+    });
+  }
+
+  /**
+   * Record a change of a document with the next sequence number
+   * @internal
+   */
+  private async recordChange(id: string, type: MongoDBChangeType) {
+    const counter = await this._changesCollection.findOneAndUpdate({
+      _id: changesCounterId
+    }, {
+      $inc: {lastSeq: 1}
+    }, {
+      upsert: true,
+      returnOriginal: false
+    });
+    await this._changesCollection.insertOne({seq: counter.value.lastSeq, [idKey]: id, type, changedAt: now()});
+  }
+
+  /**
+   * Filter hiding the tombstones of removed documents with `softDelete`
+   * @internal
+   */
+  private liveFilter(): FilterQuery<any> {
+    return this._softDelete ? {[deletedAtKey]: null} : {};
+  }
+
+  getAttachment(id: string, name: string, options: IMongoDBAttachmentOptions = {}) {
+    const range = attachmentRange(options);
     return this.db()
       .push(() => {
-        return promiseToQueue(this._attachmentsCollection.findOne({
-          [idKey]: id,
-          name
-        }));
+        return promiseToQueue(this.track(this.findAttachment(id, name, options.revision)));
       })
       .push(document => {
+        if (document && document[fileKey]) {
+          return this.readFile(document, range);
+        }
         if (document) {
-          return jIO.util.dataURItoBlob(document[valueKey]);
+          return attachmentToBlob(document, range);
         }
         throw new jIO.util.jIOError(
           `Cannot find attachment: ${id}`,
@@ -336,46 +1054,174 @@ export class MongoDBStorage implements IJioStorage {
       });
   }
 
+  /**
+   * Read an attachment saved in GridFS, only downloading the chunks of the range when possible
+   * @internal
+   */
+  private readFile(document: IMongoDBAttachment, range: IAttachmentRange) {
+    const download = fileRange(range, document[lengthKey]);
+    return promiseToQueue(this.track(downloadFile(this._attachmentsBucket, document[fileKey]!, download)))
+      .push(data => attachmentToBlob({...document, [dataKey]: {buffer: data} as Binary}, download ? undefined : range));
+  }
+
+  /**
+   * Find the current version of an attachment, or a given revision
+   * @internal
+   */
+  private async findAttachment(id: string, name: string, revision?: number) {
+    if (revision === undefined) {
+      return this._attachmentsCollection.findOne({[idKey]: id, name});
+    }
+    const filter = {[idKey]: id, name, revision};
+    const document = await this._attachmentsCollection.findOne(filter);
+    if (document || !this._attachmentHistory) {
+      return document;
+    }
+    return this._attachmentsHistoryCollection.findOne(filter);
+  }
+
+  /**
+   * Replace an attachment, then archive its previous version
+   * @internal
+   */
+  private async replaceAttachment(id: string, name: string, update: any) {
+    // the previous version is returned by the same atomic operation
+    const result = await this._attachmentsCollection.findOneAndUpdate({
+      [idKey]: id,
+      name
+    }, update, {
+      upsert: true,
+      returnOriginal: true,
+      ...(this._attachmentHistory ? {} : {projection: {[fileKey]: 1}})
+    });
+    if (result.value) {
+      await this.archiveAttachment(result.value);
+    }
+  }
+
+  /**
+   * Copy the previous version of an attachment to the history collection,
+   * or remove its GridFS file when previous versions are not kept
+   * @internal
+   */
+  private async archiveAttachment({_id, ...previous}: IMongoDBAttachment) {
+    if (this._attachmentHistory) {
+      await this._attachmentsHistoryCollection.insertOne(previous);
+    }
+    else if (previous[fileKey]) {
+      await this._attachmentsBucket.delete(previous[fileKey]!);
+    }
+  }
+
+  /**
+   * Save the content of an attachment with its size and digest, in GridFS if it is too large for a document
+   * @internal
+   */
+  private attachmentContent(id: string, name: string, data: Buffer) {
+    const metadata = {[lengthKey]: data.length, [digestKey]: attachmentDigest(data)};
+    if (this._gridFS && data.length > this._gridFSThreshold) {
+      return promiseToQueue(this.track(uploadFile(this._attachmentsBucket, name, data, {[idKey]: id, name})))
+        .push(file => ({...metadata, [fileKey]: file}));
+    }
+    return {...metadata, [dataKey]: data};
+  }
+
   putAttachment(id: string, name: string, blob: Blob) {
     return this.db()
       .push(() => {
-        return jIO.util.readBlobAsDataURL(blob);
+        return jIO.util.readBlobAsArrayBuffer(blob);
       })
       .push(data => {
-        const update = {[valueKey]: data.target.result};
+        return this.attachmentContent(id, name, Buffer.from(data.target.result));
+      })
+      .push(content => {
+        // the data URI of an attachment saved by a previous version is cleared
+        const update: any = {
+          $set: {...content, [contentTypeKey]: blob.type},
+          $unset: attachmentUnset(content),
+          $inc: {revision: 1}
+        };
         if (this._timestamps) {
-          update[createdAtKey] = now();
+          update.$set[updatedAtKey] = now();
+          update.$setOnInsert = {[createdAtKey]: now()};
+        }
+        if (this._attachmentHistory || this._gridFS) {
+          return promiseToQueue(this.track(this.replaceAttachment(id, name, update)));
         }
-        return promiseToQueue(this._attachmentsCollection.insertOne({
+        return promiseToQueue(this.track(this._attachmentsCollection.updateOne({
           [idKey]: id,
-          name,
-          ...update
-        }));
+          name
+        }, update, {
+          upsert: true
+        })));
       });
   }
 
+  /**
+   * Remove attachments with their previous versions, then their GridFS files
+   * @internal
+   */
+  private async deleteAttachments(filter: FilterQuery<IMongoDBAttachment>) {
+    const collections = this.attachmentCollections();
+    // files are looked up before the documents referencing them are removed
+    const files: IMongoDBAttachment[][] = await Promise.all(collections.map(collection => {
+      return collection.find({...filter, [fileKey]: {$exists: true}}, {projection: {[fileKey]: 1}}).toArray();
+    }));
+    await Promise.all(collections.map(collection => collection.deleteMany(filter)));
+    await Promise.all(files
+      .reduce((prev, documents) => prev.concat(documents), [])
+      .map(document => this._attachmentsBucket.delete(document[fileKey]!)));
+  }
+
+  /**
+   * Remove the attachments of documents which do not exist, resolves with their number
+   * @internal
+   */
+  private async deleteOrphanAttachments() {
+    const pipeline = orphanAttachmentsPipeline(this._documentsCollection.collectionName);
+    const results: Array<Array<{_id: string, count: number}>> = await Promise.all(this.attachmentCollections().map(collection => {
+      return collection.aggregate(pipeline).toArray();
+    }));
+    const orphans = results.reduce((prev, groups) => prev.concat(groups), []);
+    if (orphans.length) {
+      await this.deleteAttachments({[idKey]: {$in: orphans.map(orphan => orphan._id)}});
+    }
+    return orphans.reduce((total, orphan) => total + orphan.count, 0);
+  }
+
+  /**
+   * Collections holding attachments, including their previous versions with `attachmentHistory`
+   * @internal
+   */
+  private attachmentCollections() {
+    return this._attachmentHistory ? [this._attachmentsCollection, this._attachmentsHistoryCollection] : [this._attachmentsCollection];
+  }
+
   removeAttachment(id: string, name: string) {
     return this.db()
       .push(() => {
-        return promiseToQueue(this._attachmentsCollection.deleteOne({
-          [idKey]: id,
-          name
-        }));
+        return promiseToQueue(this.track(this.deleteAttachments({[idKey]: id, name})));
       })
       .push(() => id);
   }
 
+  /**
+   * List the attachments of a document with their metadata, without reading their content
+   * @param id
+   */
   allAttachments(id: string) {
     return this.db()
       .push(() => {
-        return this._attachmentsCollection.find({
+        return promiseToQueue(this.track(this._attachmentsCollection.find({
           [idKey]: id
-        });
+        }, {
+          projection: {[valueKey]: 0, [dataKey]: 0}
+        }).toArray()));
       })
-      .push((documents: Cursor) => {
-        const attachments = {};
+      .push((documents: IMongoDBAttachment[]) => {
+        const attachments: {[name: string]: IMongoDBAttachmentMetadata} = {};
         documents.forEach(document => {
-          attachments[document.name] = {};
+          attachments[document.name] = attachmentMetadata(document);
         });
         return attachments;
       });
@@ -385,6 +1231,151 @@ export class MongoDBStorage implements IJioStorage {
     return true;
   }
 
+  /**
+   * Convert attachments saved as data URIs by previous versions to binary data.
+   * Resolves with the number of converted attachments.
+   * @param batchSize Number of attachments read at once
+   */
+  migrateAttachments(batchSize = 100) {
+    return this.db()
+      .push(() => {
+        // collections are only set once connected
+        return promiseToQueue(this.track(Promise.all(this.attachmentCollections().map(collection => {
+          return migrateAttachmentsCollection(collection, batchSize);
+        }))));
+      })
+      .push(counts => counts.reduce((total, count) => total + count, 0));
+  }
+
+  /**
+   * Remove the attachments of documents which do not exist anymore, with their previous versions and GridFS files.
+   * Resolves with the number of removed attachments, previous versions included.
+   */
+  purgeOrphanAttachments() {
+    return this.db()
+      .push(() => {
+        return promiseToQueue(this.track(this.deleteOrphanAttachments()));
+      });
+  }
+
+  /**
+   * List the documents removed with `softDelete`, oldest first
+   * @param since Only list documents removed after this date
+   */
+  allTombstones(since?: Date|string) {
+    return this.db()
+      .push(() => {
+        return promiseToQueue(this.track(this._documentsCollection.find({
+          [deletedAtKey]: {$gt: since ? new Date(since) : new Date(0)}
+        }, {
+          projection: {[idKey]: 1, [deletedAtKey]: 1},
+          sort: {[deletedAtKey]: 1}
+        }).toArray()));
+      })
+      .push(documents => documents.map((document): IMongoDBTombstone => ({
+        id: document[idKey],
+        deletedAt: document[deletedAtKey].toISOString()
+      })));
+  }
+
+  /**
+   * Remove the tombstones older than the `tombstoneRetention` option.
+   * Resolves with the number of removed tombstones.
+   * @param retention Number of days to keep tombstones, overrides the `tombstoneRetention` option
+   */
+  purgeTombstones(retention = this._tombstoneRetention) {
+    return this.db()
+      .push(() => {
+        return promiseToQueue(this.track(this._documentsCollection.deleteMany({
+          [deletedAtKey]: {$lt: new Date(now().getTime() - retention * dayInMilliseconds)}
+        })));
+      })
+      .push(result => result.deletedCount || 0);
+  }
+
+  /**
+   * List the previous versions of a document kept with `history`, oldest first
+   * @param id
+   */
+  allRevisions(id: string) {
+    return this.db()
+      .push(() => {
+        return promiseToQueue(this.track(this._documentsHistoryCollection.find({
+          [idKey]: id
+        }, {
+          projection: {revision: 1, operation: 1, replacedAt: 1},
+          sort: {revision: 1}
+        }).toArray()));
+      })
+      .push(documents => documents.map((document): IMongoDBRevision => ({
+        revision: document.revision,
+        operation: document.operation,
+        replacedAt: document.replacedAt.toISOString()
+      })));
+  }
+
+  /**
+   * Get a previous version of a document kept with `history`
+   * @param id
+   * @param revision Revision returned by `allRevisions`
+   */
+  getRevision(id: string, revision: number) {
+    return this.db()
+      .push(() => {
+        return promiseToQueue(this.track(this._documentsHistoryCollection.findOne({[idKey]: id, revision})));
+      })
+      .push(document => {
+        if (document) {
+          return document[valueKey];
+        }
+        throw new jIO.util.jIOError(
+          `Cannot find revision ${revision} of document: ${id}`,
+          404
+        );
+      });
+  }
+
+  /**
+   * List the changes of documents recorded with `changeFeed`, oldest first.
+   * Resolves with the changes and the cursor to pass to the next call
+   * @param since Cursor returned by a previous call, all recorded changes by default
+   * @param limit Maximum number of changes
+   */
+  changes(since = 0, limit = defaultChangesLimit) {
+    return this.db()
+      .push(() => {
+        return promiseToQueue(this.track(this._changesCollection.find({
+          seq: {$gt: since}
+        }, {
+          sort: {seq: 1},
+          limit
+        }).toArray()));
+      })
+      .push((documents): IMongoDBChanges => {
+        const changes = documents.map((document): IMongoDBChange => ({
+          seq: document.seq,
+          id: document[idKey],
+          type: document.type,
+          changedAt: document.changedAt.toISOString()
+        }));
+        return {changes, cursor: changes.length ? changes[changes.length - 1].seq : since};
+      });
+  }
+
+  /**
+   * Wait for running queries to finish, then close the client.
+   * Any further call to the storage fails.
+   */
+  close() {
+    if (!this._closing) {
+      this._closing = getQueue()
+        .push(() => this._db ? this._db : this._dbPromise)
+        .push(() => promiseToQueue(Promise.all(this._pending)))
+        .push(() => promiseToQueue(this._client.close()));
+    }
+    return this._closing;
+  }
+
   buildQuery(options: IJioQueryOptions = {query: ''}) {
     const parsedQuery = queryParseQuery(options);
     const findOptions: FindOneOptions = {};
@@ -395,7 +1386,7 @@ export class MongoDBStorage implements IJioStorage {
 
     return this.db()
       .push(() => {
-        return promiseToQueue(this._documentsCollection.find(parsedQuery, find).toArray());
+        return promiseToQueue(this.track(this._documentsCollection.find({...parsedQuery, ...this.liveFilter()}, find).toArray()));
       })
       .push(documents => {
         return documents.map(document => queryParseDocument(document, options.include_docs || false, selectList));
@@ -7,14 +7,22 @@ import * as jioImport from 'jio';
 const addStorageStub = sinon.stub(jioImport.jIO, 'addStorage');
 
 import * as mssql from 'mssql';
+import { Readable, Writable } from 'stream';
 
+import { describeServerConformance } from '../conformance';
 import * as specs from './index';
+import * as shutdown from '../shutdown';
 import storageName, {
   MSSQLStorage, IMSSQLStorageOptions,
-  defaultDocumentsCollection, defaultAttachmentsCollection,
-  safeTransaction,
-  resultAsJson, valueKey
+  parseQuery, NVarCharValue, toJioError, safeTransaction, safeQuery,
+  indexedFields, addIndexColumn, indexFields,
+  resultAsJson, dataRange, queryResult
 } from './index';
+import {
+  defaultDocumentsCollection, defaultAttachmentsCollection, defaultAttachmentsHistoryCollection, defaultDocumentsHistoryCollection,
+  valueKey, deletedAtKey, defaultTombstoneRetention, defaultChangesLimit
+} from '../sql';
+import { attachmentDigest } from '../local';
 
 let stubs: sinon.SinonStub[] = [];
 
@@ -69,6 +77,20 @@ const options: IMSSQLStorageOptions = {
   server: 'url'
 };
 
+const readStream = (stream: Readable) => new Promise<Buffer>((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  stream.on('data', chunk => chunks.push(chunk as Buffer));
+  stream.on('end', () => resolve(Buffer.concat(chunks)));
+  stream.on('error', reject);
+});
+
+const writeStream = (stream: Writable, chunks: Buffer[]) => new Promise((resolve, reject) => {
+  stream.on('finish', resolve);
+  stream.on('error', reject);
+  chunks.forEach(chunk => stream.write(chunk));
+  stream.end();
+});
+
 const requestStub = (storage: MSSQLStorage, request: FakeRequest) => {
   const poolQueue = new FakeQueue();
   const pool = new FakePool();
@@ -97,6 +119,118 @@ describe(storageName, () => {
     expect(addStorageStub.calledWith(storageName, MSSQLStorage)).to.equal(true);
   });
 
+  describe('parseQuery', () => {
+    it('should parse complex queries', () => {
+      const date = new Date();
+      const query = `portal_type:("Billing Period Message" OR "Road Account Message" OR "Road Event Message" OR "Road Message" OR "Road Report Request") AND grouping_reference:"data" AND modification_date: != "${date.toJSON()}"`;
+      const parsed = jioImport.jIO.QueryFactory.create(query);
+      expect(parseQuery(parsed)).to.deep.equal({
+        text: '(' +
+          '(' +
+            "JSON_VALUE(value, '$.portal_type') = @p1 " +
+            "OR JSON_VALUE(value, '$.portal_type') = @p2 " +
+            "OR JSON_VALUE(value, '$.portal_type') = @p3 " +
+            "OR JSON_VALUE(value, '$.portal_type') = @p4 " +
+            "OR JSON_VALUE(value, '$.portal_type') = @p5" +
+          ') ' +
+          "AND JSON_VALUE(value, '$.grouping_reference') = @p6 " +
+          'AND createdAt != @p7' +
+        ')',
+        values: [
+          'Billing Period Message',
+          'Road Account Message',
+          'Road Event Message',
+          'Road Message',
+          'Road Report Request',
+          'data',
+          date.toJSON()
+        ].map(value => new NVarCharValue(value))
+      });
+    });
+
+    it('should parse simple queries', () => {
+      const query = 'date1: >= 1 AND date2: > 2';
+      const parsed = jioImport.jIO.QueryFactory.create(query);
+      expect(parseQuery(parsed)).to.deep.equal({
+        text: "(TRY_CAST(JSON_VALUE(value, '$.date1') AS FLOAT) >= @p1 AND TRY_CAST(JSON_VALUE(value, '$.date2') AS FLOAT) > @p2)",
+        values: [new NVarCharValue('1'), new NVarCharValue('2')]
+      });
+    });
+
+    it('should only cast fields compared to numbers in ranges', () => {
+      const parsed = jioImport.jIO.QueryFactory.create('mileage: 10 AND title: < "b" AND modification_date: > 2');
+      expect(parseQuery(parsed).text).to.equal(
+        "(JSON_VALUE(value, '$.mileage') = @p1 AND JSON_VALUE(value, '$.title') < @p2 AND createdAt > @p3)"
+      );
+    });
+
+    it('should not interpolate values', () => {
+      const parsed = jioImport.jIO.QueryFactory.create(`title: "it's"`);
+      expect(parseQuery(parsed)).to.deep.equal({
+        text: "JSON_VALUE(value, '$.title') = @p1",
+        values: [new NVarCharValue("it's")]
+      });
+    });
+
+    it('should parse wildcard queries', () => {
+      const parsed = jioImport.jIO.QueryFactory.create('title: "%[Road]_%"');
+      expect(parseQuery(parsed)).to.deep.equal({
+        text: "JSON_VALUE(value, '$.title') LIKE @p1 ESCAPE '\\'",
+        values: [new NVarCharValue('%\\[Road]\\_%')]
+      });
+    });
+
+    it('should parse != wildcard queries', () => {
+      const parsed = jioImport.jIO.QueryFactory.create('title: != "%done"');
+      expect(parseQuery(parsed)).to.deep.equal({
+        text: "JSON_VALUE(value, '$.title') NOT LIKE @p1 ESCAPE '\\'",
+        values: [new NVarCharValue('%done')]
+      });
+    });
+
+    it('should parse NOT queries', () => {
+      const parsed = jioImport.jIO.QueryFactory.create('portal_type: "Road Message" AND NOT title: "foo"');
+      expect(parseQuery(parsed)).to.deep.equal({
+        text: "(JSON_VALUE(value, '$.portal_type') = @p1 AND NOT (JSON_VALUE(value, '$.title') = @p2))",
+        values: [new NVarCharValue('Road Message'), new NVarCharValue('foo')]
+      });
+    });
+
+    it('should reject unknown operators', () => {
+      const parsed: any = {
+        type: 'simple',
+        key: 'title',
+        operator: '= 1; --',
+        value: 'value'
+      };
+      expect(() => parseQuery(parsed)).to.throw('Unsupported query operator: = 1; --');
+    });
+  });
+
+  describe('indexedFields', () => {
+    it('should list unique fields', () => {
+      expect(indexedFields(['state', ['source_reference', 'state'], 'modification_date'])).to.deep.equal([
+        'state', 'source_reference'
+      ]);
+    });
+  });
+
+  describe('addIndexColumn', () => {
+    it('should add a computed column', () => {
+      expect(addIndexColumn('documents', 'source_reference')).to.equal(
+        "ALTER TABLE documents ADD value_source_reference AS JSON_VALUE(value, '$.source_reference')"
+      );
+    });
+  });
+
+  describe('indexFields', () => {
+    it('should index computed columns', () => {
+      expect(indexFields('documents', ['source_reference', 'modification_date'])).to.equal(
+        'CREATE INDEX documents_index_value_source_reference_createdAt ON documents (value_source_reference, createdAt)'
+      );
+    });
+  });
+
   describe('resultAsJson', () => {
     it('should parse the value as object', () => {
       const object = {
@@ -111,6 +245,47 @@ describe(storageName, () => {
     });
   });
 
+  describe('dataRange', () => {
+    it('should select all the data', () => {
+      expect(dataRange({start: 0, end: Infinity})).to.equal('data');
+    });
+
+    it('should select the data from the start', () => {
+      expect(dataRange({start: 2, end: Infinity})).to.equal('SUBSTRING(data, 3, DATALENGTH(data)) AS data');
+    });
+
+    it('should select the data from the start to the end', () => {
+      expect(dataRange({start: 2, end: 4})).to.equal('SUBSTRING(data, 3, 2) AS data');
+    });
+  });
+
+  describe('toJioError', () => {
+    it('should return a conflict for constraint violations', () => {
+      const error = toJioError({message: 'Cannot insert duplicate key', number: 2601});
+      expect(error.message).to.equal('Cannot insert duplicate key');
+      expect(error.status_code).to.equal(409);
+    });
+
+    it('should return unavailable for connection errors', () => {
+      expect(toJioError({name: 'ConnectionError'}).status_code).to.equal(503);
+      expect(toJioError({code: 'ESOCKET'}).status_code).to.equal(503);
+    });
+
+    it('should return an internal error otherwise', () => {
+      expect(toJioError({number: 208, code: 'EREQUEST'}).status_code).to.equal(500);
+      expect(toJioError(undefined).status_code).to.equal(500);
+    });
+
+    it('should use the default status for unknown errors', () => {
+      expect(toJioError(new Error('timeout'), 503).status_code).to.equal(503);
+    });
+
+    it('should keep jIO errors', () => {
+      const error = new jioImport.jIO.util.jIOError('not found', 404);
+      expect(toJioError(error)).to.equal(error);
+    });
+  });
+
   describe('safeTransaction', () => {
     let rollbackStub: sinon.SinonStub;
 
@@ -128,9 +303,56 @@ describe(storageName, () => {
 
     describe('failure', () => {
       it('should rollback', async () => {
-        await safeTransaction(new FakePool() as any, () => Promise.reject());
+        await safeTransaction(new FakePool() as any, () => Promise.reject()).catch(() => {});
         expect(rollbackStub.called).to.equal(true);
       });
+
+      it('should reject with a jIO error', async () => {
+        let error;
+        try {
+          await safeTransaction(new FakePool() as any, () => Promise.reject({message: 'Violation of PRIMARY KEY', number: 2627}));
+        }
+        catch (err) {
+          error = err;
+        }
+        expect(error.message).to.equal('Violation of PRIMARY KEY');
+        expect(error.status_code).to.equal(409);
+      });
+
+      it('should resolve when ignoring errors', async () => {
+        await safeTransaction(new FakePool() as any, () => Promise.reject(), true);
+        expect(rollbackStub.called).to.equal(true);
+      });
+    });
+  });
+
+  describe('safeQuery', () => {
+    it('should return the results', async () => {
+      const result = {recordset: [{id: 1}]};
+      const res = await safeQuery(() => Promise.resolve(result));
+      expect(res).to.equal(result);
+    });
+
+    it('should reject with a jIO error', async () => {
+      let error;
+      try {
+        await safeQuery(() => Promise.reject({message: 'Connection lost', code: 'ECONNCLOSED'}));
+      }
+      catch (err) {
+        error = err;
+      }
+      expect(error.message).to.equal('Connection lost');
+      expect(error.status_code).to.equal(503);
+    });
+  });
+
+  describe('queryResult', () => {
+    it('should return the rows and the affected rows of all statements', () => {
+      expect(queryResult({recordset: [{id: 1}], rowsAffected: [1, 2]} as any)).to.deep.equal({rows: [{id: 1}], rowCount: 3});
+    });
+
+    it('should return an empty result without result', () => {
+      expect(queryResult()).to.deep.equal({rows: [], rowCount: 0});
     });
   });
 
@@ -139,8 +361,9 @@ describe(storageName, () => {
 
     beforeEach(() => {
       request = new FakeRequest();
-      (request as any).id = 'from safe tr';
-      stubs.push(sinon.stub(specs, 'safeTransaction').callsFake((_pool, transactions) => transactions(request)));
+      // queries of a transaction are run with their own request
+      (mssql.Request as any as sinon.SinonStub).returns(request);
+      stubs.push(sinon.stub(specs, 'safeTransaction').callsFake((_pool, transactions) => transactions(transaction)));
     });
 
     describe('constructor', () => {
@@ -198,6 +421,114 @@ describe(storageName, () => {
               expect((storage as any)._timestamps).to.equal(false);
             });
           });
+
+          describe('with "attachmentHistory', () => {
+            beforeEach(() => {
+              fakeOptions.attachmentHistory = true;
+            });
+
+            afterEach(() => {
+              delete fakeOptions.attachmentHistory;
+            });
+
+            it('should keep previous versions of attachments', () => {
+              const storage = new MSSQLStorage(fakeOptions);
+              expect((storage as any)._attachmentHistory).to.equal(true);
+              expect((storage as any)._attachmentsHistoryTable).to.equal(defaultAttachmentsHistoryCollection);
+            });
+          });
+
+          describe('with "ignoreErrors', () => {
+            beforeEach(() => {
+              fakeOptions.ignoreErrors = true;
+            });
+
+            afterEach(() => {
+              delete fakeOptions.ignoreErrors;
+            });
+
+            it('should ignore errors', () => {
+              const storage = new MSSQLStorage(fakeOptions);
+              expect((storage as any)._ignoreErrors).to.equal(true);
+            });
+          });
+
+          describe('with "softDelete', () => {
+            beforeEach(() => {
+              fakeOptions.softDelete = true;
+              fakeOptions.tombstoneRetention = 7;
+            });
+
+            afterEach(() => {
+              delete fakeOptions.softDelete;
+              delete fakeOptions.tombstoneRetention;
+            });
+
+            it('should keep tombstones', () => {
+              const storage = new MSSQLStorage(fakeOptions);
+              expect((storage as any)._softDelete).to.equal(true);
+              expect((storage as any)._tombstoneRetention).to.equal(7);
+            });
+          });
+
+          describe('with "changeFeed', () => {
+            beforeEach(() => {
+              fakeOptions.changeFeed = true;
+            });
+
+            afterEach(() => {
+              delete fakeOptions.changeFeed;
+            });
+
+            it('should record changes', () => {
+              const storage = new MSSQLStorage(fakeOptions);
+              expect((storage as any)._changeFeed).to.equal(true);
+              expect((storage as any)._changesTable).to.equal(`${defaultDocumentsCollection}_changes`);
+            });
+          });
+
+          describe('with "history', () => {
+            beforeEach(() => {
+              fakeOptions.history = true;
+            });
+
+            afterEach(() => {
+              delete fakeOptions.history;
+            });
+
+            it('should keep previous versions of documents', () => {
+              const storage = new MSSQLStorage(fakeOptions);
+              expect((storage as any)._history).to.equal(true);
+              expect((storage as any)._documentsHistoryTable).to.equal(defaultDocumentsHistoryCollection);
+            });
+          });
+
+          describe('with "closeOnExit', () => {
+            beforeEach(() => {
+              fakeOptions.closeOnExit = true;
+              stubs.push(sinon.stub(shutdown, 'closeOnExit'));
+            });
+
+            afterEach(() => {
+              delete fakeOptions.closeOnExit;
+            });
+
+            it('should close the storage on exit', () => {
+              const storage = new MSSQLStorage(fakeOptions);
+              expect((shutdown.closeOnExit as sinon.SinonStub).calledWith(storage)).to.equal(true);
+            });
+          });
+
+          describe('with "indexes', () => {
+            beforeEach(() => {
+              fakeOptions.indexes = ['state'];
+            });
+
+            it('should set the indexes', () => {
+              const storage = new MSSQLStorage(fakeOptions);
+              expect((storage as any)._indexes).to.deep.equal(['state']);
+            });
+          });
         });
       });
     });
@@ -228,7 +559,15 @@ describe(storageName, () => {
       it('should find by id', () => {
         storage.get(id);
         expect(stub.calledWith(
-          `SELECT * FROM ${defaultDocumentsCollection} WHERE _id=@id`
+          `SELECT * FROM ${defaultDocumentsCollection} WHERE _id=@p1`
+        )).to.equal(true);
+      });
+
+      it('should not find tombstones with "softDelete"', () => {
+        (storage as any)._softDelete = true;
+        storage.get(id);
+        expect(stub.calledWith(
+          `SELECT * FROM ${defaultDocumentsCollection} WHERE _id=@p1 AND deletedAt IS NULL`
         )).to.equal(true);
       });
 
@@ -274,52 +613,66 @@ describe(storageName, () => {
         stubs.push(stub);
       });
 
-      describe('document exists', () => {
+      describe('with timestamps', () => {
         beforeEach(() => {
-          const queue = new FakeQueue();
-          queue.push(() => data);
-          stubs.push(sinon.stub(storage, 'get').returns(queue));
-        });
-
-        describe('with timestamps', () => {
-          beforeEach(() => {
-            (storage as any)._timestamps = true;
-          });
-
-          it('should update data', () => {
-            storage.put(id, data);
-            expect(stub.calledWith(
-              `UPDATE ${defaultDocumentsCollection} SET value=@data, updatedAt=GETDATE() WHERE _id=@id`
-            )).to.equal(true);
-          });
+          (storage as any)._timestamps = true;
         });
 
-        describe('without timestamps', () => {
-          beforeEach(() => {
-            (storage as any)._timestamps = false;
-          });
-
-          it('should update data', () => {
-            storage.put(id, data);
-            expect(stub.calledWith(
-              `UPDATE ${defaultDocumentsCollection} SET value=@data WHERE _id=@id`
-            )).to.equal(true);
-          });
+        it('should merge data', () => {
+          storage.put(id, data);
+          expect(stub.calledWith(
+            `MERGE ${defaultDocumentsCollection} WITH (HOLDLOCK) AS target ` +
+            'USING (SELECT @p1 AS _id, @p2 AS value) AS source ON target._id = source._id ' +
+            'WHEN MATCHED THEN UPDATE SET value=source.value, updatedAt=GETDATE() ' +
+            'WHEN NOT MATCHED THEN INSERT (_id, value) VALUES (source._id, source.value);'
+          )).to.equal(true);
         });
       });
 
-      describe('document does not exist', () => {
+      describe('without timestamps', () => {
         beforeEach(() => {
-          stubs.push(sinon.stub(storage, 'get').returns(new FakeQueue()));
+          (storage as any)._timestamps = false;
+        });
+
+        it('should merge data', () => {
+          storage.put(id, data);
+          expect(stub.calledWith(
+            `MERGE ${defaultDocumentsCollection} WITH (HOLDLOCK) AS target ` +
+            'USING (SELECT @p1 AS _id, @p2 AS value) AS source ON target._id = source._id ' +
+            'WHEN MATCHED THEN UPDATE SET value=source.value ' +
+            'WHEN NOT MATCHED THEN INSERT (_id, value) VALUES (source._id, source.value);'
+          )).to.equal(true);
         });
 
-        it('should insert data', () => {
+        it('should restore a removed document with "softDelete"', () => {
+          (storage as any)._softDelete = true;
           storage.put(id, data);
           expect(stub.calledWith(
-            `INSERT INTO ${defaultDocumentsCollection} (_id, value) VALUES (@id, @data)`
+            `MERGE ${defaultDocumentsCollection} WITH (HOLDLOCK) AS target ` +
+            'USING (SELECT @p1 AS _id, @p2 AS value) AS source ON target._id = source._id ' +
+            'WHEN MATCHED THEN UPDATE SET value=source.value, deletedAt=NULL ' +
+            'WHEN NOT MATCHED THEN INSERT (_id, value) VALUES (source._id, source.value);'
           )).to.equal(true);
         });
       });
+
+      it('should not read the document first', () => {
+        const getStub = sinon.stub(storage, 'get');
+        stubs.push(getStub);
+        storage.put(id, data);
+        expect(getStub.called).to.equal(false);
+      });
+
+      it('should keep the previous version with "history"', async () => {
+        (storage as any)._history = true;
+        await storage.put(id, data);
+        expect(stub.firstCall.args[0]).to.equal(
+          `INSERT INTO ${defaultDocumentsHistoryCollection} (_id, revision, value, operation) ` +
+          `SELECT _id, COALESCE((SELECT MAX(revision) FROM ${defaultDocumentsHistoryCollection} WHERE _id=@p1), 0) + 1, value, 'update' ` +
+          `FROM ${defaultDocumentsCollection} WHERE _id=@p2`
+        );
+        expect(stub.calledWith(sinon.match(`MERGE ${defaultDocumentsCollection} `))).to.equal(true);
+      });
     });
 
     describe('.remove', () => {
@@ -335,14 +688,261 @@ describe(storageName, () => {
         stubs.push(stub);
       });
 
-      it('should remove by id', () => {
+      it('should remove by id with its attachments', async () => {
+        await storage.remove(id);
+        expect(stub.calledWith(`DELETE FROM ${defaultDocumentsCollection} WHERE _id=@p1`)).to.equal(true);
+        expect(stub.calledWith(`DELETE FROM ${defaultAttachmentsCollection} WHERE _id=@p1`)).to.equal(true);
+      });
+
+      it('should remove previous versions of its attachments with "attachmentHistory"', async () => {
+        (storage as any)._attachmentHistory = true;
+        await storage.remove(id);
+        expect(stub.calledWith(`DELETE FROM ${defaultAttachmentsHistoryCollection} WHERE _id=@p1`)).to.equal(true);
+      });
+
+      it('should keep a tombstone with "softDelete"', async () => {
+        (storage as any)._softDelete = true;
+        await storage.remove(id);
+        expect(stub.calledWith(
+          `UPDATE ${defaultDocumentsCollection} SET deletedAt=GETDATE() WHERE _id=@p1 AND deletedAt IS NULL`
+        )).to.equal(true);
+        expect(stub.calledWith(`DELETE FROM ${defaultAttachmentsCollection} WHERE _id=@p1`)).to.equal(true);
+      });
+
+      it('should keep the removed version with "history"', () => {
+        (storage as any)._history = true;
+        storage.remove(id);
+        expect(stub.firstCall.args[0]).to.match(new RegExp(
+          `'delete' FROM ${defaultDocumentsCollection} WHERE _id=@p2$`
+        ));
+      });
+
+      it('should not keep the version of a tombstone with "history" and "softDelete"', () => {
+        (storage as any)._history = true;
+        (storage as any)._softDelete = true;
         storage.remove(id);
+        expect(stub.firstCall.args[0]).to.match(new RegExp(
+          `'delete' FROM ${defaultDocumentsCollection} WHERE _id=@p2 AND deletedAt IS NULL$`
+        ));
+      });
+    });
+
+    describe('.initChanges', () => {
+      let storage: any;
+      let stub: sinon.SinonStub;
+      const table = `${defaultDocumentsCollection}_changes`;
+
+      beforeEach(() => {
+        storage = new MSSQLStorage(options);
+        stub = sinon.stub(request, 'query').returns(Promise.resolve());
+        stubs.push(stub);
+      });
+
+      it('should drop the trigger by default', async () => {
+        await storage.initChanges(request);
+        expect(stub.callCount).to.equal(1);
+        expect(stub.calledWith(`IF OBJECT_ID('${table}_trigger', 'TR') IS NOT NULL DROP TRIGGER ${table}_trigger`)).to.equal(true);
+      });
+
+      it('should record changes with "changeFeed"', async () => {
+        storage._changeFeed = true;
+        await storage.initChanges(request);
+        expect(stub.callCount).to.equal(3);
         expect(stub.calledWith(
-          `DELETE FROM ${defaultDocumentsCollection} WHERE _id=@id`
+          `CREATE TRIGGER ${table}_trigger ON ${defaultDocumentsCollection} AFTER INSERT, UPDATE, DELETE AS BEGIN SET NOCOUNT ON; ` +
+          `INSERT INTO ${table} (_id, type) SELECT COALESCE(i._id, d._id), ` +
+          "CASE WHEN d._id IS NULL THEN 'insert' WHEN i._id IS NULL THEN 'delete' ELSE 'update' END " +
+          'FROM inserted i FULL OUTER JOIN deleted d ON i._id = d._id; END'
+        )).to.equal(true);
+      });
+
+      it('should record the removal of tombstones with "softDelete"', async () => {
+        storage._changeFeed = true;
+        storage._softDelete = true;
+        await storage.initChanges(request);
+        expect(stub.calledWith(
+          `CREATE TRIGGER ${table}_trigger ON ${defaultDocumentsCollection} AFTER INSERT, UPDATE, DELETE AS BEGIN SET NOCOUNT ON; ` +
+          `INSERT INTO ${table} (_id, type) SELECT COALESCE(i._id, d._id), ` +
+          "CASE WHEN d._id IS NULL THEN 'insert' WHEN i._id IS NULL OR i.deletedAt IS NOT NULL THEN 'delete' ELSE 'update' END " +
+          'FROM inserted i FULL OUTER JOIN deleted d ON i._id = d._id WHERE NOT (i._id IS NULL AND d.deletedAt IS NOT NULL); END'
         )).to.equal(true);
       });
     });
 
+    describe('.changes', () => {
+      let storage: MSSQLStorage;
+      const changedAt = new Date('2019-01-01T00:00:00.000Z');
+      let stub: sinon.SinonStub;
+      let inputStub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new MSSQLStorage(options);
+        requestStub(storage, request);
+
+        stub = sinon.stub(request, 'query').returns(Promise.resolve({recordset: [
+          {seq: '3', _id: 'id', type: 'insert', changedAt},
+          {seq: '4', _id: 'id', type: 'delete', changedAt}
+        ]}));
+        stubs.push(stub);
+        inputStub = sinon.stub(request, 'input');
+        stubs.push(inputStub);
+      });
+
+      it('should list the changes after the cursor', async () => {
+        const result = await storage.changes(2);
+        expect(stub.calledWith(
+          `SELECT seq, _id, type, changedAt AS "changedAt" FROM ${defaultDocumentsCollection}_changes WHERE seq > @p1 ` +
+          'ORDER BY seq OFFSET 0 ROWS FETCH NEXT @p2 ROWS ONLY'
+        )).to.equal(true);
+        expect(inputStub.calledWith('p1', sinon.match.any, 2)).to.equal(true);
+        expect(inputStub.calledWith('p2', sinon.match.any, defaultChangesLimit)).to.equal(true);
+        expect(result).to.deep.equal({
+          changes: [
+            {seq: 3, id: 'id', type: 'insert', changedAt: '2019-01-01T00:00:00.000Z'},
+            {seq: 4, id: 'id', type: 'delete', changedAt: '2019-01-01T00:00:00.000Z'}
+          ],
+          cursor: 4
+        });
+      });
+
+      it('should keep the cursor without changes', async () => {
+        stub.returns(Promise.resolve({recordset: []}));
+        const result = await storage.changes(2, 10);
+        expect(inputStub.calledWith('p2', sinon.match.any, 10)).to.equal(true);
+        expect(result).to.deep.equal({changes: [], cursor: 2});
+      });
+    });
+
+    describe('.allRevisions', () => {
+      let storage: MSSQLStorage;
+      const replacedAt = new Date('2019-01-01T00:00:00.000Z');
+      let stub: sinon.SinonStub;
+      let inputStub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new MSSQLStorage(options);
+        requestStub(storage, request);
+
+        stub = sinon.stub(request, 'query').returns(Promise.resolve({recordset: [
+          {revision: 1, operation: 'update', replacedAt},
+          {revision: 2, operation: 'delete', replacedAt}
+        ]}));
+        stubs.push(stub);
+        inputStub = sinon.stub(request, 'input');
+        stubs.push(inputStub);
+      });
+
+      it('should list previous versions', async () => {
+        const revisions = await storage.allRevisions('id');
+        expect(stub.calledWith(
+          `SELECT revision, operation, replacedAt AS "replacedAt" FROM ${defaultDocumentsHistoryCollection} WHERE _id=@p1 ORDER BY revision`
+        )).to.equal(true);
+        expect(inputStub.calledWith('p1', sinon.match.any, 'id')).to.equal(true);
+        expect(revisions).to.deep.equal([
+          {revision: 1, operation: 'update', replacedAt: '2019-01-01T00:00:00.000Z'},
+          {revision: 2, operation: 'delete', replacedAt: '2019-01-01T00:00:00.000Z'}
+        ]);
+      });
+    });
+
+    describe('.getRevision', () => {
+      let storage: MSSQLStorage;
+      let stub: sinon.SinonStub;
+      let inputStub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new MSSQLStorage(options);
+        requestStub(storage, request);
+
+        stub = sinon.stub(request, 'query').returns(Promise.resolve({recordset: [{[valueKey]: JSON.stringify({test: 1})}]}));
+        stubs.push(stub);
+        inputStub = sinon.stub(request, 'input');
+        stubs.push(inputStub);
+      });
+
+      it('should return the previous version', async () => {
+        const value = await storage.getRevision('id', 1);
+        expect(stub.calledWith(
+          `SELECT value FROM ${defaultDocumentsHistoryCollection} WHERE _id=@p1 AND revision=@p2`
+        )).to.equal(true);
+        expect(inputStub.calledWith('p2', sinon.match.any, 1)).to.equal(true);
+        expect(value).to.deep.equal({test: 1});
+      });
+
+      it('should fail if the revision does not exist', async () => {
+        stub.returns(Promise.resolve({recordset: []}));
+        try {
+          await storage.getRevision('id', 3);
+          throw new Error('should have failed');
+        }
+        catch (error) {
+          expect(error.status_code).to.equal(404);
+          expect(error.message).to.equal('Cannot find revision 3 of document: id');
+        }
+      });
+    });
+
+    describe('.allTombstones', () => {
+      let storage: MSSQLStorage;
+      const deletedAt = new Date('2019-01-01T00:00:00.000Z');
+      let stub: sinon.SinonStub;
+      let inputStub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new MSSQLStorage(options);
+        requestStub(storage, request);
+
+        stub = sinon.stub(request, 'query').returns(Promise.resolve({recordset: [{_id: 'id', [deletedAtKey]: deletedAt}]}));
+        stubs.push(stub);
+        inputStub = sinon.stub(request, 'input');
+        stubs.push(inputStub);
+      });
+
+      it('should list removed documents', async () => {
+        const tombstones = await storage.allTombstones();
+        expect(tombstones).to.deep.equal([{id: 'id', deletedAt: '2019-01-01T00:00:00.000Z'}]);
+        expect(stub.calledWith(
+          `SELECT _id, deletedAt AS "deletedAt" FROM ${defaultDocumentsCollection} WHERE deletedAt > @p1 ORDER BY deletedAt`
+        )).to.equal(true);
+        expect(inputStub.calledWith('p1', sinon.match.any, new Date(0))).to.equal(true);
+      });
+
+      it('should only list documents removed after "since"', async () => {
+        await storage.allTombstones('2019-01-01');
+        expect(inputStub.calledWith('p1', sinon.match.any, new Date('2019-01-01'))).to.equal(true);
+      });
+    });
+
+    describe('.purgeTombstones', () => {
+      let storage: MSSQLStorage;
+      let stub: sinon.SinonStub;
+      let inputStub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new MSSQLStorage(options);
+        requestStub(storage, request);
+
+        stub = sinon.stub(request, 'query').returns(Promise.resolve({rowsAffected: [2]}));
+        stubs.push(stub);
+        inputStub = sinon.stub(request, 'input');
+        stubs.push(inputStub);
+      });
+
+      it('should remove tombstones older than the retention', async () => {
+        const purged = await storage.purgeTombstones();
+        expect(purged).to.equal(2);
+        expect(stub.calledWith(
+          `DELETE FROM ${defaultDocumentsCollection} WHERE deletedAt < DATEADD(day, -@p1, GETDATE())`
+        )).to.equal(true);
+        expect(inputStub.calledWith('p1', sinon.match.any, defaultTombstoneRetention)).to.equal(true);
+      });
+
+      it('should use the given retention', async () => {
+        await storage.purgeTombstones(0);
+        expect(inputStub.calledWith('p1', sinon.match.any, 0)).to.equal(true);
+      });
+    });
+
     describe('.getAttachment', () => {
       let storage: MSSQLStorage;
       const id = 'id';
@@ -380,6 +980,49 @@ describe(storageName, () => {
           expect(() => storage.getAttachment(id, name)).to.throw(`Cannot find attachment: ${id}`);
         });
       });
+
+      describe('with "revision"', () => {
+        beforeEach(() => {
+          stub = sinon.stub(request, 'query').returns({recordset: [{}]});
+          stubs.push(stub);
+        });
+
+        it('should get the revision', () => {
+          storage.getAttachment(id, name, {revision: 2});
+          expect(stub.calledWith(
+            `SELECT value, data, content_type FROM ${defaultAttachmentsCollection} WHERE _id=@p1 AND name=@p2 AND revision=@p3`
+          )).to.equal(true);
+        });
+
+        it('should look into the history', () => {
+          (storage as any)._attachmentHistory = true;
+          storage.getAttachment(id, name, {revision: 2});
+          expect(stub.calledWith(
+            `SELECT value, data, content_type FROM ${defaultAttachmentsCollection} WHERE _id=@p1 AND name=@p2 AND revision=@p3 ` +
+            'UNION ALL SELECT value, data, content_type ' +
+            `FROM ${defaultAttachmentsHistoryCollection} WHERE _id=@p4 AND name=@p5 AND revision=@p6`
+          )).to.equal(true);
+        });
+      });
+
+      describe('with "start" and "end"', () => {
+        beforeEach(() => {
+          stub = sinon.stub(request, 'query').returns({recordset: [{}]});
+          stubs.push(stub);
+        });
+
+        it('should only get the range', () => {
+          storage.getAttachment(id, name, {start: 2, end: 4});
+          expect(stub.calledWith(
+            `SELECT value, SUBSTRING(data, 3, 2) AS data, content_type FROM ${defaultAttachmentsCollection} WHERE _id=@p1 AND name=@p2`
+          )).to.equal(true);
+        });
+
+        it('should throw an error for an invalid range', () => {
+          expect(() => storage.getAttachment(id, name, {start: 4, end: 2})).to.throw('"start" is greater than "end"');
+          expect(stub.called).to.equal(false);
+        });
+      });
     });
 
     describe('.putAttachment', () => {
@@ -387,9 +1030,11 @@ describe(storageName, () => {
       const id = 'id';
       const name = 'name';
       const data: any = {
-        target: {result: {}}
+        type: 'text/plain',
+        target: {result: new ArrayBuffer(4)}
       };
       let stub: sinon.SinonStub;
+      let inputStub: sinon.SinonStub;
 
       beforeEach(async () => {
         storage = new MSSQLStorage(options);
@@ -398,15 +1043,53 @@ describe(storageName, () => {
 
         stub = sinon.stub(request, 'query').returns([]);
         stubs.push(stub);
-        stubs.push(sinon.stub(jioImport.jIO.util, 'readBlobAsDataURL').returns(data));
+        inputStub = sinon.stub(request, 'input');
+        stubs.push(inputStub);
+        stubs.push(sinon.stub(jioImport.jIO.util, 'readBlobAsArrayBuffer').returns(data));
       });
 
-      it('should insert data', async () => {
+      it('should merge data', async () => {
         await storage.putAttachment(id, name, data);
         expect(stub.calledWith(
-          `INSERT INTO ${defaultAttachmentsCollection} (_id, name, value) VALUES (@id, @name, @data)`
+          `MERGE ${defaultAttachmentsCollection} WITH (HOLDLOCK) AS target ` +
+          'USING (SELECT @p1 AS _id, @p2 AS name, @p3 AS data, @p4 AS content_type, ' +
+          '@p5 AS length, @p6 AS digest) AS source ' +
+          'ON target._id = source._id AND target.name = source.name ' +
+          'WHEN MATCHED THEN UPDATE SET data=source.data, content_type=source.content_type, ' +
+          'length=source.length, digest=source.digest, value=NULL, revision=target.revision + 1, updatedAt=GETDATE() ' +
+          'WHEN NOT MATCHED THEN INSERT (_id, name, data, content_type, length, digest) ' +
+          'VALUES (source._id, source.name, source.data, source.content_type, source.length, source.digest);'
         )).to.equal(true);
       });
+
+      it('should send binary data', async () => {
+        await storage.putAttachment(id, name, data);
+        expect(inputStub.calledWith('p3', sinon.match.any, sinon.match.instanceOf(Buffer))).to.equal(true);
+        expect(inputStub.calledWith('p4', mssql.VarChar, data.type)).to.equal(true);
+      });
+
+      it('should send the length and digest', async () => {
+        await storage.putAttachment(id, name, data);
+        expect(inputStub.calledWith('p5', mssql.Int, 4)).to.equal(true);
+        expect(inputStub.calledWith('p6', mssql.VarChar, attachmentDigest(Buffer.alloc(4)))).to.equal(true);
+      });
+
+      describe('with "attachmentHistory"', () => {
+        beforeEach(() => {
+          (storage as any)._attachmentHistory = true;
+        });
+
+        it('should keep the previous version', async () => {
+          await storage.putAttachment(id, name, data);
+          expect(stub.firstCall.args[0]).to.equal(
+            `INSERT INTO ${defaultAttachmentsHistoryCollection} ` +
+            '(_id, name, revision, value, data, content_type, length, digest, createdAt, updatedAt) ' +
+            'SELECT _id, name, revision, value, data, content_type, length, digest, createdAt, updatedAt ' +
+            `FROM ${defaultAttachmentsCollection} WHERE _id=@p1 AND name=@p2`
+          );
+          expect(stub.secondCall.args[0]).to.match(new RegExp(`^MERGE ${defaultAttachmentsCollection} `));
+        });
+      });
     });
 
     describe('.removeAttachment', () => {
@@ -426,7 +1109,15 @@ describe(storageName, () => {
       it('should remove by id', () => {
         storage.removeAttachment(id, name);
         expect(stub.calledWith(
-          `DELETE FROM ${defaultAttachmentsCollection} WHERE _id=@id AND name=@name`
+          `DELETE FROM ${defaultAttachmentsCollection} WHERE _id=@p1 AND name=@p2`
+        )).to.equal(true);
+      });
+
+      it('should remove previous versions with "attachmentHistory"', async () => {
+        (storage as any)._attachmentHistory = true;
+        await storage.removeAttachment(id, name);
+        expect(stub.calledWith(
+          `DELETE FROM ${defaultAttachmentsHistoryCollection} WHERE _id=@p1 AND name=@p2`
         )).to.equal(true);
       });
     });
@@ -435,33 +1126,290 @@ describe(storageName, () => {
       let storage: MSSQLStorage;
       const id = 'id';
       const attachments = [{
-        name: 'attachment 1'
+        name: 'attachment 1',
+        revision: 2,
+        content_type: 'text/plain',
+        length: 4,
+        digest: 'sha256-digest'
       }];
+      let stub: sinon.SinonStub;
 
       beforeEach(() => {
         storage = new MSSQLStorage(options);
         requestStub(storage, request);
 
-        stubs.push(sinon.stub(request, 'query').returns({recordset: attachments}));
+        stub = sinon.stub(request, 'query').returns({recordset: attachments});
+        stubs.push(stub);
       });
 
       it('should return a list of attachments', () => {
         const results = storage.allAttachments(id);
         expect((results as any).result).to.deep.equal({
-          [attachments[0].name]: {}
+          [attachments[0].name]: {revision: 2, content_type: 'text/plain', length: 4, digest: 'sha256-digest'}
         });
       });
+
+      it('should not read the content', () => {
+        storage.allAttachments(id);
+        expect(stub.calledWith(
+          `SELECT name, revision, content_type, length, digest, createdAt, updatedAt FROM ${defaultAttachmentsCollection} WHERE _id=@p1`
+        )).to.equal(true);
+      });
     });
 
     describe('.hasCapacity', () => {
-      it('should support list', () => {
+      it('should have all capacities', () => {
         const storage = new MSSQLStorage(options);
-        expect(storage.hasCapacity('list')).to.equal(true);
+        expect(storage.hasCapacity()).to.equal(true);
       });
+    });
 
-      it('should not support queries', () => {
-        const storage = new MSSQLStorage(options);
-        expect(storage.hasCapacity('query')).to.equal(false);
+    describe('.migrateAttachments', () => {
+      let storage: MSSQLStorage;
+      let stub: sinon.SinonStub;
+      let inputStub: sinon.SinonStub;
+
+      beforeEach(async () => {
+        storage = new MSSQLStorage(options);
+        await (storage as any)._dbPromise;
+        stub = sinon.stub(FakeRequest.prototype, 'query').returns(Promise.resolve({recordset: []}));
+        stub.onFirstCall().returns(Promise.resolve({recordset: [{id: 1, value: 'data:text/plain;base64,dGVzdA=='}]}));
+        stubs.push(stub);
+        inputStub = sinon.stub(FakeRequest.prototype, 'input');
+        stubs.push(inputStub);
+      });
+
+      it('should convert data URIs to binary data', async () => {
+        const migrated = await storage.migrateAttachments(1);
+        expect(migrated).to.equal(1);
+        expect(stub.secondCall.args[0]).to.equal(
+          `UPDATE ${defaultAttachmentsCollection} SET data=@p1, content_type=@p2, length=@p3, digest=@p4, value=NULL ` +
+          'WHERE id=@p5 AND value IS NOT NULL'
+        );
+        expect(inputStub.calledWith('p1', sinon.match.any, sinon.match.instanceOf(Buffer))).to.equal(true);
+        expect(inputStub.calledWith('p2', mssql.VarChar, 'text/plain')).to.equal(true);
+        expect(inputStub.calledWith('p4', mssql.VarChar, attachmentDigest(Buffer.from('test')))).to.equal(true);
+      });
+
+      it('should read the next batch', async () => {
+        await storage.migrateAttachments(1);
+        expect(stub.thirdCall.args[0]).to.equal(
+          `SELECT id, value FROM ${defaultAttachmentsCollection} WHERE value IS NOT NULL ` +
+          'ORDER BY id OFFSET 0 ROWS FETCH NEXT @p1 ROWS ONLY'
+        );
+      });
+
+      it('should migrate previous versions with "attachmentHistory"', async () => {
+        (storage as any)._attachmentHistory = true;
+        await storage.migrateAttachments();
+        expect(stub.calledWith(sinon.match(`FROM ${defaultAttachmentsHistoryCollection} WHERE value IS NOT NULL`))).to.equal(true);
+        expect(inputStub.calledWith('p1', mssql.Int, 100)).to.equal(true);
+      });
+    });
+
+    describe('.purgeOrphanAttachments', () => {
+      let storage: MSSQLStorage;
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new MSSQLStorage(options);
+        requestStub(storage, request);
+
+        stub = sinon.stub(request, 'query').returns(Promise.resolve({rowsAffected: [2]}));
+        stubs.push(stub);
+      });
+
+      it('should remove attachments without document', async () => {
+        const purged = await storage.purgeOrphanAttachments();
+        expect(purged).to.equal(2);
+        expect(stub.calledWith(
+          `DELETE FROM ${defaultAttachmentsCollection} WHERE NOT EXISTS ` +
+          `(SELECT 1 FROM ${defaultDocumentsCollection} d WHERE d._id = ${defaultAttachmentsCollection}._id)`
+        )).to.equal(true);
+      });
+
+      it('should remove previous versions with "attachmentHistory"', async () => {
+        (storage as any)._attachmentHistory = true;
+        stub.onSecondCall().returns(Promise.resolve({rowsAffected: [3]}));
+        const purged = await storage.purgeOrphanAttachments();
+        expect(purged).to.equal(5);
+        expect(stub.calledWith(
+          `DELETE FROM ${defaultAttachmentsHistoryCollection} WHERE NOT EXISTS ` +
+          `(SELECT 1 FROM ${defaultDocumentsCollection} d WHERE d._id = ${defaultAttachmentsHistoryCollection}._id)`
+        )).to.equal(true);
+      });
+    });
+
+    describe('.createAttachmentReadStream', () => {
+      let storage: MSSQLStorage;
+      const id = 'id';
+      const name = 'name';
+      let stub: sinon.SinonStub;
+      let inputStub: sinon.SinonStub;
+
+      beforeEach(async () => {
+        storage = new MSSQLStorage(options);
+        await (storage as any)._dbPromise;
+        stub = sinon.stub(FakeRequest.prototype, 'query');
+        stubs.push(stub);
+        inputStub = sinon.stub(FakeRequest.prototype, 'input');
+        stubs.push(inputStub);
+      });
+
+      it('should read the attachment by chunks', async () => {
+        stub.onFirstCall().returns(Promise.resolve({recordset: [{revision: 2, value: null, size: 4}]}));
+        stub.onSecondCall().returns(Promise.resolve({recordset: [{chunk: Buffer.from('te')}]}));
+        stub.onThirdCall().returns(Promise.resolve({recordset: [{chunk: Buffer.from('st')}]}));
+        const data = await readStream(storage.createAttachmentReadStream(id, name, {chunkSize: 2}));
+        expect(data.toString()).to.equal('test');
+        expect(stub.firstCall.args[0]).to.equal(
+          `SELECT revision, value, DATALENGTH(data) AS size FROM ${defaultAttachmentsCollection} ` +
+          'WHERE _id=@p1 AND name=@p2 AND revision=COALESCE(@p3, revision)'
+        );
+        expect(stub.thirdCall.args[0]).to.equal(
+          `SELECT SUBSTRING(data, @p1, @p2) AS chunk FROM ${defaultAttachmentsCollection} ` +
+          'WHERE _id=@p3 AND name=@p4 AND revision=@p5'
+        );
+        expect(inputStub.calledWith('p1', mssql.Int, 3)).to.equal(true);
+        expect(stub.callCount).to.equal(3);
+      });
+
+      it('should only read the range', async () => {
+        stub.onFirstCall().returns(Promise.resolve({recordset: [{revision: 2, value: null, size: 4}]}));
+        stub.onSecondCall().returns(Promise.resolve({recordset: [{chunk: Buffer.from('es')}]}));
+        const data = await readStream(storage.createAttachmentReadStream(id, name, {start: 1, end: 3}));
+        expect(data.toString()).to.equal('es');
+        expect(inputStub.calledWith('p1', mssql.Int, 2)).to.equal(true);
+        expect(inputStub.calledWith('p2', mssql.Int, 2)).to.equal(true);
+        expect(stub.callCount).to.equal(2);
+      });
+
+      it('should look for previous revisions with "attachmentHistory"', async () => {
+        (storage as any)._attachmentHistory = true;
+        stub.returns(Promise.resolve({recordset: []}));
+        stub.onSecondCall().returns(Promise.resolve({recordset: [{revision: 1, value: 'data:,test', size: null}]}));
+        const data = await readStream(storage.createAttachmentReadStream(id, name, {revision: 1}));
+        expect(data.toString()).to.equal('test');
+        expect(stub.secondCall.args[0]).to.match(new RegExp(`FROM ${defaultAttachmentsHistoryCollection} `));
+      });
+
+      it('should fail if the attachment does not exist', async () => {
+        stub.returns(Promise.resolve({recordset: []}));
+        try {
+          await readStream(storage.createAttachmentReadStream(id, name));
+          throw new Error('should have failed');
+        }
+        catch (error) {
+          expect(error.status_code).to.equal(404);
+        }
+      });
+
+      it('should fail if the attachment is replaced while reading', async () => {
+        stub.returns(Promise.resolve({recordset: []}));
+        stub.onFirstCall().returns(Promise.resolve({recordset: [{revision: 2, value: null, size: 4}]}));
+        try {
+          await readStream(storage.createAttachmentReadStream(id, name));
+          throw new Error('should have failed');
+        }
+        catch (error) {
+          expect(error.status_code).to.equal(409);
+        }
+      });
+    });
+
+    describe('.createAttachmentWriteStream', () => {
+      let storage: MSSQLStorage;
+      const id = 'id';
+      const name = 'name';
+      const uploadsTable = `${defaultAttachmentsCollection}_uploads`;
+      let stub: sinon.SinonStub;
+      let inputStub: sinon.SinonStub;
+
+      beforeEach(async () => {
+        storage = new MSSQLStorage(options);
+        await (storage as any)._dbPromise;
+        stub = sinon.stub(FakeRequest.prototype, 'query').returns(Promise.resolve({recordset: [{id: 3}]}));
+        stubs.push(stub);
+        inputStub = sinon.stub(FakeRequest.prototype, 'input');
+        stubs.push(inputStub);
+      });
+
+      it('should append chunks to an upload', async () => {
+        await writeStream(storage.createAttachmentWriteStream(id, name), [Buffer.from('te'), Buffer.from('st')]);
+        expect(stub.firstCall.args[0]).to.equal(`INSERT INTO ${uploadsTable} DEFAULT VALUES; SELECT SCOPE_IDENTITY() AS id`);
+        expect(stub.secondCall.args[0]).to.equal(`UPDATE ${uploadsTable} SET data.WRITE(@p1, NULL, NULL) WHERE id=@p2`);
+        expect(inputStub.calledWith('p1', sinon.match.any, sinon.match.instanceOf(Buffer))).to.equal(true);
+        expect(inputStub.calledWith('p2', mssql.Int, 3)).to.equal(true);
+      });
+
+      it('should merge the upload and delete it', async () => {
+        await writeStream(storage.createAttachmentWriteStream(id, name, {contentType: 'text/plain'}), [Buffer.from('test')]);
+        expect(stub.thirdCall.args[0]).to.equal(
+          `MERGE ${defaultAttachmentsCollection} WITH (HOLDLOCK) AS target ` +
+          'USING (SELECT @p1 AS _id, @p2 AS name, data AS data, @p3 AS content_type, ' +
+          `@p4 AS length, @p5 AS digest FROM ${uploadsTable} WHERE id=@p6) AS source ` +
+          'ON target._id = source._id AND target.name = source.name ' +
+          'WHEN MATCHED THEN UPDATE SET data=source.data, content_type=source.content_type, ' +
+          'length=source.length, digest=source.digest, value=NULL, revision=target.revision + 1, updatedAt=GETDATE() ' +
+          'WHEN NOT MATCHED THEN INSERT (_id, name, data, content_type, length, digest) ' +
+          'VALUES (source._id, source.name, source.data, source.content_type, source.length, source.digest);'
+        );
+        expect(stub.lastCall.args[0]).to.equal(`DELETE FROM ${uploadsTable} WHERE id=@p1`);
+        expect(inputStub.calledWith('p4', mssql.Int, 4)).to.equal(true);
+        expect(inputStub.calledWith('p5', mssql.VarChar, attachmentDigest(Buffer.from('test')))).to.equal(true);
+      });
+
+      it('should keep the previous version with "attachmentHistory"', async () => {
+        (storage as any)._attachmentHistory = true;
+        await writeStream(storage.createAttachmentWriteStream(id, name), [Buffer.from('test')]);
+        expect(stub.thirdCall.args[0]).to.match(new RegExp(`^INSERT INTO ${defaultAttachmentsHistoryCollection} `));
+      });
+    });
+
+    describe('.close', () => {
+      let storage: MSSQLStorage;
+      let closeStub: sinon.SinonStub;
+
+      beforeEach(async () => {
+        storage = new MSSQLStorage(options);
+        await (storage as any)._dbPromise;
+        closeStub = sinon.stub((storage as any)._pool, 'close').returns(Promise.resolve());
+        stubs.push(closeStub);
+      });
+
+      it('should close the pool', async () => {
+        await storage.close();
+        expect(closeStub.calledOnce).to.equal(true);
+      });
+
+      it('should wait for running queries', async () => {
+        let resolveQuery;
+        (storage as any).track(new Promise(resolve => resolveQuery = resolve));
+        const closing = storage.close();
+        await Promise.resolve();
+        expect(closeStub.called).to.equal(false);
+        resolveQuery();
+        await closing;
+        expect(closeStub.calledOnce).to.equal(true);
+      });
+
+      it('should only close the pool once', async () => {
+        await storage.close();
+        await storage.close();
+        expect(closeStub.calledOnce).to.equal(true);
+      });
+
+      it('should reject further calls', async () => {
+        await storage.close();
+        let error;
+        try {
+          await storage.get('id');
+        }
+        catch (err) {
+          error = err;
+        }
+        expect(error.message).to.equal('MSSQL storage is closed');
+        expect(error.status_code).to.equal(503);
       });
     });
 
@@ -486,21 +1434,89 @@ describe(storageName, () => {
         stubs.push(stub);
 
         params = {
-          query: 'portal_type: "File"'
+          query: ''
         };
       });
 
+      describe('with "query"', () => {
+        beforeEach(() => {
+          params.query = 'portal_type: "File"';
+        });
+
+        it('should set WHERE clause', () => {
+          storage.buildQuery(params);
+          expect(stub.calledWith(
+            `SELECT * FROM ${defaultDocumentsCollection} WHERE JSON_VALUE(value, '$.portal_type') = @p1`
+          )).to.equal(true);
+        });
+
+        it('should bind the values as NVARCHAR', () => {
+          const inputStub = sinon.stub(request, 'input');
+          stubs.push(inputStub);
+          storage.buildQuery(params);
+          expect(inputStub.calledWith('p1', mssql.NVarChar, 'File')).to.equal(true);
+        });
+      });
+
+      describe('with "softDelete"', () => {
+        beforeEach(() => {
+          (storage as any)._softDelete = true;
+        });
+
+        it('should not list tombstones', () => {
+          storage.buildQuery(params);
+          expect(stub.calledWith(
+            `SELECT * FROM ${defaultDocumentsCollection} WHERE deletedAt IS NULL`
+          )).to.equal(true);
+        });
+
+        it('should add the condition to the query', () => {
+          params.query = 'portal_type: "File"';
+          storage.buildQuery(params);
+          expect(stub.calledWith(
+            `SELECT * FROM ${defaultDocumentsCollection} WHERE deletedAt IS NULL AND (JSON_VALUE(value, '$.portal_type') = @p1)`
+          )).to.equal(true);
+        });
+      });
+
+      describe('with "sort_on"', () => {
+        beforeEach(() => {
+          params.sort_on = [['title', 'ascending']];
+        });
+
+        it('should set ORDER BY clause', () => {
+          storage.buildQuery(params);
+          expect(stub.calledWith(
+            `SELECT * FROM ${defaultDocumentsCollection} ORDER BY JSON_VALUE(value, '$.title') ASC`
+          )).to.equal(true);
+        });
+      });
+
       describe('with "limit"', () => {
         beforeEach(() => {
           params.limit = [0, 10];
         });
 
-        it('should set limit', () => {
+        it('should set limit ordered by id', () => {
           storage.buildQuery(params);
           expect(stub.calledWith(
-            `SELECT * FROM ${defaultDocumentsCollection} OFFSET ${params.limit![0]} ROWS FETCH NEXT ${params.limit![1]} ROWS ONLY`
+            `SELECT * FROM ${defaultDocumentsCollection} ORDER BY id OFFSET 0 ROWS FETCH NEXT 10 ROWS ONLY`
           )).to.equal(true);
         });
+
+        describe('with "sort_on"', () => {
+          beforeEach(() => {
+            params.sort_on = [['title', 'descending']];
+          });
+
+          it('should set limit ordered by sort', () => {
+            storage.buildQuery(params);
+            expect(stub.calledWith(
+              `SELECT * FROM ${defaultDocumentsCollection} ORDER BY JSON_VALUE(value, '$.title') DESC ` +
+              'OFFSET 0 ROWS FETCH NEXT 10 ROWS ONLY'
+            )).to.equal(true);
+          });
+        });
       });
 
       describe('with "include_docs"', () => {
@@ -540,4 +1556,8 @@ describe(storageName, () => {
   });
 });
 
+describeServerConformance(storageName, 'CONFORMANCE_MSSQL_URL', ({host, port, user, password, database}, {timestamps}) => {
+  return new MSSQLStorage({type: 'mssql', server: host, port, user, password, database, timestamps});
+});
+
 addStorageStub.restore();
@@ -1,54 +1,133 @@
 /* tslint:disable:no-console */
 import {
   getQueue, promiseToQueue,
-  IJioStorage, IQueue, IClearRoadOptions,
-  IJioQueryOptions
+  IClearRoadOptions,
+  IJioSimpleQuery, IJioComplexQuery
 } from '@clearroad/api';
 import { jIO } from 'jio';
 
-import { ConnectionPool, config, Request, Transaction, VarChar } from 'mssql';
+import { ConnectionPool, config, Request, Transaction, IResult, VarChar, NVarChar, VarBinary, Int, DateTime, MAX } from 'mssql';
+
+import {
+  SqlStorage, ISqlDialect, SqlParam, ISqlStorageOptions, ISqlQuery, ISqlResult,
+  ISqlAttachmentOptions, ISqlAttachmentReadStreamOptions, ISqlAttachmentWriteStreamOptions,
+  ISqlRevision, ISqlTombstone, ISqlChange, ISqlChanges, ISqlAttachmentMetadata,
+  idKey, valueKey, dataKey, contentTypeKey, lengthKey, digestKey, createdAtKey, updatedAtKey, deletedAtKey
+} from '../sql';
+import { IAttachmentRange } from '../local';
+
+export interface IMSSQLStorageOptions extends config, ISqlStorageOptions {
+  type: 'mssql';
+}
+
+export type IMSSQLAttachmentOptions = ISqlAttachmentOptions;
+export type IMSSQLAttachmentReadStreamOptions = ISqlAttachmentReadStreamOptions;
+export type IMSSQLAttachmentWriteStreamOptions = ISqlAttachmentWriteStreamOptions;
+export type IMSSQLRevision = ISqlRevision;
+export type IMSSQLTombstone = ISqlTombstone;
+export type IMSSQLChange = ISqlChange;
+export type IMSSQLChanges = ISqlChanges;
+export type IMSSQLAttachmentMetadata = ISqlAttachmentMetadata;
 
 /**
+ * Values of query conditions, compared with JSON values which are Unicode strings
  * @internal
  */
-export const idKey = '_id';
-/**
- * @internal
- */
-export const valueKey = 'value';
-/**
- * @internal
- */
-export const createdAtKey = 'createdAt';
+export class NVarCharValue {
+  constructor(public value: string) {}
+}
+
+type MSSQLValue = string|number|Buffer|Date|NVarCharValue|null;
+
+const simpleOperators = ['=', '!=', '<', '<=', '>', '>='];
+const complexOperators = ['AND', 'OR', 'NOT'];
 /**
- * @internal
+ * `%` wildcards in jIO are `LIKE` matches
  */
-export const updatedAtKey = 'updatedAt';
+const likeOperators = {
+  '=': 'LIKE',
+  '!=': 'NOT LIKE'
+};
+
+const escapeString = (value: any) => `${value}`.replace(/'/g, "''");
+
+// `_`, `[` and `\` have a special meaning in LIKE patterns, but not in jIO
+const escapeLike = (value: string) => value.replace(/[\\_[]/g, '\\$&');
+
+const isWildcard = (value: any) => typeof value === 'string' && value.indexOf('%') !== -1;
+
+const keyToDBField = (key: string) => {
+  return key === 'modification_date' ? createdAtKey : `JSON_VALUE(${valueKey}, '$.${escapeString(key)}')`;
+};
+
+const rangeOperators = ['<', '<=', '>', '>='];
+const numberRegExp = /^-?\d+(\.\d+)?$/;
+
 /**
- * @internal
+ * Comparing a field with `<`, `<=`, `>` or `>=` to a number casts it to `FLOAT`, so both are compared by value.
+ * Values which are not numbers are `NULL` and never match.
+ * @param key
+ * @param operator
+ * @param value
  */
-export const defaultDocumentsCollection = 'documents';
+const comparedField = (key: string, operator: string, value: any) => {
+  if (key === 'modification_date' || rangeOperators.indexOf(operator) === -1 || !numberRegExp.test(`${value}`)) {
+    return keyToDBField(key);
+  }
+  return `TRY_CAST(${keyToDBField(key)} AS FLOAT)`;
+};
+
+const queryOperator = (operator: string, operators: string[]) => {
+  if (operators.indexOf(operator) === -1) {
+    throw new jIO.util.jIOError(
+      `Unsupported query operator: ${operator}`,
+      400
+    );
+  }
+  return operator;
+};
+
+const parseSimpleQuery = (query: IJioSimpleQuery, key = '', param: SqlParam) => {
+  const operator = queryOperator(query.operator || '=', simpleOperators);
+  if (isWildcard(query.value) && likeOperators[operator]) {
+    return `${keyToDBField(key)} ${likeOperators[operator]} ${param(new NVarCharValue(escapeLike(query.value)))} ESCAPE '\\'`;
+  }
+  return `${comparedField(key, operator, query.value)} ${operator} ${param(new NVarCharValue(query.value))}`;
+};
+
+const parseComplexQuery = (query: IJioComplexQuery, param: SqlParam) => {
+  const operator = queryOperator(query.operator, complexOperators);
+  if (operator === 'NOT') {
+    // jIO only negates the first query of the list
+    return `NOT (${compileQuery(query.query_list[0], query.key, param)})`;
+  }
+  return `(${query.query_list.map(subquery => compileQuery(subquery, query.key, param)).join(` ${operator} `)})`;
+};
+
+const compileQuery = (parsed: IJioSimpleQuery|IJioComplexQuery, key: string|undefined, param: SqlParam): string => {
+  if (parsed.type === 'complex') {
+    return parseComplexQuery(parsed as IJioComplexQuery, param);
+  }
+  else {
+    return parseSimpleQuery(parsed as IJioSimpleQuery, parsed.key || key, param);
+  }
+};
+
 /**
+ * Compile a jIO query to a parameterized SQL condition.
  * @internal
+ * @param parsed
+ * @param key
  */
-export const defaultAttachmentsCollection = 'attachments';
-
-export interface IMSSQLStorageOptions extends config {
-  type: 'mssql';
-  /**
-   * Table name for all documents.
-   */
-  documentsTableName?: string;
-  /**
-   * Table name for attachments.
-   */
-  attachmentsTableName?: string;
-  /**
-   * Add created/updatedAt timestamps for every document.
-   * Enabled by default for both
-   */
-  timestamps?: boolean;
-}
+export const parseQuery = (parsed: IJioSimpleQuery|IJioComplexQuery, key?: string): ISqlQuery => {
+  const values: MSSQLValue[] = [];
+  const param = (value: MSSQLValue) => {
+    values.push(value);
+    return `@p${values.length}`;
+  };
+  const text = compileQuery(parsed, key, param);
+  return {text, values};
+};
 
 const createDatabase = (databaseName: string) => `CREATE DATABASE "${databaseName}"`;
 
@@ -56,7 +135,7 @@ const createDocumentsTable = (tableName: string, timestamps: boolean) => {
   return `CREATE TABLE "${tableName}" (
     id INT NOT NULL IDENTITY(1,1) PRIMARY KEY,
     ${idKey} VARCHAR(255) NOT NULL,
-    ${valueKey} TEXT${timestamps ? `, ${createdAtKey} DATETIME DEFAULT GETDATE(), ${updatedAtKey} DATETIME` : ''}
+    ${valueKey} NVARCHAR(MAX) CHECK (ISJSON(${valueKey}) > 0)${timestamps ? `, ${createdAtKey} DATETIME DEFAULT GETDATE(), ${updatedAtKey} DATETIME` : ''}
   )`;
 };
 
@@ -65,7 +144,23 @@ const createAttachmentsTable = (tableName: string, timestamps: boolean) => {
     id INT NOT NULL IDENTITY(1,1) PRIMARY KEY,
     ${idKey} VARCHAR(255) NOT NULL,
     name VARCHAR(255) NOT NULL,
-    ${valueKey} TEXT${timestamps ? `, ${createdAtKey} DATETIME DEFAULT GETDATE(), ${updatedAtKey} DATETIME` : ''}
+    ${valueKey} TEXT,
+    ${dataKey} VARBINARY(MAX),
+    ${contentTypeKey} VARCHAR(255),
+    ${lengthKey} INT,
+    ${digestKey} VARCHAR(255)${timestamps ? `, ${createdAtKey} DATETIME DEFAULT GETDATE(), ${updatedAtKey} DATETIME` : ''}
+  )`;
+};
+
+/**
+ * Attachments written with a stream are appended to an upload, then copied to the attachments table once complete
+ * @param tableName
+ */
+const createUploadsTable = (tableName: string) => {
+  return `CREATE TABLE "${tableName}" (
+    id INT NOT NULL IDENTITY(1,1) PRIMARY KEY,
+    ${dataKey} VARBINARY(MAX) NOT NULL DEFAULT 0x,
+    startedAt DATETIME DEFAULT GETDATE()
   )`;
 };
 
@@ -75,97 +170,372 @@ const indexTable = (tableName: string, fields: string[]) => {
   return `CREATE INDEX ${indexName(tableName, fields)} ON ${tableName} (${fields.join(', ')})`;
 };
 
+/**
+ * Keep only the latest row of each key, so the unique index can be created on older tables
+ * @param tableName
+ * @param keys
+ */
+const removeDuplicates = (tableName: string, keys: string[]) => {
+  return `DELETE a FROM ${tableName} a JOIN ${tableName} b ON ${keys.map(key => `a.${key} = b.${key}`).join(' AND ')} AND a.id < b.id`;
+};
+
+const uniqueIndexTable = (tableName: string, keys: string[]) => {
+  return `CREATE UNIQUE INDEX ${tableName}_unique_${keys.join('_')} ON ${tableName} (${keys.join(', ')})`;
+};
+
+/**
+ * Attachments are numbered from 1 and incremented every time they are replaced
+ * @param tableName
+ */
+const addRevisionColumn = (tableName: string) => {
+  return `ALTER TABLE ${tableName} ADD revision INT NOT NULL DEFAULT 1`;
+};
+
+/**
+ * Attachments are saved as binary data, the former data URI column is kept until they are migrated
+ * @param tableName
+ */
+const addBinaryColumns = (tableName: string) => {
+  return `ALTER TABLE ${tableName} ADD ${dataKey} VARBINARY(MAX), ${contentTypeKey} VARCHAR(255)`;
+};
+
+/**
+ * Size and digest of attachments, so they can be compared without reading their content
+ * @param tableName
+ */
+const addMetadataColumns = (tableName: string) => {
+  return `ALTER TABLE ${tableName} ADD ${lengthKey} INT, ${digestKey} VARCHAR(255)`;
+};
+
+/**
+ * Removed documents are kept as tombstones with their removal date when `softDelete` is enabled
+ * @param tableName
+ */
+const addDeletedAtColumn = (tableName: string) => {
+  return `ALTER TABLE ${tableName} ADD ${deletedAtKey} DATETIME NULL`;
+};
+
+/**
+ * Changes of documents are numbered by an identity column, so they can be read in order from a cursor
+ * @param tableName
+ */
+const createChangesTable = (tableName: string) => {
+  return `CREATE TABLE "${tableName}" (
+    seq BIGINT NOT NULL IDENTITY(1,1) PRIMARY KEY,
+    ${idKey} VARCHAR(255) NOT NULL,
+    type VARCHAR(6) NOT NULL,
+    changedAt DATETIME DEFAULT GETDATE()
+  )`;
+};
+
+const dropChangesTrigger = (tableName: string) => {
+  return `IF OBJECT_ID('${tableName}_trigger', 'TR') IS NOT NULL DROP TRIGGER ${tableName}_trigger`;
+};
+
+/**
+ * Record the changes of documents from a trigger, so writes made outside of the storage are listed as well.
+ * With `softDelete`, documents are removed by setting their removal date and tombstones are purged silently
+ * @param tableName
+ * @param documentsTable
+ * @param softDelete
+ */
+const createChangesTrigger = (tableName: string, documentsTable: string, softDelete: boolean) => {
+  const deleted = softDelete ? `i.${idKey} IS NULL OR i.${deletedAtKey} IS NOT NULL` : `i.${idKey} IS NULL`;
+  return `CREATE TRIGGER ${tableName}_trigger ON ${documentsTable} AFTER INSERT, UPDATE, DELETE AS BEGIN SET NOCOUNT ON; ` +
+    `INSERT INTO ${tableName} (${idKey}, type) SELECT COALESCE(i.${idKey}, d.${idKey}), ` +
+    `CASE WHEN d.${idKey} IS NULL THEN 'insert' WHEN ${deleted} THEN 'delete' ELSE 'update' END ` +
+    `FROM inserted i FULL OUTER JOIN deleted d ON i.${idKey} = d.${idKey}` +
+    (softDelete ? ` WHERE NOT (i.${idKey} IS NULL AND d.${deletedAtKey} IS NOT NULL)` : '') +
+    '; END';
+};
+
+const createAttachmentsHistoryTable = (tableName: string, timestamps: boolean) => {
+  return `CREATE TABLE "${tableName}" (
+    id INT NOT NULL IDENTITY(1,1) PRIMARY KEY,
+    ${idKey} VARCHAR(255) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    revision INT NOT NULL,
+    ${valueKey} TEXT,
+    ${dataKey} VARBINARY(MAX),
+    ${contentTypeKey} VARCHAR(255),
+    ${lengthKey} INT,
+    ${digestKey} VARCHAR(255)${timestamps ? `, ${createdAtKey} DATETIME, ${updatedAtKey} DATETIME` : ''}
+  )`;
+};
+
+const createDocumentsHistoryTable = (tableName: string) => {
+  return `CREATE TABLE "${tableName}" (
+    id INT NOT NULL IDENTITY(1,1) PRIMARY KEY,
+    ${idKey} VARCHAR(255) NOT NULL,
+    revision INT NOT NULL,
+    ${valueKey} NVARCHAR(MAX),
+    operation VARCHAR(6) NOT NULL,
+    replacedAt DATETIME DEFAULT GETDATE()
+  )`;
+};
+
+const indexKeys = (index: string|string[]) => typeof index === 'string' ? [index] : index;
+
+const indexColumnName = (key: string) => key === 'modification_date' ? createdAtKey : `${valueKey}_${key.replace(/\W/g, '_')}`;
+
+/**
+ * List the document fields used in indexes
+ * @internal
+ * @param indexes
+ */
+export const indexedFields = (indexes: Array<string|string[]>) => {
+  return indexes.reduce((keys: string[], index) => {
+    return keys.concat(indexKeys(index).filter(key => key !== 'modification_date' && keys.indexOf(key) === -1));
+  }, []);
+};
+
+/**
+ * Computed column using the same expression as queries, so SQL Server can match it with the index
+ * @internal
+ * @param tableName
+ * @param key
+ */
+export const addIndexColumn = (tableName: string, key: string) => {
+  return `ALTER TABLE ${tableName} ADD ${indexColumnName(key)} AS ${keyToDBField(key)}`;
+};
+
+/**
+ * @internal
+ * @param tableName
+ * @param index
+ */
+export const indexFields = (tableName: string, index: string|string[]) => {
+  return indexTable(tableName, indexKeys(index).map(indexColumnName));
+};
+
 /**
  * @internal
  */
 export const resultAsJson = doc => JSON.parse(doc[valueKey] || '{}');
 
+/**
+ * Select only a range of the binary data, positions start at `1` in SQL
+ * @internal
+ * @param range
+ */
+export const dataRange = ({start, end}: IAttachmentRange) => {
+  if (end !== Infinity) {
+    return `SUBSTRING(${dataKey}, ${start + 1}, ${end - start}) AS ${dataKey}`;
+  }
+  return start ? `SUBSTRING(${dataKey}, ${start + 1}, DATALENGTH(${dataKey})) AS ${dataKey}` : dataKey;
+};
+
+/**
+ * Documents are merged on their id, `createdAt` keeps its default value on insert and is left untouched on update
+ * @param table
+ * @param id
+ * @param value
+ * @param timestamps
+ * @param softDelete
+ */
+const upsertDocument = (table: string, id: string, value: string, timestamps: boolean, softDelete: boolean) => {
+  let update = `${valueKey}=source.${valueKey}`;
+  if (timestamps) {
+    update = `${valueKey}=source.${valueKey}, ${updatedAtKey}=GETDATE()`;
+  }
+  if (softDelete) {
+    // saving a removed document brings it back
+    update += `, ${deletedAtKey}=NULL`;
+  }
+  // HOLDLOCK prevents concurrent merges of the same id from both inserting
+  return `MERGE ${table} WITH (HOLDLOCK) AS target ` +
+    `USING (SELECT ${id} AS ${idKey}, ${value} AS ${valueKey}) AS source ON target.${idKey} = source.${idKey} ` +
+    `WHEN MATCHED THEN UPDATE SET ${update} ` +
+    `WHEN NOT MATCHED THEN INSERT (${idKey}, ${valueKey}) VALUES (source.${idKey}, source.${valueKey});`;
+};
+
+/**
+ * Attachments are merged on their id and name
+ * @param table
+ * @param values
+ * @param from
+ * @param timestamps
+ */
+const upsertAttachment = (table: string, values: string[], from: string|undefined, timestamps: boolean) => {
+  const [id, name, data, contentType, length, digest] = values;
+  // the data URI of an attachment saved by a previous version is cleared
+  let update = `${dataKey}=source.${dataKey}, ${contentTypeKey}=source.${contentTypeKey}, ` +
+    `${lengthKey}=source.${lengthKey}, ${digestKey}=source.${digestKey}, ${valueKey}=NULL, revision=target.revision + 1`;
+  if (timestamps) {
+    update += `, ${updatedAtKey}=GETDATE()`;
+  }
+  return `MERGE ${table} WITH (HOLDLOCK) AS target ` +
+    `USING (SELECT ${id} AS ${idKey}, ${name} AS name, ${data} AS ${dataKey}, ${contentType} AS ${contentTypeKey}, ` +
+    `${length} AS ${lengthKey}, ${digest} AS ${digestKey}${from ? ` FROM ${from}` : ''}) AS source ` +
+    `ON target.${idKey} = source.${idKey} AND target.name = source.name ` +
+    `WHEN MATCHED THEN UPDATE SET ${update} ` +
+    `WHEN NOT MATCHED THEN INSERT (${idKey}, name, ${dataKey}, ${contentTypeKey}, ${lengthKey}, ${digestKey}) ` +
+    `VALUES (source.${idKey}, source.name, source.${dataKey}, source.${contentTypeKey}, source.${lengthKey}, source.${digestKey});`;
+};
+
+/**
+ * @internal
+ */
+export const mssqlDialect: ISqlDialect = {
+  placeholder: index => `@p${index}`,
+  now: 'GETDATE()',
+  daysAgo: days => `DATEADD(day, -${days}, GETDATE())`,
+  condition: (parsed, param) => compileQuery(parsed, undefined, param),
+  sortField: key => keyToDBField(key),
+  // OFFSET is only allowed with an ORDER BY clause, which is always added with a limit
+  limit: (count, offset = '0') => ` OFFSET ${offset} ROWS FETCH NEXT ${count} ROWS ONLY`,
+  resultAsJson: document => resultAsJson(document),
+  upsertDocument,
+  upsertAttachment,
+  dataRange: range => dataRange(range),
+  dataLength: `DATALENGTH(${dataKey})`,
+  dataSubstring: (from, length) => `SUBSTRING(${dataKey}, ${from}, ${length})`,
+  createUpload: table => `INSERT INTO ${table} DEFAULT VALUES; SELECT SCOPE_IDENTITY() AS id`,
+  appendChunk: (table, chunk, id) => `UPDATE ${table} SET ${dataKey}.WRITE(${chunk}, NULL, NULL) WHERE id=${id}`,
+  uploadSource: (table, id) => `${table} WHERE id=${id}`
+};
+
+/**
+ * Binary values are sent as `VARBINARY(MAX)`, numbers as `INT`, dates as `DATETIME`, other values as `VARCHAR`
+ * @param value
+ */
+const inputType = (value: string|number|Buffer|Date|null) => {
+  if (typeof value === 'number') {
+    return Int;
+  }
+  if (value instanceof Date) {
+    return DateTime;
+  }
+  return Buffer.isBuffer(value) ? VarBinary(MAX) : VarChar;
+};
+
+// unique index, primary key, foreign key or check, and NOT NULL violations
+const constraintErrorNumbers = [2601, 2627, 547, 515];
+const connectionErrorCodes = ['ELOGIN', 'ETIMEOUT', 'ESOCKET', 'ECONNCLOSED', 'ENOTOPEN', 'EINSTLOOKUP'];
+
+/**
+ * `409` for constraint violations, `503` when the connection is lost
+ * or cannot be established, `500` otherwise.
+ * @param error
+ * @param defaultStatus
+ */
+const errorStatus = (error: any, defaultStatus: number) => {
+  if (constraintErrorNumbers.indexOf(error.number) !== -1) {
+    return 409;
+  }
+  if (error.name === 'ConnectionError' || connectionErrorCodes.indexOf(error.code) !== -1) {
+    return 503;
+  }
+  return defaultStatus;
+};
+
+/**
+ * Convert a database error to a jIO error with a meaningful status code
+ * @internal
+ * @param error
+ * @param defaultStatus Status code for unknown errors
+ */
+export const toJioError = (error: any, defaultStatus = 500) => {
+  if (error instanceof jIO.util.jIOError) {
+    return error;
+  }
+  const {message = 'Unknown database error'} = error || {};
+  return new jIO.util.jIOError(message, errorStatus(error || {}, defaultStatus));
+};
+
 /**
  * Execute queries within a transaction
  * @internal
- * @param connection
- * @param transactions
+ * @param pool
+ * @param transactions Run the queries with requests of the transaction
+ * @param ignoreErrors Log errors instead of rejecting
  */
-export const safeTransaction = async (pool: ConnectionPool, transactions: (request: Request) => Promise<any>) => {
+export const safeTransaction = async (
+  pool: ConnectionPool, transactions: (transaction: Transaction) => Promise<any>, ignoreErrors = false
+) => {
   const transaction = new Transaction(pool);
   try {
     await transaction.begin();
-    const request = new Request(transaction);
-    await transactions(request);
+    await transactions(transaction);
     await transaction.commit();
   }
   catch (error) {
+    await transaction.rollback().catch(() => {});
+    if (!ignoreErrors) {
+      throw toJioError(error);
+    }
     console.error(error);
-    await transaction.rollback();
   }
 };
 
-const requireOptionServer = (options: IMSSQLStorageOptions) => {
-  if (typeof options.server !== 'string' || !options.server) {
-    throw new Error('"server" must be a non-empty string');
+/**
+ * Run a query and convert its errors
+ * @internal
+ * @param query
+ */
+export const safeQuery = async <T>(query: () => Promise<T>) => {
+  try {
+    return await query();
   }
-};
-
-const requireOptionDatabase = (options: IMSSQLStorageOptions) => {
-  if (typeof options.database !== 'string' || !options.database) {
-    throw new Error('"database" must be a non-empty string');
+  catch (error) {
+    throw toJioError(error);
   }
 };
 
-const requireOptionTableNames = (options: IMSSQLStorageOptions) => {
-  if (!options.documentsTableName) {
-    options.documentsTableName = defaultDocumentsCollection;
-  }
-  if (!options.attachmentsTableName) {
-    options.attachmentsTableName = defaultAttachmentsCollection;
-  }
+/**
+ * Rows of the first result set, and number of rows affected by all statements
+ * @internal
+ * @param result
+ */
+export const queryResult = <T>(result?: IResult<T>): ISqlResult<T> => {
+  const {recordset = [], rowsAffected = []} = result || {} as IResult<T>;
+  return {rows: recordset, rowCount: rowsAffected.reduce((total, count) => total + count, 0)};
 };
 
-const queryLimit = (options: IJioQueryOptions) => {
-  return options.limit ? `OFFSET ${options.limit[0] || 0} ROWS FETCH NEXT ${options.limit[1] || 100} ROWS ONLY` : '';
+/**
+ * Values are bound to the `@p1`, `@p2`... placeholders of the dialect
+ * @param request
+ * @param values
+ */
+const bindValues = (request: Request, values: MSSQLValue[]) => {
+  values.forEach((value, index) => {
+    if (value instanceof NVarCharValue) {
+      request.input(`p${index + 1}`, NVarChar, value.value);
+    }
+    else {
+      request.input(`p${index + 1}`, inputType(value), value);
+    }
+  });
+  return request;
 };
 
-const queryParseDocument = (document: any, includeDoc: boolean, selectList: string[]) => {
-  const value: any = {
-    id: document[idKey]
-  };
-  const doc = resultAsJson(document);
-  if (includeDoc) {
-    value.doc = doc;
-  }
-  else if (selectList.length) {
-    value.value = {};
-    selectList.forEach(key => value.value[key] = doc[key]);
+const requireOptionServer = (options: IMSSQLStorageOptions) => {
+  if (typeof options.server !== 'string' || !options.server) {
+    throw new Error('"server" must be a non-empty string');
   }
-  return value;
 };
 
 /**
  * @internal
  */
-export class MSSQLStorage implements IJioStorage {
-  private _dbPromise: IQueue<ConnectionPool>;
-  private _pool: ConnectionPool;
-  private _documentsTable: string;
-  private _attachmentsTable: string;
-  private _timestamps = true;
-
+export class MSSQLStorage extends SqlStorage<ConnectionPool> {
   /**
    * Initiate a MSSQL Storage.
    * @param options Storage options
    */
   constructor(options: IMSSQLStorageOptions) {
     requireOptionServer(options);
-    requireOptionDatabase(options);
-    requireOptionTableNames(options);
-    this._documentsTable = options.documentsTableName!;
-    this._attachmentsTable = options.attachmentsTableName!;
-    if (options.timestamps === false) {
-      this._timestamps = false;
-    }
+    super(options, 'MSSQL');
     this._dbPromise = this.initDb(options);
   }
 
+  /**
+   * @internal
+   */
+  protected dialect() {
+    return mssqlDialect;
+  }
+
   /**
    * @internal
    */
@@ -195,186 +565,123 @@ export class MSSQLStorage implements IJioStorage {
   private initTables(options: IMSSQLStorageOptions) {
     const pool = new ConnectionPool(options);
     return getQueue()
-      .push(() => promiseToQueue(pool.connect()))
+      .push(() => promiseToQueue(pool.connect().catch(error => {
+        throw toJioError(error, 503);
+      })))
       .push(async () => {
         const request = pool.request();
         await (request.query(createDocumentsTable(this._documentsTable, this._timestamps)).catch(() => {}));
         await (request.query(createAttachmentsTable(this._attachmentsTable, this._timestamps)).catch(() => {}));
-
-        // create indexes on id keys
-        await (request.query(indexTable(this._documentsTable, [idKey])).catch(() => {}));
+        await (request.query(createUploadsTable(this._uploadsTable)).catch(() => {}));
+
+        // documents are merged on their id, attachments on their id and name
+        await (request.query(removeDuplicates(this._documentsTable, [idKey])).catch(() => {}));
+        await (request.query(uniqueIndexTable(this._documentsTable, [idKey])).catch(() => {}));
+        await (request.query(removeDuplicates(this._attachmentsTable, [idKey, 'name'])).catch(() => {}));
+        await (request.query(uniqueIndexTable(this._attachmentsTable, [idKey, 'name'])).catch(() => {}));
+        await (request.query(addRevisionColumn(this._attachmentsTable)).catch(() => {}));
+        await (request.query(addBinaryColumns(this._attachmentsTable)).catch(() => {}));
+        await (request.query(addMetadataColumns(this._attachmentsTable)).catch(() => {}));
+        if (this._attachmentHistory) {
+          await (request.query(createAttachmentsHistoryTable(this._attachmentsHistoryTable, this._timestamps)).catch(() => {}));
+          await (request.query(uniqueIndexTable(this._attachmentsHistoryTable, [idKey, 'name', 'revision'])).catch(() => {}));
+          await (request.query(addBinaryColumns(this._attachmentsHistoryTable)).catch(() => {}));
+          await (request.query(addMetadataColumns(this._attachmentsHistoryTable)).catch(() => {}));
+        }
+        // create index on id key for attachments
         await (request.query(indexTable(this._attachmentsTable, [idKey])).catch(() => {}));
-        // create index on id key + name for attachments
-        await (request.query(indexTable(this._attachmentsTable, [idKey, 'name'])).catch(() => {}));
+        await this.initTombstones(request);
+        await this.initHistory(request);
+
+        // additional indexes from options
+        for (const key of indexedFields(this._indexes)) {
+          await (request.query(addIndexColumn(this._documentsTable, key)).catch(() => {}));
+        }
+        for (const index of this._indexes) {
+          await (request.query(indexFields(this._documentsTable, index)).catch(() => {}));
+        }
+        // the trigger is created last, so removing duplicates is not recorded
+        await this.initChanges(request);
       })
       .push(() => this._pool = pool);
   }
 
   /**
-   * Get the current active pool
+   * Add the removal date column with `softDelete`, indexed as tombstones are listed and purged by date
    * @internal
    */
-  private pool() {
-    return getQueue().push(() => this._pool ? this._pool : this._dbPromise);
+  private async initTombstones(request: Request) {
+    if (this._softDelete) {
+      await (request.query(addDeletedAtColumn(this._documentsTable)).catch(() => {}));
+      await (request.query(indexTable(this._documentsTable, [deletedAtKey])).catch(() => {}));
+    }
   }
 
   /**
-   * Prepare a request
+   * Create the table of previous versions of documents with `history`
    * @internal
    */
-  private request() {
-    return this.pool().push(pool => pool.request());
+  private async initHistory(request: Request) {
+    if (this._history) {
+      await (request.query(createDocumentsHistoryTable(this._documentsHistoryTable)).catch(() => {}));
+      await (request.query(uniqueIndexTable(this._documentsHistoryTable, [idKey, 'revision'])).catch(() => {}));
+    }
   }
 
   /**
-   * Execute a transaction.
+   * Create the changes table and the trigger recording them with `changeFeed`, or drop the trigger without it
    * @internal
-   * @param sql
-   * @param values
    */
-  private executeTransaction(sql: string, values: {[key: string]: string} = {}) {
-    return this.pool().push(pool => {
-      return promiseToQueue(safeTransaction(pool, request => {
-        Object.keys(values).forEach(key => {
-          request.input(key, VarChar, values[key]);
-        });
-        return request.query(sql);
-      }));
-    });
+  private async initChanges(request: Request) {
+    await (request.query(dropChangesTrigger(this._changesTable)).catch(() => {}));
+    if (this._changeFeed) {
+      await (request.query(createChangesTable(this._changesTable)).catch(() => {}));
+      await (request.query(createChangesTrigger(this._changesTable, this._documentsTable, this._softDelete)).catch(() => {}));
+    }
   }
 
   /**
-   * Execute a query.
+   * Execute a query
    * @internal
-   * @param sql
-   * @param values
+   * @param query
    */
-  private executeQuery(sql: string, values: {[key: string]: string} = {}) {
-    return this.request().push(request => {
-      Object.keys(values).forEach(key => {
-        request.input(key, VarChar, values[key]);
-      });
-      return promiseToQueue(request.query(sql));
-    });
-  }
-
-  get(id: string) {
-    return this.executeQuery(
-      `SELECT * FROM ${this._documentsTable} WHERE ${idKey}=@id`,
-      {id}
-    ).push(result => {
-      return result && result.recordset.length ? resultAsJson(result.recordset[0]) : null;
-    });
+  protected executeQuery<T>(query: ISqlQuery) {
+    return this.pool().push(pool => {
+      return promiseToQueue(this.track(safeQuery(() => bindValues(pool.request(), query.values).query<T>(query.text))));
+    }).push(result => queryResult<T>(result));
   }
 
-  put(id: string, data: any) {
-    return this.get(id)
-      .push(document => {
-        if (!document) {
-          return this.executeTransaction(
-            `INSERT INTO ${this._documentsTable} (${idKey}, ${valueKey}) VALUES (@id, @data)`,
-            {id, data: JSON.stringify(data)}
-          );
-        }
-
-        let update = `UPDATE ${this._documentsTable} SET ${valueKey}=@data WHERE ${idKey}=@id`;
-        if (this._timestamps) {
-          update = `UPDATE ${this._documentsTable} SET ${valueKey}=@data, ${updatedAtKey}=GETDATE() WHERE ${idKey}=@id`;
+  /**
+   * Execute several queries, in order, within a single transaction.
+   * @internal
+   * @param queries
+   */
+  protected executeTransaction(queries: ISqlQuery[]) {
+    let rowCount = 0;
+    return this.pool().push(pool => {
+      return promiseToQueue(this.track(safeTransaction(pool, async transaction => {
+        // each query has its own request, so their values do not collide
+        for (const query of queries) {
+          rowCount += queryResult(await bindValues(new Request(transaction), query.values).query(query.text)).rowCount;
         }
-        return this.executeTransaction(update, {id, data: JSON.stringify(data)});
-      })
-      .push(() => {
-        return id;
-      });
-  }
-
-  remove(id: string) {
-    return this.executeTransaction(
-      `DELETE FROM ${this._documentsTable} WHERE ${idKey}=@id`,
-      {id}
-    ).push(() => {
-      return id;
-    });
-  }
-
-  getAttachment(id: string, name: string) {
-    return this.executeQuery(
-      `SELECT * FROM ${this._attachmentsTable} WHERE ${idKey}=@id AND name=@name`,
-      {id, name}
-    ).push(result => {
-      if (result.recordset && result.recordset.length) {
-        return jIO.util.dataURItoBlob(result.recordset[0][valueKey]);
-      }
-      throw new jIO.util.jIOError(
-        `Cannot find attachment: ${id}`,
-        404
-      );
-    });
-  }
-
-  putAttachment(id: string, name: string, blob: Blob) {
-    return getQueue()
-      .push(() => {
-        return jIO.util.readBlobAsDataURL(blob);
-      })
-      .push(data => {
-        return this.executeTransaction(
-          `INSERT INTO ${this._attachmentsTable} (${idKey}, name, ${valueKey}) VALUES (@id, @name, @data)`,
-          {id, name, data: data.target.result}
-        );
-      });
-  }
-
-  removeAttachment(id: string, name: string) {
-    return this.executeTransaction(
-      `DELETE FROM ${this._attachmentsTable} WHERE ${idKey}=@id AND name=@name`,
-      {id, name}
-    ).push(() => {
-      return id;
-    });
-  }
-
-  allAttachments(id: string) {
-    return this.executeQuery(
-      `SELECT * FROM ${this._attachmentsTable} WHERE ${idKey}=@id`,
-      {id}
-    ).push(result => {
-      const attachments = {};
-      if (result.recordset && result.recordset.length) {
-        result.recordset.forEach(document => {
-          attachments[document.name] = {};
-        });
-      }
-      return attachments;
-    });
+      }, this._ignoreErrors)));
+    }).push(() => rowCount);
   }
 
   /**
-   * MSSQL can not search on json objects, therefore we can only list the documents
-   * @param name The name of the capacity
+   * @internal
    */
-  hasCapacity(name: string) {
-    return name === 'list' || name === 'include' ||
-      name === 'select' || name === 'limit';
-  }
-
-  buildQuery(options: IJioQueryOptions = {query: ''}) {
-    const limit = queryLimit(options);
-    const selectList = (options.select_list || []).slice();
-    const sql = `SELECT * FROM ${this._documentsTable} ${limit}`;
-
-    return this.executeQuery(sql).push(result => {
-      return result.recordset.map(document => queryParseDocument(document, options.include_docs || false, selectList));
-    });
+  protected endPool(pool: ConnectionPool) {
+    return pool.close();
   }
 }
 
 export interface IMSSQLOptions extends IClearRoadOptions {
   localStorage: IMSSQLStorageOptions;
   /**
-   * Microsoft SQL Server does NOT support JSON queries
+   * Microsoft SQL Server 2016+ supports JSON queries
    */
-  useQueryStorage: true;
+  useQueryStorage?: false;
 }
 
 const storageName = 'mssql';
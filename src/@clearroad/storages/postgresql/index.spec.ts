@@ -7,14 +7,21 @@ import * as jioImport from 'jio';
 const addStorageStub = sinon.stub(jioImport.jIO, 'addStorage');
 
 import * as pg from 'pg';
+import { Readable, Writable } from 'stream';
 
+import { describeServerConformance } from '../conformance';
 import * as specs from './index';
+import * as shutdown from '../shutdown';
 import storageName, {
   PostgreSQLStorage, IPostgreSQLStorageOptions,
-  defaultDocumentsCollection, defaultAttachmentsCollection,
-  parseQuery, safeTransaction, safeQuery,
-  resultAsJson, valueKey
+  parseQuery, inferFieldType, indexFields, toJioError, safeTransaction, safeQuery,
+  resultAsJson, dataRange
 } from './index';
+import {
+  defaultDocumentsCollection, defaultAttachmentsCollection, defaultAttachmentsHistoryCollection, defaultDocumentsHistoryCollection,
+  valueKey, deletedAtKey, defaultTombstoneRetention, defaultChangesLimit
+} from '../sql';
+import { attachmentDigest } from '../local';
 
 let stubs: sinon.SinonStub[] = [];
 
@@ -33,6 +40,9 @@ class FakePool {
   connect() {
     return Promise.resolve(new FakeClient());
   }
+  end() {
+    return Promise.resolve();
+  }
 }
 
 class FakeClient {
@@ -56,6 +66,20 @@ const options: IPostgreSQLStorageOptions = {
   host: 'url'
 };
 
+const readStream = (stream: Readable) => new Promise<Buffer>((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  stream.on('data', chunk => chunks.push(chunk as Buffer));
+  stream.on('end', () => resolve(Buffer.concat(chunks)));
+  stream.on('error', reject);
+});
+
+const writeStream = (stream: Writable, chunks: Buffer[]) => new Promise((resolve, reject) => {
+  stream.on('finish', resolve);
+  stream.on('error', reject);
+  chunks.forEach(chunk => stream.write(chunk));
+  stream.end();
+});
+
 const clientStub = (storage: PostgreSQLStorage) => {
   const queue = new FakeQueue();
   const client = new FakeClient();
@@ -85,26 +109,142 @@ describe(storageName, () => {
       const date = new Date();
       const query = `portal_type:("Billing Period Message" OR "Road Account Message" OR "Road Event Message" OR "Road Message" OR "Road Report Request") AND grouping_reference:"data" AND modification_date: != "${date.toJSON()}"`;
       const parsed = jioImport.jIO.QueryFactory.create(query);
-      expect(parseQuery(parsed)).to.equal(
-        '(' +
+      expect(parseQuery(parsed)).to.deep.equal({
+        text: '(' +
           '(' +
-            "value ->> 'portal_type' = 'Billing Period Message' " +
-            "OR value ->> 'portal_type' = 'Road Account Message' " +
-            "OR value ->> 'portal_type' = 'Road Event Message' " +
-            "OR value ->> 'portal_type' = 'Road Message' " +
-            "OR value ->> 'portal_type' = 'Road Report Request'" +
+            "value ->> 'portal_type' = $1 " +
+            "OR value ->> 'portal_type' = $2 " +
+            "OR value ->> 'portal_type' = $3 " +
+            "OR value ->> 'portal_type' = $4 " +
+            "OR value ->> 'portal_type' = $5" +
           ') ' +
-          "AND value ->> 'grouping_reference' = 'data' " +
-          `AND createdAt != '${date.toJSON()}'` +
-        ')'
-      );
+          "AND value ->> 'grouping_reference' = $6 " +
+          'AND createdAt != $7' +
+        ')',
+        values: [
+          'Billing Period Message',
+          'Road Account Message',
+          'Road Event Message',
+          'Road Message',
+          'Road Report Request',
+          'data',
+          date.toJSON()
+        ]
+      });
     });
 
     it('should parse simple queries', () => {
       const query = 'date1: >= 1 AND date2: > 2 AND date3: < 3 AND date4: <= 4';
       const parsed = jioImport.jIO.QueryFactory.create(query);
-      expect(parseQuery(parsed)).to.equal(
-        "(value ->> 'date1' >= '1' AND value ->> 'date2' > '2' AND value ->> 'date3' < '3' AND value ->> 'date4' <= '4')"
+      expect(parseQuery(parsed)).to.deep.equal({
+        text: "((value ->> 'date1')::numeric >= $1 AND (value ->> 'date2')::numeric > $2 " +
+          "AND (value ->> 'date3')::numeric < $3 AND (value ->> 'date4')::numeric <= $4)",
+        values: ['1', '2', '3', '4']
+      });
+    });
+
+    it('should cast fields with a configured type', () => {
+      const parsed = jioImport.jIO.QueryFactory.create('mileage: "100" AND active: "true" AND title: > "a"');
+      expect(parseQuery(parsed, undefined, {mileage: 'numeric', active: 'boolean'})).to.deep.equal({
+        text: "((value ->> 'mileage')::numeric = $1 AND (value ->> 'active')::boolean = $2 AND value ->> 'title' > $3)",
+        values: ['100', 'true', 'a']
+      });
+    });
+
+    it('should prefer configured types over inferred types', () => {
+      const parsed = jioImport.jIO.QueryFactory.create('reference: > "100"');
+      expect(parseQuery(parsed, undefined, {reference: 'text'}).text).to.equal("value ->> 'reference' > $1");
+    });
+
+    it('should parse wildcard queries', () => {
+      const parsed = jioImport.jIO.QueryFactory.create('title: "%Road_%" AND description: != "%test"');
+      expect(parseQuery(parsed)).to.deep.equal({
+        text: "(value ->> 'title' ILIKE $1 AND value ->> 'description' NOT ILIKE $2)",
+        values: ['%Road\\_%', '%test']
+      });
+    });
+
+    it('should parse NOT queries', () => {
+      const parsed: any = {
+        type: 'complex',
+        operator: 'NOT',
+        query_list: [{
+          type: 'simple',
+          key: 'title',
+          value: 'test'
+        }]
+      };
+      expect(parseQuery(parsed)).to.deep.equal({
+        text: "NOT (value ->> 'title' = $1)",
+        values: ['test']
+      });
+    });
+
+    it('should not interpolate values', () => {
+      const parsed = jioImport.jIO.QueryFactory.create(`title: "'; DROP TABLE documents; --"`);
+      expect(parseQuery(parsed)).to.deep.equal({
+        text: "value ->> 'title' = $1",
+        values: ["'; DROP TABLE documents; --"]
+      });
+    });
+
+    it('should escape keys', () => {
+      const parsed: any = {
+        type: 'simple',
+        key: "title' OR '1",
+        value: 'value'
+      };
+      expect(parseQuery(parsed).text).to.equal("value ->> 'title'' OR ''1' = $1");
+    });
+
+    it('should reject unknown operators', () => {
+      const parsed: any = {
+        type: 'simple',
+        key: 'title',
+        operator: '= 1; --',
+        value: 'value'
+      };
+      expect(() => parseQuery(parsed)).to.throw('Unsupported query operator: = 1; --');
+    });
+  });
+
+  describe('inferFieldType', () => {
+    it('should infer numbers', () => {
+      expect(inferFieldType('>', '100')).to.equal('numeric');
+      expect(inferFieldType('<=', '-1.5')).to.equal('numeric');
+    });
+
+    it('should infer dates', () => {
+      expect(inferFieldType('>=', '2019-01-23')).to.equal('timestamp');
+      expect(inferFieldType('<', '2019-01-23T10:00:00.000Z')).to.equal('timestamp');
+    });
+
+    it('should default to text', () => {
+      expect(inferFieldType('>', 'abc')).to.equal('text');
+    });
+
+    it('should not infer equality comparisons', () => {
+      expect(inferFieldType('=', '100')).to.equal('text');
+    });
+  });
+
+  describe('indexFields', () => {
+    it('should create a single field index', () => {
+      expect(indexFields('documents', 'state')).to.equal(
+        "CREATE INDEX IF NOT EXISTS documents_index_state ON documents ((value ->> 'state'))"
+      );
+    });
+
+    it('should create a compound index', () => {
+      expect(indexFields('documents', ['source_reference', 'state'])).to.equal(
+        'CREATE INDEX IF NOT EXISTS documents_index_source_reference_state ' +
+        "ON documents ((value ->> 'source_reference'), (value ->> 'state'))"
+      );
+    });
+
+    it('should cast typed fields', () => {
+      expect(indexFields('documents', 'mileage', {mileage: 'numeric'})).to.equal(
+        "CREATE INDEX IF NOT EXISTS documents_index_mileage ON documents (((value ->> 'mileage')::numeric))"
       );
     });
   });
@@ -123,13 +263,55 @@ describe(storageName, () => {
     });
   });
 
+  describe('dataRange', () => {
+    it('should select all the data', () => {
+      expect(dataRange({start: 0, end: Infinity})).to.equal('data');
+    });
+
+    it('should select the data from the start', () => {
+      expect(dataRange({start: 2, end: Infinity})).to.equal('substring(data FROM 3) AS data');
+    });
+
+    it('should select the data from the start to the end', () => {
+      expect(dataRange({start: 2, end: 4})).to.equal('substring(data FROM 3 FOR 2) AS data');
+    });
+  });
+
+  describe('toJioError', () => {
+    it('should return a conflict for constraint violations', () => {
+      const error = toJioError({message: 'duplicate key', code: '23505'});
+      expect(error.message).to.equal('duplicate key');
+      expect(error.status_code).to.equal(409);
+    });
+
+    it('should return unavailable for connection errors', () => {
+      expect(toJioError({code: '08006'}).status_code).to.equal(503);
+      expect(toJioError({code: '57P01'}).status_code).to.equal(503);
+      expect(toJioError({code: 'ECONNREFUSED'}).status_code).to.equal(503);
+    });
+
+    it('should return an internal error otherwise', () => {
+      expect(toJioError({code: '42P01'}).status_code).to.equal(500);
+      expect(toJioError(undefined).status_code).to.equal(500);
+    });
+
+    it('should use the default status for unknown errors', () => {
+      expect(toJioError(new Error('timeout'), 503).status_code).to.equal(503);
+    });
+
+    it('should keep jIO errors', () => {
+      const error = new jioImport.jIO.util.jIOError('not found', 404);
+      expect(toJioError(error)).to.equal(error);
+    });
+  });
+
   describe('safeTransaction', () => {
     let client;
     let queryStub: sinon.SinonStub;
 
     beforeEach(() => {
       client = new FakeClient();
-      queryStub = sinon.stub(client, 'query');
+      queryStub = sinon.stub(client, 'query').returns(Promise.resolve());
       stubs.push(queryStub);
     });
 
@@ -142,7 +324,24 @@ describe(storageName, () => {
 
     describe('failure', () => {
       it('should rollback', async () => {
-        await safeTransaction(client, () => Promise.reject());
+        await safeTransaction(client, () => Promise.reject()).catch(() => {});
+        expect(queryStub.calledWith('ROLLBACK')).to.equal(true);
+      });
+
+      it('should reject with a jIO error', async () => {
+        let error;
+        try {
+          await safeTransaction(client, () => Promise.reject({message: 'duplicate key', code: '23505'}));
+        }
+        catch (err) {
+          error = err;
+        }
+        expect(error.message).to.equal('duplicate key');
+        expect(error.status_code).to.equal(409);
+      });
+
+      it('should resolve when ignoring errors', async () => {
+        await safeTransaction(client, () => Promise.reject(), true);
         expect(queryStub.calledWith('ROLLBACK')).to.equal(true);
       });
     });
@@ -169,8 +368,20 @@ describe(storageName, () => {
     });
 
     describe('failure', () => {
-      it('should return empty result', async () => {
-        const res = await safeQuery(client, () => Promise.reject());
+      it('should reject with a jIO error', async () => {
+        let error;
+        try {
+          await safeQuery(client, () => Promise.reject({message: 'connection lost', code: '08006'}));
+        }
+        catch (err) {
+          error = err;
+        }
+        expect(error.message).to.equal('connection lost');
+        expect(error.status_code).to.equal(503);
+      });
+
+      it('should return empty result when ignoring errors', async () => {
+        const res = await safeQuery(client, () => Promise.reject(), true);
         expect(res.rows.length).to.equal(0);
       });
     });
@@ -237,6 +448,125 @@ describe(storageName, () => {
               expect((storage as any)._timestamps).to.equal(false);
             });
           });
+
+          describe('with "fieldTypes', () => {
+            beforeEach(() => {
+              fakeOptions.fieldTypes = {mileage: 'numeric'};
+            });
+
+            it('should set the field types', () => {
+              const storage = new PostgreSQLStorage(fakeOptions);
+              expect((storage as any)._fieldTypes).to.deep.equal({mileage: 'numeric'});
+            });
+          });
+
+          describe('with "attachmentHistory', () => {
+            beforeEach(() => {
+              fakeOptions.attachmentHistory = true;
+            });
+
+            afterEach(() => {
+              delete fakeOptions.attachmentHistory;
+            });
+
+            it('should keep previous versions of attachments', () => {
+              const storage = new PostgreSQLStorage(fakeOptions);
+              expect((storage as any)._attachmentHistory).to.equal(true);
+              expect((storage as any)._attachmentsHistoryTable).to.equal(defaultAttachmentsHistoryCollection);
+            });
+          });
+
+          describe('with "ignoreErrors', () => {
+            beforeEach(() => {
+              fakeOptions.ignoreErrors = true;
+            });
+
+            afterEach(() => {
+              delete fakeOptions.ignoreErrors;
+            });
+
+            it('should ignore errors', () => {
+              const storage = new PostgreSQLStorage(fakeOptions);
+              expect((storage as any)._ignoreErrors).to.equal(true);
+            });
+          });
+
+          describe('with "softDelete', () => {
+            beforeEach(() => {
+              fakeOptions.softDelete = true;
+              fakeOptions.tombstoneRetention = 7;
+            });
+
+            afterEach(() => {
+              delete fakeOptions.softDelete;
+              delete fakeOptions.tombstoneRetention;
+            });
+
+            it('should keep tombstones', () => {
+              const storage = new PostgreSQLStorage(fakeOptions);
+              expect((storage as any)._softDelete).to.equal(true);
+              expect((storage as any)._tombstoneRetention).to.equal(7);
+            });
+          });
+
+          describe('with "changeFeed', () => {
+            beforeEach(() => {
+              fakeOptions.changeFeed = true;
+            });
+
+            afterEach(() => {
+              delete fakeOptions.changeFeed;
+            });
+
+            it('should record changes', () => {
+              const storage = new PostgreSQLStorage(fakeOptions);
+              expect((storage as any)._changeFeed).to.equal(true);
+              expect((storage as any)._changesTable).to.equal(`${defaultDocumentsCollection}_changes`);
+            });
+          });
+
+          describe('with "history', () => {
+            beforeEach(() => {
+              fakeOptions.history = true;
+            });
+
+            afterEach(() => {
+              delete fakeOptions.history;
+            });
+
+            it('should keep previous versions of documents', () => {
+              const storage = new PostgreSQLStorage(fakeOptions);
+              expect((storage as any)._history).to.equal(true);
+              expect((storage as any)._documentsHistoryTable).to.equal(defaultDocumentsHistoryCollection);
+            });
+          });
+
+          describe('with "closeOnExit', () => {
+            beforeEach(() => {
+              fakeOptions.closeOnExit = true;
+              stubs.push(sinon.stub(shutdown, 'closeOnExit'));
+            });
+
+            afterEach(() => {
+              delete fakeOptions.closeOnExit;
+            });
+
+            it('should close the storage on exit', () => {
+              const storage = new PostgreSQLStorage(fakeOptions);
+              expect((shutdown.closeOnExit as sinon.SinonStub).calledWith(storage)).to.equal(true);
+            });
+          });
+
+          describe('with "indexes', () => {
+            beforeEach(() => {
+              fakeOptions.indexes = ['state', ['source_reference', 'state']];
+            });
+
+            it('should set the indexes', () => {
+              const storage = new PostgreSQLStorage(fakeOptions);
+              expect((storage as any)._indexes).to.deep.equal(['state', ['source_reference', 'state']]);
+            });
+          });
         });
       });
     });
@@ -247,6 +577,39 @@ describe(storageName, () => {
         await storage._dbPromise;
         expect(storage._pool instanceof FakePool).to.equal(true);
       });
+
+      describe('indexes', () => {
+        const defaultIndex = 'CREATE INDEX IF NOT EXISTS documents_index_portal_type_grouping_reference ' +
+          "ON documents ((value ->> 'portal_type'), (value ->> 'grouping_reference'))";
+        const stateIndex = "CREATE INDEX IF NOT EXISTS documents_index_state ON documents ((value ->> 'state'))";
+        let stub: sinon.SinonStub;
+
+        beforeEach(() => {
+          stub = sinon.stub(FakeClient.prototype, 'query').returns(Promise.resolve({rows: []}));
+          stubs.push(stub);
+        });
+
+        it('should create the indexes', async () => {
+          const storage: any = new PostgreSQLStorage({...options, softDelete: true, indexes: ['state']});
+          await storage._dbPromise;
+          const statements = stub.args.map(args => args[0]);
+          expect(statements).to.include.members([
+            'CREATE INDEX IF NOT EXISTS attachments_index__id ON attachments (_id)',
+            'CREATE INDEX IF NOT EXISTS documents_index_deletedAt ON documents (deletedAt)',
+            defaultIndex,
+            stateIndex
+          ]);
+        });
+
+        it('should create the next indexes when one fails', async () => {
+          const error = new Error('could not create index');
+          stub.withArgs(defaultIndex).returns(Promise.reject(error));
+          const storage: any = new PostgreSQLStorage({...options, indexes: ['state']});
+          await storage._dbPromise;
+          expect(stub.calledWith(stateIndex)).to.equal(true);
+          expect(storage._pool instanceof FakePool).to.equal(true);
+        });
+      });
     });
 
     describe('.get', () => {
@@ -272,6 +635,15 @@ describe(storageName, () => {
         )).to.equal(true);
       });
 
+      it('should not find tombstones with "softDelete"', () => {
+        (storage as any)._softDelete = true;
+        storage.get(id);
+        expect(stub.calledWith(
+          `SELECT * FROM ${defaultDocumentsCollection} WHERE _id=$1 AND deletedAt IS NULL`,
+          [id]
+        )).to.equal(true);
+      });
+
       describe('document found', () => {
         const document = {
           [valueKey]: 1
@@ -314,55 +686,65 @@ describe(storageName, () => {
         stubs.push(stub);
       });
 
-      describe('document exists', () => {
+      describe('with timestamps', () => {
         beforeEach(() => {
-          const queue = new FakeQueue();
-          queue.push(() => data);
-          stubs.push(sinon.stub(storage, 'get').returns(queue));
+          (storage as any)._timestamps = true;
         });
 
-        describe('with timestamps', () => {
-          beforeEach(() => {
-            (storage as any)._timestamps = true;
-          });
-
-          it('should update data', () => {
-            storage.put(id, data);
-            expect(stub.calledWith(
-              `UPDATE ${defaultDocumentsCollection} SET value=$2, updatedAt=Now() WHERE _id=$1`,
-              [id, JSON.stringify(data)]
-            )).to.equal(true);
-          });
-        });
-
-        describe('without timestamps', () => {
-          beforeEach(() => {
-            (storage as any)._timestamps = false;
-          });
-
-          it('should update data', () => {
-            storage.put(id, data);
-            expect(stub.calledWith(
-              `UPDATE ${defaultDocumentsCollection} SET value=$2 WHERE _id=$1`,
-              [id, JSON.stringify(data)]
-            )).to.equal(true);
-          });
+        it('should upsert data', () => {
+          storage.put(id, data);
+          expect(stub.calledWith(
+            `INSERT INTO ${defaultDocumentsCollection} (_id, value) VALUES ($1, $2) ` +
+            'ON CONFLICT (_id) DO UPDATE SET value=EXCLUDED.value, updatedAt=Now()',
+            [id, JSON.stringify(data)]
+          )).to.equal(true);
         });
       });
 
-      describe('document does not exist', () => {
+      describe('without timestamps', () => {
         beforeEach(() => {
-          stubs.push(sinon.stub(storage, 'get').returns(new FakeQueue()));
+          (storage as any)._timestamps = false;
         });
 
-        it('should insert data', () => {
+        it('should upsert data', () => {
           storage.put(id, data);
           expect(stub.calledWith(
-            `INSERT INTO ${defaultDocumentsCollection} (_id, value) VALUES ($1, $2)`,
+            `INSERT INTO ${defaultDocumentsCollection} (_id, value) VALUES ($1, $2) ` +
+            'ON CONFLICT (_id) DO UPDATE SET value=EXCLUDED.value',
             [id, JSON.stringify(data)]
           )).to.equal(true);
         });
       });
+
+      it('should restore a removed document with "softDelete"', () => {
+        (storage as any)._timestamps = false;
+        (storage as any)._softDelete = true;
+        storage.put(id, data);
+        expect(stub.calledWith(
+          `INSERT INTO ${defaultDocumentsCollection} (_id, value) VALUES ($1, $2) ` +
+          'ON CONFLICT (_id) DO UPDATE SET value=EXCLUDED.value, deletedAt=NULL',
+          [id, JSON.stringify(data)]
+        )).to.equal(true);
+      });
+
+      it('should not read the document first', () => {
+        const getStub = sinon.stub(storage, 'get');
+        stubs.push(getStub);
+        storage.put(id, data);
+        expect(getStub.called).to.equal(false);
+      });
+
+      it('should keep the previous version with "history"', async () => {
+        (storage as any)._history = true;
+        await storage.put(id, data);
+        expect(stub.calledWith(
+          `INSERT INTO ${defaultDocumentsHistoryCollection} (_id, revision, value, operation) ` +
+          `SELECT _id, COALESCE((SELECT MAX(revision) FROM ${defaultDocumentsHistoryCollection} WHERE _id=$1), 0) + 1, value, 'update' ` +
+          `FROM ${defaultDocumentsCollection} WHERE _id=$2`,
+          [id, id]
+        )).to.equal(true);
+        expect(stub.calledWith(sinon.match(`INSERT INTO ${defaultDocumentsCollection} `), [id, JSON.stringify(data)])).to.equal(true);
+      });
     });
 
     describe('.remove', () => {
@@ -385,6 +767,258 @@ describe(storageName, () => {
           [id]
         )).to.equal(true);
       });
+
+      it('should remove its attachments', async () => {
+        await storage.remove(id);
+        expect(stub.calledWith(
+          `DELETE FROM ${defaultAttachmentsCollection} WHERE _id=$1`,
+          [id]
+        )).to.equal(true);
+        expect(stub.calledWith('COMMIT')).to.equal(true);
+      });
+
+      it('should remove previous versions of its attachments with "attachmentHistory"', async () => {
+        (storage as any)._attachmentHistory = true;
+        await storage.remove(id);
+        expect(stub.calledWith(
+          `DELETE FROM ${defaultAttachmentsHistoryCollection} WHERE _id=$1`,
+          [id]
+        )).to.equal(true);
+      });
+
+      it('should keep the removed version with "history"', async () => {
+        (storage as any)._history = true;
+        await storage.remove(id);
+        expect(stub.calledWith(
+          sinon.match(`INSERT INTO ${defaultDocumentsHistoryCollection} `).and(sinon.match("'delete' FROM")),
+          [id, id]
+        )).to.equal(true);
+      });
+
+      describe('with "softDelete"', () => {
+        beforeEach(() => {
+          (storage as any)._softDelete = true;
+        });
+
+        it('should not keep the version of a tombstone with "history"', async () => {
+          (storage as any)._history = true;
+          await storage.remove(id);
+          expect(stub.calledWith(
+            sinon.match(`FROM ${defaultDocumentsCollection} WHERE _id=$2 AND deletedAt IS NULL`),
+            [id, id]
+          )).to.equal(true);
+        });
+
+        it('should keep a tombstone', () => {
+          storage.remove(id);
+          expect(stub.calledWith(
+            `UPDATE ${defaultDocumentsCollection} SET deletedAt=Now() WHERE _id=$1 AND deletedAt IS NULL`,
+            [id]
+          )).to.equal(true);
+          expect(stub.calledWith(
+            `DELETE FROM ${defaultDocumentsCollection} WHERE _id=$1`
+          )).to.equal(false);
+        });
+
+        it('should remove its attachments', async () => {
+          await storage.remove(id);
+          expect(stub.calledWith(
+            `DELETE FROM ${defaultAttachmentsCollection} WHERE _id=$1`,
+            [id]
+          )).to.equal(true);
+        });
+      });
+    });
+
+    describe('.allTombstones', () => {
+      let storage: PostgreSQLStorage;
+      const deletedAt = new Date('2019-01-01T00:00:00.000Z');
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new PostgreSQLStorage(options);
+        const client = clientStub(storage);
+
+        stub = sinon.stub(client, 'query').returns({rows: [{_id: 'id', [deletedAtKey]: deletedAt}]});
+        stubs.push(stub);
+      });
+
+      it('should list removed documents', () => {
+        const res: any = storage.allTombstones();
+        expect(res.result).to.deep.equal([{id: 'id', deletedAt: '2019-01-01T00:00:00.000Z'}]);
+        expect(stub.calledWith(
+          `SELECT _id, deletedAt AS "deletedAt" FROM ${defaultDocumentsCollection} WHERE deletedAt > $1 ORDER BY deletedAt`,
+          [new Date(0)]
+        )).to.equal(true);
+      });
+
+      it('should only list documents removed after "since"', () => {
+        storage.allTombstones('2019-01-01');
+        expect(stub.calledWith(sinon.match.string, [new Date('2019-01-01')])).to.equal(true);
+      });
+    });
+
+    describe('.purgeTombstones', () => {
+      let storage: PostgreSQLStorage;
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new PostgreSQLStorage(options);
+        const client = clientStub(storage);
+
+        stub = sinon.stub(client, 'query').returns({rows: [], rowCount: 2});
+        stubs.push(stub);
+      });
+
+      it('should remove tombstones older than the retention', () => {
+        const res: any = storage.purgeTombstones();
+        expect(res.result).to.equal(2);
+        expect(stub.calledWith(
+          `DELETE FROM ${defaultDocumentsCollection} WHERE deletedAt < Now() - $1 * INTERVAL '1 day'`,
+          [defaultTombstoneRetention]
+        )).to.equal(true);
+      });
+
+      it('should use the given retention', () => {
+        storage.purgeTombstones(0);
+        expect(stub.calledWith(sinon.match.string, [0])).to.equal(true);
+      });
+    });
+
+    describe('.changesStatements', () => {
+      it('should drop the trigger by default', () => {
+        const storage: any = new PostgreSQLStorage(options);
+        expect(storage.changesStatements()).to.deep.equal([
+          `DROP TRIGGER IF EXISTS ${defaultDocumentsCollection}_changes_trigger ON ${defaultDocumentsCollection}`
+        ]);
+      });
+
+      it('should record changes with "changeFeed"', () => {
+        const storage: any = new PostgreSQLStorage(options);
+        storage._changeFeed = true;
+        const statements = storage.changesStatements();
+        expect(statements.length).to.equal(4);
+        expect(statements[1]).to.contain("VALUES (NEW._id, 'update')");
+        expect(statements[3]).to.equal(
+          `CREATE TRIGGER ${defaultDocumentsCollection}_changes_trigger AFTER INSERT OR UPDATE OR DELETE ON ${defaultDocumentsCollection} ` +
+          `FOR EACH ROW EXECUTE PROCEDURE ${defaultDocumentsCollection}_changes_record()`
+        );
+      });
+
+      it('should record the removal of tombstones with "softDelete"', () => {
+        const storage: any = new PostgreSQLStorage(options);
+        storage._changeFeed = true;
+        storage._softDelete = true;
+        const statements = storage.changesStatements();
+        expect(statements[1]).to.contain("CASE WHEN NEW.deletedAt IS NULL THEN 'update' ELSE 'delete' END");
+        expect(statements[1]).to.contain('IF OLD.deletedAt IS NOT NULL THEN RETURN NULL; END IF;');
+      });
+    });
+
+    describe('.changes', () => {
+      let storage: PostgreSQLStorage;
+      const changedAt = new Date('2019-01-01T00:00:00.000Z');
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new PostgreSQLStorage(options);
+        const client = clientStub(storage);
+
+        stub = sinon.stub(client, 'query').returns({rows: [
+          {seq: '3', _id: 'id', type: 'insert', changedAt},
+          {seq: '4', _id: 'id', type: 'delete', changedAt}
+        ]});
+        stubs.push(stub);
+      });
+
+      it('should list the changes after the cursor', () => {
+        const res: any = storage.changes(2);
+        expect(stub.calledWith(
+          `SELECT seq, _id, type, changedAt AS "changedAt" FROM ${defaultDocumentsCollection}_changes WHERE seq > $1 ORDER BY seq LIMIT $2`,
+          [2, defaultChangesLimit]
+        )).to.equal(true);
+        expect(res.result).to.deep.equal({
+          changes: [
+            {seq: 3, id: 'id', type: 'insert', changedAt: '2019-01-01T00:00:00.000Z'},
+            {seq: 4, id: 'id', type: 'delete', changedAt: '2019-01-01T00:00:00.000Z'}
+          ],
+          cursor: 4
+        });
+      });
+
+      it('should keep the cursor without changes', () => {
+        stub.returns({rows: []});
+        const res: any = storage.changes(2, 10);
+        expect(stub.calledWith(sinon.match.string, [2, 10])).to.equal(true);
+        expect(res.result).to.deep.equal({changes: [], cursor: 2});
+      });
+    });
+
+    describe('.allRevisions', () => {
+      let storage: PostgreSQLStorage;
+      const replacedAt = new Date('2019-01-01T00:00:00.000Z');
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new PostgreSQLStorage(options);
+        const client = clientStub(storage);
+
+        stub = sinon.stub(client, 'query').returns({rows: [
+          {revision: 1, operation: 'update', replacedAt},
+          {revision: 2, operation: 'delete', replacedAt}
+        ]});
+        stubs.push(stub);
+      });
+
+      it('should list previous versions', () => {
+        const res: any = storage.allRevisions('id');
+        expect(stub.calledWith(
+          `SELECT revision, operation, replacedAt AS "replacedAt" FROM ${defaultDocumentsHistoryCollection} WHERE _id=$1 ORDER BY revision`,
+          ['id']
+        )).to.equal(true);
+        expect(res.result).to.deep.equal([
+          {revision: 1, operation: 'update', replacedAt: '2019-01-01T00:00:00.000Z'},
+          {revision: 2, operation: 'delete', replacedAt: '2019-01-01T00:00:00.000Z'}
+        ]);
+      });
+    });
+
+    describe('.getRevision', () => {
+      let storage: PostgreSQLStorage;
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new PostgreSQLStorage(options);
+        const client = clientStub(storage);
+
+        stub = sinon.stub(client, 'query');
+        stubs.push(stub);
+      });
+
+      describe('revision found', () => {
+        beforeEach(() => {
+          stub.returns({rows: [{[valueKey]: {test: 1}}]});
+        });
+
+        it('should return the previous version', () => {
+          const res: any = storage.getRevision('id', 1);
+          expect(stub.calledWith(
+            `SELECT value FROM ${defaultDocumentsHistoryCollection} WHERE _id=$1 AND revision=$2`,
+            ['id', 1]
+          )).to.equal(true);
+          expect(res.result).to.deep.equal({test: 1});
+        });
+      });
+
+      describe('revision not found', () => {
+        beforeEach(() => {
+          stub.returns({rows: []});
+        });
+
+        it('should throw an error', () => {
+          expect(() => storage.getRevision('id', 3)).to.throw('Cannot find revision 3 of document: id');
+        });
+      });
     });
 
     describe('.getAttachment', () => {
@@ -425,6 +1059,54 @@ describe(storageName, () => {
           expect(() => storage.getAttachment(id, name)).to.throw(`Cannot find attachment: ${id}`);
         });
       });
+
+      describe('with "revision"', () => {
+        beforeEach(() => {
+          const client = clientStub(storage);
+          stub = sinon.stub(client, 'query').returns({rows: [{}]});
+          stubs.push(stub);
+        });
+
+        it('should get the revision', () => {
+          storage.getAttachment(id, name, {revision: 2});
+          expect(stub.calledWith(
+            `SELECT value, data, content_type FROM ${defaultAttachmentsCollection} WHERE _id=$1 AND name=$2 AND revision=$3`,
+            [id, name, 2]
+          )).to.equal(true);
+        });
+
+        it('should look into the history', () => {
+          (storage as any)._attachmentHistory = true;
+          storage.getAttachment(id, name, {revision: 2});
+          expect(stub.calledWith(
+            `SELECT value, data, content_type FROM ${defaultAttachmentsCollection} WHERE _id=$1 AND name=$2 AND revision=$3 ` +
+            'UNION ALL SELECT value, data, content_type ' +
+            `FROM ${defaultAttachmentsHistoryCollection} WHERE _id=$4 AND name=$5 AND revision=$6`,
+            [id, name, 2, id, name, 2]
+          )).to.equal(true);
+        });
+      });
+
+      describe('with "start" and "end"', () => {
+        beforeEach(() => {
+          const client = clientStub(storage);
+          stub = sinon.stub(client, 'query').returns({rows: [{}]});
+          stubs.push(stub);
+        });
+
+        it('should only get the range', () => {
+          storage.getAttachment(id, name, {start: 2, end: 4});
+          expect(stub.calledWith(
+            `SELECT value, substring(data FROM 3 FOR 2) AS data, content_type FROM ${defaultAttachmentsCollection} WHERE _id=$1 AND name=$2`,
+            [id, name]
+          )).to.equal(true);
+        });
+
+        it('should throw an error for an invalid range', () => {
+          expect(() => storage.getAttachment(id, name, {start: 4, end: 2})).to.throw('"start" is greater than "end"');
+          expect(stub.called).to.equal(false);
+        });
+      });
     });
 
     describe('.putAttachment', () => {
@@ -432,7 +1114,8 @@ describe(storageName, () => {
       const id = 'id';
       const name = 'name';
       const data: any = {
-        target: {result: {}}
+        type: 'text/plain',
+        target: {result: new ArrayBuffer(4)}
       };
       let stub: sinon.SinonStub;
 
@@ -443,16 +1126,37 @@ describe(storageName, () => {
 
         stub = sinon.stub(client, 'query').returns([]);
         stubs.push(stub);
-        stubs.push(sinon.stub(jioImport.jIO.util, 'readBlobAsDataURL').returns(data));
+        stubs.push(sinon.stub(jioImport.jIO.util, 'readBlobAsArrayBuffer').returns(data));
       });
 
-      it('should insert data', async () => {
+      it('should replace data', async () => {
         await storage.putAttachment(id, name, data);
         expect(stub.calledWith(
-          `INSERT INTO ${defaultAttachmentsCollection} (_id, name, value) VALUES ($1, $2, $3)`,
-          [id, name, data.target.result]
+          `INSERT INTO ${defaultAttachmentsCollection} (_id, name, data, content_type, length, digest) ` +
+          'VALUES ($1, $2, $3, $4, $5, $6) ON CONFLICT (_id, name) DO UPDATE SET data=EXCLUDED.data, content_type=EXCLUDED.content_type, ' +
+          'length=EXCLUDED.length, digest=EXCLUDED.digest, value=NULL, ' +
+          `revision=${defaultAttachmentsCollection}.revision + 1, updatedAt=Now()`,
+          [id, name, sinon.match.instanceOf(Buffer), data.type, 4, attachmentDigest(Buffer.alloc(4))]
         )).to.equal(true);
       });
+
+      describe('with "attachmentHistory"', () => {
+        beforeEach(() => {
+          (storage as any)._attachmentHistory = true;
+        });
+
+        it('should keep the previous version', async () => {
+          await storage.putAttachment(id, name, data);
+          expect(stub.firstCall.calledWith(
+            `INSERT INTO ${defaultAttachmentsHistoryCollection} ` +
+            '(_id, name, revision, value, data, content_type, length, digest, createdAt, updatedAt) ' +
+            'SELECT _id, name, revision, value, data, content_type, length, digest, createdAt, updatedAt ' +
+            `FROM ${defaultAttachmentsCollection} WHERE _id=$1 AND name=$2`,
+            [id, name]
+          )).to.equal(true);
+          expect(stub.secondCall.args[0]).to.match(new RegExp(`^INSERT INTO ${defaultAttachmentsCollection} `));
+        });
+      });
     });
 
     describe('.removeAttachment', () => {
@@ -476,28 +1180,51 @@ describe(storageName, () => {
           [id, name]
         )).to.equal(true);
       });
+
+      it('should remove previous versions with "attachmentHistory"', async () => {
+        (storage as any)._attachmentHistory = true;
+        await storage.removeAttachment(id, name);
+        expect(stub.calledWith(
+          `DELETE FROM ${defaultAttachmentsHistoryCollection} WHERE _id=$1 AND name=$2`,
+          [id, name]
+        )).to.equal(true);
+      });
     });
 
     describe('.allAttachments', () => {
       let storage: PostgreSQLStorage;
       const id = 'id';
       const attachments = [{
-        name: 'attachment 1'
+        name: 'attachment 1',
+        revision: 2,
+        content_type: 'text/plain',
+        length: 4,
+        digest: 'sha256-digest'
       }];
+      let stub: sinon.SinonStub;
 
       beforeEach(() => {
         storage = new PostgreSQLStorage(options);
         const client = clientStub(storage);
 
-        stubs.push(sinon.stub(client, 'query').returns({rows: attachments}));
+        stub = sinon.stub(client, 'query').returns({rows: attachments});
+        stubs.push(stub);
       });
 
       it('should return a list of attachments', () => {
         const results = storage.allAttachments(id);
         expect((results as any).result).to.deep.equal({
-          [attachments[0].name]: {}
+          [attachments[0].name]: {revision: 2, content_type: 'text/plain', length: 4, digest: 'sha256-digest'}
         });
       });
+
+      it('should not read the content', () => {
+        storage.allAttachments(id);
+        expect(stub.calledWith(
+          `SELECT name, revision, content_type, length, digest, createdAt, updatedAt FROM ${defaultAttachmentsCollection} WHERE _id=$1`,
+          [id]
+        )).to.equal(true);
+      });
     });
 
     describe('.hasCapacity', () => {
@@ -507,6 +1234,243 @@ describe(storageName, () => {
       });
     });
 
+    describe('.migrateAttachments', () => {
+      let storage: PostgreSQLStorage;
+      let stub: sinon.SinonStub;
+
+      beforeEach(async () => {
+        storage = new PostgreSQLStorage(options);
+        await (storage as any)._dbPromise;
+        stub = sinon.stub(FakeClient.prototype, 'query').returns(Promise.resolve({rows: []}));
+        stub.onFirstCall().returns(Promise.resolve({rows: [{id: 1, value: 'data:text/plain;base64,dGVzdA=='}]}));
+        stubs.push(stub);
+      });
+
+      it('should convert data URIs to binary data', async () => {
+        const migrated = await storage.migrateAttachments(1);
+        expect(migrated).to.equal(1);
+        expect(stub.secondCall.args[0]).to.equal(
+          `UPDATE ${defaultAttachmentsCollection} SET data=$1, content_type=$2, length=$3, digest=$4, value=NULL ` +
+          'WHERE id=$5 AND value IS NOT NULL'
+        );
+        expect(stub.secondCall.args[1][0].toString()).to.equal('test');
+        expect(stub.secondCall.args[1].slice(1)).to.deep.equal(['text/plain', 4, attachmentDigest(Buffer.from('test')), 1]);
+      });
+
+      it('should read the next batch', async () => {
+        await storage.migrateAttachments(1);
+        expect(stub.thirdCall.args).to.deep.equal([
+          `SELECT id, value FROM ${defaultAttachmentsCollection} WHERE value IS NOT NULL ORDER BY id LIMIT $1`,
+          [1]
+        ]);
+      });
+
+      it('should migrate previous versions with "attachmentHistory"', async () => {
+        (storage as any)._attachmentHistory = true;
+        await storage.migrateAttachments();
+        expect(stub.calledWith(
+          `SELECT id, value FROM ${defaultAttachmentsHistoryCollection} WHERE value IS NOT NULL ORDER BY id LIMIT $1`,
+          [100]
+        )).to.equal(true);
+      });
+    });
+
+    describe('.purgeOrphanAttachments', () => {
+      let storage: PostgreSQLStorage;
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new PostgreSQLStorage(options);
+        const client = clientStub(storage);
+
+        stub = sinon.stub(client, 'query').returns(Promise.resolve({rowCount: 2}));
+        stubs.push(stub);
+      });
+
+      it('should remove attachments without document', async () => {
+        const purged = await storage.purgeOrphanAttachments();
+        expect(purged).to.equal(2);
+        expect(stub.calledWith(
+          `DELETE FROM ${defaultAttachmentsCollection} WHERE NOT EXISTS ` +
+          `(SELECT 1 FROM ${defaultDocumentsCollection} d WHERE d._id = ${defaultAttachmentsCollection}._id)`
+        )).to.equal(true);
+      });
+
+      it('should remove previous versions with "attachmentHistory"', async () => {
+        (storage as any)._attachmentHistory = true;
+        const purged = await storage.purgeOrphanAttachments();
+        expect(purged).to.equal(4);
+        expect(stub.calledWith(
+          `DELETE FROM ${defaultAttachmentsHistoryCollection} WHERE NOT EXISTS ` +
+          `(SELECT 1 FROM ${defaultDocumentsCollection} d WHERE d._id = ${defaultAttachmentsHistoryCollection}._id)`
+        )).to.equal(true);
+      });
+    });
+
+    describe('.createAttachmentReadStream', () => {
+      let storage: PostgreSQLStorage;
+      const id = 'id';
+      const name = 'name';
+      let stub: sinon.SinonStub;
+
+      beforeEach(async () => {
+        storage = new PostgreSQLStorage(options);
+        await (storage as any)._dbPromise;
+        stub = sinon.stub(FakeClient.prototype, 'query');
+        stubs.push(stub);
+      });
+
+      it('should read the attachment by chunks', async () => {
+        stub.onFirstCall().returns(Promise.resolve({rows: [{revision: 2, value: null, size: 4}]}));
+        stub.onSecondCall().returns(Promise.resolve({rows: [{chunk: Buffer.from('te')}]}));
+        stub.onThirdCall().returns(Promise.resolve({rows: [{chunk: Buffer.from('st')}]}));
+        const data = await readStream(storage.createAttachmentReadStream(id, name, {chunkSize: 2}));
+        expect(data.toString()).to.equal('test');
+        expect(stub.firstCall.args).to.deep.equal([
+          `SELECT revision, value, octet_length(data) AS size FROM ${defaultAttachmentsCollection} ` +
+          'WHERE _id=$1 AND name=$2 AND revision=COALESCE($3, revision)',
+          [id, name, null]
+        ]);
+        expect(stub.thirdCall.args).to.deep.equal([
+          `SELECT substring(data FROM $1 FOR $2) AS chunk FROM ${defaultAttachmentsCollection} WHERE _id=$3 AND name=$4 AND revision=$5`,
+          [3, 2, id, name, 2]
+        ]);
+        expect(stub.callCount).to.equal(3);
+      });
+
+      it('should only read the range', async () => {
+        stub.onFirstCall().returns(Promise.resolve({rows: [{revision: 2, value: null, size: 4}]}));
+        stub.onSecondCall().returns(Promise.resolve({rows: [{chunk: Buffer.from('es')}]}));
+        const data = await readStream(storage.createAttachmentReadStream(id, name, {start: 1, end: 3}));
+        expect(data.toString()).to.equal('es');
+        expect(stub.secondCall.args[1]).to.deep.equal([2, 2, id, name, 2]);
+        expect(stub.callCount).to.equal(2);
+      });
+
+      it('should look for previous revisions with "attachmentHistory"', async () => {
+        (storage as any)._attachmentHistory = true;
+        stub.returns(Promise.resolve({rows: []}));
+        stub.onSecondCall().returns(Promise.resolve({rows: [{revision: 1, value: 'data:,test', size: null}]}));
+        const data = await readStream(storage.createAttachmentReadStream(id, name, {revision: 1}));
+        expect(data.toString()).to.equal('test');
+        expect(stub.secondCall.args[0]).to.match(new RegExp(`FROM ${defaultAttachmentsHistoryCollection} `));
+      });
+
+      it('should fail if the attachment does not exist', async () => {
+        stub.returns(Promise.resolve({rows: []}));
+        try {
+          await readStream(storage.createAttachmentReadStream(id, name));
+          throw new Error('should have failed');
+        }
+        catch (error) {
+          expect(error.status_code).to.equal(404);
+        }
+      });
+
+      it('should fail if the attachment is replaced while reading', async () => {
+        stub.returns(Promise.resolve({rows: []}));
+        stub.onFirstCall().returns(Promise.resolve({rows: [{revision: 2, value: null, size: 4}]}));
+        try {
+          await readStream(storage.createAttachmentReadStream(id, name));
+          throw new Error('should have failed');
+        }
+        catch (error) {
+          expect(error.status_code).to.equal(409);
+        }
+      });
+    });
+
+    describe('.createAttachmentWriteStream', () => {
+      let storage: PostgreSQLStorage;
+      const id = 'id';
+      const name = 'name';
+      const uploadsTable = `${defaultAttachmentsCollection}_uploads`;
+      let stub: sinon.SinonStub;
+
+      beforeEach(async () => {
+        storage = new PostgreSQLStorage(options);
+        await (storage as any)._dbPromise;
+        stub = sinon.stub(FakeClient.prototype, 'query').returns(Promise.resolve({rows: [{id: 3}]}));
+        stubs.push(stub);
+      });
+
+      it('should append chunks to an upload', async () => {
+        await writeStream(storage.createAttachmentWriteStream(id, name), [Buffer.from('te'), Buffer.from('st')]);
+        expect(stub.firstCall.args[0]).to.equal(`INSERT INTO ${uploadsTable} DEFAULT VALUES RETURNING id`);
+        expect(stub.secondCall.args[0]).to.equal(`INSERT INTO ${uploadsTable}_chunks (data, upload) VALUES ($1, $2)`);
+        expect(stub.secondCall.args[1][1]).to.equal(3);
+        expect(stub.thirdCall.args[0]).to.equal(`INSERT INTO ${uploadsTable}_chunks (data, upload) VALUES ($1, $2)`);
+        expect(stub.thirdCall.args[1][0].toString()).to.equal('st');
+      });
+
+      it('should replace the attachment with the upload', async () => {
+        await writeStream(storage.createAttachmentWriteStream(id, name, {contentType: 'text/plain'}), [Buffer.from('test')]);
+        expect(stub.calledWith(
+          `INSERT INTO ${defaultAttachmentsCollection} (_id, name, data, content_type, length, digest) ` +
+          "SELECT $1, $2, data, $3, $4, $5 FROM (SELECT COALESCE(string_agg(data, '' ORDER BY seq), '') AS data " +
+          `FROM ${uploadsTable}_chunks WHERE upload=$6) AS upload ` +
+          'ON CONFLICT (_id, name) DO UPDATE SET data=EXCLUDED.data, content_type=EXCLUDED.content_type, ' +
+          'length=EXCLUDED.length, digest=EXCLUDED.digest, value=NULL, ' +
+          `revision=${defaultAttachmentsCollection}.revision + 1, updatedAt=Now()`,
+          [id, name, 'text/plain', 4, attachmentDigest(Buffer.from('test')), 3]
+        )).to.equal(true);
+        expect(stub.lastCall.args).to.deep.equal([`DELETE FROM ${uploadsTable} WHERE id=$1`, [3]]);
+      });
+
+      it('should keep the previous version with "attachmentHistory"', async () => {
+        (storage as any)._attachmentHistory = true;
+        await writeStream(storage.createAttachmentWriteStream(id, name), [Buffer.from('test')]);
+        expect(stub.thirdCall.args[0]).to.match(new RegExp(`^INSERT INTO ${defaultAttachmentsHistoryCollection} `));
+      });
+    });
+
+    describe('.close', () => {
+      let storage: PostgreSQLStorage;
+      let endStub: sinon.SinonStub;
+
+      beforeEach(async () => {
+        storage = new PostgreSQLStorage(options);
+        await (storage as any)._dbPromise;
+        endStub = sinon.stub((storage as any)._pool, 'end').returns(Promise.resolve());
+        stubs.push(endStub);
+      });
+
+      it('should end the pool', async () => {
+        await storage.close();
+        expect(endStub.calledOnce).to.equal(true);
+      });
+
+      it('should wait for running queries', async () => {
+        let resolveQuery;
+        (storage as any).track(new Promise(resolve => resolveQuery = resolve));
+        const closing = storage.close();
+        await Promise.resolve();
+        expect(endStub.called).to.equal(false);
+        resolveQuery();
+        await closing;
+        expect(endStub.calledOnce).to.equal(true);
+      });
+
+      it('should only end the pool once', async () => {
+        await storage.close();
+        await storage.close();
+        expect(endStub.calledOnce).to.equal(true);
+      });
+
+      it('should reject further calls', async () => {
+        await storage.close();
+        let error;
+        try {
+          await storage.get('id');
+        }
+        catch (err) {
+          error = err;
+        }
+        expect(error.message).to.equal('PostgreSQL storage is closed');
+        expect(error.status_code).to.equal(503);
+      });
+    });
+
     describe('.buildQuery', () => {
       let storage: PostgreSQLStorage;
       let params: IJioQueryOptions;
@@ -533,14 +1497,36 @@ describe(storageName, () => {
 
       describe('with "query"', () => {
         beforeEach(() => {
-          params.query = `'portal_type: "File"'`;
-          stubs.push(sinon.stub(specs, 'parseQuery').returns('query'));
+          params.query = 'portal_type: "File"';
         });
 
         it('should set WHERE clause', () => {
           storage.buildQuery(params);
           expect(stub.calledWith(
-            `SELECT * FROM ${defaultDocumentsCollection} WHERE query`
+            `SELECT * FROM ${defaultDocumentsCollection} WHERE value ->> 'portal_type' = $1`,
+            ['File']
+          )).to.equal(true);
+        });
+      });
+
+      describe('with "softDelete"', () => {
+        beforeEach(() => {
+          (storage as any)._softDelete = true;
+        });
+
+        it('should not list tombstones', () => {
+          storage.buildQuery(params);
+          expect(stub.calledWith(
+            `SELECT * FROM ${defaultDocumentsCollection} WHERE deletedAt IS NULL`
+          )).to.equal(true);
+        });
+
+        it('should add the condition to the query', () => {
+          params.query = 'portal_type: "File"';
+          storage.buildQuery(params);
+          expect(stub.calledWith(
+            `SELECT * FROM ${defaultDocumentsCollection} WHERE deletedAt IS NULL AND (value ->> 'portal_type' = $1)`,
+            ['File']
           )).to.equal(true);
         });
       });
@@ -553,7 +1539,7 @@ describe(storageName, () => {
         it('should set LIMIT and OFFSET clauses', () => {
           storage.buildQuery(params);
           expect(stub.calledWith(
-            `SELECT * FROM ${defaultDocumentsCollection} LIMIT ${params.limit![1]} OFFSET ${params.limit![0]}`
+            `SELECT * FROM ${defaultDocumentsCollection} ORDER BY id LIMIT ${params.limit![1]} OFFSET ${params.limit![0]}`
           )).to.equal(true);
         });
       });
@@ -571,6 +1557,20 @@ describe(storageName, () => {
         });
       });
 
+      describe('with "sort_on" on a typed field', () => {
+        beforeEach(() => {
+          params.sort_on = [['mileage', 'descending']];
+          (storage as any)._fieldTypes = {mileage: 'numeric'};
+        });
+
+        it('should cast the field in the ORDER BY clause', () => {
+          storage.buildQuery(params);
+          expect(stub.calledWith(
+            `SELECT * FROM ${defaultDocumentsCollection} ORDER BY (value ->> 'mileage')::numeric DESC`
+          )).to.equal(true);
+        });
+      });
+
       describe('with "include_docs"', () => {
         beforeEach(() => {
           params.include_docs = true;
@@ -608,4 +1608,8 @@ describe(storageName, () => {
   });
 });
 
+describeServerConformance(storageName, 'CONFORMANCE_POSTGRESQL_URL', ({host, port, user, password, database}, {timestamps}) => {
+  return new PostgreSQLStorage({type: 'postgresql', host, port, user, password, database, timestamps});
+});
+
 addStorageStub.restore();
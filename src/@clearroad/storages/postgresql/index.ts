@@ -1,8 +1,8 @@
 /* tslint:disable:no-console */
 import {
   getQueue, promiseToQueue,
-  IJioStorage, IQueue, IClearRoadOptions,
-  IJioQueryOptions, IJioSimpleQuery, IJioComplexQuery,
+  IClearRoadOptions,
+  IJioSimpleQuery, IJioComplexQuery,
   queryPortalType,
   queryGroupingReference
 } from '@clearroad/api';
@@ -10,91 +10,168 @@ import { jIO } from 'jio';
 
 import { Client, Pool, ClientConfig, PoolClient, QueryResult } from 'pg';
 
-/**
- * @internal
- */
-export const idKey = '_id';
-/**
- * @internal
- */
-export const valueKey = 'value';
-/**
- * @internal
- */
-export const createdAtKey = 'createdAt';
-/**
- * @internal
- */
-export const updatedAtKey = 'updatedAt';
-/**
- * @internal
- */
-export const defaultDocumentsCollection = 'documents';
-/**
- * @internal
- */
-export const defaultAttachmentsCollection = 'attachments';
-
-export interface IPostgreSQLStorageOptions extends ClientConfig {
+import {
+  SqlStorage, ISqlDialect, SqlParam, ISqlStorageOptions, ISqlQuery, ISqlDocument,
+  ISqlAttachmentOptions, ISqlAttachmentReadStreamOptions, ISqlAttachmentWriteStreamOptions,
+  ISqlRevision, ISqlTombstone, ISqlChange, ISqlChanges, ISqlAttachmentMetadata,
+  idKey, valueKey, dataKey, contentTypeKey, lengthKey, digestKey, createdAtKey, updatedAtKey, deletedAtKey
+} from '../sql';
+import { IAttachmentRange } from '../local';
+
+export interface IPostgreSQLStorageOptions extends ClientConfig, ISqlStorageOptions {
   type: 'postgresql';
   /**
    * Database name.
    */
   database: string;
   /**
-   * Table name for all documents.
-   */
-  documentsTableName?: string;
-  /**
-   * Table name for attachments.
-   */
-  attachmentsTableName?: string;
-  /**
-   * Add created/updatedAt timestamps for every document.
-   * Enabled by default for both
+   * Type of the document fields used in queries, to compare them as numbers, dates or booleans.
+   * Fields not listed are compared as text, unless a number or a date is used with `<`, `<=`, `>` or `>=`.
    */
-  timestamps?: boolean;
+  fieldTypes?: IPostgreSQLFieldTypes;
 }
 
-interface IPostgreSQLDocument {
-  [idKey]: string;
-  [valueKey]: {};
-  [createdAtKey]?: Date;
-  [updatedAtKey]?: Date;
-}
+export type IPostgreSQLAttachmentOptions = ISqlAttachmentOptions;
+export type IPostgreSQLAttachmentReadStreamOptions = ISqlAttachmentReadStreamOptions;
+export type IPostgreSQLAttachmentWriteStreamOptions = ISqlAttachmentWriteStreamOptions;
+export type IPostgreSQLRevision = ISqlRevision;
+export type IPostgreSQLTombstone = ISqlTombstone;
+export type IPostgreSQLChange = ISqlChange;
+export type IPostgreSQLChanges = ISqlChanges;
+export type IPostgreSQLAttachmentMetadata = ISqlAttachmentMetadata;
+
+export type PostgreSQLFieldType = 'text' | 'numeric' | 'timestamp' | 'boolean';
 
-interface IPostgreSQLAttachment {
-  [idKey]: string;
-  name: string;
-  [valueKey]: string;
-  [createdAtKey]?: Date;
-  [updatedAtKey]?: Date;
+export interface IPostgreSQLFieldTypes {
+  [key: string]: PostgreSQLFieldType;
 }
 
-const keyToDBField = (key: string) => key === 'modification_date' ? createdAtKey : `${valueKey} ->> '${key}'`;
+/**
+ * @internal
+ */
+export type IPostgreSQLQuery = ISqlQuery;
+
+const simpleOperators = ['=', '!=', '<', '<=', '>', '>='];
+const complexOperators = ['AND', 'OR', 'NOT'];
+/**
+ * `%` wildcards in jIO are case-insensitive `LIKE` matches
+ */
+const likeOperators = {
+  '=': 'ILIKE',
+  '!=': 'NOT ILIKE'
+};
+
+const escapeKey = (key: string) => key.replace(/'/g, "''");
+
+// `_` and `\` have a special meaning in LIKE patterns, but not in jIO
+const escapeLike = (value: string) => value.replace(/[\\_]/g, '\\$&');
+
+const isWildcard = (value: any) => typeof value === 'string' && value.indexOf('%') !== -1;
 
-const parseSimpleQuery = (query: IJioSimpleQuery, key = '') => {
-  return `${keyToDBField(key)} ${query.operator || '='} '${query.value}'`;
+const rangeOperators = ['<', '<=', '>', '>='];
+const numberRegExp = /^-?\d+(\.\d+)?$/;
+const dateRegExp = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const fieldCasts = {
+  text: '',
+  numeric: '::numeric',
+  timestamp: '::timestamptz',
+  boolean: '::boolean'
 };
 
-const parseComplexQuery = (query: IJioComplexQuery) => {
-  return `(${query.query_list.map(subquery => parseQuery(subquery, query.key)).join(` ${query.operator} `)})`;
+const keyToDBField = (key: string) => key === 'modification_date' ? createdAtKey : `${valueKey} ->> '${escapeKey(key)}'`;
+
+const isRangeComparison = (operator: string, value: any) => {
+  return rangeOperators.indexOf(operator) !== -1 && typeof value === 'string';
 };
 
 /**
+ * Guess the type of a field from the value it is compared to.
+ * Only range comparisons are inferred, equality is always compared as text.
  * @internal
- * @param parsed
- * @param key
+ * @param operator
+ * @param value
  */
-export const parseQuery = (parsed: IJioSimpleQuery|IJioComplexQuery, key?: string) => {
+export const inferFieldType = (operator: string, value: any): PostgreSQLFieldType => {
+  if (!isRangeComparison(operator, value)) {
+    return 'text';
+  }
+  if (numberRegExp.test(value)) {
+    return 'numeric';
+  }
+  return dateRegExp.test(value) ? 'timestamp' : 'text';
+};
+
+const fieldType = (key: string, operator: string, value: any, fieldTypes: IPostgreSQLFieldTypes) => {
+  return fieldTypes[key] || inferFieldType(operator, value);
+};
+
+const typedDBField = (key: string, type: PostgreSQLFieldType = 'text') => {
+  // "createdAt" is already a timestamp column
+  if (key === 'modification_date' || !fieldCasts[type]) {
+    return keyToDBField(key);
+  }
+  return `(${keyToDBField(key)})${fieldCasts[type]}`;
+};
+
+const queryOperator = (operator: string, operators: string[]) => {
+  if (operators.indexOf(operator) === -1) {
+    throw new jIO.util.jIOError(
+      `Unsupported query operator: ${operator}`,
+      400
+    );
+  }
+  return operator;
+};
+
+interface IQueryContext {
+  param: SqlParam;
+  fieldTypes: IPostgreSQLFieldTypes;
+}
+
+const parseSimpleQuery = (query: IJioSimpleQuery, key = '', context: IQueryContext) => {
+  const operator = queryOperator(query.operator || '=', simpleOperators);
+  if (isWildcard(query.value) && likeOperators[operator]) {
+    return `${keyToDBField(key)} ${likeOperators[operator]} ${context.param(escapeLike(query.value))}`;
+  }
+  const type = fieldType(key, operator, query.value, context.fieldTypes);
+  return `${typedDBField(key, type)} ${operator} ${context.param(query.value)}`;
+};
+
+const parseComplexQuery = (query: IJioComplexQuery, context: IQueryContext) => {
+  const operator = queryOperator(query.operator, complexOperators);
+  if (operator === 'NOT') {
+    // jIO only negates the first query of the list
+    return `NOT (${compileQuery(query.query_list[0], query.key, context)})`;
+  }
+  return `(${query.query_list.map(subquery => compileQuery(subquery, query.key, context)).join(` ${operator} `)})`;
+};
+
+const compileQuery = (parsed: IJioSimpleQuery|IJioComplexQuery, key: string|undefined, context: IQueryContext): string => {
   if (parsed.type === 'complex') {
-    return parseComplexQuery(parsed as IJioComplexQuery);
+    return parseComplexQuery(parsed as IJioComplexQuery, context);
   }
   else {
-    return parseSimpleQuery(parsed as IJioSimpleQuery, parsed.key || key);
+    return parseSimpleQuery(parsed as IJioSimpleQuery, parsed.key || key, context);
   }
 };
 
+/**
+ * Compile a jIO query to a parameterized SQL condition.
+ * @internal
+ * @param parsed
+ * @param key
+ * @param fieldTypes
+ */
+export const parseQuery = (
+  parsed: IJioSimpleQuery|IJioComplexQuery, key?: string, fieldTypes: IPostgreSQLFieldTypes = {}
+): IPostgreSQLQuery => {
+  const values: any[] = [];
+  const param = (value: any) => `$${values.push(value)}`;
+  const text = compileQuery(parsed, key, {param, fieldTypes});
+  return {text, values};
+};
+
 const createDatabase = (databaseName: string) => `CREATE DATABASE "${databaseName}"`;
 
 const createDocumentsTable = (tableName: string, timestamps: boolean) => {
@@ -110,36 +187,307 @@ const createAttachmentsTable = (tableName: string, timestamps: boolean) => {
     id SERIAL PRIMARY KEY,
     ${idKey} VARCHAR(255) NOT NULL,
     name VARCHAR(255) NOT NULL,
-    ${valueKey} TEXT${timestamps ? `, ${createdAtKey} TIMESTAMPTZ DEFAULT Now() , ${updatedAtKey} TIMESTAMPTZ` : ''}
+    ${valueKey} TEXT,
+    ${dataKey} BYTEA,
+    ${contentTypeKey} VARCHAR(255),
+    ${lengthKey} INTEGER,
+    ${digestKey} VARCHAR(255)${timestamps ? `, ${createdAtKey} TIMESTAMPTZ DEFAULT Now() , ${updatedAtKey} TIMESTAMPTZ` : ''}
+  )`;
+};
+
+/**
+ * Attachments written with a stream are saved as chunks of an upload, then copied to the attachments table once complete
+ * @param tableName
+ */
+const createUploadsTable = (tableName: string) => {
+  return `CREATE TABLE IF NOT EXISTS ${tableName} (
+    id SERIAL PRIMARY KEY,
+    startedAt TIMESTAMPTZ DEFAULT Now()
+  )`;
+};
+
+const uploadChunksTable = (uploadsTable: string) => `${uploadsTable}_chunks`;
+
+/**
+ * Every chunk is inserted in its own row, appending to a single `bytea` would rewrite it for every chunk.
+ * Chunks are removed with their upload.
+ * @param uploadsTable
+ */
+const createUploadChunksTable = (uploadsTable: string) => {
+  return `CREATE TABLE IF NOT EXISTS ${uploadChunksTable(uploadsTable)} (
+    seq SERIAL PRIMARY KEY,
+    upload INTEGER NOT NULL REFERENCES ${uploadsTable} (id) ON DELETE CASCADE,
+    ${dataKey} BYTEA NOT NULL
   )`;
 };
 
 const indexName = (tableName: string, fields: string[]) => `${tableName}_index_${fields.join('_')}`;
 
 const indexTable = (tableName: string, fields: string[], name?: string) => {
-  return `CREATE INDEX ${name || indexName(tableName, fields)} ON ${tableName} (${fields.join(', ')})`;
+  return `CREATE INDEX IF NOT EXISTS ${name || indexName(tableName, fields)} ON ${tableName} (${fields.join(', ')})`;
+};
+
+/**
+ * Keep only the latest row of each document, so the unique index can be created on older tables
+ * @param tableName
+ */
+const removeDuplicates = (tableName: string, keys: string[]) => {
+  return `DELETE FROM ${tableName} a USING ${tableName} b WHERE ${keys.map(key => `a.${key} = b.${key}`).join(' AND ')} AND a.id < b.id`;
+};
+
+const uniqueIndexTable = (tableName: string, keys: string[]) => {
+  return `CREATE UNIQUE INDEX IF NOT EXISTS ${tableName}_unique_${keys.join('_')} ON ${tableName} (${keys.join(', ')})`;
+};
+
+/**
+ * Attachments are numbered from 1 and incremented every time they are replaced
+ * @param tableName
+ */
+const addRevisionColumn = (tableName: string) => {
+  return `ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1`;
+};
+
+/**
+ * Attachments are saved as binary data, the former data URI column is kept until they are migrated
+ * @param tableName
+ */
+const addBinaryColumns = (tableName: string) => {
+  return `ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS ${dataKey} BYTEA, ADD COLUMN IF NOT EXISTS ${contentTypeKey} VARCHAR(255)`;
+};
+
+/**
+ * Size and digest of attachments, so they can be compared without reading their content
+ * @param tableName
+ */
+const addMetadataColumns = (tableName: string) => {
+  return `ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS ${lengthKey} INTEGER, ADD COLUMN IF NOT EXISTS ${digestKey} VARCHAR(255)`;
+};
+
+/**
+ * Removed documents are kept as tombstones with their removal date when `softDelete` is enabled
+ * @param tableName
+ */
+const addDeletedAtColumn = (tableName: string) => {
+  return `ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS ${deletedAtKey} TIMESTAMPTZ`;
+};
+
+/**
+ * Changes of documents are numbered by a sequence, so they can be read in order from a cursor
+ * @param tableName
+ */
+const createChangesTable = (tableName: string) => {
+  return `CREATE TABLE IF NOT EXISTS ${tableName} (
+    seq BIGSERIAL PRIMARY KEY,
+    ${idKey} VARCHAR(255) NOT NULL,
+    type VARCHAR(6) NOT NULL,
+    changedAt TIMESTAMPTZ DEFAULT Now()
+  )`;
+};
+
+/**
+ * Record the changes of documents from a trigger, so writes made outside of the storage are listed as well.
+ * With `softDelete`, documents are removed by setting their removal date and tombstones are purged silently
+ * @param tableName
+ * @param softDelete
+ */
+const createChangesFunction = (tableName: string, softDelete: boolean) => {
+  return `CREATE OR REPLACE FUNCTION ${tableName}_record() RETURNS trigger AS $$
+  BEGIN
+    IF TG_OP = 'DELETE' THEN
+      ${softDelete ? `IF OLD.${deletedAtKey} IS NOT NULL THEN RETURN NULL; END IF;` : ''}
+      INSERT INTO ${tableName} (${idKey}, type) VALUES (OLD.${idKey}, 'delete');
+    ELSIF TG_OP = 'INSERT' THEN
+      INSERT INTO ${tableName} (${idKey}, type) VALUES (NEW.${idKey}, 'insert');
+    ELSE
+      INSERT INTO ${tableName} (${idKey}, type) VALUES (NEW.${idKey}, ${softDelete ?
+        `CASE WHEN NEW.${deletedAtKey} IS NULL THEN 'update' ELSE 'delete' END` : "'update'"});
+    END IF;
+    RETURN NULL;
+  END
+  $$ LANGUAGE plpgsql`;
+};
+
+const dropChangesTrigger = (tableName: string, documentsTable: string) => {
+  return `DROP TRIGGER IF EXISTS ${tableName}_trigger ON ${documentsTable}`;
+};
+
+const createChangesTrigger = (tableName: string, documentsTable: string) => {
+  return `CREATE TRIGGER ${tableName}_trigger AFTER INSERT OR UPDATE OR DELETE ON ${documentsTable} ` +
+    `FOR EACH ROW EXECUTE PROCEDURE ${tableName}_record()`;
+};
+
+const createAttachmentsHistoryTable = (tableName: string, timestamps: boolean) => {
+  return `CREATE TABLE IF NOT EXISTS ${tableName} (
+    id SERIAL PRIMARY KEY,
+    ${idKey} VARCHAR(255) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    revision INTEGER NOT NULL,
+    ${valueKey} TEXT,
+    ${dataKey} BYTEA,
+    ${contentTypeKey} VARCHAR(255),
+    ${lengthKey} INTEGER,
+    ${digestKey} VARCHAR(255)${timestamps ? `, ${createdAtKey} TIMESTAMPTZ, ${updatedAtKey} TIMESTAMPTZ` : ''}
+  )`;
+};
+
+const createDocumentsHistoryTable = (tableName: string) => {
+  return `CREATE TABLE IF NOT EXISTS ${tableName} (
+    id SERIAL PRIMARY KEY,
+    ${idKey} VARCHAR(255) NOT NULL,
+    revision INTEGER NOT NULL,
+    ${valueKey} jsonb,
+    operation VARCHAR(6) NOT NULL,
+    replacedAt TIMESTAMPTZ DEFAULT Now()
+  )`;
+};
+
+const indexFieldName = (key: string) => key.replace(/\W/g, '_');
+
+/**
+ * Expression index on document fields, cast like in queries so it can be used by them
+ * @internal
+ * @param tableName
+ * @param index
+ * @param fieldTypes
+ */
+export const indexFields = (tableName: string, index: string|string[], fieldTypes: IPostgreSQLFieldTypes = {}) => {
+  const keys = typeof index === 'string' ? [index] : index;
+  return indexTable(
+    tableName,
+    keys.map(key => `(${typedDBField(key, fieldTypes[key])})`),
+    indexName(tableName, keys.map(indexFieldName))
+  );
+};
+
+/**
+ * @internal
+ */
+export const resultAsJson = (doc: ISqlDocument) => doc[valueKey];
+
+/**
+ * Select only a range of the binary data, positions start at `1` in SQL
+ * @internal
+ * @param range
+ */
+export const dataRange = ({start, end}: IAttachmentRange) => {
+  if (end !== Infinity) {
+    return `substring(${dataKey} FROM ${start + 1} FOR ${end - start}) AS ${dataKey}`;
+  }
+  return start ? `substring(${dataKey} FROM ${start + 1}) AS ${dataKey}` : dataKey;
+};
+
+/**
+ * Documents are upserted on their id, `createdAt` keeps its default value on insert and is left untouched on update
+ * @param table
+ * @param id
+ * @param value
+ * @param timestamps
+ * @param softDelete
+ */
+const upsertDocument = (table: string, id: string, value: string, timestamps: boolean, softDelete: boolean) => {
+  let update = `${valueKey}=EXCLUDED.${valueKey}`;
+  if (timestamps) {
+    update += `, ${updatedAtKey}=Now()`;
+  }
+  if (softDelete) {
+    // saving a removed document brings it back
+    update += `, ${deletedAtKey}=NULL`;
+  }
+  return `INSERT INTO ${table} (${idKey}, ${valueKey}) VALUES (${id}, ${value}) ON CONFLICT (${idKey}) DO UPDATE SET ${update}`;
+};
+
+/**
+ * Attachments are upserted on their id and name
+ * @param table
+ * @param values
+ * @param from
+ * @param timestamps
+ */
+const upsertAttachment = (table: string, values: string[], from: string|undefined, timestamps: boolean) => {
+  // the data URI of an attachment saved by a previous version is cleared
+  const update = `${dataKey}=EXCLUDED.${dataKey}, ${contentTypeKey}=EXCLUDED.${contentTypeKey}, ` +
+    `${lengthKey}=EXCLUDED.${lengthKey}, ${digestKey}=EXCLUDED.${digestKey}, ${valueKey}=NULL, ` +
+    `revision=${table}.revision + 1` + (timestamps ? `, ${updatedAtKey}=Now()` : '');
+  const select = from ? `SELECT ${values.join(', ')} FROM ${from}` : `VALUES (${values.join(', ')})`;
+  return `INSERT INTO ${table} (${idKey}, name, ${dataKey}, ${contentTypeKey}, ${lengthKey}, ${digestKey}) ${select} ` +
+    `ON CONFLICT (${idKey}, name) DO UPDATE SET ${update}`;
 };
 
 /**
  * @internal
+ * @param fieldTypes Type of the document fields used in queries
  */
-export const resultAsJson = (doc: IPostgreSQLDocument) => doc[valueKey];
+export const postgreSQLDialect = (fieldTypes: IPostgreSQLFieldTypes): ISqlDialect => ({
+  placeholder: index => `$${index}`,
+  now: 'Now()',
+  daysAgo: days => `Now() - ${days} * INTERVAL '1 day'`,
+  condition: (parsed, param) => compileQuery(parsed, undefined, {param, fieldTypes}),
+  sortField: key => typedDBField(key, fieldTypes[key]),
+  limit: (count, offset) => ` LIMIT ${count}${offset ? ` OFFSET ${offset}` : ''}`,
+  resultAsJson: document => resultAsJson(document),
+  upsertDocument,
+  upsertAttachment,
+  dataRange: range => dataRange(range),
+  dataLength: `octet_length(${dataKey})`,
+  dataSubstring: (from, length) => `substring(${dataKey} FROM ${from} FOR ${length})`,
+  createUpload: table => `INSERT INTO ${table} DEFAULT VALUES RETURNING id`,
+  appendChunk: (table, chunk, id) => `INSERT INTO ${uploadChunksTable(table)} (${dataKey}, upload) VALUES (${chunk}, ${id})`,
+  // chunks are written one after the other, so they are in the order of their sequence
+  uploadSource: (table, id) => `(SELECT COALESCE(string_agg(${dataKey}, '' ORDER BY seq), '') AS ${dataKey} ` +
+    `FROM ${uploadChunksTable(table)} WHERE upload=${id}) AS upload`
+});
+
+const networkErrorCodes = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EPIPE'];
+
+/**
+ * `409` for integrity constraint violations, `503` when the server cannot be reached
+ * or refuses connections, `500` otherwise.
+ * @param code SQLSTATE or Node.js error code
+ * @param defaultStatus
+ */
+const errorStatus = (code: string, defaultStatus: number) => {
+  if (/^23/.test(code)) {
+    return 409;
+  }
+  if (/^(08|57P0[1-3]|53300)/.test(code) || networkErrorCodes.indexOf(code) !== -1) {
+    return 503;
+  }
+  return defaultStatus;
+};
+
+/**
+ * Convert a database error to a jIO error with a meaningful status code
+ * @internal
+ * @param error
+ * @param defaultStatus Status code for unknown errors
+ */
+export const toJioError = (error: any, defaultStatus = 500) => {
+  if (error instanceof jIO.util.jIOError) {
+    return error;
+  }
+  const {message = 'Unknown database error', code = ''} = error || {};
+  return new jIO.util.jIOError(message, errorStatus(code, defaultStatus));
+};
 
 /**
  * Execute queries within a transaction
  * @internal
  * @param client
  * @param transactions
+ * @param ignoreErrors Log errors instead of rejecting
  */
-export const safeTransaction = async (client: PoolClient, transactions: () => Promise<any>) => {
+export const safeTransaction = async (client: PoolClient, transactions: () => Promise<any>, ignoreErrors = false) => {
   try {
     await client.query('BEGIN');
     await transactions();
     await client.query('COMMIT');
   }
   catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    if (!ignoreErrors) {
+      throw toJioError(error);
+    }
     console.error(error);
-    await client.query('ROLLBACK');
   }
   finally {
     client.release();
@@ -148,8 +496,11 @@ export const safeTransaction = async (client: PoolClient, transactions: () => Pr
 
 /**
  * @internal
+ * @param client
+ * @param query
+ * @param ignoreErrors Log errors and return an empty result instead of rejecting
  */
-export const safeQuery = async <T>(client: PoolClient, query: () => Promise<QueryResult>) => {
+export const safeQuery = async <T>(client: PoolClient, query: () => Promise<QueryResult>, ignoreErrors = false) => {
   let result = {
     rows: [] as T[],
     rowCount: 0
@@ -158,6 +509,9 @@ export const safeQuery = async <T>(client: PoolClient, query: () => Promise<Quer
     result = await query();
   }
   catch (error) {
+    if (!ignoreErrors) {
+      throw toJioError(error);
+    }
     console.error(error);
   }
   finally {
@@ -172,66 +526,11 @@ const requireOptionHost = (options: IPostgreSQLStorageOptions) => {
   }
 };
 
-const requireOptionDatabase = (options: IPostgreSQLStorageOptions) => {
-  if (typeof options.database !== 'string' || !options.database) {
-    throw new Error('"database" must be a non-empty string');
-  }
-};
-
-const requireOptionTableNames = (options: IPostgreSQLStorageOptions) => {
-  if (!options.documentsTableName) {
-    options.documentsTableName = defaultDocumentsCollection;
-  }
-  if (!options.attachmentsTableName) {
-    options.attachmentsTableName = defaultAttachmentsCollection;
-  }
-};
-
-const queryWhere = (options: IJioQueryOptions) => {
-  if (options.query) {
-    const parsed = jIO.QueryFactory.create(options.query);
-    return ` WHERE ${parseQuery(parsed)}`;
-  }
-  return '';
-};
-
-const querySort = (options: IJioQueryOptions) => {
-  if (options.sort_on) {
-    return ` ORDER BY ${(options.sort_on || []).map(values => {
-      return `${keyToDBField(values[0])} ${values[1] === 'ascending' ? 'ASC' : 'DESC'}`;
-    }).join(', ')}`;
-  }
-  return '';
-};
-
-const queryLimit = (options: IJioQueryOptions) => {
-  return options.limit ? ` LIMIT ${options.limit[1] || 100} OFFSET ${options.limit[0] || 0}` : '';
-};
-
-const queryParseDocument = (document: IPostgreSQLDocument, includeDoc: boolean, selectList: string[]) => {
-  const value: any = {
-    id: document[idKey]
-  };
-  const doc = resultAsJson(document);
-  if (includeDoc) {
-    value.doc = doc;
-  }
-  else if (selectList.length) {
-    value.value = {};
-    selectList.forEach(key => value.value[key] = doc[key]);
-  }
-  return value;
-};
-
 /**
  * @internal
  */
-export class PostgreSQLStorage implements IJioStorage {
-  private _dbPromise: IQueue<Pool>;
-  private _pool: Pool;
-  private _documentsTable: string;
-  private _attachmentsTable: string;
-  private _timestamps = true;
+export class PostgreSQLStorage extends SqlStorage<Pool> {
+  private _fieldTypes: IPostgreSQLFieldTypes;
 
   /**
    * Initiate a PostgreSQL Storage.
@@ -239,16 +538,18 @@ export class PostgreSQLStorage implements IJioStorage {
    */
   constructor(options: IPostgreSQLStorageOptions) {
     requireOptionHost(options);
-    requireOptionDatabase(options);
-    requireOptionTableNames(options);
-    this._documentsTable = options.documentsTableName!;
-    this._attachmentsTable = options.attachmentsTableName!;
-    if (options.timestamps === false) {
-      this._timestamps = false;
-    }
+    super(options, 'PostgreSQL');
+    this._fieldTypes = options.fieldTypes || {};
     this._dbPromise = this.initDb(options);
   }
 
+  /**
+   * @internal
+   */
+  protected dialect() {
+    return postgreSQLDialect(this._fieldTypes);
+  }
+
   /**
    * @internal
    */
@@ -281,173 +582,126 @@ export class PostgreSQLStorage implements IJioStorage {
         return safeTransaction(client, () => {
           return Promise.all([
             client.query(createDocumentsTable(this._documentsTable, this._timestamps)),
-            client.query(createAttachmentsTable(this._attachmentsTable, this._timestamps))
+            client.query(createAttachmentsTable(this._attachmentsTable, this._timestamps)),
+            client.query(createUploadsTable(this._uploadsTable)),
+            client.query(createUploadChunksTable(this._uploadsTable)),
+            client.query(indexTable(uploadChunksTable(this._uploadsTable), ['upload'])),
+            // documents are upserted on their id, attachments on their id and name
+            client.query(removeDuplicates(this._documentsTable, [idKey])),
+            client.query(uniqueIndexTable(this._documentsTable, [idKey])),
+            client.query(removeDuplicates(this._attachmentsTable, [idKey, 'name'])),
+            client.query(uniqueIndexTable(this._attachmentsTable, [idKey, 'name'])),
+            client.query(addRevisionColumn(this._attachmentsTable)),
+            client.query(addBinaryColumns(this._attachmentsTable)),
+            client.query(addMetadataColumns(this._attachmentsTable)),
+            ...(this._softDelete ? [client.query(addDeletedAtColumn(this._documentsTable))] : []),
+            ...(this._history ? [
+              client.query(createDocumentsHistoryTable(this._documentsHistoryTable)),
+              client.query(uniqueIndexTable(this._documentsHistoryTable, [idKey, 'revision']))
+            ] : []),
+            ...(this._attachmentHistory ? [
+              client.query(createAttachmentsHistoryTable(this._attachmentsHistoryTable, this._timestamps)),
+              client.query(uniqueIndexTable(this._attachmentsHistoryTable, [idKey, 'name', 'revision'])),
+              client.query(addBinaryColumns(this._attachmentsHistoryTable)),
+              client.query(addMetadataColumns(this._attachmentsHistoryTable))
+            ] : []),
+            // the trigger is created last, so removing duplicates is not recorded
+            ...this.changesStatements().map(sql => client.query(sql))
           ]);
-        });
+        }, this._ignoreErrors);
       })
       .push(() => promiseToQueue(pool.connect()))
-      .push(client => {
-        return safeTransaction(client, () => {
-          return Promise.all([
-            // create indexes on id keys
-            client.query(indexTable(this._documentsTable, [idKey])).catch(() => {}),
-            client.query(indexTable(this._attachmentsTable, [idKey])).catch(() => {}),
-            // indexes the most common fields when doing a query
-            client.query(indexTable(this._documentsTable, [
-              `${valueKey} ->> ${queryPortalType}`,
-              `${valueKey} ->> ${queryGroupingReference}`
-            ], 'documents_index_queries')).catch(() => {}),
-            // create index on id key + name for attachments
-            client.query(indexTable(this._attachmentsTable, [idKey, 'name'])).catch(() => {})
-          ]);
-        });
-      })
+      .push(client => promiseToQueue(this.createIndexes(client)))
       .push(() => this._pool = pool);
   }
 
   /**
-   * Get an active client. Call `client.end()` to release when done querying
+   * Create indexes one at a time, outside of a transaction, so an index which cannot be created
+   * (e.g. when a value cannot be cast to its field type) is logged and does not prevent the others from being created
    * @internal
    */
-  private client() {
-    return getQueue()
-      .push(() => this._pool ? this._pool : this._dbPromise)
-      .push(pool => promiseToQueue(pool.connect()));
+  private async createIndexes(client: PoolClient) {
+    const statements = [
+      // create index on id key for attachments, documents already have a unique index
+      indexTable(this._attachmentsTable, [idKey]),
+      // tombstones are listed and purged by removal date
+      ...(this._softDelete ? [indexTable(this._documentsTable, [deletedAtKey])] : []),
+      // indexes the most common fields when doing a query
+      indexFields(this._documentsTable, [queryPortalType, queryGroupingReference], this._fieldTypes),
+      // additional indexes from options
+      ...this._indexes.map(index => indexFields(this._documentsTable, index, this._fieldTypes))
+    ];
+    try {
+      for (const sql of statements) {
+        await client.query(sql).catch(error => console.error(error));
+      }
+    }
+    finally {
+      client.release();
+    }
   }
 
   /**
-   * Execute a transaction to modify data.
+   * Get an active client. Call `client.end()` to release when done querying
    * @internal
-   * @param sql
-   * @param values
    */
-  private executeTransaction(sql: string, values?: string[]) {
-    return this.client().push(client => {
-      return promiseToQueue(safeTransaction(client, () => {
-        return client.query(sql, values);
-      }));
-    });
+  private client() {
+    return this.pool().push(pool => promiseToQueue(pool.connect().catch(error => {
+      throw toJioError(error, 503);
+    })));
   }
 
   /**
    * Execute a query.
    * @internal
-   * @param sql
-   * @param values
+   * @param query
    */
-  private executeQuery<T>(sql: string, values?: string[]) {
+  protected executeQuery<T>(query: ISqlQuery) {
     return this.client().push(client => {
-      return promiseToQueue(safeQuery<T>(client, () => {
-        return client.query(sql, values);
-      }));
-    });
-  }
-
-  get(id: string) {
-    return this.executeQuery<IPostgreSQLDocument>(
-      `SELECT * FROM ${this._documentsTable} WHERE ${idKey}=$1`,
-      [id]
-    ).push(result => {
-      return result.rows.length ? resultAsJson(result.rows[0]) : null;
+      return promiseToQueue(this.track(safeQuery<T>(client, () => {
+        return client.query(query.text, query.values);
+      }, this._ignoreErrors)));
     });
   }
 
-  put(id: string, data: any) {
-    return this.get(id)
-      .push(document => {
-        if (!document) {
-          return this.executeTransaction(
-            `INSERT INTO ${this._documentsTable} (${idKey}, ${valueKey}) VALUES ($1, $2)`,
-            [id, JSON.stringify(data)]
-          );
-        }
-
-        let update = `UPDATE ${this._documentsTable} SET ${valueKey}=$2 WHERE ${idKey}=$1`;
-        if (this._timestamps) {
-          update = `UPDATE ${this._documentsTable} SET ${valueKey}=$2, ${updatedAtKey}=Now() WHERE ${idKey}=$1`;
+  /**
+   * Execute several statements, in order, within a single transaction.
+   * @internal
+   * @param queries
+   */
+  protected executeTransaction(queries: ISqlQuery[]) {
+    let rowCount = 0;
+    return this.client().push(client => {
+      return promiseToQueue(this.track(safeTransaction(client, async () => {
+        for (const query of queries) {
+          const result = await client.query(query.text, query.values);
+          rowCount += result.rowCount;
         }
-        return this.executeTransaction(update, [id, JSON.stringify(data)]);
-      })
-      .push(() => {
-        return id;
-      });
-  }
-
-  remove(id: string) {
-    return this.executeTransaction(
-      `DELETE FROM ${this._documentsTable} WHERE ${idKey}=$1`,
-      [id]
-    ).push(() => {
-      return id;
-    });
-  }
-
-  getAttachment(id: string, name: string) {
-    return this.executeQuery<IPostgreSQLAttachment>(
-      `SELECT * FROM ${this._attachmentsTable} WHERE ${idKey}=$1 AND name=$2`,
-      [id, name]
-    ).push(result => {
-      if (result.rows.length) {
-        return jIO.util.dataURItoBlob(result.rows[0][valueKey]);
-      }
-      throw new jIO.util.jIOError(
-        `Cannot find attachment: ${id}`,
-        404
-      );
-    });
-  }
-
-  putAttachment(id: string, name: string, blob: Blob) {
-    return getQueue()
-      .push(() => {
-        return jIO.util.readBlobAsDataURL(blob);
-      })
-      .push(data => {
-        return this.executeTransaction(
-          `INSERT INTO ${this._attachmentsTable} (${idKey}, name, ${valueKey}) VALUES ($1, $2, $3)`,
-          [id, name, data.target.result]
-        );
-      });
+      }, this._ignoreErrors)));
+    }).push(() => rowCount);
   }
 
-  removeAttachment(id: string, name: string) {
-    return this.executeTransaction(
-      `DELETE FROM ${this._attachmentsTable} WHERE ${idKey}=$1 AND name=$2`,
-      [id, name]
-    ).push(() => {
-      return id;
-    });
-  }
-
-  allAttachments(id: string) {
-    return this.executeQuery<IPostgreSQLAttachment>(
-      `SELECT * FROM ${this._attachmentsTable} WHERE ${idKey}=$1`,
-      [id]
-    ).push(result => {
-      const attachments = {};
-      if (result.rows.length) {
-        result.rows.forEach(document => {
-          attachments[document.name] = {};
-        });
-      }
-      return attachments;
-    });
-  }
-
-  hasCapacity() {
-    return true;
+  /**
+   * Create the changes table and the trigger recording them with `changeFeed`, or drop the trigger without it
+   * @internal
+   */
+  private changesStatements() {
+    if (!this._changeFeed) {
+      return [dropChangesTrigger(this._changesTable, this._documentsTable)];
+    }
+    return [
+      createChangesTable(this._changesTable),
+      createChangesFunction(this._changesTable, this._softDelete),
+      dropChangesTrigger(this._changesTable, this._documentsTable),
+      createChangesTrigger(this._changesTable, this._documentsTable)
+    ];
   }
 
-  buildQuery(options: IJioQueryOptions = {query: ''}) {
-    const where = queryWhere(options);
-    const sort = querySort(options);
-    const limit = queryLimit(options);
-    const selectList = (options.select_list || []).slice();
-    const sql = `SELECT * FROM ${this._documentsTable}${where}${sort}${limit}`;
-
-    return this.executeQuery<IPostgreSQLDocument>(sql).push(result => {
-      return result.rows.map(document => queryParseDocument(document, options.include_docs || false, selectList));
-    });
+  /**
+   * @internal
+   */
+  protected endPool(pool: Pool) {
+    return pool.end();
   }
 }
 
@@ -0,0 +1,140 @@
+import { expect } from 'chai';
+import 'mocha';
+
+import * as jioImport from 'jio';
+
+import {
+  IQueryRow, compareValues, matchQuery, queryKeys, parseQuery, queryFilter, querySort, queryLimit, queryParseDocument
+} from './index';
+
+const row = (id: string, doc: any): IQueryRow => ({id, field: key => doc[key]});
+
+describe('query', () => {
+  describe('compareValues', () => {
+    it('should put missing values first', () => {
+      expect(compareValues(undefined, 'a')).to.be.below(0);
+      expect(compareValues('a', null)).to.be.above(0);
+      expect(compareValues(null, undefined)).to.equal(0);
+    });
+
+    it('should compare numbers by value', () => {
+      expect(compareValues(2, 10)).to.be.below(0);
+    });
+
+    it('should compare other values as strings', () => {
+      expect(compareValues('10', '2')).to.be.below(0);
+      expect(compareValues('b', 'a')).to.be.above(0);
+      expect(compareValues('a', 'a')).to.equal(0);
+    });
+  });
+
+  describe('matchQuery', () => {
+    const doc: any = {portal_type: 'Road Account', count: 5};
+    const query = (text: string) => matchQuery(key => doc[key], jioImport.jIO.QueryFactory.create(text));
+
+    it('should match simple queries', () => {
+      expect(query('portal_type: "Road Account"')).to.equal(true);
+      expect(query('portal_type: "Road Message"')).to.equal(false);
+      expect(query('missing: "value"')).to.equal(false);
+    });
+
+    it('should match operators', () => {
+      expect(query('count: > 4')).to.equal(true);
+      expect(query('count: != 5')).to.equal(false);
+    });
+
+    it('should not match missing fields', () => {
+      expect(query('missing: != "value"')).to.equal(false);
+      expect(query('missing: < 10')).to.equal(false);
+    });
+
+    it('should match % wildcards regardless of case', () => {
+      expect(query('portal_type: "road%"')).to.equal(true);
+      expect(query('portal_type: "%Message"')).to.equal(false);
+      expect(query('portal_type: != "%message"')).to.equal(true);
+      expect(query('portal_type: "Road_Account"')).to.equal(false);
+    });
+
+    it('should compare numbers by value in ranges', () => {
+      expect(query('count: < 10')).to.equal(true);
+      expect(query('count: >= 4.5')).to.equal(true);
+      expect(query('portal_type: < 10')).to.equal(false);
+    });
+
+    it('should match complex queries', () => {
+      expect(query('(portal_type: "Road Account") AND (count: 5)')).to.equal(true);
+      expect(query('(portal_type: "Road Message") OR (count: 5)')).to.equal(true);
+      expect(query('(portal_type: "Road Message") AND (count: 5)')).to.equal(false);
+      expect(query('NOT portal_type: "Road Message"')).to.equal(true);
+    });
+  });
+
+  describe('queryKeys', () => {
+    it('should list the keys of the query', () => {
+      const query = jioImport.jIO.QueryFactory.create('(portal_type: "Road Account") AND ((count: 5) OR (name: "a"))');
+      expect(queryKeys(query)).to.deep.equal(['portal_type', 'count', 'name']);
+    });
+  });
+
+  describe('parseQuery', () => {
+    it('should return null without query', () => {
+      expect(parseQuery({query: ''})).to.equal(null);
+    });
+  });
+
+  describe('queryFilter', () => {
+    const rows = [row('1', {name: 'a'}), row('2', {name: 'b'})];
+
+    it('should keep the matching rows', () => {
+      expect(queryFilter(rows, parseQuery({query: 'name: "b"'})).map(({id}) => id)).to.deep.equal(['2']);
+    });
+
+    it('should keep all rows without query', () => {
+      expect(queryFilter(rows, null)).to.equal(rows);
+    });
+  });
+
+  describe('querySort', () => {
+    it('should sort on every key', () => {
+      const rows = [row('1', {type: 'a', name: 'b'}), row('2', {type: 'b', name: 'a'}), row('3', {type: 'a', name: 'a'})];
+      const sorted = querySort(rows, {query: '', sort_on: [['type', 'descending'], ['name', 'ascending']]});
+      expect(sorted.map(({id}) => id)).to.deep.equal(['2', '3', '1']);
+    });
+
+    it('should keep the order of the previous keys with many rows', () => {
+      const rows = Array.from({length: 20}, (_value, index) => row(`${index}`, {type: `${index % 2}`, name: `${index % 5}`}));
+      const sorted = querySort(rows, {query: '', sort_on: [['type', 'ascending'], ['name', 'descending']]});
+      const keys = sorted.map(({field}) => `${field('type')}${field('name')}`);
+      expect(keys).to.deep.equal(keys.slice().sort((a, b) => a[0] === b[0] ? b.localeCompare(a) : a.localeCompare(b)));
+      expect(sorted.filter(({field}) => field('type') === '0' && field('name') === '4').map(({id}) => id)).to.deep.equal(['4', '14']);
+    });
+  });
+
+  describe('queryLimit', () => {
+    const rows = [1, 2, 3, 4];
+
+    it('should skip and limit the rows', () => {
+      expect(queryLimit(rows, {query: '', limit: [1, 2]})).to.deep.equal([2, 3]);
+    });
+
+    it('should keep all rows without limit', () => {
+      expect(queryLimit(rows, {query: ''})).to.equal(rows);
+    });
+  });
+
+  describe('queryParseDocument', () => {
+    const doc = {name: 'a', type: 'b'};
+
+    it('should include the document', () => {
+      expect(queryParseDocument('id', doc, true, [])).to.deep.equal({id: 'id', doc});
+    });
+
+    it('should select values', () => {
+      expect(queryParseDocument('id', doc, false, ['name'])).to.deep.equal({id: 'id', value: {name: 'a'}});
+    });
+
+    it('should only return the id', () => {
+      expect(queryParseDocument('id', doc, false, [])).to.deep.equal({id: 'id'});
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import {
+  IJioQueryOptions, IJioSimpleQuery, IJioComplexQuery
+} from '@clearroad/api';
+import { jIO } from 'jio';
+
+/**
+ * Get the value of a field of a document, `modification_date` included
+ */
+export type IQueryField = (key: string) => any;
+
+/**
+ * Document evaluated by queries
+ */
+export interface IQueryRow {
+  id: string;
+  field: IQueryField;
+}
+
+const isMissing = (value: any) => value === undefined || value === null;
+
+/**
+ * Compare values the way databases compare JSON fields: missing values first, numbers by value, others as strings
+ * @internal
+ * @param a
+ * @param b
+ */
+// tslint:disable-next-line:cyclomatic-complexity
+export const compareValues = (a: any, b: any): number => {
+  const missing = Number(!isMissing(a)) - Number(!isMissing(b));
+  if (missing || isMissing(a)) {
+    return missing;
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return `${a}` < `${b}` ? -1 : Number(`${a}` > `${b}`);
+};
+
+const rangeOperators = ['<', '<=', '>', '>='];
+const numberRegExp = /^-?\d+(\.\d+)?$/;
+
+const isWildcard = (operator: string, value: any) => {
+  return (operator === '=' || operator === '!=') && typeof value === 'string' && value.indexOf('%') !== -1;
+};
+
+/**
+ * Comparing a field with `<`, `<=`, `>` or `>=` to a number compares it by value, like the SQL storages
+ * @param operator
+ * @param value
+ */
+const isNumberComparison = (operator: string, value: any) => rangeOperators.indexOf(operator) !== -1 && numberRegExp.test(`${value}`);
+
+// only `%` is a wildcard in jIO, matches are case-insensitive
+const likePattern = (value: string) => {
+  const escaped = value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/%/g, '.*')}$`, 'i');
+};
+
+const matchWildcard = (field: any, operator: string, value: string) => {
+  return likePattern(value).test(`${field}`) === (operator !== '!=');
+};
+
+const compareField = (field: any, operator: string, value: any) => {
+  if (isNumberComparison(operator, value)) {
+    // fields which are not numbers never match, `NaN` comparisons being false
+    return Number(field) - Number(value);
+  }
+  return compareValues(`${field}`, `${value}`);
+};
+
+/**
+ * Missing fields never match, like `NULL` values in SQL
+ * @param field
+ * @param operator
+ * @param value
+ */
+// tslint:disable-next-line:cyclomatic-complexity
+const matchOperator = (field: any, operator: string, value: any) => {
+  if (isMissing(field)) {
+    return false;
+  }
+  if (isWildcard(operator, value)) {
+    return matchWildcard(field, operator, value);
+  }
+  const comparison = compareField(field, operator, value);
+  switch (operator) {
+    case '!=': return comparison !== 0;
+    case '<': return comparison < 0;
+    case '<=': return comparison <= 0;
+    case '>': return comparison > 0;
+    case '>=': return comparison >= 0;
+    default: return comparison === 0;
+  }
+};
+
+const matchComplexQuery = (field: IQueryField, query: IJioComplexQuery): boolean => {
+  const matches = query.query_list.map(subquery => matchQuery(field, subquery, query.key));
+  if (query.operator === 'OR') {
+    return matches.indexOf(true) > -1;
+  }
+  if (query.operator === 'NOT') {
+    return matches.indexOf(true) === -1;
+  }
+  return matches.indexOf(false) === -1;
+};
+
+/**
+ * Evaluate a parsed jIO query on the fields of a document
+ * @internal
+ * @param field
+ * @param query
+ * @param key Key of the parent query
+ */
+export const matchQuery = (field: IQueryField, query: IJioSimpleQuery|IJioComplexQuery, key = ''): boolean => {
+  if (query.type === 'complex') {
+    return matchComplexQuery(field, query as IJioComplexQuery);
+  }
+  const simple = query as IJioSimpleQuery;
+  return matchOperator(field(simple.key || key), simple.operator || '=', simple.value);
+};
+
+/**
+ * Keys used by a parsed jIO query
+ * @internal
+ * @param query
+ * @param key Key of the parent query
+ */
+export const queryKeys = (query: IJioSimpleQuery|IJioComplexQuery, key = ''): string[] => {
+  if (query.type === 'complex') {
+    const complex = query as IJioComplexQuery;
+    return complex.query_list.reduce((keys: string[], subquery) => keys.concat(queryKeys(subquery, complex.key)), []);
+  }
+  return [query.key || key];
+};
+
+/**
+ * Parse the query of the options, `null` without query
+ * @internal
+ * @param options
+ */
+export const parseQuery = (options: IJioQueryOptions): IJioSimpleQuery|IJioComplexQuery|null => {
+  return options.query ? jIO.QueryFactory.create(options.query) : null;
+};
+
+/**
+ * Keep the rows matching the query of the options
+ * @internal
+ * @param rows
+ * @param query Query returned by `parseQuery`
+ */
+export const queryFilter = <T extends IQueryRow>(rows: T[], query: IJioSimpleQuery|IJioComplexQuery|null) => {
+  return query ? rows.filter(row => matchQuery(row.field, query)) : rows;
+};
+
+/**
+ * Sort on every key, the first one first, then keep the order of the rows
+ * @internal
+ * @param rows
+ * @param options
+ */
+export const querySort = <T extends IQueryRow>(rows: T[], options: IJioQueryOptions) => {
+  const sortOn = options.sort_on || [];
+  const compareRows = (a: T, b: T) => sortOn.reduce((result, [key, order]) => {
+    return result || (order === 'ascending' ? 1 : -1) * compareValues(a.field(key), b.field(key));
+  }, 0);
+  return rows
+    .map((row, index) => ({row, index}))
+    .sort((a, b) => compareRows(a.row, b.row) || a.index - b.index)
+    .map(({row}) => row);
+};
+
+/**
+ * Same defaults as `LIMIT ${count || 100} OFFSET ${offset || 0}` in the SQL storages
+ * @internal
+ * @param rows
+ * @param options
+ */
+export const queryLimit = <T>(rows: T[], options: IJioQueryOptions) => {
+  if (!options.limit) {
+    return rows;
+  }
+  const offset = options.limit[0] || 0;
+  return rows.slice(offset, offset + (options.limit[1] || 100));
+};
+
+/**
+ * Result of `buildQuery` for a document
+ * @internal
+ * @param id
+ * @param doc
+ * @param includeDoc
+ * @param selectList
+ */
+export const queryParseDocument = (id: string, doc: any, includeDoc: boolean, selectList: string[]) => {
+  const value: any = {id};
+  if (includeDoc) {
+    value.doc = doc;
+  }
+  else if (selectList.length) {
+    value.value = {};
+    selectList.forEach(key => value.value[key] = doc[key]);
+  }
+  return value;
+};
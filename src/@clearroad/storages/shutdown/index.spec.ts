@@ -0,0 +1,73 @@
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import 'mocha';
+
+import { constants } from 'os';
+
+import { registryKey, shutdown, closeOnExit } from './index';
+
+let stubs: sinon.SinonStub[] = [];
+
+class FakeQueue {
+  constructor(private error?: Error) {}
+  push(resolve, reject) {
+    return this.error ? reject(this.error) : resolve();
+  }
+}
+
+const fakeStorage = (error?: Error) => ({
+  close: sinon.stub().returns(new FakeQueue(error))
+});
+
+describe('shutdown', () => {
+  let exitStub: sinon.SinonStub;
+
+  beforeEach(() => {
+    stubs = [];
+    exitStub = sinon.stub(process, 'exit');
+    stubs.push(exitStub);
+  });
+
+  afterEach(() => {
+    stubs.forEach(stub => stub.restore());
+  });
+
+  describe('shutdown', () => {
+    it('should close all storages then exit', async () => {
+      const storages = [fakeStorage(), fakeStorage(new Error('close failed'))];
+      await shutdown(storages as any, 'SIGTERM');
+      storages.forEach(storage => expect(storage.close.calledOnce).to.equal(true));
+      expect(exitStub.calledOnceWith(128 + constants.signals.SIGTERM)).to.equal(true);
+    });
+  });
+
+  describe('closeOnExit', () => {
+    let onceStub: sinon.SinonStub;
+
+    beforeEach(() => {
+      delete (global as any)[registryKey];
+      onceStub = sinon.stub(process, 'once');
+      stubs.push(onceStub);
+    });
+
+    afterEach(() => {
+      delete (global as any)[registryKey];
+    });
+
+    it('should register a single handler per signal', () => {
+      closeOnExit(fakeStorage() as any);
+      closeOnExit(fakeStorage() as any);
+      expect(onceStub.callCount).to.equal(2);
+      expect(onceStub.calledWith('SIGINT')).to.equal(true);
+      expect(onceStub.calledWith('SIGTERM')).to.equal(true);
+    });
+
+    it('should close every storage on signal', async () => {
+      const storages = [fakeStorage(), fakeStorage()];
+      storages.forEach(storage => closeOnExit(storage as any));
+      await onceStub.firstCall.args[1]();
+      storages.forEach(storage => expect(storage.close.calledOnce).to.equal(true));
+      expect(exitStub.calledOnceWith(128 + constants.signals.SIGINT)).to.equal(true);
+    });
+  });
+});
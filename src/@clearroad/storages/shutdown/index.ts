@@ -0,0 +1,52 @@
+import { IQueue } from '@clearroad/api';
+
+import { constants } from 'os';
+
+/**
+ * Storage closed when the process is asked to stop
+ */
+export interface IClosableStorage {
+  close(): IQueue<any>;
+}
+
+const shutdownSignals: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+
+/**
+ * Storages to close are kept on the global object, so storages of different packages share a single handler per signal
+ * @internal
+ */
+export const registryKey = Symbol.for('@clearroad/api-storages/closeOnExit');
+
+/**
+ * Close all storages, whether they succeed or not, then exit with the status of the signal
+ * @internal
+ * @param storages
+ * @param signal
+ */
+export const shutdown = (storages: IClosableStorage[], signal: NodeJS.Signals) => {
+  return Promise.all(storages.map(storage => new Promise(resolve => {
+    storage.close().push(resolve, resolve);
+  }))).then(() => process.exit(128 + constants.signals[signal]));
+};
+
+const registeredStorages = (): IClosableStorage[] => {
+  const scope: any = global;
+  if (!scope[registryKey]) {
+    const storages: IClosableStorage[] = [];
+    shutdownSignals.forEach(signal => {
+      process.once(signal, () => shutdown(storages, signal));
+    });
+    scope[registryKey] = storages;
+  }
+  return scope[registryKey];
+};
+
+/**
+ * Close the storage when the process is asked to stop.
+ * The first storage registers the signal handlers, which close every storage then exit the process.
+ * @internal
+ * @param storage
+ */
+export const closeOnExit = (storage: IClosableStorage) => {
+  registeredStorages().push(storage);
+};
@@ -0,0 +1,201 @@
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import 'mocha';
+
+import * as jioImport from 'jio';
+import { Readable, Writable } from 'stream';
+
+import {
+  dataURIToBinary, attachmentToBlob, attachmentMetadata,
+  attachmentSource, attachmentReadStream, attachmentWriteStream, queueToPromise
+} from './index';
+import { attachmentDigest } from '../local';
+
+let stubs: sinon.SinonStub[] = [];
+
+const readStream = (stream: Readable) => new Promise<Buffer>((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  stream.on('data', chunk => chunks.push(chunk as Buffer));
+  stream.on('end', () => resolve(Buffer.concat(chunks)));
+  stream.on('error', reject);
+});
+
+const writeStream = (stream: Writable, chunks: Buffer[]) => new Promise((resolve, reject) => {
+  stream.on('finish', resolve);
+  stream.on('error', reject);
+  chunks.forEach(chunk => stream.write(chunk));
+  stream.end();
+});
+
+describe('sql', () => {
+  beforeEach(() => {
+    stubs = [];
+  });
+
+  afterEach(() => {
+    stubs.forEach(stub => stub.restore());
+  });
+
+  describe('dataURIToBinary', () => {
+    it('should decode base64 data URIs', () => {
+      const binary = dataURIToBinary('data:text/plain;base64,dGVzdA==');
+      expect(binary.contentType).to.equal('text/plain');
+      expect(binary.data.toString()).to.equal('test');
+    });
+
+    it('should decode url encoded data URIs', () => {
+      const binary = dataURIToBinary('data:text/plain,a%20test');
+      expect(binary.contentType).to.equal('text/plain');
+      expect(binary.data.toString()).to.equal('a test');
+    });
+
+    it('should keep invalid data URIs as is', () => {
+      const binary = dataURIToBinary('test');
+      expect(binary.contentType).to.equal('');
+      expect(binary.data.toString()).to.equal('test');
+    });
+  });
+
+  describe('attachmentToBlob', () => {
+    it('should create a blob from binary data', () => {
+      const blob = attachmentToBlob({data: Buffer.from('test'), content_type: 'text/plain'} as any);
+      expect(blob.type).to.equal('text/plain');
+      expect(blob.size).to.equal(4);
+    });
+
+    it('should decode attachments which have not been migrated', () => {
+      const dataURItoBlobStub = sinon.stub(jioImport.jIO.util, 'dataURItoBlob').returns('blob');
+      stubs.push(dataURItoBlobStub);
+      expect(attachmentToBlob({data: null, value: 'data:,test'} as any)).to.equal('blob');
+      expect(dataURItoBlobStub.calledWith('data:,test')).to.equal(true);
+    });
+
+    it('should slice attachments which have not been migrated', () => {
+      const blob = {size: 4, slice: sinon.stub().returns('slice')};
+      stubs.push(sinon.stub(jioImport.jIO.util, 'dataURItoBlob').returns(blob));
+      expect(attachmentToBlob({data: null, value: 'data:,test'} as any, {start: 1, end: Infinity})).to.equal('slice');
+      expect(blob.slice.calledWith(1, 4)).to.equal(true);
+    });
+  });
+
+  describe('attachmentMetadata', () => {
+    const attachment: any = {
+      name: 'name',
+      revision: 2,
+      content_type: 'text/plain',
+      length: 4,
+      digest: 'sha256-digest'
+    };
+
+    it('should return the metadata', () => {
+      expect(attachmentMetadata(attachment)).to.deep.equal({
+        revision: 2,
+        content_type: 'text/plain',
+        length: 4,
+        digest: 'sha256-digest'
+      });
+    });
+
+    it('should return the timestamps', () => {
+      const createdAt = new Date('2018-01-01T00:00:00.000Z');
+      const metadata = attachmentMetadata({...attachment, createdAt, updatedAt: null});
+      expect(metadata.createdAt).to.equal('2018-01-01T00:00:00.000Z');
+      expect(metadata.updatedAt).to.equal('2018-01-01T00:00:00.000Z');
+    });
+  });
+
+  describe('attachmentSource', () => {
+    it('should return the size of binary data', () => {
+      expect(attachmentSource('attachments', {revision: 2, value: null, size: 4} as any)).to.deep.equal({
+        table: 'attachments',
+        revision: 2,
+        size: 4
+      });
+    });
+
+    it('should decode attachments which have not been migrated', () => {
+      const source = attachmentSource('attachments', {revision: 1, value: 'data:,test', size: null} as any);
+      expect(source.size).to.equal(4);
+      expect(source.data!.toString()).to.equal('test');
+    });
+  });
+
+  describe('attachmentReadStream', () => {
+    it('should read chunks until the end', async () => {
+      const readChunk = sinon.stub();
+      readChunk.onFirstCall().returns(Promise.resolve(Buffer.from('te')));
+      readChunk.onSecondCall().returns(Promise.resolve(Buffer.from('st')));
+      readChunk.returns(Promise.resolve(null));
+      const data = await readStream(attachmentReadStream(readChunk));
+      expect(data.toString()).to.equal('test');
+      expect(readChunk.args.map(args => args[0])).to.deep.equal([0, 2, 4]);
+    });
+
+    it('should emit errors', async () => {
+      const stream = attachmentReadStream(() => Promise.reject(new Error('error')));
+      try {
+        await readStream(stream);
+        throw new Error('should have failed');
+      }
+      catch (error) {
+        expect(error.message).to.equal('error');
+      }
+    });
+  });
+
+  describe('attachmentWriteStream', () => {
+    let upload: any;
+
+    beforeEach(() => {
+      upload = {
+        write: sinon.stub().returns(Promise.resolve()),
+        commit: sinon.stub().returns(Promise.resolve()),
+        abort: sinon.stub().returns(Promise.resolve())
+      };
+    });
+
+    it('should write chunks then commit', async () => {
+      await writeStream(attachmentWriteStream(upload), [Buffer.from('te'), Buffer.from('st')]);
+      expect(upload.write.args.map(args => args[0].toString())).to.deep.equal(['te', 'st']);
+      expect(upload.commit.calledWith(4, attachmentDigest(Buffer.from('test')))).to.equal(true);
+      expect(upload.abort.called).to.equal(false);
+    });
+
+    it('should abort when a chunk fails', async () => {
+      upload.write.returns(Promise.reject(new Error('error')));
+      try {
+        await writeStream(attachmentWriteStream(upload), [Buffer.from('test')]);
+        throw new Error('should have failed');
+      }
+      catch (error) {
+        expect(error.message).to.equal('error');
+      }
+      expect(upload.commit.called).to.equal(false);
+      expect(upload.abort.calledOnce).to.equal(true);
+    });
+
+    it('should abort when destroyed', () => {
+      const stream = attachmentWriteStream(upload);
+      stream.emit('close');
+      expect(upload.abort.calledOnce).to.equal(true);
+    });
+  });
+
+  describe('queueToPromise', () => {
+    it('should resolve with the result of the queue', async () => {
+      const queue: any = {push: (resolve: Function) => resolve('result')};
+      expect(await queueToPromise(queue)).to.equal('result');
+    });
+
+    it('should reject with the error of the queue', async () => {
+      const queue: any = {push: (_resolve: Function, reject: Function) => reject(new Error('error'))};
+      try {
+        await queueToPromise(queue);
+        throw new Error('should have failed');
+      }
+      catch (error) {
+        expect(error.message).to.equal('error');
+      }
+    });
+  });
+});
@@ -0,0 +1,1291 @@
+import {
+  getQueue, promiseToQueue,
+  IJioStorage, IQueue,
+  IJioQueryOptions, IJioSimpleQuery, IJioComplexQuery
+} from '@clearroad/api';
+import { jIO, Blob as JioBlob } from 'jio';
+
+import { createHash } from 'crypto';
+import { Readable, Writable } from 'stream';
+
+import { IAttachmentRange, attachmentRange, attachmentDigest } from '../local';
+import { closeOnExit } from '../shutdown';
+
+/**
+ * @internal
+ */
+export const idKey = '_id';
+/**
+ * @internal
+ */
+export const valueKey = 'value';
+/**
+ * @internal
+ */
+export const dataKey = 'data';
+/**
+ * @internal
+ */
+export const contentTypeKey = 'content_type';
+/**
+ * @internal
+ */
+export const lengthKey = 'length';
+/**
+ * @internal
+ */
+export const digestKey = 'digest';
+/**
+ * @internal
+ */
+export const createdAtKey = 'createdAt';
+/**
+ * @internal
+ */
+export const updatedAtKey = 'updatedAt';
+/**
+ * @internal
+ */
+export const deletedAtKey = 'deletedAt';
+/**
+ * @internal
+ */
+export const defaultDocumentsCollection = 'documents';
+/**
+ * @internal
+ */
+export const defaultAttachmentsCollection = 'attachments';
+/**
+ * @internal
+ */
+export const defaultAttachmentsHistoryCollection = 'attachments_history';
+/**
+ * @internal
+ */
+export const defaultDocumentsHistoryCollection = 'documents_history';
+/**
+ * @internal
+ */
+export const defaultStreamChunkSize = 1024 * 1024;
+/**
+ * @internal
+ */
+export const defaultTombstoneRetention = 30;
+/**
+ * @internal
+ */
+export const defaultChangesLimit = 100;
+
+/**
+ * Options shared by all SQL storages
+ */
+export interface ISqlStorageOptions {
+  /**
+   * Table name for all documents.
+   */
+  documentsTableName?: string;
+  /**
+   * Table name for attachments.
+   */
+  attachmentsTableName?: string;
+  /**
+   * Keep previous versions of attachments when they are replaced.
+   * Disabled by default
+   */
+  attachmentHistory?: boolean;
+  /**
+   * Table name for previous versions of attachments.
+   */
+  attachmentsHistoryTableName?: string;
+  /**
+   * Keep previous versions of documents when they are replaced or removed, listed by `allRevisions`.
+   * Disabled by default
+   */
+  history?: boolean;
+  /**
+   * Table name for previous versions of documents.
+   */
+  documentsHistoryTableName?: string;
+  /**
+   * Add created/updatedAt timestamps for every document.
+   * Enabled by default for both
+   */
+  timestamps?: boolean;
+  /**
+   * Additional indexes on document fields.
+   * Use a field name for a single index, or a list of field names for a compound index.
+   */
+  indexes?: Array<string|string[]>;
+  /**
+   * Keep removed documents as tombstones, hidden from `get` and `buildQuery` and listed by `allTombstones`.
+   * Disabled by default
+   */
+  softDelete?: boolean;
+  /**
+   * Number of days tombstones are kept before `purgeTombstones` removes them.
+   * 30 by default
+   */
+  tombstoneRetention?: number;
+  /**
+   * Record inserts, updates and deletes of documents, listed by `changes`.
+   * Disabled by default
+   */
+  changeFeed?: boolean;
+  /**
+   * Close the storage when the process receives SIGINT or SIGTERM.
+   * Disabled by default
+   */
+  closeOnExit?: boolean;
+  /**
+   * Log database errors and resolve as if the query succeeded, instead of rejecting with a jIO error.
+   * Only kept for compatibility, disabled by default
+   */
+  ignoreErrors?: boolean;
+}
+
+export interface ISqlAttachmentOptions {
+  /**
+   * Revision of the attachment to get, the current version is returned by default.
+   * Previous revisions are only kept with the `attachmentHistory` option
+   */
+  revision?: number;
+  /**
+   * First byte to get, `0` by default
+   */
+  start?: number;
+  /**
+   * Byte after the last one to get, the end of the attachment by default
+   */
+  end?: number;
+}
+
+export interface ISqlAttachmentReadStreamOptions extends ISqlAttachmentOptions {
+  /**
+   * Number of bytes read from the database at once.
+   * 1 MiB by default
+   */
+  chunkSize?: number;
+}
+
+export interface ISqlAttachmentWriteStreamOptions {
+  /**
+   * Content type of the attachment
+   */
+  contentType?: string;
+}
+
+/**
+ * @internal
+ */
+export interface ISqlDocument {
+  [idKey]: string;
+  /**
+   * Parsed JSON or text, depending on the database
+   */
+  [valueKey]: any;
+  [createdAtKey]?: Date;
+  [updatedAtKey]?: Date;
+  [deletedAtKey]?: Date;
+}
+
+/**
+ * @internal
+ */
+export interface ISqlAttachment {
+  id: number;
+  [idKey]: string;
+  name: string;
+  /**
+   * Data URI saved by previous versions, until it is migrated
+   */
+  [valueKey]: string|null;
+  [dataKey]: Buffer|null;
+  [contentTypeKey]: string|null;
+  [lengthKey]: number|null;
+  [digestKey]: string|null;
+  revision: number;
+  [createdAtKey]?: Date;
+  [updatedAtKey]?: Date;
+}
+
+export type SqlDocumentOperation = 'update'|'delete';
+
+interface ISqlDocumentVersion {
+  [idKey]: string;
+  revision: number;
+  [valueKey]: any;
+  operation: SqlDocumentOperation;
+  replacedAt: Date;
+}
+
+/**
+ * Previous version of a document kept with the `history` option, returned by `allRevisions`
+ */
+export interface ISqlRevision {
+  revision: number;
+  /**
+   * Operation which replaced this version
+   */
+  operation: SqlDocumentOperation;
+  /**
+   * ISO date when this version was replaced
+   */
+  replacedAt: string;
+}
+
+/**
+ * Document removed with the `softDelete` option, returned by `allTombstones`
+ */
+export interface ISqlTombstone {
+  id: string;
+  /**
+   * ISO date of the removal
+   */
+  deletedAt: string;
+}
+
+export type SqlChangeType = 'insert'|'update'|'delete';
+
+interface ISqlChangeRow {
+  /**
+   * Big integers may be returned as strings
+   */
+  seq: number|string;
+  [idKey]: string;
+  type: SqlChangeType;
+  changedAt: Date;
+}
+
+/**
+ * Change of a document recorded with the `changeFeed` option
+ */
+export interface ISqlChange {
+  /**
+   * Sequence number of the change, pass it to `changes` to resume after it
+   */
+  seq: number;
+  id: string;
+  type: SqlChangeType;
+  /**
+   * ISO date of the change
+   */
+  changedAt: string;
+}
+
+/**
+ * Changes returned by `changes`
+ */
+export interface ISqlChanges {
+  changes: ISqlChange[];
+  /**
+   * Sequence number of the last change, to pass to the next call
+   */
+  cursor: number;
+}
+
+/**
+ * Attachment metadata returned by `allAttachments`
+ */
+export interface ISqlAttachmentMetadata {
+  revision: number;
+  content_type: string;
+  /**
+   * Size in bytes
+   */
+  length: number|null;
+  /**
+   * Digest of the content, as `sha256-<hex>`
+   */
+  digest: string|null;
+  /**
+   * ISO date of the first version, only with the `timestamps` option
+   */
+  createdAt?: string;
+  /**
+   * ISO date of the current version, only with the `timestamps` option
+   */
+  updatedAt?: string;
+}
+
+/**
+ * Where to read an attachment from while streaming it
+ * @internal
+ */
+export interface IAttachmentSource {
+  table: string;
+  revision: number;
+  /**
+   * Size in bytes
+   */
+  size: number;
+  /**
+   * Content of an attachment which has not been migrated yet, decoded at once
+   */
+  data?: Buffer;
+}
+
+/**
+ * @internal
+ */
+export interface IAttachmentUpload {
+  /**
+   * Append a chunk to the upload
+   */
+  write: (chunk: Buffer) => Promise<any>;
+  /**
+   * Replace the attachment with the complete upload
+   */
+  commit: (length: number, digest: string) => Promise<any>;
+  /**
+   * Delete an incomplete upload
+   */
+  abort: () => Promise<any>;
+}
+
+/**
+ * @internal
+ */
+export interface ISqlQuery {
+  /**
+   * SQL with the placeholders of the dialect
+   */
+  text: string;
+  /**
+   * Values for the placeholders, in order
+   */
+  values: any[];
+}
+
+/**
+ * Result of a query, whatever the driver
+ * @internal
+ */
+export interface ISqlResult<T> {
+  rows: T[];
+  /**
+   * Number of rows changed by the query
+   */
+  rowCount: number;
+  /**
+   * Id generated by an insert, for drivers returning it instead of rows
+   */
+  insertId?: number;
+}
+
+/**
+ * Add a value to a query and return its placeholder
+ */
+export type SqlParam = (value: any) => string;
+
+/**
+ * SQL differing from a database to another.
+ * Placeholders are returned by `param`, so values are added to the query in order.
+ */
+export interface ISqlDialect {
+  /**
+   * Placeholder of a value
+   * @param index Position of the value in the query, starting at `1`
+   */
+  placeholder(index: number): string;
+  /**
+   * Current date and time
+   */
+  now: string;
+  /**
+   * Date a number of days ago
+   * @param days Placeholder of the number of days
+   */
+  daysAgo(days: string): string;
+  /**
+   * Compile a jIO query to a condition on documents
+   * @param parsed
+   * @param param
+   */
+  condition(parsed: IJioSimpleQuery|IJioComplexQuery, param: SqlParam): string;
+  /**
+   * Expression of a document field to sort on
+   * @param key
+   */
+  sortField(key: string): string;
+  /**
+   * Clause limiting the rows of a query, after its `ORDER BY` clause
+   * @param count
+   * @param offset
+   */
+  limit(count: string, offset?: string): string;
+  /**
+   * Document value of a row
+   * @param document
+   */
+  resultAsJson(document: ISqlDocument): any;
+  /**
+   * Insert a document, or replace the value of the existing one
+   * @param table
+   * @param id Placeholder of the id
+   * @param value Placeholder of the JSON value
+   * @param timestamps
+   * @param softDelete Bring back a removed document
+   */
+  upsertDocument(table: string, id: string, value: string, timestamps: boolean, softDelete: boolean): string;
+  /**
+   * Insert an attachment, or replace the existing one and increment its revision
+   * @param table
+   * @param values Expressions of the id, name, data, content type, length and digest
+   * @param from Table and condition to select the values from, if any
+   * @param timestamps
+   */
+  upsertAttachment(table: string, values: string[], from: string|undefined, timestamps: boolean): string;
+  /**
+   * Select only a range of the binary data
+   * @param range
+   */
+  dataRange(range: IAttachmentRange): string;
+  /**
+   * Size in bytes of the binary data
+   */
+  dataLength: string;
+  /**
+   * Part of the binary data
+   * @param from Placeholder of the first byte, starting at `1`
+   * @param length Placeholder of the number of bytes
+   */
+  dataSubstring(from: string, length: string): string;
+  /**
+   * Create an empty upload, returning its id.
+   * Uploads are required by `createAttachmentWriteStream`, unless the storage overrides it
+   * @param table
+   */
+  createUpload?(table: string): string;
+  /**
+   * Append a chunk to an upload
+   * @param table
+   * @param chunk Placeholder of the chunk
+   * @param id Placeholder of the upload id
+   */
+  appendChunk?(table: string, chunk: string, id: string): string;
+  /**
+   * Table and condition to select the complete binary data of an upload from, as `data`
+   * @param table
+   * @param id Placeholder of the upload id
+   */
+  uploadSource?(table: string, id: string): string;
+}
+
+/**
+ * @internal
+ */
+export interface IBinaryAttachment {
+  contentType: string;
+  data: Buffer;
+}
+
+const dataURIPattern = /^data:([^,]*?)(;base64)?,([\s\S]*)$/;
+
+/**
+ * Decode an attachment saved as a data URI by previous versions
+ * @internal
+ * @param uri
+ */
+export const dataURIToBinary = (uri: string): IBinaryAttachment => {
+  const match = dataURIPattern.exec(uri);
+  if (!match) {
+    return {contentType: '', data: Buffer.from(uri)};
+  }
+  return {
+    contentType: match[1],
+    data: match[2] ? Buffer.from(match[3], 'base64') : Buffer.from(decodeURIComponent(match[3]))
+  };
+};
+
+const isPartial = (range?: IAttachmentRange) => !!range && (range.start > 0 || range.end !== Infinity);
+
+/**
+ * Attachments which have not been migrated yet are still data URIs, their range is sliced once decoded
+ * @internal
+ * @param attachment
+ * @param range
+ */
+export const attachmentToBlob = (attachment: ISqlAttachment, range?: IAttachmentRange): Blob => {
+  if (!attachment[dataKey]) {
+    const blob: Blob = jIO.util.dataURItoBlob(attachment[valueKey]);
+    return isPartial(range) ? blob.slice(range!.start, Math.min(range!.end, blob.size)) : blob;
+  }
+  return new JioBlob([attachment[dataKey]], {type: attachment[contentTypeKey] || ''});
+};
+
+/**
+ * @internal
+ * @param attachment
+ */
+export const attachmentMetadata = (attachment: ISqlAttachment) => {
+  const metadata: ISqlAttachmentMetadata = {
+    revision: attachment.revision,
+    content_type: attachment[contentTypeKey] || '',
+    length: attachment[lengthKey],
+    digest: attachment[digestKey]
+  };
+  if (attachment[createdAtKey]) {
+    metadata.createdAt = attachment[createdAtKey]!.toISOString();
+    // attachments which have never been replaced have no update date
+    metadata.updatedAt = (attachment[updatedAtKey] || attachment[createdAtKey]!).toISOString();
+  }
+  return metadata;
+};
+
+/**
+ * @internal
+ * @param table
+ * @param attachment Attachment with the size of its binary data
+ */
+export const attachmentSource = (table: string, attachment: ISqlAttachment & {size: number|null}): IAttachmentSource => {
+  if (attachment[valueKey] === null) {
+    return {table, revision: attachment.revision, size: attachment.size || 0};
+  }
+  const {data} = dataURIToBinary(attachment[valueKey]!);
+  return {table, revision: attachment.revision, size: data.length, data};
+};
+
+/**
+ * Readable stream of an attachment, read one chunk at a time
+ * @internal
+ * @param readChunk Resolves with the chunk starting at `offset`, or `null` after the end
+ * @param start Offset of the first chunk
+ */
+export const attachmentReadStream = (readChunk: (offset: number) => Promise<Buffer|null>, start = 0) => {
+  let offset = start;
+  return new Readable({
+    read() {
+      readChunk(offset).then(chunk => {
+        offset += chunk ? chunk.length : 0;
+        this.push(chunk);
+      }, error => this.emit('error', error));
+    }
+  });
+};
+
+/**
+ * Writable stream of an attachment, the upload is deleted if the stream fails or is destroyed before the end
+ * @internal
+ * @param upload
+ */
+export const attachmentWriteStream = (upload: IAttachmentUpload) => {
+  const hash = createHash('sha256');
+  let length = 0;
+  let done = false;
+  const abort = () => {
+    if (!done) {
+      done = true;
+      upload.abort().catch(() => {});
+    }
+  };
+  const fail = (callback: Function) => (error: Error) => {
+    abort();
+    callback(error);
+  };
+  const stream = new Writable({
+    write(chunk: Buffer|string, _encoding, callback: Function) {
+      // strings are decoded to buffers before being written
+      const buffer = chunk as Buffer;
+      hash.update(buffer);
+      length += buffer.length;
+      upload.write(buffer).then(() => callback(), fail(callback));
+    },
+    final(callback) {
+      upload.commit(length, `sha256-${hash.digest('hex')}`).then(() => {
+        done = true;
+        callback();
+      }, fail(callback));
+    }
+  });
+  stream.on('close', abort);
+  return stream;
+};
+
+/**
+ * Streams are not queues, wait for a queue of the storage with a promise
+ * @internal
+ * @param queue
+ */
+export const queueToPromise = <T>(queue: IQueue<T>) => new Promise<T>((resolve, reject) => {
+  queue.push(resolve, reject);
+});
+
+const requireOptionDatabase = (options: ISqlStorageOptions & {database?: string}) => {
+  if (typeof options.database !== 'string' || !options.database) {
+    throw new Error('"database" must be a non-empty string');
+  }
+};
+
+const requireOptionHistoryTableNames = (options: ISqlStorageOptions) => {
+  if (!options.attachmentsHistoryTableName) {
+    options.attachmentsHistoryTableName = defaultAttachmentsHistoryCollection;
+  }
+  if (!options.documentsHistoryTableName) {
+    options.documentsHistoryTableName = defaultDocumentsHistoryCollection;
+  }
+};
+
+const requireOptionTableNames = (options: ISqlStorageOptions) => {
+  if (!options.documentsTableName) {
+    options.documentsTableName = defaultDocumentsCollection;
+  }
+  if (!options.attachmentsTableName) {
+    options.attachmentsTableName = defaultAttachmentsCollection;
+  }
+  requireOptionHistoryTableNames(options);
+};
+
+const whereClause = (conditions: string[]) => conditions.length ? ` WHERE ${conditions.join(' AND ')}` : '';
+
+/**
+ * Sorting is required to paginate, rows are sorted by insertion by default
+ * @param options
+ * @param dialect
+ */
+const querySort = (options: IJioQueryOptions, dialect: ISqlDialect) => {
+  if (options.sort_on) {
+    return ` ORDER BY ${(options.sort_on || []).map(values => {
+      return `${dialect.sortField(values[0])} ${values[1] === 'ascending' ? 'ASC' : 'DESC'}`;
+    }).join(', ')}`;
+  }
+  return options.limit ? ' ORDER BY id' : '';
+};
+
+const queryLimit = (options: IJioQueryOptions, dialect: ISqlDialect) => {
+  return options.limit ? dialect.limit(`${options.limit[1] || 100}`, `${options.limit[0] || 0}`) : '';
+};
+
+const queryParseDocument = (doc: any, id: string, includeDoc: boolean, selectList: string[]) => {
+  const value: any = {id};
+  if (includeDoc) {
+    value.doc = doc;
+  }
+  else if (selectList.length) {
+    value.value = {};
+    selectList.forEach(key => value.value[key] = doc[key]);
+  }
+  return value;
+};
+
+/**
+ * Copy the current version of a document to the history table, numbered after its previous versions
+ * @param tableName
+ * @param historyTableName
+ * @param operation Operation replacing the current version
+ * @param conditions Conditions on the current version, such as not archiving tombstones
+ * @param id Placeholders of the id
+ */
+const archiveDocument = (
+  tableName: string, historyTableName: string, operation: SqlDocumentOperation, conditions: string[], id: () => string
+) => {
+  return `INSERT INTO ${historyTableName} (${idKey}, revision, ${valueKey}, operation) ` +
+    `SELECT ${idKey}, COALESCE((SELECT MAX(revision) FROM ${historyTableName} WHERE ${idKey}=${id()}), 0) + 1, ${valueKey}, '${operation}' ` +
+    `FROM ${tableName} WHERE ${[`${idKey}=${id()}`, ...conditions].join(' AND ')}`;
+};
+
+/**
+ * Copy the current version of an attachment to the history table
+ * @param tableName
+ * @param historyTableName
+ * @param timestamps
+ * @param id Placeholder of the id
+ * @param name Placeholder of the name
+ */
+const archiveAttachment = (tableName: string, historyTableName: string, timestamps: boolean, id: string, name: string) => {
+  const columns = `${idKey}, name, revision, ${valueKey}, ${dataKey}, ${contentTypeKey}, ${lengthKey}, ${digestKey}` +
+    (timestamps ? `, ${createdAtKey}, ${updatedAtKey}` : '');
+  return `INSERT INTO ${historyTableName} (${columns}) SELECT ${columns} FROM ${tableName} WHERE ${idKey}=${id} AND name=${name}`;
+};
+
+/**
+ * Attachments of documents which do not exist, left by previous versions which did not remove them with their document
+ * @param tableName
+ * @param documentsTable
+ */
+const deleteOrphanAttachments = (tableName: string, documentsTable: string) => {
+  return `DELETE FROM ${tableName} WHERE NOT EXISTS (SELECT 1 FROM ${documentsTable} d WHERE d.${idKey} = ${tableName}.${idKey})`;
+};
+
+/**
+ * jIO storage saving documents and attachments in a SQL database.
+ * The SQL differing from a database to another is delegated to a dialect,
+ * connections and the creation of tables to the storage of each database.
+ * @internal
+ */
+export abstract class SqlStorage<Pool> implements IJioStorage {
+  protected _dbPromise: IQueue<Pool>;
+  protected _pool: Pool;
+  protected _documentsTable: string;
+  protected _attachmentsTable: string;
+  protected _attachmentsHistoryTable: string;
+  protected _documentsHistoryTable: string;
+  protected _uploadsTable: string;
+  protected _changesTable: string;
+  protected _attachmentHistory = false;
+  protected _history = false;
+  protected _timestamps = true;
+  protected _indexes: Array<string|string[]>;
+  protected _ignoreErrors = false;
+  protected _softDelete = false;
+  protected _changeFeed = false;
+  private _tombstoneRetention = defaultTombstoneRetention;
+  private _pending: Array<Promise<void>> = [];
+  private _closing: IQueue<void>;
+  private _title: string;
+
+  /**
+   * @param options Storage options
+   * @param title Name of the database in error messages
+   */
+  // tslint:disable-next-line:cyclomatic-complexity
+  constructor(options: ISqlStorageOptions & {database?: string}, title: string) {
+    requireOptionDatabase(options);
+    requireOptionTableNames(options);
+    this._title = title;
+    this._documentsTable = options.documentsTableName!;
+    this._attachmentsTable = options.attachmentsTableName!;
+    this._attachmentsHistoryTable = options.attachmentsHistoryTableName!;
+    this._documentsHistoryTable = options.documentsHistoryTableName!;
+    this._uploadsTable = `${this._attachmentsTable}_uploads`;
+    this._changesTable = `${this._documentsTable}_changes`;
+    if (options.attachmentHistory === true) {
+      this._attachmentHistory = true;
+    }
+    if (options.history === true) {
+      this._history = true;
+    }
+    if (options.timestamps === false) {
+      this._timestamps = false;
+    }
+    this._indexes = options.indexes || [];
+    if (options.ignoreErrors === true) {
+      this._ignoreErrors = true;
+    }
+    if (options.softDelete === true) {
+      this._softDelete = true;
+    }
+    if (options.tombstoneRetention !== undefined) {
+      this._tombstoneRetention = options.tombstoneRetention;
+    }
+    if (options.changeFeed === true) {
+      this._changeFeed = true;
+    }
+    if (options.closeOnExit) {
+      closeOnExit(this);
+    }
+  }
+
+  /**
+   * SQL of the database
+   * @internal
+   */
+  protected abstract dialect(): ISqlDialect;
+
+  /**
+   * Execute a query.
+   * @internal
+   * @param query
+   */
+  protected abstract executeQuery<T>(query: ISqlQuery): IQueue<ISqlResult<T>>;
+
+  /**
+   * Execute several queries, in order, within a single transaction.
+   * Resolves with the number of rows changed by all queries.
+   * @internal
+   * @param queries
+   */
+  protected abstract executeTransaction(queries: ISqlQuery[]): IQueue<number>;
+
+  /**
+   * Close all connections of the pool
+   * @internal
+   * @param pool
+   */
+  protected abstract endPool(pool: Pool): Promise<void>;
+
+  /**
+   * Get the active pool, once tables are created
+   * @internal
+   */
+  protected pool() {
+    return getQueue().push(() => {
+      if (this._closing) {
+        throw new jIO.util.jIOError(
+          `${this._title} storage is closed`,
+          503
+        );
+      }
+      return this._pool ? this._pool : this._dbPromise;
+    });
+  }
+
+  /**
+   * Keep track of a running query until it settles, so `close` can wait for it.
+   * @internal
+   * @param promise
+   */
+  protected track<T>(promise: Promise<T>) {
+    const pending = Promise.resolve(promise).then(() => {}, () => {});
+    this._pending.push(pending);
+    pending.then(() => this._pending.splice(this._pending.indexOf(pending), 1));
+    return promise;
+  }
+
+  /**
+   * Build a query, values are added in order with the placeholders of the dialect
+   * @internal
+   * @param build Returns the SQL, adding values with `param`
+   */
+  protected sql(build: (param: SqlParam) => string): ISqlQuery {
+    const dialect = this.dialect();
+    const values: any[] = [];
+    const text = build(value => {
+      values.push(value);
+      return dialect.placeholder(values.length);
+    });
+    return {text, values};
+  }
+
+  get(id: string) {
+    return this.executeQuery<ISqlDocument>(this.sql(param => {
+      return `SELECT * FROM ${this._documentsTable} WHERE ${[`${idKey}=${param(id)}`, ...this.liveConditions()].join(' AND ')}`;
+    })).push(result => {
+      return result.rows.length ? this.dialect().resultAsJson(result.rows[0]) : null;
+    });
+  }
+
+  put(id: string, data: any) {
+    const queries = [this.sql(param => {
+      return this.dialect().upsertDocument(this._documentsTable, param(id), param(JSON.stringify(data)), this._timestamps, this._softDelete);
+    })];
+    if (this._history) {
+      queries.unshift(this.archiveQuery(id, 'update'));
+    }
+    return this.executeTransaction(queries).push(() => {
+      return id;
+    });
+  }
+
+  /**
+   * Remove a document with its attachments and their previous versions, within a single transaction.
+   * With `softDelete`, the document is kept as a tombstone
+   * @param id
+   */
+  remove(id: string) {
+    const queries = [this._documentsTable, ...this.attachmentTables()].map(table => this.sql(param => {
+      return `DELETE FROM ${table} WHERE ${idKey}=${param(id)}`;
+    }));
+    if (this._softDelete) {
+      queries[0] = this.sql(param => {
+        return `UPDATE ${this._documentsTable} SET ${deletedAtKey}=${this.dialect().now} ` +
+          `WHERE ${idKey}=${param(id)} AND ${deletedAtKey} IS NULL`;
+      });
+    }
+    if (this._history) {
+      queries.unshift(this.archiveQuery(id, 'delete'));
+    }
+    return this.executeTransaction(queries).push(() => {
+      return id;
+    });
+  }
+
+  getAttachment(id: string, name: string, options: ISqlAttachmentOptions = {}) {
+    const range = attachmentRange(options);
+    return this.queryAttachment(id, name, options.revision, range).push(result => {
+      if (result.rows.length) {
+        return attachmentToBlob(result.rows[0], range);
+      }
+      throw new jIO.util.jIOError(
+        `Cannot find attachment: ${id}`,
+        404
+      );
+    });
+  }
+
+  /**
+   * Select a range of the current version of an attachment, or of a given revision
+   * @internal
+   */
+  private queryAttachment(id: string, name: string, revision: number|undefined, range: IAttachmentRange) {
+    const columns = `${valueKey}, ${this.dialect().dataRange(range)}, ${contentTypeKey}`;
+    if (revision === undefined) {
+      return this.executeQuery<ISqlAttachment>(this.sql(param => {
+        return `SELECT ${columns} FROM ${this._attachmentsTable} WHERE ${idKey}=${param(id)} AND name=${param(name)}`;
+      }));
+    }
+    return this.executeQuery<ISqlAttachment>(this.sql(param => {
+      return this.revisionTables(revision).map(table => {
+        return `SELECT ${columns} FROM ${table} WHERE ${idKey}=${param(id)} AND name=${param(name)} AND revision=${param(revision)}`;
+      }).join(' UNION ALL ');
+    }));
+  }
+
+  putAttachment(id: string, name: string, blob: Blob) {
+    return getQueue()
+      .push(() => {
+        return jIO.util.readBlobAsArrayBuffer(blob);
+      })
+      .push(data => {
+        const buffer = Buffer.from(data.target.result);
+        return this.saveAttachment(id, name, [this.sql(param => {
+          return this.dialect().upsertAttachment(this._attachmentsTable, [
+            param(id), param(name), param(buffer), param(blob.type), param(buffer.length), param(attachmentDigest(buffer))
+          ], undefined, this._timestamps);
+        })]);
+      });
+  }
+
+  /**
+   * Upsert an attachment within a transaction, after keeping its previous version with `attachmentHistory`
+   * @internal
+   */
+  private saveAttachment(id: string, name: string, queries: ISqlQuery[]) {
+    if (!this._attachmentHistory) {
+      return this.executeTransaction(queries);
+    }
+    return this.executeTransaction([this.sql(param => {
+      return archiveAttachment(this._attachmentsTable, this._attachmentsHistoryTable, this._timestamps, param(id), param(name));
+    }), ...queries]);
+  }
+
+  /**
+   * Read an attachment as a stream of buffers, one chunk at a time, instead of loading it in memory.
+   * The stream fails with a `409` error if the attachment is replaced while it is read.
+   * @param id
+   * @param name
+   * @param options
+   */
+  createAttachmentReadStream(id: string, name: string, options: ISqlAttachmentReadStreamOptions = {}) {
+    const range = attachmentRange(options);
+    const chunkSize = options.chunkSize || defaultStreamChunkSize;
+    let source: Promise<IAttachmentSource>;
+    return attachmentReadStream(offset => {
+      // the stream ends with the range
+      source = source || this.findAttachmentSource(id, name, options.revision).then(found => {
+        return {...found, size: Math.min(found.size, range.end)};
+      });
+      return source.then(found => this.readAttachmentChunk(id, name, found, offset, chunkSize));
+    }, range.start);
+  }
+
+  /**
+   * Find the table and size of the current version of an attachment, or a given revision
+   * @internal
+   */
+  private async findAttachmentSource(id: string, name: string, revision: number|null = null) {
+    for (const table of this.revisionTables(revision)) {
+      const result = await queueToPromise<ISqlResult<ISqlAttachment & {size: number|null}>>(this.executeQuery(this.sql(param => {
+        return `SELECT revision, ${valueKey}, ${this.dialect().dataLength} AS size FROM ${table} ` +
+          `WHERE ${idKey}=${param(id)} AND name=${param(name)} AND revision=COALESCE(${param(revision)}, revision)`;
+      })));
+      if (result.rows.length) {
+        return attachmentSource(table, result.rows[0]);
+      }
+    }
+    throw new jIO.util.jIOError(
+      `Cannot find attachment: ${id}`,
+      404
+    );
+  }
+
+  /**
+   * Tables where a revision of an attachment can be found
+   * @internal
+   */
+  private revisionTables(revision: number|null) {
+    // previous revisions are only kept in the history table
+    if (this._attachmentHistory && revision !== null) {
+      return [this._attachmentsTable, this._attachmentsHistoryTable];
+    }
+    return [this._attachmentsTable];
+  }
+
+  /**
+   * @internal
+   */
+  private async readAttachmentChunk(
+    id: string, name: string, source: IAttachmentSource, offset: number, chunkSize: number
+  ): Promise<Buffer|null> {
+    if (offset >= source.size) {
+      return null;
+    }
+    const length = Math.min(chunkSize, source.size - offset);
+    if (source.data) {
+      return source.data.slice(offset, offset + length);
+    }
+    const result = await queueToPromise<ISqlResult<{chunk: Buffer}>>(this.executeQuery(this.sql(param => {
+      return `SELECT ${this.dialect().dataSubstring(param(offset + 1), param(length))} AS chunk FROM ${source.table} ` +
+        `WHERE ${idKey}=${param(id)} AND name=${param(name)} AND revision=${param(source.revision)}`;
+    })));
+    if (!result.rows.length) {
+      throw new jIO.util.jIOError(
+        `Attachment has been replaced while reading: ${id}`,
+        409
+      );
+    }
+    return result.rows[0].chunk;
+  }
+
+  /**
+   * Write an attachment from a stream of buffers, without loading it in memory.
+   * Chunks are appended to an upload, and the attachment is replaced once the stream finishes.
+   * @param id
+   * @param name
+   * @param options
+   */
+  createAttachmentWriteStream(id: string, name: string, options: ISqlAttachmentWriteStreamOptions = {}) {
+    let upload: Promise<number>;
+    // the upload is created with the first chunk
+    const uploadId = () => {
+      upload = upload || queueToPromise<ISqlResult<{id: number}>>(this.executeQuery({
+        text: this.dialect().createUpload!(this._uploadsTable),
+        values: []
+      })).then(result => result.rows.length ? result.rows[0].id : result.insertId!);
+      return upload;
+    };
+    const deleteUpload = (uploaded: number) => this.sql(param => `DELETE FROM ${this._uploadsTable} WHERE id=${param(uploaded)}`);
+    return attachmentWriteStream({
+      write: chunk => uploadId().then(uploaded => queueToPromise(this.executeTransaction([this.sql(param => {
+        return this.dialect().appendChunk!(this._uploadsTable, param(chunk), param(uploaded));
+      })]))),
+      commit: (length, digest) => uploadId().then(uploaded => queueToPromise(this.saveAttachment(id, name, [this.sql(param => {
+        return this.dialect().upsertAttachment(this._attachmentsTable, [
+          param(id), param(name), dataKey, param(options.contentType || ''), param(length), param(digest)
+        ], this.dialect().uploadSource!(this._uploadsTable, param(uploaded)), this._timestamps);
+      }), deleteUpload(uploaded)]))),
+      abort: () => upload ? upload.then(uploaded => queueToPromise(this.executeTransaction([deleteUpload(uploaded)]))) : Promise.resolve()
+    });
+  }
+
+  removeAttachment(id: string, name: string) {
+    return this.executeTransaction(this.attachmentTables().map(table => this.sql(param => {
+      return `DELETE FROM ${table} WHERE ${idKey}=${param(id)} AND name=${param(name)}`;
+    }))).push(() => {
+      return id;
+    });
+  }
+
+  /**
+   * List the attachments of a document with their metadata, without reading their content
+   * @param id
+   */
+  allAttachments(id: string) {
+    const columns = `name, revision, ${contentTypeKey}, ${lengthKey}, ${digestKey}` +
+      (this._timestamps ? `, ${createdAtKey}, ${updatedAtKey}` : '');
+    return this.executeQuery<ISqlAttachment>(this.sql(param => {
+      return `SELECT ${columns} FROM ${this._attachmentsTable} WHERE ${idKey}=${param(id)}`;
+    })).push(result => {
+      const attachments: {[name: string]: ISqlAttachmentMetadata} = {};
+      result.rows.forEach(attachment => {
+        attachments[attachment.name] = attachmentMetadata(attachment);
+      });
+      return attachments;
+    });
+  }
+
+  /**
+   * SQL databases can search on JSON documents
+   */
+  hasCapacity() {
+    return true;
+  }
+
+  /**
+   * Convert attachments saved as data URIs by previous versions to binary data.
+   * Resolves with the number of converted attachments.
+   * @param batchSize Number of attachments read at once
+   */
+  migrateAttachments(batchSize = 100) {
+    return getQueue().push(async () => {
+      let migrated = 0;
+      for (const table of this.attachmentTables()) {
+        migrated += await this.migrateAttachmentsTable(table, batchSize);
+      }
+      return migrated;
+    });
+  }
+
+  /**
+   * Convert the attachments of a table, one batch at a time.
+   * Resolves with the number of converted attachments.
+   * @internal
+   */
+  private async migrateAttachmentsTable(table: string, batchSize: number) {
+    let migrated = 0;
+    let rows: ISqlAttachment[] = [];
+    do {
+      ({rows} = await queueToPromise<ISqlResult<ISqlAttachment>>(this.executeQuery(this.sql(param => {
+        return `SELECT id, ${valueKey} FROM ${table} WHERE ${valueKey} IS NOT NULL ORDER BY id${this.dialect().limit(param(batchSize))}`;
+      }))));
+      for (const row of rows) {
+        const {contentType, data} = dataURIToBinary(row[valueKey]!);
+        // the attachment may have been replaced in the meantime
+        await queueToPromise(this.executeTransaction([this.sql(param => {
+          return `UPDATE ${table} SET ${dataKey}=${param(data)}, ${contentTypeKey}=${param(contentType)}, ` +
+            `${lengthKey}=${param(data.length)}, ${digestKey}=${param(attachmentDigest(data))}, ${valueKey}=NULL ` +
+            `WHERE id=${param(row.id)} AND ${valueKey} IS NOT NULL`;
+        })]));
+      }
+      migrated += rows.length;
+    } while (rows.length === batchSize);
+    return migrated;
+  }
+
+  /**
+   * Remove the attachments of documents which do not exist anymore, with their previous versions.
+   * Resolves with the number of removed attachments, previous versions included.
+   */
+  purgeOrphanAttachments() {
+    return this.executeTransaction(this.attachmentTables().map(table => ({
+      text: deleteOrphanAttachments(table, this._documentsTable),
+      values: []
+    })));
+  }
+
+  /**
+   * Keep the current version of a document with `history`.
+   * Tombstones are not archived, their value was archived when they were removed
+   * @internal
+   */
+  private archiveQuery(id: string, operation: SqlDocumentOperation) {
+    return this.sql(param => {
+      return archiveDocument(this._documentsTable, this._documentsHistoryTable, operation, this.liveConditions(), () => param(id));
+    });
+  }
+
+  /**
+   * List the previous versions of a document kept with `history`, oldest first
+   * @param id
+   */
+  allRevisions(id: string) {
+    return this.executeQuery<ISqlDocumentVersion>(this.sql(param => {
+      // unquoted names are lowercased by PostgreSQL
+      return `SELECT revision, operation, replacedAt AS "replacedAt" FROM ${this._documentsHistoryTable} ` +
+        `WHERE ${idKey}=${param(id)} ORDER BY revision`;
+    })).push(result => {
+      return result.rows.map((version): ISqlRevision => ({
+        revision: version.revision,
+        operation: version.operation,
+        replacedAt: version.replacedAt.toISOString()
+      }));
+    });
+  }
+
+  /**
+   * Get a previous version of a document kept with `history`
+   * @param id
+   * @param revision Revision returned by `allRevisions`
+   */
+  getRevision(id: string, revision: number) {
+    return this.executeQuery<ISqlDocumentVersion>(this.sql(param => {
+      return `SELECT ${valueKey} FROM ${this._documentsHistoryTable} WHERE ${idKey}=${param(id)} AND revision=${param(revision)}`;
+    })).push(result => {
+      if (result.rows.length) {
+        return this.dialect().resultAsJson(result.rows[0]);
+      }
+      throw new jIO.util.jIOError(
+        `Cannot find revision ${revision} of document: ${id}`,
+        404
+      );
+    });
+  }
+
+  /**
+   * Conditions hiding the tombstones of removed documents with `softDelete`
+   * @internal
+   */
+  protected liveConditions() {
+    return this._softDelete ? [`${deletedAtKey} IS NULL`] : [];
+  }
+
+  /**
+   * List the documents removed with `softDelete`, oldest first
+   * @param since Only list documents removed after this date
+   */
+  allTombstones(since?: Date|string) {
+    return this.executeQuery<ISqlDocument>(this.sql(param => {
+      // unquoted names are lowercased by PostgreSQL
+      return `SELECT ${idKey}, ${deletedAtKey} AS "${deletedAtKey}" FROM ${this._documentsTable} ` +
+        `WHERE ${deletedAtKey} > ${param(since ? new Date(since) : new Date(0))} ORDER BY ${deletedAtKey}`;
+    })).push(result => {
+      return result.rows.map((document): ISqlTombstone => ({
+        id: document[idKey],
+        deletedAt: document[deletedAtKey]!.toISOString()
+      }));
+    });
+  }
+
+  /**
+   * Remove the tombstones older than the `tombstoneRetention` option.
+   * Resolves with the number of removed tombstones.
+   * @param retention Number of days to keep tombstones, overrides the `tombstoneRetention` option
+   */
+  purgeTombstones(retention = this._tombstoneRetention) {
+    return this.executeQuery(this.sql(param => {
+      return `DELETE FROM ${this._documentsTable} WHERE ${deletedAtKey} < ${this.dialect().daysAgo(param(retention))}`;
+    })).push(result => result.rowCount);
+  }
+
+  /**
+   * List the changes of documents recorded with `changeFeed`, oldest first.
+   * Resolves with the changes and the cursor to pass to the next call
+   * @param since Cursor returned by a previous call, all recorded changes by default
+   * @param limit Maximum number of changes
+   */
+  changes(since = 0, limit = defaultChangesLimit) {
+    return this.executeQuery<ISqlChangeRow>(this.sql(param => {
+      // unquoted names are lowercased by PostgreSQL
+      return `SELECT seq, ${idKey}, type, changedAt AS "changedAt" FROM ${this._changesTable} ` +
+        `WHERE seq > ${param(since)} ORDER BY seq${this.dialect().limit(param(limit))}`;
+    })).push((result): ISqlChanges => {
+      const changes = result.rows.map((row): ISqlChange => ({
+        seq: Number(row.seq),
+        id: row[idKey],
+        type: row.type,
+        changedAt: row.changedAt.toISOString()
+      }));
+      return {changes, cursor: changes.length ? changes[changes.length - 1].seq : since};
+    });
+  }
+
+  /**
+   * Tables holding attachments, including their previous versions with `attachmentHistory`
+   * @internal
+   */
+  protected attachmentTables() {
+    return this._attachmentHistory ? [this._attachmentsTable, this._attachmentsHistoryTable] : [this._attachmentsTable];
+  }
+
+  /**
+   * Wait for running queries to finish, then close all connections.
+   * Any further call to the storage fails.
+   */
+  close() {
+    if (!this._closing) {
+      this._closing = getQueue()
+        .push(() => this._pool ? this._pool : this._dbPromise)
+        .push(() => promiseToQueue(Promise.all(this._pending)))
+        .push(() => promiseToQueue(this.endPool(this._pool)));
+    }
+    return this._closing;
+  }
+
+  buildQuery(options: IJioQueryOptions = {query: ''}) {
+    const dialect = this.dialect();
+    const selectList = (options.select_list || []).slice();
+    const query = this.sql(param => {
+      const conditions = this.liveConditions();
+      if (options.query) {
+        const condition = dialect.condition(jIO.QueryFactory.create(options.query), param);
+        conditions.push(conditions.length ? `(${condition})` : condition);
+      }
+      return `SELECT * FROM ${this._documentsTable}${whereClause(conditions)}${querySort(options, dialect)}${queryLimit(options, dialect)}`;
+    });
+
+    return this.executeQuery<ISqlDocument>(query).push(result => {
+      return result.rows.map(document => {
+        return queryParseDocument(dialect.resultAsJson(document), document[idKey], options.include_docs || false, selectList);
+      });
+    });
+  }
+}
@@ -0,0 +1,1298 @@
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import 'mocha';
+
+import { IJioQueryOptions } from '@clearroad/api';
+import * as jioImport from 'jio';
+const addStorageStub = sinon.stub(jioImport.jIO, 'addStorage');
+
+import * as sqlite3 from 'sqlite3';
+import { Writable } from 'stream';
+
+import { describeConformance } from '../conformance';
+import * as specs from './index';
+import * as shutdown from '../shutdown';
+import storageName, {
+  SQLiteStorage, ISQLiteStorageOptions,
+  parseQuery, indexFields, toJioError, safeTransaction, safeQuery, run, all, execute, closeDatabase,
+  resultAsJson, dataRange, parseDates, bindValue
+} from './index';
+import {
+  defaultDocumentsCollection, defaultAttachmentsCollection, defaultAttachmentsHistoryCollection, defaultDocumentsHistoryCollection,
+  valueKey, defaultTombstoneRetention, defaultChangesLimit
+} from '../sql';
+import { attachmentDigest } from '../local';
+
+let stubs: sinon.SinonStub[] = [];
+
+class FakeQueue {
+  private result;
+  push(callback) {
+    if (this.result instanceof FakeQueue) {
+      return this.result.push(callback);
+    }
+    this.result = callback(this.result);
+    return this;
+  }
+}
+
+class FakeDatabase {
+  run(_sql, _values, callback) {
+    callback.call({changes: 0, lastID: 0}, null);
+  }
+  all(_sql, _values, callback) {
+    callback(null, []);
+  }
+  close(callback) {
+    callback(null);
+  }
+}
+
+const options: ISQLiteStorageOptions = {
+  database: ':memory:',
+  type: 'sqlite'
+};
+
+const dbStub = (storage: SQLiteStorage) => {
+  const queue = new FakeQueue();
+  const db = new FakeDatabase();
+  queue.push(() => db);
+  stubs.push(sinon.stub((storage as any), 'pool').returns(queue));
+  return db;
+};
+
+const executeStub = (storage: SQLiteStorage) => {
+  dbStub(storage);
+  const stub = sinon.stub(specs, 'execute');
+  stubs.push(stub);
+  return stub;
+};
+
+const queried = (stub: sinon.SinonStub, text: string, values: any[]) => stub.calledWith(sinon.match.any, {text, values});
+
+const writeStream = (stream: Writable, chunks: Buffer[]) => new Promise((resolve, reject) => {
+  stream.on('finish', resolve);
+  stream.on('error', reject);
+  chunks.forEach(chunk => stream.write(chunk));
+  stream.end();
+});
+
+describe(storageName, () => {
+  beforeEach(() => {
+    stubs = [];
+    stubs.push(sinon.stub(console, 'error'));
+    stubs.push(sinon.stub(sqlite3, 'Database').returns(new FakeDatabase()));
+  });
+
+  afterEach(() => {
+    stubs.forEach(stub => stub.restore());
+  });
+
+  it('should add the storage', () => {
+    expect(addStorageStub.calledWith(storageName, SQLiteStorage)).to.equal(true);
+  });
+
+  describe('parseQuery', () => {
+    it('should parse complex queries', () => {
+      const date = new Date();
+      const query = `portal_type:("Billing Period Message" OR "Road Account Message" OR "Road Event Message" OR "Road Message" OR "Road Report Request") AND grouping_reference:"data" AND modification_date: != "${date.toJSON()}"`;
+      const parsed = jioImport.jIO.QueryFactory.create(query);
+      expect(parseQuery(parsed)).to.deep.equal({
+        text: '(' +
+          '(' +
+            "json_extract(value, '$.portal_type') = ?1 " +
+            "OR json_extract(value, '$.portal_type') = ?2 " +
+            "OR json_extract(value, '$.portal_type') = ?3 " +
+            "OR json_extract(value, '$.portal_type') = ?4 " +
+            "OR json_extract(value, '$.portal_type') = ?5" +
+          ') ' +
+          "AND json_extract(value, '$.grouping_reference') = ?6 " +
+          'AND createdAt != ?7' +
+        ')',
+        values: [
+          'Billing Period Message',
+          'Road Account Message',
+          'Road Event Message',
+          'Road Message',
+          'Road Report Request',
+          'data',
+          date.toJSON()
+        ]
+      });
+    });
+
+    it('should parse simple queries', () => {
+      const query = 'date1: >= 1 AND date2: > 2 AND date3: < 3 AND date4: <= 4';
+      const parsed = jioImport.jIO.QueryFactory.create(query);
+      expect(parseQuery(parsed)).to.deep.equal({
+        text: "(CAST(json_extract(value, '$.date1') AS REAL) >= ?1 AND CAST(json_extract(value, '$.date2') AS REAL) > ?2 " +
+          "AND CAST(json_extract(value, '$.date3') AS REAL) < ?3 AND CAST(json_extract(value, '$.date4') AS REAL) <= ?4)",
+        values: ['1', '2', '3', '4']
+      });
+    });
+
+    it('should compare numbers by value in ranges', () => {
+      const parsed = jioImport.jIO.QueryFactory.create('mileage: >= 10 AND title: < "b" AND modification_date: > 2');
+      expect(parseQuery(parsed).text).to.equal(
+        "(CAST(json_extract(value, '$.mileage') AS REAL) >= ?1 AND json_extract(value, '$.title') < ?2 AND createdAt > ?3)"
+      );
+    });
+
+    it('should compare numbers and booleans with their JSON type', () => {
+      const parsed = jioImport.jIO.QueryFactory.create('mileage: 50 AND flag: != true');
+      expect(parseQuery(parsed)).to.deep.equal({
+        text: "(json_extract(value, '$.mileage') IN (?1, ?2) " +
+          "AND NOT (json_extract(value, '$.flag') = ?3 OR json_type(value, '$.flag') = ?4))",
+        values: ['50', 50, 'true', 'true']
+      });
+    });
+
+    it('should not interpolate values', () => {
+      const parsed = jioImport.jIO.QueryFactory.create(`title: "it's"`);
+      expect(parseQuery(parsed)).to.deep.equal({
+        text: "json_extract(value, '$.title') = ?1",
+        values: ["it's"]
+      });
+    });
+
+    it('should escape keys', () => {
+      const parsed: any = {
+        type: 'simple',
+        key: "title' OR '1",
+        value: 'value'
+      };
+      expect(parseQuery(parsed).text).to.equal("json_extract(value, '$.title'' OR ''1') = ?1");
+    });
+
+    it('should parse wildcard queries', () => {
+      const parsed = jioImport.jIO.QueryFactory.create(`title: "%Road_%" AND description: != "%it's"`);
+      expect(parseQuery(parsed)).to.deep.equal({
+        text: "(json_extract(value, '$.title') LIKE ?1 ESCAPE '\\' " +
+          "AND json_extract(value, '$.description') NOT LIKE ?2 ESCAPE '\\')",
+        values: ['%Road\\_%', "%it's"]
+      });
+    });
+
+    it('should parse NOT queries', () => {
+      const parsed: any = {
+        type: 'complex',
+        operator: 'NOT',
+        query_list: [{
+          type: 'simple',
+          key: 'title',
+          value: 'test'
+        }]
+      };
+      expect(parseQuery(parsed)).to.deep.equal({
+        text: "NOT (json_extract(value, '$.title') = ?1)",
+        values: ['test']
+      });
+    });
+
+    it('should parse NOT within complex queries', () => {
+      const parsed = jioImport.jIO.QueryFactory.create('portal_type: "Road Message" AND NOT title: "foo"');
+      expect(parseQuery(parsed)).to.deep.equal({
+        text: "(json_extract(value, '$.portal_type') = ?1 AND NOT (json_extract(value, '$.title') = ?2))",
+        values: ['Road Message', 'foo']
+      });
+    });
+
+    it('should reject unknown operators', () => {
+      const parsed: any = {
+        type: 'simple',
+        key: 'title',
+        operator: '= 1; --',
+        value: 'value'
+      };
+      expect(() => parseQuery(parsed)).to.throw('Unsupported query operator: = 1; --');
+    });
+  });
+
+  describe('indexFields', () => {
+    it('should create a single field index', () => {
+      expect(indexFields('documents', 'state')).to.equal(
+        "CREATE INDEX IF NOT EXISTS documents_index_state ON documents (json_extract(value, '$.state'))"
+      );
+    });
+
+    it('should create a compound index', () => {
+      expect(indexFields('documents', ['source_reference', 'state'])).to.equal(
+        'CREATE INDEX IF NOT EXISTS documents_index_source_reference_state ' +
+        "ON documents (json_extract(value, '$.source_reference'), json_extract(value, '$.state'))"
+      );
+    });
+  });
+
+  describe('resultAsJson', () => {
+    it('should parse the value as object', () => {
+      const object = {
+        title: 'title',
+        description: 'description'
+      };
+      const value = {
+        _id: 'id',
+        value: JSON.stringify(object)
+      };
+      expect(resultAsJson(value)).to.deep.equal(object);
+    });
+  });
+
+  describe('dataRange', () => {
+    it('should select all the data', () => {
+      expect(dataRange({start: 0, end: Infinity})).to.equal('data');
+    });
+
+    it('should select the data from the start', () => {
+      expect(dataRange({start: 2, end: Infinity})).to.equal('substr(data, 3) AS data');
+    });
+
+    it('should select the data from the start to the end', () => {
+      expect(dataRange({start: 2, end: 4})).to.equal('substr(data, 3, 2) AS data');
+    });
+  });
+
+  describe('parseDates', () => {
+    it('should parse the dates as UTC', () => {
+      const row = parseDates({createdAt: '2018-01-01 10:00:00', updatedAt: null, changedAt: '2019-01-01 00:00:00', value: '2018'});
+      expect(row).to.deep.equal({
+        createdAt: new Date('2018-01-01T10:00:00.000Z'),
+        updatedAt: null,
+        changedAt: new Date('2019-01-01T00:00:00.000Z'),
+        value: '2018'
+      });
+    });
+  });
+
+  describe('bindValue', () => {
+    it('should send dates in the format of SQLite', () => {
+      expect(bindValue(new Date('2018-01-01T10:00:00.500Z'))).to.equal('2018-01-01 10:00:00');
+    });
+
+    it('should keep other values', () => {
+      const buffer = Buffer.from('test');
+      expect(bindValue(buffer)).to.equal(buffer);
+      expect(bindValue(1)).to.equal(1);
+    });
+  });
+
+  describe('run', () => {
+    it('should resolve the number of changed rows and the inserted id', async () => {
+      const db: any = new FakeDatabase();
+      sinon.stub(db, 'run').callsFake((_sql, _values, callback) => callback.call({changes: 3, lastID: 4}, null));
+      expect(await run(db, 'sql')).to.deep.equal({rows: [], rowCount: 3, insertId: 4});
+    });
+
+    it('should reject on failure', async () => {
+      const db: any = new FakeDatabase();
+      sinon.stub(db, 'run').callsFake((_sql, _values, callback) => callback(new Error('error')));
+      let error;
+      try {
+        await run(db, 'sql');
+      }
+      catch (err) {
+        error = err;
+      }
+      expect(error.message).to.equal('error');
+    });
+  });
+
+  describe('all', () => {
+    it('should resolve the rows', async () => {
+      const db: any = new FakeDatabase();
+      const rows = [{id: 1, replacedAt: '2018-01-01 00:00:00'}];
+      sinon.stub(db, 'all').callsFake((_sql, _values, callback) => callback(null, rows));
+      const res = await all(db, 'sql');
+      expect(res).to.deep.equal({rows: [{id: 1, replacedAt: new Date('2018-01-01T00:00:00.000Z')}], rowCount: 1});
+    });
+  });
+
+  describe('execute', () => {
+    let db;
+    let runStub: sinon.SinonStub;
+    let allStub: sinon.SinonStub;
+
+    beforeEach(() => {
+      db = new FakeDatabase();
+      runStub = sinon.stub(db, 'run').callsFake((_sql, _values, callback) => callback.call({changes: 1, lastID: 1}, null));
+      allStub = sinon.stub(db, 'all').callsFake((_sql, _values, callback) => callback(null, []));
+    });
+
+    it('should return the rows of a SELECT', async () => {
+      await execute(db, {text: 'SELECT * FROM documents WHERE createdAt > ?1', values: [new Date('2018-01-01')]});
+      expect(allStub.calledWith('SELECT * FROM documents WHERE createdAt > ?1', ['2018-01-01 00:00:00'])).to.equal(true);
+      expect(runStub.called).to.equal(false);
+    });
+
+    it('should return the changes of other statements', async () => {
+      const result = await execute(db, {text: 'DELETE FROM documents', values: []});
+      expect(result.rowCount).to.equal(1);
+      expect(allStub.called).to.equal(false);
+    });
+  });
+
+  describe('closeDatabase', () => {
+    it('should resolve once closed', async () => {
+      const db: any = new FakeDatabase();
+      await closeDatabase(db);
+    });
+
+    it('should reject on failure', async () => {
+      const db: any = new FakeDatabase();
+      sinon.stub(db, 'close').callsFake(callback => callback(new Error('error')));
+      let error;
+      try {
+        await closeDatabase(db);
+      }
+      catch (err) {
+        error = err;
+      }
+      expect(error.message).to.equal('error');
+    });
+  });
+
+  describe('toJioError', () => {
+    it('should return a conflict for constraint violations', () => {
+      const error = toJioError({message: 'UNIQUE constraint failed', code: 'SQLITE_CONSTRAINT'});
+      expect(error.message).to.equal('UNIQUE constraint failed');
+      expect(error.status_code).to.equal(409);
+    });
+
+    it('should return unavailable when the database is busy', () => {
+      expect(toJioError({code: 'SQLITE_BUSY'}).status_code).to.equal(503);
+      expect(toJioError({code: 'SQLITE_CANTOPEN'}).status_code).to.equal(503);
+    });
+
+    it('should return an internal error otherwise', () => {
+      expect(toJioError({code: 'SQLITE_ERROR'}).status_code).to.equal(500);
+      expect(toJioError(undefined).status_code).to.equal(500);
+    });
+
+    it('should keep jIO errors', () => {
+      const error = new jioImport.jIO.util.jIOError('not found', 404);
+      expect(toJioError(error)).to.equal(error);
+    });
+  });
+
+  describe('safeTransaction', () => {
+    let db;
+    let runStub: sinon.SinonStub;
+
+    beforeEach(() => {
+      db = new FakeDatabase();
+      runStub = sinon.stub(db, 'run').callsFake((_sql, _values, callback) => callback.call({changes: 0}, null));
+      stubs.push(runStub);
+    });
+
+    describe('success', () => {
+      it('should not rollback', async () => {
+        await safeTransaction(db, () => Promise.resolve());
+        expect(runStub.calledWith('ROLLBACK')).to.equal(false);
+      });
+    });
+
+    describe('failure', () => {
+      it('should rollback', async () => {
+        await safeTransaction(db, () => Promise.reject()).catch(() => {});
+        expect(runStub.calledWith('ROLLBACK')).to.equal(true);
+      });
+
+      it('should reject with a jIO error', async () => {
+        let error;
+        try {
+          await safeTransaction(db, () => Promise.reject({message: 'UNIQUE constraint failed', code: 'SQLITE_CONSTRAINT'}));
+        }
+        catch (err) {
+          error = err;
+        }
+        expect(error.message).to.equal('UNIQUE constraint failed');
+        expect(error.status_code).to.equal(409);
+      });
+
+      it('should resolve when ignoring errors', async () => {
+        await safeTransaction(db, () => Promise.reject(), true);
+        expect(runStub.calledWith('ROLLBACK')).to.equal(true);
+      });
+    });
+  });
+
+  describe('safeQuery', () => {
+    describe('success', () => {
+      it('should return the results', async () => {
+        const result = {
+          rows: [{id: 1}],
+          rowCount: 1
+        };
+        const res = await safeQuery(() => Promise.resolve(result));
+        expect(res).to.deep.equal(result);
+      });
+    });
+
+    describe('failure', () => {
+      it('should reject with a jIO error', async () => {
+        let error;
+        try {
+          await safeQuery(() => Promise.reject({message: 'database is locked', code: 'SQLITE_BUSY'}));
+        }
+        catch (err) {
+          error = err;
+        }
+        expect(error.message).to.equal('database is locked');
+        expect(error.status_code).to.equal(503);
+      });
+
+      it('should return empty result when ignoring errors', async () => {
+        const res = await safeQuery(() => Promise.reject(), true);
+        expect(res.rows.length).to.equal(0);
+      });
+    });
+  });
+
+  describe('SQLiteStorage', () => {
+    beforeEach(() => {
+      stubs.push(sinon.stub(specs, 'safeTransaction').callsFake((_db, transactions) => transactions()));
+      stubs.push(sinon.stub(specs, 'safeQuery').callsFake(query => query()));
+      stubs.push(sinon.stub(SQLiteStorage.prototype as any, 'exclusive').callsFake(task => (task as any)()));
+    });
+
+    describe('constructor', () => {
+      const fakeOptions: any = {};
+
+      beforeEach(() => {
+        stubs.push(sinon.stub(SQLiteStorage.prototype as any, 'initDb'));
+      });
+
+      describe('without a "database"', () => {
+        it('should throw an error', () => {
+          expect(() => new SQLiteStorage(fakeOptions)).to.throw('"database" must be a non-empty string');
+        });
+      });
+
+      describe('with a "database', () => {
+        beforeEach(() => {
+          fakeOptions.database = 'database';
+        });
+
+        it('should call init', () => {
+          new SQLiteStorage(fakeOptions);
+          expect((SQLiteStorage.prototype as any).initDb.called).to.equal(true);
+        });
+
+        describe('with "timestamps', () => {
+          beforeEach(() => {
+            fakeOptions.timestamps = true;
+          });
+
+          it('should enable timestamps', () => {
+            const storage = new SQLiteStorage(fakeOptions);
+            expect((storage as any)._timestamps).to.equal(true);
+          });
+        });
+
+        describe('without "timestamps', () => {
+          beforeEach(() => {
+            fakeOptions.timestamps = false;
+          });
+
+          it('should disable timestamps', () => {
+            const storage = new SQLiteStorage(fakeOptions);
+            expect((storage as any)._timestamps).to.equal(false);
+          });
+        });
+
+        describe('with "attachmentHistory', () => {
+          beforeEach(() => {
+            fakeOptions.attachmentHistory = true;
+          });
+
+          afterEach(() => {
+            delete fakeOptions.attachmentHistory;
+          });
+
+          it('should keep previous versions of attachments', () => {
+            const storage = new SQLiteStorage(fakeOptions);
+            expect((storage as any)._attachmentHistory).to.equal(true);
+            expect((storage as any)._attachmentsHistoryTable).to.equal(defaultAttachmentsHistoryCollection);
+          });
+        });
+
+        describe('with "ignoreErrors', () => {
+          beforeEach(() => {
+            fakeOptions.ignoreErrors = true;
+          });
+
+          afterEach(() => {
+            delete fakeOptions.ignoreErrors;
+          });
+
+          it('should ignore errors', () => {
+            const storage = new SQLiteStorage(fakeOptions);
+            expect((storage as any)._ignoreErrors).to.equal(true);
+          });
+        });
+
+        describe('with "closeOnExit', () => {
+          beforeEach(() => {
+            fakeOptions.closeOnExit = true;
+            stubs.push(sinon.stub(shutdown, 'closeOnExit'));
+          });
+
+          afterEach(() => {
+            delete fakeOptions.closeOnExit;
+          });
+
+          it('should close the storage on exit', () => {
+            const storage = new SQLiteStorage(fakeOptions);
+            expect((shutdown.closeOnExit as sinon.SinonStub).calledWith(storage)).to.equal(true);
+          });
+        });
+
+        describe('with "indexes', () => {
+          beforeEach(() => {
+            fakeOptions.indexes = ['state'];
+          });
+
+          it('should set the indexes', () => {
+            const storage = new SQLiteStorage(fakeOptions);
+            expect((storage as any)._indexes).to.deep.equal(['state']);
+          });
+        });
+
+        describe('with "softDelete', () => {
+          beforeEach(() => {
+            fakeOptions.softDelete = true;
+            fakeOptions.tombstoneRetention = 7;
+          });
+
+          afterEach(() => {
+            delete fakeOptions.softDelete;
+            delete fakeOptions.tombstoneRetention;
+          });
+
+          it('should keep tombstones', () => {
+            const storage = new SQLiteStorage(fakeOptions);
+            expect((storage as any)._softDelete).to.equal(true);
+            expect((storage as any)._tombstoneRetention).to.equal(7);
+          });
+
+          it('should default the retention', () => {
+            delete fakeOptions.tombstoneRetention;
+            const storage = new SQLiteStorage(fakeOptions);
+            expect((storage as any)._tombstoneRetention).to.equal(defaultTombstoneRetention);
+          });
+        });
+
+        describe('with "changeFeed', () => {
+          beforeEach(() => {
+            fakeOptions.changeFeed = true;
+          });
+
+          afterEach(() => {
+            delete fakeOptions.changeFeed;
+          });
+
+          it('should record changes', () => {
+            const storage = new SQLiteStorage(fakeOptions);
+            expect((storage as any)._changeFeed).to.equal(true);
+            expect((storage as any)._changesTable).to.equal(`${defaultDocumentsCollection}_changes`);
+          });
+        });
+
+        describe('with "history', () => {
+          beforeEach(() => {
+            fakeOptions.history = true;
+          });
+
+          afterEach(() => {
+            delete fakeOptions.history;
+          });
+
+          it('should keep previous versions of documents', () => {
+            const storage = new SQLiteStorage(fakeOptions);
+            expect((storage as any)._history).to.equal(true);
+            expect((storage as any)._documentsHistoryTable).to.equal(defaultDocumentsHistoryCollection);
+          });
+        });
+      });
+    });
+
+    describe('.initDb', () => {
+      let runStub: sinon.SinonStub;
+
+      beforeEach(() => {
+        runStub = sinon.stub(FakeDatabase.prototype, 'run').callThrough();
+        stubs.push(runStub);
+      });
+
+      it('should open the database', async () => {
+        const storage: any = new SQLiteStorage(options);
+        await storage._dbPromise;
+        expect(storage._pool instanceof FakeDatabase).to.equal(true);
+      });
+
+      it('should create the indexes', async () => {
+        const storage: any = new SQLiteStorage({...options, softDelete: true, indexes: ['state']});
+        await storage._dbPromise;
+        expect(runStub.calledWith(`ALTER TABLE ${defaultDocumentsCollection} ADD COLUMN deletedAt DATETIME`)).to.equal(true);
+        expect(runStub.calledWith(
+          `CREATE INDEX IF NOT EXISTS ${defaultDocumentsCollection}_index_deletedAt ON ${defaultDocumentsCollection} (deletedAt)`
+        )).to.equal(true);
+        expect(runStub.calledWith(
+          `CREATE INDEX IF NOT EXISTS ${defaultDocumentsCollection}_index_state ON ${defaultDocumentsCollection} (json_extract(value, '$.state'))`
+        )).to.equal(true);
+      });
+
+      it('should drop the triggers of previous versions', async () => {
+        const storage: any = new SQLiteStorage(options);
+        await storage._dbPromise;
+        [
+          `${defaultAttachmentsCollection}_cascade`,
+          `${defaultAttachmentsCollection}_tombstone`,
+          `${defaultAttachmentsHistoryCollection}_archive`,
+          `${defaultAttachmentsHistoryCollection}_remove`,
+          `${defaultDocumentsHistoryCollection}_update`,
+          `${defaultDocumentsHistoryCollection}_delete`
+        ].forEach(trigger => expect(runStub.calledWith(`DROP TRIGGER IF EXISTS ${trigger}`)).to.equal(true));
+      });
+    });
+
+    describe('.changesStatements', () => {
+      const table = `${defaultDocumentsCollection}_changes`;
+
+      it('should drop the triggers by default', () => {
+        const storage: any = new SQLiteStorage(options);
+        expect(storage.changesStatements()).to.deep.equal([
+          `DROP TRIGGER IF EXISTS ${table}_insert`,
+          `DROP TRIGGER IF EXISTS ${table}_update`,
+          `DROP TRIGGER IF EXISTS ${table}_delete`
+        ]);
+      });
+
+      it('should record changes with "changeFeed"', () => {
+        const storage: any = new SQLiteStorage(options);
+        storage._changeFeed = true;
+        const statements = storage.changesStatements();
+        expect(statements.length).to.equal(7);
+        expect(statements.slice(4)).to.deep.equal([
+          `CREATE TRIGGER ${table}_insert AFTER INSERT ON ${defaultDocumentsCollection} ` +
+          `BEGIN INSERT INTO ${table} (_id, type) VALUES (NEW._id, 'insert'); END`,
+          `CREATE TRIGGER ${table}_update AFTER UPDATE ON ${defaultDocumentsCollection} ` +
+          `BEGIN INSERT INTO ${table} (_id, type) VALUES (NEW._id, 'update'); END`,
+          `CREATE TRIGGER ${table}_delete AFTER DELETE ON ${defaultDocumentsCollection} ` +
+          `BEGIN INSERT INTO ${table} (_id, type) VALUES (OLD._id, 'delete'); END`
+        ]);
+      });
+
+      it('should record the removal of tombstones with "softDelete"', () => {
+        const storage: any = new SQLiteStorage(options);
+        storage._changeFeed = true;
+        storage._softDelete = true;
+        expect(storage.changesStatements().slice(5)).to.deep.equal([
+          `CREATE TRIGGER ${table}_update AFTER UPDATE ON ${defaultDocumentsCollection} ` +
+          `BEGIN INSERT INTO ${table} (_id, type) VALUES (NEW._id, CASE WHEN NEW.deletedAt IS NULL THEN 'update' ELSE 'delete' END); END`,
+          `CREATE TRIGGER ${table}_delete AFTER DELETE ON ${defaultDocumentsCollection} WHEN OLD.deletedAt IS NULL ` +
+          `BEGIN INSERT INTO ${table} (_id, type) VALUES (OLD._id, 'delete'); END`
+        ]);
+      });
+    });
+
+    describe('.exclusive', () => {
+      it('should run a task once the previous one is done', async () => {
+        const storage: any = new SQLiteStorage(options);
+        const exclusive = (SQLiteStorage.prototype as any).exclusive.wrappedMethod;
+        const steps: string[] = [];
+        let resolveFirst;
+        const first = exclusive.call(storage, () => new Promise(resolve => resolveFirst = resolve).then(() => steps.push('first')));
+        const second = exclusive.call(storage, () => Promise.resolve(steps.push('second')));
+        await Promise.resolve();
+        resolveFirst();
+        await Promise.all([first, second]);
+        expect(steps).to.deep.equal(['first', 'second']);
+      });
+
+      it('should run the next task when one fails', async () => {
+        const storage: any = new SQLiteStorage(options);
+        const exclusive = (SQLiteStorage.prototype as any).exclusive.wrappedMethod;
+        const failed = exclusive.call(storage, () => Promise.reject(new Error('error')));
+        const result = await exclusive.call(storage, () => Promise.resolve(1));
+        expect(result).to.equal(1);
+        await failed.catch(error => expect(error.message).to.equal('error'));
+      });
+    });
+
+    describe('.get', () => {
+      let storage: SQLiteStorage;
+      const id = 'id';
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        stubs.push(sinon.stub(specs, 'resultAsJson').callsFake(val => val));
+
+        storage = new SQLiteStorage(options);
+        stub = executeStub(storage).returns({rows: [{}]});
+      });
+
+      it('should find by id', () => {
+        storage.get(id);
+        expect(queried(stub, `SELECT * FROM ${defaultDocumentsCollection} WHERE _id=?1`, [id])).to.equal(true);
+      });
+
+      it('should not find tombstones with "softDelete"', () => {
+        (storage as any)._softDelete = true;
+        storage.get(id);
+        expect(queried(stub, `SELECT * FROM ${defaultDocumentsCollection} WHERE _id=?1 AND deletedAt IS NULL`, [id])).to.equal(true);
+      });
+
+      describe('document found', () => {
+        const document = {
+          [valueKey]: 1
+        };
+
+        beforeEach(() => {
+          stub.returns({rows: [document]});
+        });
+
+        it('should return the document', () => {
+          const res: any = storage.get(id);
+          expect(res.result).to.deep.equal(document);
+        });
+      });
+
+      describe('document not found', () => {
+        beforeEach(() => {
+          stub.returns({rows: []});
+        });
+
+        it('should return the document', () => {
+          const res: any = storage.get(id);
+          expect(res.result).to.equal(null);
+        });
+      });
+    });
+
+    describe('.put', () => {
+      let storage: SQLiteStorage;
+      const id = 'id';
+      const data = {test: 1};
+      let stub: sinon.SinonStub;
+
+      beforeEach(async () => {
+        storage = new SQLiteStorage(options);
+        await (storage as any)._dbPromise;
+        stub = executeStub(storage).returns({rows: [], rowCount: 1});
+      });
+
+      describe('with timestamps', () => {
+        beforeEach(() => {
+          (storage as any)._timestamps = true;
+        });
+
+        it('should upsert data', () => {
+          storage.put(id, data);
+          expect(queried(
+            stub,
+            `INSERT INTO ${defaultDocumentsCollection} (_id, value) VALUES (?1, ?2) ` +
+            'ON CONFLICT(_id) DO UPDATE SET value=excluded.value, updatedAt=CURRENT_TIMESTAMP',
+            [id, JSON.stringify(data)]
+          )).to.equal(true);
+        });
+      });
+
+      describe('without timestamps', () => {
+        beforeEach(() => {
+          (storage as any)._timestamps = false;
+        });
+
+        it('should upsert data', () => {
+          storage.put(id, data);
+          expect(queried(
+            stub,
+            `INSERT INTO ${defaultDocumentsCollection} (_id, value) VALUES (?1, ?2) ` +
+            'ON CONFLICT(_id) DO UPDATE SET value=excluded.value',
+            [id, JSON.stringify(data)]
+          )).to.equal(true);
+        });
+      });
+
+      it('should restore a removed document with "softDelete"', () => {
+        (storage as any)._timestamps = false;
+        (storage as any)._softDelete = true;
+        storage.put(id, data);
+        expect(queried(
+          stub,
+          `INSERT INTO ${defaultDocumentsCollection} (_id, value) VALUES (?1, ?2) ` +
+          'ON CONFLICT(_id) DO UPDATE SET value=excluded.value, deletedAt=NULL',
+          [id, JSON.stringify(data)]
+        )).to.equal(true);
+      });
+
+      it('should not read the document first', () => {
+        const getStub = sinon.stub(storage, 'get');
+        stubs.push(getStub);
+        storage.put(id, data);
+        expect(getStub.called).to.equal(false);
+      });
+
+      it('should keep the previous version with "history"', async () => {
+        (storage as any)._history = true;
+        await storage.put(id, data);
+        expect(queried(
+          stub,
+          `INSERT INTO ${defaultDocumentsHistoryCollection} (_id, revision, value, operation) ` +
+          `SELECT _id, COALESCE((SELECT MAX(revision) FROM ${defaultDocumentsHistoryCollection} WHERE _id=?1), 0) + 1, value, 'update' ` +
+          `FROM ${defaultDocumentsCollection} WHERE _id=?2`,
+          [id, id]
+        )).to.equal(true);
+        expect(stub.secondCall.args[1].text).to.match(new RegExp(`^INSERT INTO ${defaultDocumentsCollection} `));
+      });
+    });
+
+    describe('.remove', () => {
+      let storage: SQLiteStorage;
+      const id = 'id';
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new SQLiteStorage(options);
+        stub = executeStub(storage).returns({rows: [], rowCount: 1});
+      });
+
+      it('should remove by id', () => {
+        storage.remove(id);
+        expect(queried(stub, `DELETE FROM ${defaultDocumentsCollection} WHERE _id=?1`, [id])).to.equal(true);
+      });
+
+      it('should remove its attachments', async () => {
+        await storage.remove(id);
+        expect(queried(stub, `DELETE FROM ${defaultAttachmentsCollection} WHERE _id=?1`, [id])).to.equal(true);
+      });
+
+      it('should remove previous versions of its attachments with "attachmentHistory"', async () => {
+        (storage as any)._attachmentHistory = true;
+        await storage.remove(id);
+        expect(queried(stub, `DELETE FROM ${defaultAttachmentsHistoryCollection} WHERE _id=?1`, [id])).to.equal(true);
+      });
+
+      describe('with "softDelete"', () => {
+        beforeEach(() => {
+          (storage as any)._softDelete = true;
+        });
+
+        it('should keep a tombstone', () => {
+          storage.remove(id);
+          expect(queried(
+            stub,
+            `UPDATE ${defaultDocumentsCollection} SET deletedAt=CURRENT_TIMESTAMP WHERE _id=?1 AND deletedAt IS NULL`,
+            [id]
+          )).to.equal(true);
+          expect(queried(stub, `DELETE FROM ${defaultDocumentsCollection} WHERE _id=?1`, [id])).to.equal(false);
+        });
+
+        it('should not keep the version of a tombstone with "history"', () => {
+          (storage as any)._history = true;
+          storage.remove(id);
+          expect(stub.firstCall.args[1].text).to.match(
+            new RegExp(`'delete' FROM ${defaultDocumentsCollection} WHERE _id=\\?2 AND deletedAt IS NULL$`)
+          );
+        });
+      });
+    });
+
+    describe('.allTombstones', () => {
+      let storage: SQLiteStorage;
+      const deletedAt = new Date('2019-01-01T00:00:00.000Z');
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new SQLiteStorage(options);
+        stub = executeStub(storage).returns({rows: [{_id: 'id', deletedAt}]});
+      });
+
+      it('should list removed documents', () => {
+        const res: any = storage.allTombstones();
+        expect(res.result).to.deep.equal([{id: 'id', deletedAt: '2019-01-01T00:00:00.000Z'}]);
+        expect(queried(
+          stub,
+          `SELECT _id, deletedAt AS "deletedAt" FROM ${defaultDocumentsCollection} WHERE deletedAt > ?1 ORDER BY deletedAt`,
+          [new Date(0)]
+        )).to.equal(true);
+      });
+    });
+
+    describe('.purgeTombstones', () => {
+      let storage: SQLiteStorage;
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new SQLiteStorage(options);
+        stub = executeStub(storage).returns({rows: [], rowCount: 2});
+      });
+
+      it('should remove tombstones older than the retention', () => {
+        const res: any = storage.purgeTombstones();
+        expect(res.result).to.equal(2);
+        expect(queried(
+          stub,
+          `DELETE FROM ${defaultDocumentsCollection} WHERE deletedAt < datetime('now', '-' || ?1 || ' days')`,
+          [defaultTombstoneRetention]
+        )).to.equal(true);
+      });
+    });
+
+    describe('.changes', () => {
+      let storage: SQLiteStorage;
+      const changedAt = new Date('2019-01-01T00:00:00.000Z');
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new SQLiteStorage(options);
+        stub = executeStub(storage).returns({rows: [
+          {seq: 3, _id: 'id', type: 'insert', changedAt},
+          {seq: 4, _id: 'id', type: 'delete', changedAt}
+        ]});
+      });
+
+      it('should list the changes after the cursor', () => {
+        const res: any = storage.changes(2);
+        expect(queried(
+          stub,
+          `SELECT seq, _id, type, changedAt AS "changedAt" FROM ${defaultDocumentsCollection}_changes WHERE seq > ?1 ORDER BY seq LIMIT ?2`,
+          [2, defaultChangesLimit]
+        )).to.equal(true);
+        expect(res.result).to.deep.equal({
+          changes: [
+            {seq: 3, id: 'id', type: 'insert', changedAt: '2019-01-01T00:00:00.000Z'},
+            {seq: 4, id: 'id', type: 'delete', changedAt: '2019-01-01T00:00:00.000Z'}
+          ],
+          cursor: 4
+        });
+      });
+    });
+
+    describe('.allRevisions', () => {
+      let storage: SQLiteStorage;
+      const replacedAt = new Date('2019-01-01T00:00:00.000Z');
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new SQLiteStorage(options);
+        stub = executeStub(storage).returns({rows: [
+          {revision: 1, operation: 'update', replacedAt}
+        ]});
+      });
+
+      it('should list previous versions', () => {
+        const res: any = storage.allRevisions('id');
+        expect(queried(
+          stub,
+          `SELECT revision, operation, replacedAt AS "replacedAt" FROM ${defaultDocumentsHistoryCollection} WHERE _id=?1 ORDER BY revision`,
+          ['id']
+        )).to.equal(true);
+        expect(res.result).to.deep.equal([
+          {revision: 1, operation: 'update', replacedAt: '2019-01-01T00:00:00.000Z'}
+        ]);
+      });
+    });
+
+    describe('.getRevision', () => {
+      let storage: SQLiteStorage;
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new SQLiteStorage(options);
+        stub = executeStub(storage);
+      });
+
+      describe('revision found', () => {
+        beforeEach(() => {
+          stub.returns({rows: [{[valueKey]: JSON.stringify({test: 1})}]});
+        });
+
+        it('should return the previous version', () => {
+          const res: any = storage.getRevision('id', 1);
+          expect(queried(stub, `SELECT value FROM ${defaultDocumentsHistoryCollection} WHERE _id=?1 AND revision=?2`, ['id', 1])).to.equal(true);
+          expect(res.result).to.deep.equal({test: 1});
+        });
+      });
+
+      describe('revision not found', () => {
+        beforeEach(() => {
+          stub.returns({rows: []});
+        });
+
+        it('should throw an error', () => {
+          expect(() => storage.getRevision('id', 3)).to.throw('Cannot find revision 3 of document: id');
+        });
+      });
+    });
+
+    describe('.getAttachment', () => {
+      let storage: SQLiteStorage;
+      const id = 'id';
+      const name = 'name';
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new SQLiteStorage(options);
+        stub = executeStub(storage).returns({rows: [{data: Buffer.from('test'), content_type: 'text/plain'}]});
+      });
+
+      it('should return the attachment', () => {
+        const result: any = storage.getAttachment(id, name);
+        expect(result.result.type).to.equal('text/plain');
+        expect(result.result.size).to.equal(4);
+      });
+
+      it('should throw an error when not found', () => {
+        stub.returns({rows: []});
+        expect(() => storage.getAttachment(id, name)).to.throw(`Cannot find attachment: ${id}`);
+      });
+
+      it('should look into the history with "revision" and "attachmentHistory"', () => {
+        (storage as any)._attachmentHistory = true;
+        storage.getAttachment(id, name, {revision: 2});
+        expect(queried(
+          stub,
+          `SELECT value, data, content_type FROM ${defaultAttachmentsCollection} WHERE _id=?1 AND name=?2 AND revision=?3 ` +
+          'UNION ALL SELECT value, data, content_type ' +
+          `FROM ${defaultAttachmentsHistoryCollection} WHERE _id=?4 AND name=?5 AND revision=?6`,
+          [id, name, 2, id, name, 2]
+        )).to.equal(true);
+      });
+
+      it('should only get the range with "start" and "end"', () => {
+        storage.getAttachment(id, name, {start: 2, end: 4});
+        expect(queried(
+          stub,
+          `SELECT value, substr(data, 3, 2) AS data, content_type FROM ${defaultAttachmentsCollection} WHERE _id=?1 AND name=?2`,
+          [id, name]
+        )).to.equal(true);
+      });
+    });
+
+    describe('.putAttachment', () => {
+      let storage: SQLiteStorage;
+      const id = 'id';
+      const name = 'name';
+      const data: any = {
+        type: 'text/plain',
+        target: {result: new ArrayBuffer(4)}
+      };
+      let stub: sinon.SinonStub;
+
+      beforeEach(async () => {
+        storage = new SQLiteStorage(options);
+        await (storage as any)._dbPromise;
+        stub = executeStub(storage).returns({rows: [], rowCount: 1});
+        stubs.push(sinon.stub(jioImport.jIO.util, 'readBlobAsArrayBuffer').returns(data));
+      });
+
+      it('should replace data', async () => {
+        await storage.putAttachment(id, name, data);
+        expect(queried(
+          stub,
+          `INSERT INTO ${defaultAttachmentsCollection} (_id, name, data, content_type, length, digest) ` +
+          'VALUES (?1, ?2, ?3, ?4, ?5, ?6) ON CONFLICT(_id, name) DO UPDATE SET data=excluded.data, content_type=excluded.content_type, ' +
+          'length=excluded.length, digest=excluded.digest, value=NULL, revision=revision + 1, updatedAt=CURRENT_TIMESTAMP',
+          [id, name, sinon.match.instanceOf(Buffer), data.type, 4, attachmentDigest(Buffer.alloc(4))]
+        )).to.equal(true);
+      });
+
+      it('should keep the previous version with "attachmentHistory"', async () => {
+        (storage as any)._attachmentHistory = true;
+        await storage.putAttachment(id, name, data);
+        expect(stub.firstCall.args[1].text).to.match(new RegExp(`^INSERT INTO ${defaultAttachmentsHistoryCollection} `));
+      });
+    });
+
+    describe('.removeAttachment', () => {
+      let storage: SQLiteStorage;
+      const id = 'id';
+      const name = 'name';
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new SQLiteStorage(options);
+        stub = executeStub(storage).returns({rows: [], rowCount: 1});
+      });
+
+      it('should remove by id', () => {
+        storage.removeAttachment(id, name);
+        expect(queried(stub, `DELETE FROM ${defaultAttachmentsCollection} WHERE _id=?1 AND name=?2`, [id, name])).to.equal(true);
+      });
+    });
+
+    describe('.allAttachments', () => {
+      let storage: SQLiteStorage;
+      const id = 'id';
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new SQLiteStorage(options);
+        stub = executeStub(storage).returns({rows: [{name: 'attachment 1', revision: 2, content_type: 'text/plain', length: 4, digest: 'sha256-digest'}]});
+      });
+
+      it('should return a list of attachments without their content', () => {
+        const results: any = storage.allAttachments(id);
+        expect(queried(
+          stub,
+          `SELECT name, revision, content_type, length, digest, createdAt, updatedAt FROM ${defaultAttachmentsCollection} WHERE _id=?1`,
+          [id]
+        )).to.equal(true);
+        expect(results.result).to.deep.equal({
+          'attachment 1': {revision: 2, content_type: 'text/plain', length: 4, digest: 'sha256-digest'}
+        });
+      });
+    });
+
+    describe('.hasCapacity', () => {
+      it('should have all capacities', () => {
+        const storage = new SQLiteStorage(options);
+        expect(storage.hasCapacity()).to.equal(true);
+      });
+    });
+
+    describe('.createAttachmentWriteStream', () => {
+      let storage: SQLiteStorage;
+      let putStub: sinon.SinonStub;
+
+      beforeEach(() => {
+        storage = new SQLiteStorage(options);
+        putStub = sinon.stub(storage, 'putAttachment').returns(new FakeQueue() as any);
+        stubs.push(putStub);
+      });
+
+      it('should save the chunks at once when the stream ends', async () => {
+        const stream = storage.createAttachmentWriteStream('id', 'name', {contentType: 'text/plain'});
+        stream.write(Buffer.from('te'));
+        expect(putStub.called).to.equal(false);
+        await writeStream(stream, [Buffer.from('st')]);
+        expect(putStub.calledOnceWith('id', 'name')).to.equal(true);
+        const blob = putStub.firstCall.args[2];
+        expect(blob.type).to.equal('text/plain');
+        expect(blob.size).to.equal(4);
+      });
+    });
+
+    describe('.close', () => {
+      let storage: SQLiteStorage;
+      let closeStub: sinon.SinonStub;
+
+      beforeEach(async () => {
+        storage = new SQLiteStorage(options);
+        await (storage as any)._dbPromise;
+        closeStub = sinon.stub((storage as any)._pool, 'close').callsFake(callback => callback(null));
+        stubs.push(closeStub);
+      });
+
+      it('should close the database', async () => {
+        await storage.close();
+        expect(closeStub.calledOnce).to.equal(true);
+      });
+
+      it('should only close the database once', async () => {
+        await storage.close();
+        await storage.close();
+        expect(closeStub.calledOnce).to.equal(true);
+      });
+
+      it('should reject further calls', async () => {
+        await storage.close();
+        let error;
+        try {
+          await storage.get('id');
+        }
+        catch (err) {
+          error = err;
+        }
+        expect(error.message).to.equal('SQLite storage is closed');
+        expect(error.status_code).to.equal(503);
+      });
+    });
+
+    describe('.buildQuery', () => {
+      let storage: SQLiteStorage;
+      let params: IJioQueryOptions;
+      const results = [{
+        _id: 1,
+        title: 'title',
+        description: 'description'
+      }];
+      let stub: sinon.SinonStub;
+
+      beforeEach(() => {
+        stubs.push(sinon.stub(specs, 'resultAsJson').callsFake(val => val));
+
+        storage = new SQLiteStorage(options);
+        stub = executeStub(storage).returns({rows: results});
+
+        params = {
+          query: ''
+        };
+      });
+
+      describe('with "query"', () => {
+        beforeEach(() => {
+          params.query = 'portal_type: "File"';
+        });
+
+        it('should set WHERE clause', () => {
+          storage.buildQuery(params);
+          expect(queried(stub, `SELECT * FROM ${defaultDocumentsCollection} WHERE json_extract(value, '$.portal_type') = ?1`, ['File'])).to.equal(true);
+        });
+      });
+
+      describe('with "softDelete"', () => {
+        beforeEach(() => {
+          (storage as any)._softDelete = true;
+        });
+
+        it('should not list tombstones', () => {
+          storage.buildQuery(params);
+          expect(queried(stub, `SELECT * FROM ${defaultDocumentsCollection} WHERE deletedAt IS NULL`, [])).to.equal(true);
+        });
+      });
+
+      describe('with "limit"', () => {
+        beforeEach(() => {
+          params.limit = [0, 10];
+        });
+
+        it('should set LIMIT and OFFSET clauses', () => {
+          storage.buildQuery(params);
+          expect(queried(stub, `SELECT * FROM ${defaultDocumentsCollection} ORDER BY id LIMIT 10 OFFSET 0`, [])).to.equal(true);
+        });
+      });
+
+      describe('with "sort_on"', () => {
+        beforeEach(() => {
+          params.sort_on = [['title', 'ascending']];
+        });
+
+        it('should set ORDER BY clause', () => {
+          storage.buildQuery(params);
+          expect(queried(stub, `SELECT * FROM ${defaultDocumentsCollection} ORDER BY json_extract(value, '$.title') ASC`, [])).to.equal(true);
+        });
+      });
+
+      describe('with "include_docs"', () => {
+        beforeEach(() => {
+          params.include_docs = true;
+        });
+
+        it('should include "doc" in the result', () => {
+          const data: any = storage.buildQuery(params);
+          expect(data.result).to.deep.equal(results.map(result => {
+            return {
+              id: 1,
+              doc: result
+            };
+          }));
+        });
+      });
+    });
+  });
+});
+
+describeConformance(storageName, ({timestamps}) => new SQLiteStorage({type: 'sqlite', database: ':memory:', timestamps}));
+
+addStorageStub.restore();
@@ -0,0 +1,725 @@
+/* tslint:disable:no-console */
+import {
+  getQueue, promiseToQueue,
+  IClearRoadOptions,
+  IJioSimpleQuery, IJioComplexQuery,
+  queryPortalType,
+  queryGroupingReference
+} from '@clearroad/api';
+import { jIO, Blob as JioBlob } from 'jio';
+
+import { Database, RunResult } from 'sqlite3';
+
+import {
+  SqlStorage, ISqlDialect, SqlParam, ISqlStorageOptions, ISqlQuery, ISqlResult, ISqlDocument,
+  ISqlAttachmentOptions, ISqlAttachmentReadStreamOptions, ISqlAttachmentWriteStreamOptions,
+  ISqlRevision, ISqlTombstone, ISqlChange, ISqlChanges, ISqlAttachmentMetadata,
+  attachmentWriteStream, queueToPromise,
+  idKey, valueKey, dataKey, contentTypeKey, lengthKey, digestKey, createdAtKey, updatedAtKey, deletedAtKey
+} from '../sql';
+import { IAttachmentRange } from '../local';
+
+export interface ISQLiteStorageOptions extends ISqlStorageOptions {
+  type: 'sqlite';
+  /**
+   * Path to the database file. Use `:memory:` for an in-memory database.
+   */
+  database: string;
+}
+
+export type ISQLiteAttachmentOptions = ISqlAttachmentOptions;
+export type ISQLiteAttachmentReadStreamOptions = ISqlAttachmentReadStreamOptions;
+export type ISQLiteAttachmentWriteStreamOptions = ISqlAttachmentWriteStreamOptions;
+export type ISQLiteRevision = ISqlRevision;
+export type ISQLiteTombstone = ISqlTombstone;
+export type ISQLiteChange = ISqlChange;
+export type ISQLiteChanges = ISqlChanges;
+export type ISQLiteAttachmentMetadata = ISqlAttachmentMetadata;
+
+const simpleOperators = ['=', '!=', '<', '<=', '>', '>='];
+const complexOperators = ['AND', 'OR', 'NOT'];
+/**
+ * `%` wildcards in jIO are `LIKE` matches, case-insensitive for ASCII characters in SQLite
+ */
+const likeOperators = {
+  '=': 'LIKE',
+  '!=': 'NOT LIKE'
+};
+
+const escapeString = (value: any) => `${value}`.replace(/'/g, "''");
+
+// `_` and `\` have a special meaning in LIKE patterns, but not in jIO
+const escapeLike = (value: string) => value.replace(/[\\_]/g, '\\$&');
+
+const isWildcard = (value: any) => typeof value === 'string' && value.indexOf('%') !== -1;
+
+const jsonPath = (key: string) => `'$.${escapeString(key)}'`;
+
+const keyToDBField = (key: string) => {
+  return key === 'modification_date' ? createdAtKey : `json_extract(${valueKey}, ${jsonPath(key)})`;
+};
+
+const rangeOperators = ['<', '<=', '>', '>='];
+const numberRegExp = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Comparing a field with `<`, `<=`, `>` or `>=` to a number casts it to `REAL`, so both are compared by value
+ * @param key
+ * @param operator
+ * @param value
+ */
+const comparedField = (key: string, operator: string, value: any) => {
+  if (key === 'modification_date' || rangeOperators.indexOf(operator) === -1 || !numberRegExp.test(`${value}`)) {
+    return keyToDBField(key);
+  }
+  return `CAST(${keyToDBField(key)} AS REAL)`;
+};
+
+const booleanValues = ['true', 'false'];
+
+/**
+ * `json_extract` returns JSON numbers as numbers, and booleans as `1` or `0`, which are never equal to a text value.
+ * Values which can be numbers or booleans are also compared with their JSON type,
+ * so they match like in the other storages comparing fields as text.
+ * @param key
+ * @param operator `=` or `!=`
+ * @param value
+ * @param param
+ */
+// tslint:disable-next-line:cyclomatic-complexity
+const parseEquality = (key: string, operator: string, value: any, param: SqlParam) => {
+  const field = keyToDBField(key);
+  const text = `${value}`;
+  const not = operator === '!=' ? 'NOT ' : '';
+  if (key !== 'modification_date' && numberRegExp.test(text)) {
+    return `${field} ${not}IN (${param(text)}, ${param(Number(text))})`;
+  }
+  if (key !== 'modification_date' && booleanValues.indexOf(text) !== -1) {
+    return `${not}(${field} = ${param(text)} OR json_type(${valueKey}, ${jsonPath(key)}) = ${param(text)})`;
+  }
+  return `${field} ${operator} ${param(value)}`;
+};
+
+const queryOperator = (operator: string, operators: string[]) => {
+  if (operators.indexOf(operator) === -1) {
+    throw new jIO.util.jIOError(
+      `Unsupported query operator: ${operator}`,
+      400
+    );
+  }
+  return operator;
+};
+
+// tslint:disable-next-line:cyclomatic-complexity
+const parseSimpleQuery = (query: IJioSimpleQuery, key = '', param: SqlParam) => {
+  const operator = queryOperator(query.operator || '=', simpleOperators);
+  if (isWildcard(query.value) && likeOperators[operator]) {
+    return `${keyToDBField(key)} ${likeOperators[operator]} ${param(escapeLike(query.value))} ESCAPE '\\'`;
+  }
+  if (operator === '=' || operator === '!=') {
+    return parseEquality(key, operator, query.value, param);
+  }
+  return `${comparedField(key, operator, query.value)} ${operator} ${param(query.value)}`;
+};
+
+const parseComplexQuery = (query: IJioComplexQuery, param: SqlParam) => {
+  const operator = queryOperator(query.operator, complexOperators);
+  if (operator === 'NOT') {
+    // jIO only negates the first query of the list
+    return `NOT (${compileQuery(query.query_list[0], query.key, param)})`;
+  }
+  return `(${query.query_list.map(subquery => compileQuery(subquery, query.key, param)).join(` ${operator} `)})`;
+};
+
+const compileQuery = (parsed: IJioSimpleQuery|IJioComplexQuery, key: string|undefined, param: SqlParam): string => {
+  if (parsed.type === 'complex') {
+    return parseComplexQuery(parsed as IJioComplexQuery, param);
+  }
+  else {
+    return parseSimpleQuery(parsed as IJioSimpleQuery, parsed.key || key, param);
+  }
+};
+
+/**
+ * Compile a jIO query to a parameterized SQL condition.
+ * @internal
+ * @param parsed
+ * @param key
+ */
+export const parseQuery = (parsed: IJioSimpleQuery|IJioComplexQuery, key?: string): ISqlQuery => {
+  const values: any[] = [];
+  const param = (value: any) => {
+    values.push(value);
+    return `?${values.length}`;
+  };
+  const text = compileQuery(parsed, key, param);
+  return {text, values};
+};
+
+const createDocumentsTable = (tableName: string, timestamps: boolean) => {
+  return `CREATE TABLE IF NOT EXISTS ${tableName} (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    ${idKey} VARCHAR(255) NOT NULL,
+    ${valueKey} TEXT${timestamps ? `, ${createdAtKey} DATETIME DEFAULT CURRENT_TIMESTAMP, ${updatedAtKey} DATETIME` : ''}
+  )`;
+};
+
+const createAttachmentsTable = (tableName: string, timestamps: boolean) => {
+  return `CREATE TABLE IF NOT EXISTS ${tableName} (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    ${idKey} VARCHAR(255) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    ${valueKey} TEXT,
+    ${dataKey} BLOB,
+    ${contentTypeKey} VARCHAR(255),
+    ${lengthKey} INTEGER,
+    ${digestKey} VARCHAR(255)${timestamps ? `, ${createdAtKey} DATETIME DEFAULT CURRENT_TIMESTAMP, ${updatedAtKey} DATETIME` : ''}
+  )`;
+};
+
+const indexName = (tableName: string, fields: string[]) => `${tableName}_index_${fields.join('_')}`;
+
+/**
+ * Keep only the latest row of each key, so the unique index can be created on older tables
+ * @param tableName
+ * @param keys
+ */
+const removeDuplicates = (tableName: string, keys: string[]) => {
+  return `DELETE FROM ${tableName} WHERE id NOT IN (SELECT MAX(id) FROM ${tableName} GROUP BY ${keys.join(', ')})`;
+};
+
+const uniqueIndexTable = (tableName: string, keys: string[]) => {
+  return `CREATE UNIQUE INDEX IF NOT EXISTS ${tableName}_unique_${keys.join('_')} ON ${tableName} (${keys.join(', ')})`;
+};
+
+/**
+ * Attachments are numbered from 1 and incremented every time they are replaced
+ * @param tableName
+ */
+const addRevisionColumn = (tableName: string) => {
+  return `ALTER TABLE ${tableName} ADD COLUMN revision INTEGER NOT NULL DEFAULT 1`;
+};
+
+/**
+ * Attachments are saved as binary data, the former data URI column is kept until they are migrated.
+ * SQLite adds a single column per statement, and fails if it already exists.
+ * @param tableName
+ */
+const addBinaryColumns = (tableName: string) => [
+  `ALTER TABLE ${tableName} ADD COLUMN ${dataKey} BLOB`,
+  `ALTER TABLE ${tableName} ADD COLUMN ${contentTypeKey} VARCHAR(255)`
+];
+
+/**
+ * Size and digest of attachments, so they can be compared without reading their content
+ * @param tableName
+ */
+const addMetadataColumns = (tableName: string) => [
+  `ALTER TABLE ${tableName} ADD COLUMN ${lengthKey} INTEGER`,
+  `ALTER TABLE ${tableName} ADD COLUMN ${digestKey} VARCHAR(255)`
+];
+
+/**
+ * Changes of documents are numbered with `AUTOINCREMENT`, so sequence numbers are never reused
+ * @param tableName
+ */
+const createChangesTable = (tableName: string) => {
+  return `CREATE TABLE IF NOT EXISTS ${tableName} (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    ${idKey} VARCHAR(255) NOT NULL,
+    type VARCHAR(6) NOT NULL,
+    changedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`;
+};
+
+/**
+ * Record the changes of documents from triggers, so writes made outside of the storage are listed as well.
+ * With `softDelete`, documents are removed by setting their removal date and tombstones are purged silently
+ * @param tableName
+ * @param documentsTable
+ * @param softDelete
+ */
+const changesTriggers = (tableName: string, documentsTable: string, softDelete: boolean) => {
+  const record = (type: string) => `BEGIN INSERT INTO ${tableName} (${idKey}, type) VALUES (${type}); END`;
+  return [
+    `CREATE TRIGGER ${tableName}_insert AFTER INSERT ON ${documentsTable} ${record(`NEW.${idKey}, 'insert'`)}`,
+    `CREATE TRIGGER ${tableName}_update AFTER UPDATE ON ${documentsTable} ` +
+      record(softDelete ? `NEW.${idKey}, CASE WHEN NEW.${deletedAtKey} IS NULL THEN 'update' ELSE 'delete' END` : `NEW.${idKey}, 'update'`),
+    `CREATE TRIGGER ${tableName}_delete AFTER DELETE ON ${documentsTable} ` +
+      (softDelete ? `WHEN OLD.${deletedAtKey} IS NULL ` : '') + record(`OLD.${idKey}, 'delete'`)
+  ];
+};
+
+const createDocumentsHistoryTable = (tableName: string) => {
+  return `CREATE TABLE IF NOT EXISTS ${tableName} (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    ${idKey} VARCHAR(255) NOT NULL,
+    revision INTEGER NOT NULL,
+    ${valueKey} TEXT,
+    operation VARCHAR(6) NOT NULL,
+    replacedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`;
+};
+
+const createAttachmentsHistoryTable = (tableName: string, timestamps: boolean) => {
+  return `CREATE TABLE IF NOT EXISTS ${tableName} (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    ${idKey} VARCHAR(255) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    revision INTEGER NOT NULL,
+    ${valueKey} TEXT,
+    ${dataKey} BLOB,
+    ${contentTypeKey} VARCHAR(255),
+    ${lengthKey} INTEGER,
+    ${digestKey} VARCHAR(255)${timestamps ? `, ${createdAtKey} DATETIME, ${updatedAtKey} DATETIME` : ''}
+  )`;
+};
+
+/**
+ * Removed documents are kept as tombstones with their removal date when `softDelete` is enabled
+ * @param tableName
+ */
+const addDeletedAtColumn = (tableName: string) => `ALTER TABLE ${tableName} ADD COLUMN ${deletedAtKey} DATETIME`;
+
+const dropTrigger = (name: string) => `DROP TRIGGER IF EXISTS ${name}`;
+
+const indexTable = (tableName: string, fields: string[], name?: string) => {
+  return `CREATE INDEX IF NOT EXISTS ${name || indexName(tableName, fields)} ON ${tableName} (${fields.join(', ')})`;
+};
+
+const indexFieldName = (key: string) => key.replace(/\W/g, '_');
+
+/**
+ * Expression index on document fields, using the same expression as queries
+ * @internal
+ * @param tableName
+ * @param index
+ */
+export const indexFields = (tableName: string, index: string|string[]) => {
+  const keys = typeof index === 'string' ? [index] : index;
+  return indexTable(tableName, keys.map(keyToDBField), indexName(tableName, keys.map(indexFieldName)));
+};
+
+/**
+ * Previous versions archived and removed attachments and previous versions of documents with triggers,
+ * which are now part of the statements of the storage
+ * @param attachmentsTable
+ * @param attachmentsHistoryTable
+ * @param documentsHistoryTable
+ */
+const dropLegacyTriggers = (attachmentsTable: string, attachmentsHistoryTable: string, documentsHistoryTable: string) => [
+  `${attachmentsTable}_cascade`,
+  `${attachmentsTable}_tombstone`,
+  `${attachmentsHistoryTable}_archive`,
+  `${attachmentsHistoryTable}_remove`,
+  `${documentsHistoryTable}_update`,
+  `${documentsHistoryTable}_delete`
+].map(dropTrigger);
+
+/**
+ * @internal
+ */
+export const resultAsJson = (doc: ISqlDocument) => JSON.parse(doc[valueKey] || '{}');
+
+/**
+ * Select only a range of the binary data, positions start at `1` in SQL
+ * @internal
+ * @param range
+ */
+export const dataRange = ({start, end}: IAttachmentRange) => {
+  if (end !== Infinity) {
+    return `substr(${dataKey}, ${start + 1}, ${end - start}) AS ${dataKey}`;
+  }
+  return start ? `substr(${dataKey}, ${start + 1}) AS ${dataKey}` : dataKey;
+};
+
+/**
+ * Documents are upserted on their id, `createdAt` keeps its default value on insert and is left untouched on update
+ * @param table
+ * @param id
+ * @param value
+ * @param timestamps
+ * @param softDelete
+ */
+const upsertDocument = (table: string, id: string, value: string, timestamps: boolean, softDelete: boolean) => {
+  let update = `${valueKey}=excluded.${valueKey}`;
+  if (timestamps) {
+    update += `, ${updatedAtKey}=CURRENT_TIMESTAMP`;
+  }
+  if (softDelete) {
+    // saving a removed document brings it back
+    update += `, ${deletedAtKey}=NULL`;
+  }
+  return `INSERT INTO ${table} (${idKey}, ${valueKey}) VALUES (${id}, ${value}) ON CONFLICT(${idKey}) DO UPDATE SET ${update}`;
+};
+
+/**
+ * Attachments are upserted on their id and name.
+ * Selecting from a table needs a `WHERE` clause, which SQLite requires before `ON CONFLICT`
+ * @param table
+ * @param values
+ * @param from
+ * @param timestamps
+ */
+const upsertAttachment = (table: string, values: string[], from: string|undefined, timestamps: boolean) => {
+  // the data URI of an attachment saved by a previous version is cleared
+  const update = `${dataKey}=excluded.${dataKey}, ${contentTypeKey}=excluded.${contentTypeKey}, ` +
+    `${lengthKey}=excluded.${lengthKey}, ${digestKey}=excluded.${digestKey}, ${valueKey}=NULL, ` +
+    'revision=revision + 1' + (timestamps ? `, ${updatedAtKey}=CURRENT_TIMESTAMP` : '');
+  const select = from ? `SELECT ${values.join(', ')} FROM ${from}` : `VALUES (${values.join(', ')})`;
+  return `INSERT INTO ${table} (${idKey}, name, ${dataKey}, ${contentTypeKey}, ${lengthKey}, ${digestKey}) ${select} ` +
+    `ON CONFLICT(${idKey}, name) DO UPDATE SET ${update}`;
+};
+
+/**
+ * Placeholders are numbered, so a value can be used more than once.
+ * Streamed uploads are not part of the dialect, see `SQLiteStorage.createAttachmentWriteStream`
+ * @internal
+ */
+export const sqliteDialect: ISqlDialect = {
+  placeholder: index => `?${index}`,
+  now: 'CURRENT_TIMESTAMP',
+  daysAgo: days => `datetime('now', '-' || ${days} || ' days')`,
+  condition: (parsed, param) => compileQuery(parsed, undefined, param),
+  sortField: key => keyToDBField(key),
+  limit: (count, offset) => ` LIMIT ${count}${offset ? ` OFFSET ${offset}` : ''}`,
+  resultAsJson: document => resultAsJson(document),
+  upsertDocument,
+  upsertAttachment,
+  dataRange: range => dataRange(range),
+  dataLength: `length(${dataKey})`,
+  dataSubstring: (from, length) => `substr(${dataKey}, ${from}, ${length})`
+};
+
+/**
+ * SQLite has no date type, dates are saved as UTC text `YYYY-MM-DD HH:MM:SS`
+ */
+const dateColumns = [createdAtKey, updatedAtKey, deletedAtKey, 'replacedAt', 'changedAt'];
+
+/**
+ * Read the dates of a row as `Date` objects, like other databases
+ * @internal
+ * @param row
+ */
+export const parseDates = (row: any) => {
+  dateColumns.forEach(column => {
+    if (typeof row[column] === 'string') {
+      row[column] = new Date(`${row[column].replace(' ', 'T')}Z`);
+    }
+  });
+  return row;
+};
+
+/**
+ * Dates are compared with the dates saved by SQLite, so they are sent in the same format
+ * @internal
+ * @param value
+ */
+export const bindValue = (value: any) => value instanceof Date ? value.toISOString().replace('T', ' ').slice(0, 19) : value;
+
+/**
+ * Run a statement that does not return rows.
+ * Resolves with the number of rows it changed, without the ones changed by triggers.
+ * @internal
+ * @param db
+ * @param sql
+ * @param values
+ */
+export const run = (db: Database, sql: string, values: any[] = []) => {
+  return new Promise<ISqlResult<any>>((resolve, reject) => {
+    db.run(sql, values, function changed(this: RunResult, err) {
+      return err ? reject(err) : resolve({rows: [], rowCount: this.changes, insertId: this.lastID});
+    });
+  });
+};
+
+/**
+ * Run a statement and return all rows.
+ * @internal
+ * @param db
+ * @param sql
+ * @param values
+ */
+export const all = <T>(db: Database, sql: string, values: any[] = []) => {
+  return new Promise<ISqlResult<T>>((resolve, reject) => {
+    db.all(sql, values, (err, rows) => err ? reject(err) : resolve({rows: rows.map(parseDates), rowCount: rows.length}));
+  });
+};
+
+/**
+ * The driver returns either the rows of a statement or the number of rows it changed
+ * @internal
+ * @param db
+ * @param query
+ */
+export const execute = <T>(db: Database, query: ISqlQuery): Promise<ISqlResult<T>> => {
+  const values = query.values.map(bindValue);
+  return /^\s*SELECT\b/i.test(query.text) ? all<T>(db, query.text, values) : run(db, query.text, values);
+};
+
+/**
+ * Close the database once all statements are done
+ * @internal
+ * @param db
+ */
+export const closeDatabase = (db: Database) => {
+  return new Promise<void>((resolve, reject) => {
+    db.close(err => err ? reject(err) : resolve());
+  });
+};
+
+// the database is locked by another connection or cannot be opened
+const unavailableErrorCodes = ['SQLITE_BUSY', 'SQLITE_LOCKED', 'SQLITE_CANTOPEN'];
+
+/**
+ * `409` for constraint violations, `503` when the database is busy
+ * or cannot be opened, `500` otherwise.
+ * @param code SQLite error code
+ */
+const errorStatus = (code: string) => {
+  if (code === 'SQLITE_CONSTRAINT') {
+    return 409;
+  }
+  return unavailableErrorCodes.indexOf(code) === -1 ? 500 : 503;
+};
+
+/**
+ * Convert a database error to a jIO error with a meaningful status code
+ * @internal
+ * @param error
+ */
+export const toJioError = (error: any) => {
+  if (error instanceof jIO.util.jIOError) {
+    return error;
+  }
+  const {message = 'Unknown database error', code = ''} = error || {};
+  return new jIO.util.jIOError(message, errorStatus(code));
+};
+
+/**
+ * Execute queries within a transaction
+ * @internal
+ * @param db
+ * @param transactions
+ * @param ignoreErrors Log errors instead of rejecting
+ */
+export const safeTransaction = async (db: Database, transactions: () => Promise<any>, ignoreErrors = false) => {
+  try {
+    await run(db, 'BEGIN');
+    await transactions();
+    await run(db, 'COMMIT');
+  }
+  catch (error) {
+    await run(db, 'ROLLBACK').catch(() => {});
+    if (!ignoreErrors) {
+      throw toJioError(error);
+    }
+    console.error(error);
+  }
+};
+
+/**
+ * @internal
+ * @param query
+ * @param ignoreErrors Log errors and return an empty result instead of rejecting
+ */
+export const safeQuery = async <T>(query: () => Promise<ISqlResult<T>>, ignoreErrors = false) => {
+  let result: ISqlResult<T> = {
+    rows: [],
+    rowCount: 0
+  };
+  try {
+    result = await query();
+  }
+  catch (error) {
+    if (!ignoreErrors) {
+      throw toJioError(error);
+    }
+    console.error(error);
+  }
+  return result;
+};
+
+/**
+ * @internal
+ */
+export class SQLiteStorage extends SqlStorage<Database> {
+  private _lock: Promise<any> = Promise.resolve();
+
+  /**
+   * Initiate a SQLite Storage.
+   * @param options Storage options
+   */
+  constructor(options: ISQLiteStorageOptions) {
+    super(options, 'SQLite');
+    this._dbPromise = this.initDb(options);
+  }
+
+  /**
+   * @internal
+   */
+  protected dialect() {
+    return sqliteDialect;
+  }
+
+  /**
+   * @internal
+   */
+  private initDb(options: ISQLiteStorageOptions) {
+    // the database file is created when opened if it does not exist yet
+    const db = new Database(options.database);
+    return getQueue()
+      .push(() => {
+        return safeTransaction(db, () => {
+          return Promise.all([
+            run(db, createDocumentsTable(this._documentsTable, this._timestamps)),
+            run(db, createAttachmentsTable(this._attachmentsTable, this._timestamps)),
+            ...(this._attachmentHistory ? [
+              run(db, createAttachmentsHistoryTable(this._attachmentsHistoryTable, this._timestamps))
+            ] : []),
+            ...(this._history ? [run(db, createDocumentsHistoryTable(this._documentsHistoryTable))] : [])
+          ]);
+        }, this._ignoreErrors);
+      })
+      .push(() => {
+        // tables created by previous versions only have the data URI column,
+        // and their triggers would archive or remove rows a second time
+        const tables = this.attachmentTables();
+        const statements = tables.reduce((prev: string[], table) => prev.concat(addBinaryColumns(table), addMetadataColumns(table)), []);
+        if (this._softDelete) {
+          statements.push(addDeletedAtColumn(this._documentsTable));
+        }
+        statements.push(...dropLegacyTriggers(this._attachmentsTable, this._attachmentsHistoryTable, this._documentsHistoryTable));
+        return safeTransaction(db, () => {
+          return Promise.all(statements.map(sql => run(db, sql).catch(() => {})));
+        }, this._ignoreErrors);
+      })
+      .push(() => {
+        return safeTransaction(db, () => {
+          return Promise.all([
+            // documents are upserted on their id, attachments on their id and name
+            run(db, removeDuplicates(this._documentsTable, [idKey])).then(() => run(db, uniqueIndexTable(this._documentsTable, [idKey]))),
+            run(db, removeDuplicates(this._attachmentsTable, [idKey, 'name']))
+              .then(() => run(db, uniqueIndexTable(this._attachmentsTable, [idKey, 'name']))),
+            run(db, addRevisionColumn(this._attachmentsTable)).catch(() => {}),
+            ...(this._attachmentHistory ? [run(db, uniqueIndexTable(this._attachmentsHistoryTable, [idKey, 'name', 'revision']))] : []),
+            ...(this._history ? [run(db, uniqueIndexTable(this._documentsHistoryTable, [idKey, 'revision']))] : []),
+            // tombstones are listed and purged by removal date
+            ...(this._softDelete ? [run(db, indexTable(this._documentsTable, [deletedAtKey]))] : []),
+            // create index on id key for attachments
+            run(db, indexTable(this._attachmentsTable, [idKey])).catch(() => {}),
+            // indexes the most common fields when doing a query
+            run(db, indexTable(this._documentsTable, [
+              keyToDBField(queryPortalType),
+              keyToDBField(queryGroupingReference)
+            ], `${this._documentsTable}_index_queries`)).catch(() => {}),
+            // additional indexes from options
+            ...this._indexes.map(index => run(db, indexFields(this._documentsTable, index)).catch(() => {}))
+          ]);
+        }, this._ignoreErrors);
+      })
+      .push(() => {
+        // the triggers are created once duplicates are removed, so removing them is not recorded
+        return safeTransaction(db, async () => {
+          for (const sql of this.changesStatements()) {
+            await run(db, sql);
+          }
+        }, this._ignoreErrors);
+      })
+      .push(() => this._pool = db);
+  }
+
+  /**
+   * Create the changes table and the triggers recording them with `changeFeed`, or drop the triggers without it.
+   * Triggers are dropped first as they depend on `softDelete`, statements must run in order
+   * @internal
+   */
+  private changesStatements() {
+    const statements = ['insert', 'update', 'delete'].map(type => dropTrigger(`${this._changesTable}_${type}`));
+    if (!this._changeFeed) {
+      return statements;
+    }
+    return [
+      createChangesTable(this._changesTable),
+      ...statements,
+      ...changesTriggers(this._changesTable, this._documentsTable, this._softDelete)
+    ];
+  }
+
+  /**
+   * Run a task once the previous ones are done.
+   * The database connection is shared by all calls, so a transaction must not see the statements of another call.
+   * @internal
+   * @param task
+   */
+  private exclusive<T>(task: () => Promise<T>) {
+    const result = this._lock.then(task);
+    this._lock = result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * Execute a query.
+   * @internal
+   * @param query
+   */
+  protected executeQuery<T>(query: ISqlQuery) {
+    return this.pool().push(db => {
+      return promiseToQueue(this.track(this.exclusive(() => safeQuery<T>(() => {
+        return execute<T>(db, query);
+      }, this._ignoreErrors))));
+    });
+  }
+
+  /**
+   * Execute several statements, in order, within a single transaction.
+   * @internal
+   * @param queries
+   */
+  protected executeTransaction(queries: ISqlQuery[]) {
+    let rowCount = 0;
+    return this.pool().push(db => {
+      return promiseToQueue(this.track(this.exclusive(() => safeTransaction(db, async () => {
+        for (const query of queries) {
+          rowCount += (await execute(db, query)).rowCount;
+        }
+      }, this._ignoreErrors))));
+    }).push(() => rowCount);
+  }
+
+  /**
+   * Write an attachment from a stream of buffers.
+   * SQLite rewrites binary data to append to it, so chunks are kept until the stream finishes,
+   * then the attachment is replaced at once.
+   * @param id
+   * @param name
+   * @param options
+   */
+  createAttachmentWriteStream(id: string, name: string, options: ISQLiteAttachmentWriteStreamOptions = {}) {
+    const chunks: Buffer[] = [];
+    return attachmentWriteStream({
+      write: chunk => Promise.resolve(chunks.push(chunk)),
+      commit: () => queueToPromise(this.putAttachment(id, name, new JioBlob(chunks, {type: options.contentType || ''}))),
+      abort: () => Promise.resolve(chunks.splice(0))
+    });
+  }
+
+  /**
+   * @internal
+   */
+  protected endPool(db: Database) {
+    return closeDatabase(db);
+  }
+}
+
+export interface ISQLiteOptions extends IClearRoadOptions {
+  localStorage: ISQLiteStorageOptions;
+  /**
+   * SQLite supports JSON queries
+   */
+  useQueryStorage?: false;
+}
+
+const storageName = 'sqlite';
+jIO.addStorage(storageName, SQLiteStorage);
+export default storageName;